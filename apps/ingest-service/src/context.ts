@@ -3,6 +3,8 @@ import type { HonoApp, SharedHonoEnv, SharedHonoVariables } from '@repo/hono-hel
 export type Env = SharedHonoEnv & {
 	DOCS_BUCKET: R2Bucket
 	VECTORIZE_INDEX: VectorizeIndex
+	// Second index of the blue/green pair, written by embedding model migrations
+	VECTORIZE_INDEX_GREEN: VectorizeIndex
 	AI: Ai
 	VECTORIZE_INDEX_ID: string
 	AI_ACCOUNT_ID: string
@@ -12,9 +14,24 @@ export type Env = SharedHonoEnv & {
 	DOCUMENT_INGESTION_QUEUE: Queue
 	WEBHOOK_PROCESSING_QUEUE: Queue
 	BATCH_REPROCESSING_QUEUE: Queue
+	// Fast lane for critical and high priority messages of any type
+	PRIORITY_PROCESSING_QUEUE: Queue
 
 	// Coordination service binding
 	DOCUMENT_COORDINATOR: DurableObjectNamespace
+
+	// Embedding model id from the rag-core registry, shared with the query service
+	EMBEDDING_MODEL?: string
+
+	// Secret keying the hashes in DLP redaction reports
+	DLP_AUDIT_SALT?: string
+
+	// Webhook verification per source: the clientState of the Graph subscriptions, and the
+	// secrets X-Hub-Signature headers are signed with. Unset, requests are not checked.
+	SHAREPOINT_CLIENT_STATE?: string
+	CONFLUENCE_WEBHOOK_SECRET?: string
+	JIRA_WEBHOOK_SECRET?: string
+	WEBSITE_WEBHOOK_SECRET?: string
 }
 
 /** Variables can be extended */
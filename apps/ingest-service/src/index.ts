@@ -1,7 +1,6 @@
 import { Scalar } from '@scalar/hono-api-reference'
 import { Hono } from 'hono'
 import { openAPIRouteHandler, validator as zValidator } from 'hono-openapi'
-import { cache } from 'hono/cache'
 import { cors } from 'hono/cors'
 import { showRoutes } from 'hono/dev'
 import { logger } from 'hono/logger'
@@ -10,30 +9,58 @@ import { requestId } from 'hono/request-id'
 import { secureHeaders } from 'hono/secure-headers'
 import { timing } from 'hono/timing'
 
+import { extractDocument, sha256Hex, sourceRegistry } from '@repo/rag-core'
+
 import {
 	batchReprocessRouteConfig,
+	deleteDocumentRouteConfig,
+	dlpReportRouteConfig,
+	DocumentParamsSchema,
 	healthRouteConfig,
+	indexMigrationRouteConfig,
 	ProcessDocumentSchema,
 	processRouteConfig,
 	processWorkflowRouteConfig,
 	queueProcessRouteConfig,
+	resumeIndexMigrationRouteConfig,
+	rollbackIndexRouteConfig,
+	startIndexMigrationRouteConfig,
 	StatusParamsSchema,
 	statusRouteConfig,
+	switchIndexRouteConfig,
+	uploadRouteConfig,
 	webhookRouteConfig,
 	WorkflowParamsSchema,
 	workflowStatusRouteConfig,
 } from './routes'
 import {
 	BatchReprocessRequestSchema,
+	DeleteDocumentQuerySchema,
+	IndexMigrationQuerySchema,
 	QueueProcessRequestSchema,
+	StartIndexMigrationRequestSchema,
+	UploadFormSchema,
 	WebhookRequestSchema,
 } from './schemas'
-import { processDocument } from './utils'
-import { QueueManager } from './utils/queue'
+import {
+	callIndexCoordinator,
+	getManifest,
+	getRedactionReport,
+	listManifestDocumentIds,
+	processDocument,
+	resolveVectorIndex,
+	storeOriginalInR2,
+} from './utils'
+import { QueueManager, scheduledTimeOf } from './utils/queue'
 
+import type { ExtractedDocument } from '@repo/rag-core'
 import type { App } from './context'
+import type { ActiveVectorIndex, DocumentMigrationProgress, IndexMigration } from './utils'
 import type { DocumentProcessingParams } from './workflow-processor'
 
+// Largest file accepted by /upload
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024
+
 // Create Hono app with environment typing
 const app = new Hono<App>()
 
@@ -58,16 +85,37 @@ app.use('/process', async (c, next) => {
 	await next()
 })
 
-// Cache middleware for status endpoint
-app.use(
-	'/status/*',
-	cache({
-		cacheName: 'ingest-service-status-cache',
-		cacheControl: 'public, max-age=60, s-maxage=60', // 1 minute cache for status
-		vary: ['Authorization'],
-		cacheableStatusCodes: [200, 404],
-	})
-)
+// Webhooks must pass their source's verification; the body is read raw so signatures match
+app.use('/webhook', async (c, next) => {
+	const body = await c.req.text()
+	let sourceType: unknown
+	try {
+		sourceType = JSON.parse(body).sourceType
+	} catch {
+		// Left to the request validator to reject
+	}
+
+	if (typeof sourceType === 'string' && sourceRegistry.has(sourceType)) {
+		const connector = sourceRegistry.create(sourceType, c.env)
+		if (!(await connector.verifyWebhook(c.req.raw, body))) {
+			return c.json(
+				{
+					error: 'Unauthorized',
+					message: `Webhook verification failed for source ${sourceType}`,
+				},
+				401
+			)
+		}
+	}
+
+	await next()
+})
+
+// Status responses carry the document's ACL and errors, so no cache may keep them
+app.use('/status/*', async (c, next) => {
+	await next()
+	c.header('Cache-Control', 'private, no-store')
+})
 
 // Security headers are now handled by Hono's secureHeaders() middleware
 
@@ -80,6 +128,9 @@ app.get('/', (c) => {
 			'/process',
 			'/process-workflow',
 			'/workflow/{instanceId}',
+			'/upload',
+			'/documents/{docId}',
+			'/dlp/{docId}',
 			'/health',
 			'/status',
 			'/docs',
@@ -162,6 +213,7 @@ app.post(
 	async (c) => {
 		try {
 			const { documents, options } = c.req.valid('json')
+			const queueManager = new QueueManager(c.env)
 			const workflowInstances = []
 
 			for (const doc of documents) {
@@ -170,8 +222,13 @@ app.post(
 					options: options || {},
 				}
 
+				// Tracked before it starts, so the run's own state updates land after 'queued'
+				const instanceId = crypto.randomUUID()
+				await queueManager.trackWorkflowInstance(doc.id, instanceId)
+
 				// Create a workflow instance for each document
 				const instance = await c.env.DOCUMENT_PROCESSING_WORKFLOW.create({
+					id: instanceId,
 					params,
 				})
 
@@ -250,15 +307,132 @@ app.get(
 	}
 )
 
+// Upload a file, extract its text and process it via workflow
+app.post('/upload', uploadRouteConfig, zValidator('form', UploadFormSchema), async (c) => {
+	const { file: upload, id, source, url, acl, ...options } = c.req.valid('form')
+	// zod's File type lacks the Blob methods declared by workers-types
+	const file = upload as File
+
+	if (file.size > MAX_UPLOAD_BYTES) {
+		return c.json(
+			{
+				error: 'Payload too large',
+				message: `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit`,
+			},
+			413
+		)
+	}
+
+	try {
+		const bytes = new Uint8Array(await file.arrayBuffer())
+
+		// The declared MIME type is not trusted, the format comes from the file's bytes
+		let extracted: ExtractedDocument
+		try {
+			extracted = await extractDocument(bytes)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : ''
+			if (message.includes('Unsupported document type')) {
+				return c.json(
+					{
+						error: 'Unsupported media type',
+						message: `Unsupported file type: ${file.type || file.name}`,
+					},
+					415
+				)
+			}
+			if (message.includes('size limit')) {
+				return c.json({ error: 'Payload too large', message }, 413)
+			}
+			throw error
+		}
+
+		if (!extracted.text.trim()) {
+			return c.json(
+				{
+					error: 'Unprocessable entity',
+					message: 'No text could be extracted from the file',
+				},
+				422
+			)
+		}
+
+		const docId = id || (await sha256Hex(bytes))
+		const originalKey = `originals/${docId}`
+
+		await storeOriginalInR2(
+			originalKey,
+			bytes,
+			extracted.mimeType,
+			{ doc_id: docId, source, file_name: file.name, format: extracted.format },
+			c.env
+		)
+
+		const params: DocumentProcessingParams = {
+			document: {
+				id: docId,
+				text: extracted.text,
+				source,
+				url,
+				metadata: {
+					acl: acl ? acl.split(',').map((entry) => entry.trim()) : [],
+					file_name: file.name,
+					mime_type: extracted.mimeType,
+					original_key: originalKey,
+					part_count: extracted.parts.length,
+				},
+			},
+			options,
+		}
+
+		const instanceId = crypto.randomUUID()
+		await new QueueManager(c.env).trackWorkflowInstance(docId, instanceId)
+		const instance = await c.env.DOCUMENT_PROCESSING_WORKFLOW.create({ id: instanceId, params })
+
+		console.log(
+			`Created workflow instance ${instance.id} for uploaded ${extracted.format} document ${docId}`
+		)
+
+		return c.json(
+			{
+				success: true,
+				message: `Extracted ${extracted.format} document queued for processing`,
+				documentId: docId,
+				workflowInstanceId: instance.id,
+				format: extracted.format,
+				mimeType: extracted.mimeType,
+				originalKey,
+				parts: extracted.parts.map(({ kind, number, title }) => ({ kind, number, title })),
+			},
+			202
+		)
+	} catch (error) {
+		console.error('Upload error:', error)
+		return c.json(
+			{
+				error: 'Internal server error',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
 // Document status route
 app.get('/status/:docId', statusRouteConfig, zValidator('param', StatusParamsSchema), async (c) => {
 	const { docId } = c.req.valid('param')
 
 	try {
-		// Check if document exists in R2
-		const object = await c.env.DOCS_BUCKET.head(`chunks/${docId}#0.txt`)
+		const queueManager = new QueueManager(c.env)
+		const [manifest, state] = await Promise.all([
+			getManifest(docId, c.env),
+			queueManager.getProcessingStatus(docId),
+		])
 
-		if (!object) {
+		// Documents ingested before manifests were written only have their chunks
+		const object = manifest ?? (await c.env.DOCS_BUCKET.head(`chunks/${docId}#0.txt`))
+
+		if (!object && !state.status) {
 			return c.json(
 				{
 					error: 'Not found',
@@ -268,16 +442,64 @@ app.get('/status/:docId', statusRouteConfig, zValidator('param', StatusParamsSch
 			)
 		}
 
+		let workflow: { instanceId: string; status: string; error?: string } | undefined
+		if (state.workflowInstanceId) {
+			try {
+				const instance = await c.env.DOCUMENT_PROCESSING_WORKFLOW.get(state.workflowInstanceId)
+				const { status, error } = await instance.status()
+				workflow = { instanceId: state.workflowInstanceId, status, error }
+			} catch {
+				// Finished instances are only kept for a while
+				workflow = { instanceId: state.workflowInstanceId, status: 'unknown' }
+			}
+		}
+
+		const status = manifest?.deletedAt
+			? 'deleted'
+			: object
+				? 'found'
+				: state.status === 'failed'
+					? 'failed'
+					: 'processing'
+
 		return c.json(
 			{
-				status: 'found',
+				status,
 				timestamp: new Date().toISOString(),
-				message: 'Document found',
+				message: manifest?.deletedAt
+					? 'Document deleted'
+					: object
+						? 'Document found'
+						: 'Document not indexed yet',
 				details: {
 					worker: 'ingest-service',
 					version: '1.0.0',
-					environment: 'production',
+					environment: c.env.ENVIRONMENT,
 				},
+				document: manifest
+					? {
+							chunkCount: manifest.chunks.length,
+							embeddingModel: manifest.embeddingModel,
+							chunkingStrategy: manifest.chunkingStrategy,
+							ingestedAt: manifest.ingestedAt,
+							deletedAt: manifest.deletedAt,
+							source: manifest.source,
+							url: manifest.url,
+							acl: manifest.metadata.acl || [],
+						}
+					: undefined,
+				processing: state.status
+					? {
+							status: state.status,
+							progress: state.progress!,
+							startedAt: state.startedAt!,
+							lastUpdatedAt: state.lastUpdatedAt!,
+							completedAt: state.completedAt,
+							metadata: state.metadata,
+						}
+					: undefined,
+				workflow: workflow && { instanceId: workflow.instanceId, status: workflow.status },
+				lastError: workflow?.error || state.error,
 			},
 			200
 		)
@@ -292,6 +514,93 @@ app.get('/status/:docId', statusRouteConfig, zValidator('param', StatusParamsSch
 	}
 })
 
+// Delete a document, soft by default
+app.delete(
+	'/documents/:docId',
+	deleteDocumentRouteConfig,
+	zValidator('param', DocumentParamsSchema),
+	zValidator('query', DeleteDocumentQuerySchema),
+	async (c) => {
+		const { docId } = c.req.valid('param')
+		const { mode, reason } = c.req.valid('query')
+
+		try {
+			const queueManager = new QueueManager(c.env)
+
+			const result = await queueManager.queueDocumentDeletion(docId, {
+				hardDelete: mode === 'hard',
+				reason,
+				priority: 'high',
+			})
+
+			if (!result.success) {
+				return c.json(
+					{
+						error: 'Failed to queue document deletion',
+						message: result.error || 'Unknown error',
+					},
+					500
+				)
+			}
+
+			return c.json(
+				{
+					success: true,
+					message: `${mode === 'hard' ? 'Hard' : 'Soft'} delete queued for document ${docId}`,
+					documentId: docId,
+					mode,
+					messageId: result.messageId,
+					statusUrl: `/queue/status/${docId}`,
+				},
+				202
+			)
+		} catch (error) {
+			console.error('Document deletion error:', error)
+			return c.json(
+				{
+					error: 'Internal server error',
+					message: error instanceof Error ? error.message : 'Unknown error',
+				},
+				500
+			)
+		}
+	}
+)
+
+// DLP redaction report route
+app.get(
+	'/dlp/:docId',
+	dlpReportRouteConfig,
+	zValidator('param', DocumentParamsSchema),
+	async (c) => {
+		const { docId } = c.req.valid('param')
+
+		try {
+			const report = await getRedactionReport(docId, c.env)
+
+			if (!report) {
+				return c.json(
+					{
+						error: 'Not found',
+						message: 'No redaction report for this document',
+					},
+					404
+				)
+			}
+
+			return c.json(report, 200)
+		} catch (error) {
+			return c.json(
+				{
+					error: 'Internal server error',
+					message: error instanceof Error ? error.message : 'Unknown error',
+				},
+				500
+			)
+		}
+	}
+)
+
 // Queue-based processing endpoints
 
 // Queue documents for processing
@@ -302,14 +611,27 @@ app.post(
 	async (c) => {
 		try {
 			const requestData = c.req.valid('json')
-			const { documents, options = {} } = requestData
+			const { documents, options } = requestData
 
 			const queueManager = new QueueManager(c.env)
+			const scheduledTime = scheduledTimeOf(options)
 
 			// Queue documents for processing
 			const result = await queueManager.queueDocumentBatch(documents, {
 				priority: options?.priority || 'medium',
 				source: options?.source || 'api',
+				strategy: options?.strategy,
+				chunkSize: options?.chunkSize,
+				overlap: options?.overlap,
+				maxTokens: options?.maxTokens,
+				minTokens: options?.minTokens,
+				similarityThreshold: options?.similarityThreshold,
+				dlpEnabled: options?.dlpEnabled,
+				dlpPolicy: options?.dlpPolicy,
+				forceReprocess: options?.forceReprocess,
+				incrementalUpdate: options?.incrementalUpdate,
+				embeddingBatchSize: options?.embeddingBatchSize,
+				scheduledTime,
 			})
 
 			const messageIds: string[] = [] // TODO: Collect actual message IDs from queue results
@@ -321,6 +643,7 @@ app.post(
 					queuedCount: result.queuedCount,
 					totalDocuments: documents.length,
 					messageIds,
+					scheduledFor: scheduledTime ? new Date(scheduledTime).toISOString() : undefined,
 					errors: result.errors.length > 0 ? result.errors : undefined,
 				},
 				result.success ? 202 : 207
@@ -353,6 +676,7 @@ app.post('/webhook', webhookRouteConfig, zValidator('json', WebhookRequestSchema
 		} = requestData
 
 		const queueManager = new QueueManager(c.env)
+		const scheduledTime = scheduledTimeOf(options)
 
 		// Queue webhook event for processing
 		const result = await queueManager.queueWebhookEvent(
@@ -364,6 +688,7 @@ app.post('/webhook', webhookRouteConfig, zValidator('json', WebhookRequestSchema
 			{
 				priority: options?.priority || 'high',
 				changeToken,
+				scheduledTime,
 			}
 		)
 
@@ -375,6 +700,7 @@ app.post('/webhook', webhookRouteConfig, zValidator('json', WebhookRequestSchema
 					messageId: result.messageId,
 					eventType,
 					resourceId,
+					scheduledFor: scheduledTime ? new Date(scheduledTime).toISOString() : undefined,
 				},
 				202
 			)
@@ -414,6 +740,7 @@ app.post(
 
 			// Queue batch reprocessing
 			const result = await queueManager.queueBatchReprocess(documentIds, reason, {
+				...options,
 				forceFullReprocess: options?.forceFullReprocess || false,
 				preserveVersions: options?.preserveVersions || true,
 				priority: options?.priority || 'low',
@@ -478,6 +805,249 @@ app.get('/queue/status/:docId', async (c) => {
 	}
 })
 
+// Start a blue/green embedding model migration
+app.post(
+	'/admin/index-migration',
+	startIndexMigrationRouteConfig,
+	zValidator('json', StartIndexMigrationRequestSchema),
+	async (c) => {
+		try {
+			const { model } = c.req.valid('json')
+
+			const active = await resolveVectorIndex(c.env)
+			if (model === active.model) {
+				return c.json(
+					{
+						error: 'Model already active',
+						message: `${model} is already the model of the ${active.slot} index`,
+					},
+					400
+				)
+			}
+
+			// Every document, so the switch cannot serve an index missing some of them
+			const ids = await listManifestDocumentIds(c.env)
+			const started = await callIndexCoordinator<{ migration: IndexMigration }>(
+				c.env,
+				'start-migration',
+				{ body: { fromModel: active.model, toModel: model, documentIds: ids } }
+			)
+			if (!started.ok) {
+				return c.json(
+					{
+						error: 'Failed to start index migration',
+						message: started.data.error || 'Unknown error',
+					},
+					409
+				)
+			}
+
+			const { migration } = started.data
+			const queued = await new QueueManager(c.env).queueIndexMigration(migration.id, ids)
+			if (!queued.success) {
+				return c.json(
+					{
+						error: 'Failed to queue index migration',
+						message: queued.error || 'Unknown error',
+					},
+					500
+				)
+			}
+
+			return c.json(
+				{
+					active,
+					migration,
+					coverage: ids.length > 0 ? 0 : 1,
+					queuedDocuments: ids.length,
+					messageIds: queued.messageIds,
+				},
+				202
+			)
+		} catch (error) {
+			console.error('Index migration start error:', error)
+			return c.json(
+				{
+					error: 'Failed to start index migration',
+					message: error instanceof Error ? error.message : 'Unknown error',
+				},
+				500
+			)
+		}
+	}
+)
+
+// Get the active index and migration progress
+app.get(
+	'/admin/index-migration',
+	indexMigrationRouteConfig,
+	zValidator('query', IndexMigrationQuerySchema),
+	async (c) => {
+		try {
+			const { status } = c.req.valid('query')
+			const { data } = await callIndexCoordinator<{
+				active: ActiveVectorIndex | null
+				migration: IndexMigration | null
+				coverage: number | null
+				documents?: DocumentMigrationProgress[]
+			}>(c.env, 'get-migration', { query: status ? { status } : {} })
+
+			return c.json(data)
+		} catch (error) {
+			console.error('Index migration status error:', error)
+			return c.json(
+				{
+					error: 'Failed to get index migration status',
+					message: error instanceof Error ? error.message : 'Unknown error',
+				},
+				500
+			)
+		}
+	}
+)
+
+// Queue pending and failed documents of the running migration again
+app.post('/admin/index-migration/resume', resumeIndexMigrationRouteConfig, async (c) => {
+	try {
+		const documents: DocumentMigrationProgress[] = []
+		let migration: IndexMigration | null = null
+		for (const status of ['pending', 'failed']) {
+			const { data } = await callIndexCoordinator<{
+				migration: IndexMigration | null
+				documents: DocumentMigrationProgress[]
+			}>(c.env, 'get-migration', { query: { status } })
+			migration = data.migration
+			documents.push(...data.documents)
+		}
+
+		if (!migration || (migration.status !== 'running' && migration.status !== 'ready')) {
+			return c.json(
+				{
+					error: 'No index migration running',
+					message: migration ? `Index migration is ${migration.status}` : 'No index migration',
+				},
+				409
+			)
+		}
+
+		const ids = documents.map((document) => document.documentId)
+		const queued = await new QueueManager(c.env).queueIndexMigration(migration.id, ids)
+		if (!queued.success) {
+			return c.json(
+				{
+					error: 'Failed to queue index migration',
+					message: queued.error || 'Unknown error',
+				},
+				500
+			)
+		}
+
+		return c.json(
+			{
+				active: await resolveVectorIndex(c.env),
+				migration,
+				coverage:
+					migration.totalDocuments > 0 ? migration.migratedDocuments / migration.totalDocuments : 1,
+				queuedDocuments: ids.length,
+				messageIds: queued.messageIds,
+			},
+			202
+		)
+	} catch (error) {
+		console.error('Index migration resume error:', error)
+		return c.json(
+			{
+				error: 'Failed to resume index migration',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
+// Flip queries and ingests to the migrated index, only at 100% coverage
+app.post('/admin/index-migration/switch', switchIndexRouteConfig, async (c) => {
+	try {
+		const { ok, data } = await callIndexCoordinator<{
+			active: ActiveVectorIndex
+			migration: IndexMigration
+		}>(c.env, 'switch-index', { body: {} })
+		if (!ok) {
+			return c.json(
+				{ error: 'Failed to switch index', message: data.error || 'Unknown error' },
+				409
+			)
+		}
+
+		return c.json({ active: data.active, migration: data.migration, coverage: 1 })
+	} catch (error) {
+		console.error('Index switch error:', error)
+		return c.json(
+			{
+				error: 'Failed to switch index',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
+// Cancel a running migration or switch back to the previous index
+app.post('/admin/index-migration/rollback', rollbackIndexRouteConfig, async (c) => {
+	try {
+		const { ok, data } = await callIndexCoordinator<{
+			active: ActiveVectorIndex | null
+			migration: IndexMigration
+			documentIds?: string[]
+		}>(c.env, 'rollback-index', { body: {} })
+		if (!ok) {
+			return c.json(
+				{ error: 'Failed to roll back index', message: data.error || 'Unknown error' },
+				409
+			)
+		}
+
+		// Documents changed since the switch are migrated back before the previous index is served
+		if (data.documentIds) {
+			const queued = await new QueueManager(c.env).queueIndexMigration(
+				data.migration.id,
+				data.documentIds
+			)
+			if (!queued.success) {
+				return c.json(
+					{
+						error: 'Failed to queue index migration',
+						message: queued.error || 'Unknown error',
+					},
+					500
+				)
+			}
+
+			return c.json(
+				{
+					active: data.active,
+					migration: data.migration,
+					coverage: 0,
+					queuedDocuments: data.documentIds.length,
+					messageIds: queued.messageIds,
+				},
+				202
+			)
+		}
+
+		return c.json({ active: data.active, migration: data.migration, coverage: null })
+	} catch (error) {
+		console.error('Index rollback error:', error)
+		return c.json(
+			{
+				error: 'Failed to roll back index',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
 // OpenAPI spec generation
 app.get(
 	'/openapi.json',
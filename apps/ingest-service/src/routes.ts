@@ -3,14 +3,19 @@ import { describeRoute, resolver } from 'hono-openapi'
 import {
 	BatchReprocessRequestSchema,
 	BatchReprocessResponseSchema,
+	DeleteDocumentResponseSchema,
+	DocumentParamsSchema,
 	ErrorResponseSchema,
 	HealthResponseSchema,
+	IndexMigrationResponseSchema,
 	ProcessDocumentSchema,
 	ProcessResponseSchema,
 	QueueProcessRequestSchema,
 	QueueProcessResponseSchema,
+	RedactionReportSchema,
 	StatusParamsSchema,
 	StatusResponseSchema,
+	UploadResponseSchema,
 	WebhookRequestSchema,
 	WebhookResponseSchema,
 	WorkflowParamsSchema,
@@ -237,7 +242,8 @@ export const queueProcessRouteConfig = describeRoute({
 export const webhookRouteConfig = describeRoute({
 	tags: ['Webhooks'],
 	summary: 'Handle webhook events',
-	description: 'Process webhook events from external systems (SharePoint, Confluence, etc.)',
+	description:
+		'Process webhook events from a registered source connector, verified the way that source signs them',
 	requestBody: {
 		description: 'Webhook event data',
 		content: {
@@ -264,6 +270,14 @@ export const webhookRouteConfig = describeRoute({
 				},
 			},
 		},
+		401: {
+			description: 'Webhook verification failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
 		500: {
 			description: 'Internal server error',
 			content: {
@@ -317,5 +331,315 @@ export const batchReprocessRouteConfig = describeRoute({
 	},
 })
 
+// Upload route configuration
+export const uploadRouteConfig = describeRoute({
+	tags: ['Documents'],
+	summary: 'Upload a document file',
+	description:
+		'Extract text with page, slide and sheet headings from a PDF, DOCX, PPTX or XLSX file, store the original in R2 and process it via workflow',
+	responses: {
+		202: {
+			description: 'Document extracted and queued for processing',
+			content: {
+				'application/json': {
+					schema: resolver(UploadResponseSchema),
+				},
+			},
+		},
+		413: {
+			description: 'File too large',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		415: {
+			description: 'Unsupported file type',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		422: {
+			description: 'No text could be extracted',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Upload failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Delete document route configuration
+export const deleteDocumentRouteConfig = describeRoute({
+	tags: ['Documents'],
+	summary: 'Delete a document',
+	description:
+		'Queue a soft or hard delete of a document. Progress is reported by /queue/status/{docId}',
+	parameters: [
+		{
+			name: 'docId',
+			in: 'path',
+			required: true,
+			schema: {
+				type: 'string',
+			},
+			description: 'Document ID to delete',
+		},
+	],
+	responses: {
+		202: {
+			description: 'Deletion queued',
+			content: {
+				'application/json': {
+					schema: resolver(DeleteDocumentResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Deletion could not be queued',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// DLP redaction report route configuration
+export const dlpReportRouteConfig = describeRoute({
+	tags: ['Documents'],
+	summary: 'Get DLP redaction report',
+	description:
+		'Get the audit record of every DLP hit in a document: entity type, chunk index, offsets and a salted hash of the value',
+	parameters: [
+		{
+			name: 'docId',
+			in: 'path',
+			required: true,
+			schema: {
+				type: 'string',
+			},
+			description: 'Document ID',
+		},
+	],
+	responses: {
+		200: {
+			description: 'Redaction report retrieved',
+			content: {
+				'application/json': {
+					schema: resolver(RedactionReportSchema),
+				},
+			},
+		},
+		404: {
+			description: 'No redaction report for the document',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Report retrieval failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Start index migration route configuration
+export const startIndexMigrationRouteConfig = describeRoute({
+	tags: ['Index Migration'],
+	summary: 'Start an embedding model migration',
+	description:
+		'Re-embed every document with a new model into the inactive Vectorize index. Queries keep reading the active index until the switch',
+	responses: {
+		202: {
+			description: 'Migration started and documents queued',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		400: {
+			description: 'Unknown or already active model',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		409: {
+			description: 'A migration is already running',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Migration could not be started',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Index migration status route configuration
+export const indexMigrationRouteConfig = describeRoute({
+	tags: ['Index Migration'],
+	summary: 'Get index migration status',
+	description:
+		'Get the active index, the current migration and its coverage, optionally with the documents in one state',
+	responses: {
+		200: {
+			description: 'Index migration status',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Status retrieval failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Resume index migration route configuration
+export const resumeIndexMigrationRouteConfig = describeRoute({
+	tags: ['Index Migration'],
+	summary: 'Resume an index migration',
+	description:
+		'Queue the pending and failed documents of the running migration again, e.g. after failures or re-ingests',
+	responses: {
+		202: {
+			description: 'Documents queued',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		409: {
+			description: 'No migration is running',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Documents could not be queued',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Switch index route configuration
+export const switchIndexRouteConfig = describeRoute({
+	tags: ['Index Migration'],
+	summary: 'Switch queries to the migrated index',
+	description:
+		'Atomically make the migration target the active index and model. Only allowed at 100% coverage',
+	responses: {
+		200: {
+			description: 'Index switched',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		409: {
+			description: 'Migration not ready',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Switch failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
+// Rollback index route configuration
+export const rollbackIndexRouteConfig = describeRoute({
+	tags: ['Index Migration'],
+	summary: 'Roll back an index migration',
+	description:
+		'Cancel a running migration, or switch queries back to the index served before the last switch. Documents changed since the switch are first migrated back, then the switch back is made with the switch endpoint',
+	responses: {
+		200: {
+			description: 'Migration cancelled or switch rolled back',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		202: {
+			description: 'Documents changed since the switch queued for migration back',
+			content: {
+				'application/json': {
+					schema: resolver(IndexMigrationResponseSchema),
+				},
+			},
+		},
+		409: {
+			description: 'Nothing to roll back',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+		500: {
+			description: 'Rollback failed',
+			content: {
+				'application/json': {
+					schema: resolver(ErrorResponseSchema),
+				},
+			},
+		},
+	},
+})
+
 // Export validation schemas for reuse
-export { ProcessDocumentSchema, StatusParamsSchema, WorkflowParamsSchema }
+export { DocumentParamsSchema, ProcessDocumentSchema, StatusParamsSchema, WorkflowParamsSchema }
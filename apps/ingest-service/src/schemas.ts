@@ -1,3 +1,9 @@
+import {
+	CHUNK_METADATA_VERSION,
+	EMBEDDING_MODELS,
+	MAX_EMBEDDING_BATCH_SIZE,
+	sourceRegistry,
+} from '@repo/rag-core'
 import { z } from '@repo/workspace-dependencies/zod'
 
 // Document schema
@@ -14,13 +20,41 @@ export const DocumentSchema = z
 		ref: 'Document',
 	})
 
+// Chunking strategy schema
+// fixed: windows of chunkSize words, token: windows of maxTokens embedding model tokens,
+// structure: Markdown/HTML sections, tables and code blocks kept whole within maxTokens,
+// semantic: sentences grouped until embedding similarity drops below similarityThreshold
+export const ChunkingStrategySchema = z
+	.enum(['fixed', 'token', 'structure', 'semantic'])
+	.describe('Chunking strategy')
+	.meta({
+		ref: 'ChunkingStrategy',
+	})
+
+// DLP policy schema
+// redact: typed placeholders such as [EMAIL], mask: all but the last 4 characters hidden,
+// reject-document: fail the document if anything is found, tag-only: report entity types only
+export const DlpPolicySchema = z
+	.enum(['redact', 'mask', 'reject-document', 'tag-only'])
+	.describe('DLP policy')
+	.meta({
+		ref: 'DlpPolicy',
+	})
+
 // Processing options schema
 export const ProcessingOptionsSchema = z
 	.object({
+		strategy: ChunkingStrategySchema.optional(),
 		chunkSize: z.number().optional(),
 		overlap: z.number().optional(),
+		maxTokens: z.number().int().positive().optional(),
+		minTokens: z.number().int().positive().optional(),
+		similarityThreshold: z.number().min(0).max(1).optional(),
 		retryLimit: z.number().optional(),
 		dlpEnabled: z.boolean().optional(),
+		dlpPolicy: DlpPolicySchema.optional(),
+		incrementalUpdate: z.boolean().optional(),
+		embeddingBatchSize: z.number().int().min(1).max(MAX_EMBEDDING_BATCH_SIZE).optional(),
 	})
 	.describe('Processing options')
 	.meta({
@@ -105,6 +139,42 @@ export const StatusResponseSchema = z
 			version: z.string(),
 			environment: z.string(),
 		}),
+		document: z
+			.object({
+				chunkCount: z.number(),
+				embeddingModel: z.string(),
+				chunkingStrategy: z.string(),
+				ingestedAt: z.string(),
+				deletedAt: z.string().optional(),
+				source: z.string(),
+				url: z.string().optional(),
+				acl: z.array(z.string()),
+			})
+			.optional()
+			.describe('From the manifest of the last ingest'),
+		processing: z
+			.object({
+				status: z.string(),
+				progress: z.object({
+					currentStep: z.string(),
+					stepsCompleted: z.number(),
+					totalSteps: z.number(),
+					percentage: z.number(),
+				}),
+				startedAt: z.number(),
+				lastUpdatedAt: z.number(),
+				completedAt: z.number().optional(),
+				metadata: z.record(z.string(), z.any()).optional(),
+			})
+			.optional()
+			.describe('ProcessingState from DocumentCoordinator'),
+		workflow: z
+			.object({
+				instanceId: z.string(),
+				status: z.string(),
+			})
+			.optional(),
+		lastError: z.string().optional(),
 	})
 	.describe('Status response')
 	.meta({
@@ -160,6 +230,15 @@ export const WorkflowStatusSchema = z
 		ref: 'WorkflowStatus',
 	})
 
+// Delivery time of queued work: an ISO 8601 time or a delay in seconds, not both
+const ScheduleSchema = z.object({
+	notBefore: z.iso.datetime({ offset: true }).optional(),
+	delaySeconds: z.number().int().min(0).optional(),
+})
+
+const isSingleSchedule = (options: { notBefore?: string; delaySeconds?: number }) =>
+	options.notBefore === undefined || options.delaySeconds === undefined
+
 // Queue processing schemas
 export const QueueProcessRequestSchema = z
 	.object({
@@ -167,12 +246,21 @@ export const QueueProcessRequestSchema = z
 		options: z
 			.object({
 				priority: z.enum(['low', 'medium', 'high', 'critical']).optional().default('medium'),
+				strategy: ChunkingStrategySchema.optional().default('fixed'),
 				chunkSize: z.number().optional().default(1000),
 				overlap: z.number().optional().default(200),
+				maxTokens: z.number().int().positive().optional(),
+				minTokens: z.number().int().positive().optional(),
+				similarityThreshold: z.number().min(0).max(1).optional(),
 				dlpEnabled: z.boolean().optional().default(false),
+				dlpPolicy: DlpPolicySchema.optional(),
 				forceReprocess: z.boolean().optional().default(false),
+				incrementalUpdate: z.boolean().optional().default(true),
+				embeddingBatchSize: z.number().int().min(1).max(MAX_EMBEDDING_BATCH_SIZE).optional(),
 				source: z.string().optional().default('api'),
+				...ScheduleSchema.shape,
 			})
+			.refine(isSingleSchedule, { message: 'Set notBefore or delaySeconds, not both' })
 			.optional(),
 	})
 	.describe('Queue process request')
@@ -187,6 +275,8 @@ export const QueueProcessResponseSchema = z
 		queuedCount: z.number(),
 		totalDocuments: z.number(),
 		messageIds: z.array(z.string()),
+		// When the documents are processed, if scheduled
+		scheduledFor: z.string().optional(),
 		errors: z
 			.array(
 				z.object({
@@ -204,7 +294,7 @@ export const QueueProcessResponseSchema = z
 // Webhook schemas
 export const WebhookRequestSchema = z
 	.object({
-		sourceType: z.enum(['sharepoint', 'confluence', 'jira', 'website']),
+		sourceType: z.enum(sourceRegistry.sourceTypes()).describe('A registered source connector'),
 		eventType: z.enum(['created', 'updated', 'deleted', 'moved']),
 		resourceId: z.string(),
 		resourceUrl: z.string(),
@@ -213,7 +303,9 @@ export const WebhookRequestSchema = z
 		options: z
 			.object({
 				priority: z.enum(['low', 'medium', 'high', 'critical']).optional().default('high'),
+				...ScheduleSchema.shape,
 			})
+			.refine(isSingleSchedule, { message: 'Set notBefore or delaySeconds, not both' })
 			.optional(),
 	})
 	.describe('Webhook request')
@@ -228,6 +320,8 @@ export const WebhookResponseSchema = z
 		messageId: z.string(),
 		eventType: z.string(),
 		resourceId: z.string(),
+		// When the event is processed, if scheduled
+		scheduledFor: z.string().optional(),
 	})
 	.describe('Webhook response')
 	.meta({
@@ -244,6 +338,14 @@ export const BatchReprocessRequestSchema = z
 				forceFullReprocess: z.boolean().optional().default(false),
 				preserveVersions: z.boolean().optional().default(true),
 				priority: z.enum(['low', 'medium', 'high', 'critical']).optional().default('low'),
+				// schema_change: chunk metadata version to migrate to, the latest by default
+				schemaVersion: z.number().int().min(1).max(CHUNK_METADATA_VERSION).optional(),
+				// policy_change: new ACL and/or a DLP policy to re-scan stored chunks with.
+				// An empty ACL would make the chunks public, so it is refused.
+				newAcl: z.array(z.string().min(1)).min(1).optional(),
+				dlpPolicy: DlpPolicySchema.optional(),
+				// Report per-document diffs without writing anything
+				dryRun: z.boolean().optional().default(false),
 			})
 			.optional(),
 	})
@@ -265,6 +367,208 @@ export const BatchReprocessResponseSchema = z
 		ref: 'BatchReprocessResponse',
 	})
 
+// Upload form schema
+export const UploadFormSchema = z
+	.object({
+		file: z.file().describe('PDF, DOCX, PPTX, XLSX or plain text file'),
+		id: z.string().optional().describe('Document ID, defaults to the SHA-256 of the file'),
+		source: z.string().optional().default('upload'),
+		url: z.string().optional(),
+		acl: z.string().optional().describe('Comma-separated ACL entries'),
+		strategy: ChunkingStrategySchema.optional().default('structure'),
+		chunkSize: z.coerce.number().int().positive().optional(),
+		overlap: z.coerce.number().int().nonnegative().optional(),
+		maxTokens: z.coerce.number().int().positive().optional(),
+		dlpEnabled: z.stringbool().optional(),
+		dlpPolicy: DlpPolicySchema.optional(),
+	})
+	.describe('Upload form')
+	.meta({
+		ref: 'UploadForm',
+	})
+
+// Upload response schema
+export const UploadResponseSchema = z
+	.object({
+		success: z.boolean(),
+		message: z.string(),
+		documentId: z.string(),
+		workflowInstanceId: z.string(),
+		format: z.enum(['pdf', 'docx', 'pptx', 'xlsx', 'text']),
+		mimeType: z.string(),
+		originalKey: z.string(),
+		parts: z.array(
+			z.object({
+				kind: z.enum(['page', 'slide', 'sheet']),
+				number: z.number(),
+				title: z.string().optional(),
+			})
+		),
+	})
+	.describe('Upload response')
+	.meta({
+		ref: 'UploadResponse',
+	})
+
+// Document params schema
+export const DocumentParamsSchema = z
+	.object({
+		docId: z.string(),
+	})
+	.describe('Document params')
+	.meta({
+		ref: 'DocumentParams',
+	})
+
+// Delete document query schema
+// soft: chunks are kept but flagged deleted so queries skip them,
+// hard: chunks, vectors and the original upload are removed
+export const DeleteDocumentQuerySchema = z
+	.object({
+		mode: z.enum(['soft', 'hard']).optional().default('soft'),
+		reason: z.string().optional(),
+	})
+	.describe('Delete document query')
+	.meta({
+		ref: 'DeleteDocumentQuery',
+	})
+
+// Delete document response schema
+export const DeleteDocumentResponseSchema = z
+	.object({
+		success: z.boolean(),
+		message: z.string(),
+		documentId: z.string(),
+		mode: z.enum(['soft', 'hard']),
+		messageId: z.string(),
+		statusUrl: z.string(),
+	})
+	.describe('Delete document response')
+	.meta({
+		ref: 'DeleteDocumentResponse',
+	})
+
+// Redaction report schema
+export const RedactionReportSchema = z
+	.object({
+		documentId: z.string(),
+		policy: DlpPolicySchema,
+		rejected: z.boolean(),
+		redactionCount: z.number(),
+		createdAt: z.string(),
+		records: z.array(
+			z.object({
+				entityType: z.string(),
+				chunkIndex: z.number(),
+				start: z.number().describe('Offset in the chunk text before redaction'),
+				end: z.number(),
+				valueHash: z.string().describe('HMAC-SHA-256 of the original value'),
+			})
+		),
+	})
+	.describe('Redaction report')
+	.meta({
+		ref: 'RedactionReport',
+	})
+
+// Vector index slot schema
+// blue: the VECTORIZE_INDEX binding, green: VECTORIZE_INDEX_GREEN
+export const VectorIndexSlotSchema = z.enum(['blue', 'green']).describe('Vector index slot').meta({
+	ref: 'VectorIndexSlot',
+})
+
+// Active vector index schema
+export const ActiveVectorIndexSchema = z
+	.object({
+		slot: VectorIndexSlotSchema,
+		model: z.string().describe('Embedding model of the vectors in the index'),
+		switchedAt: z.number().optional(),
+		previous: z
+			.object({ slot: VectorIndexSlotSchema, model: z.string() })
+			.optional()
+			.describe('Index served before the last switch, restored by a rollback'),
+	})
+	.describe('Active vector index')
+	.meta({
+		ref: 'ActiveVectorIndex',
+	})
+
+// Index migration schema
+// running: documents are being re-embedded, ready: every document is migrated,
+// switched: queries read the new index, rolled_back / cancelled: the old index is served
+export const IndexMigrationSchema = z
+	.object({
+		id: z.string(),
+		fromSlot: VectorIndexSlotSchema,
+		toSlot: VectorIndexSlotSchema,
+		fromModel: z.string(),
+		toModel: z.string(),
+		status: z.enum(['running', 'ready', 'switched', 'rolled_back', 'cancelled']),
+		totalDocuments: z.number(),
+		migratedDocuments: z.number(),
+		failedDocuments: z.number(),
+		startedAt: z.number(),
+		lastUpdatedAt: z.number(),
+		switchedAt: z.number().optional(),
+	})
+	.describe('Index migration')
+	.meta({
+		ref: 'IndexMigration',
+	})
+
+// Start index migration request schema
+export const StartIndexMigrationRequestSchema = z
+	.object({
+		model: z
+			.string()
+			.refine((id) => id in EMBEDDING_MODELS, { message: 'Unknown embedding model' })
+			.describe('Embedding model id from the rag-core registry'),
+	})
+	.describe('Start index migration request')
+	.meta({
+		ref: 'StartIndexMigrationRequest',
+	})
+
+// Index migration query schema
+export const IndexMigrationQuerySchema = z
+	.object({
+		status: z
+			.enum(['pending', 'migrated', 'failed'])
+			.optional()
+			.describe('List the documents in this state'),
+	})
+	.describe('Index migration query')
+	.meta({
+		ref: 'IndexMigrationQuery',
+	})
+
+// Index migration response schema
+export const IndexMigrationResponseSchema = z
+	.object({
+		active: ActiveVectorIndexSchema.nullable(),
+		migration: IndexMigrationSchema.nullable(),
+		coverage: z.number().nullable().describe('Share of documents migrated, from 0 to 1'),
+		documents: z
+			.array(
+				z.object({
+					documentId: z.string(),
+					status: z.enum(['pending', 'migrated', 'failed']),
+					chunksMigrated: z.number(),
+					totalChunks: z.number(),
+					manifestIngestedAt: z.string().optional(),
+					error: z.string().optional(),
+					lastUpdatedAt: z.number(),
+				})
+			)
+			.optional(),
+		queuedDocuments: z.number().optional(),
+		messageIds: z.array(z.string()).optional(),
+	})
+	.describe('Index migration response')
+	.meta({
+		ref: 'IndexMigrationResponse',
+	})
+
 // Workflow params schema
 export const WorkflowParamsSchema = z
 	.object({
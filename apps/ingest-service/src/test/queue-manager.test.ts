@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { QueueManager } from '../utils/queue'
+
+import type { Env } from '../context'
+
+// Queue and coordinator stand-ins recording what the QueueManager sends
+function createEnv() {
+	const queue = () => ({
+		sent: [] as Array<{ body: any; options?: QueueSendOptions }>,
+		async send(body: unknown, options?: QueueSendOptions) {
+			this.sent.push({ body, options })
+		},
+	})
+	const coordinatorCalls: Array<{ name: string; path: string; body: any }> = []
+
+	const env = {
+		DOCUMENT_INGESTION_QUEUE: queue(),
+		WEBHOOK_PROCESSING_QUEUE: queue(),
+		BATCH_REPROCESSING_QUEUE: queue(),
+		PRIORITY_PROCESSING_QUEUE: queue(),
+		DOCUMENT_COORDINATOR: {
+			idFromName: (name: string) => name,
+			get: (name: string) => ({
+				async fetch(url: string, init?: RequestInit) {
+					const body = init?.body ? JSON.parse(init.body as string) : undefined
+					coordinatorCalls.push({ name, path: new URL(url).pathname, body })
+					return Response.json({ success: true })
+				},
+			}),
+		},
+	}
+
+	return { env, bindings: env as unknown as Env, coordinatorCalls }
+}
+
+describe('QueueManager', () => {
+	let setup: ReturnType<typeof createEnv>
+
+	beforeEach(() => {
+		setup = createEnv()
+	})
+
+	describe('queueDocumentDeletion()', () => {
+		it('should queue a hard delete and mark the document as queued for deletion', async () => {
+			const result = await new QueueManager(setup.bindings).queueDocumentDeletion('doc-1', {
+				hardDelete: true,
+				reason: 'gdpr',
+				priority: 'high',
+			})
+
+			expect(result.success).toBe(true)
+			// High priority deletions take the fast lane
+			expect(setup.env.PRIORITY_PROCESSING_QUEUE.sent).toHaveLength(1)
+			expect(setup.env.PRIORITY_PROCESSING_QUEUE.sent[0].body).toMatchObject({
+				type: 'document_delete',
+				payload: { documentId: 'doc-1', hardDelete: true, reason: 'gdpr' },
+				metadata: { priority: 'high', correlationId: result.messageId },
+			})
+			expect(setup.coordinatorCalls).toEqual([
+				expect.objectContaining({ name: 'doc-1', path: '/get-state' }),
+				expect.objectContaining({
+					name: 'doc-1',
+					path: '/update-state',
+					body: expect.objectContaining({
+						status: 'queued',
+						metadata: { operation: 'delete', mode: 'hard', reason: 'gdpr' },
+					}),
+				}),
+			])
+		})
+
+		it('should soft delete through the ingestion queue by default', async () => {
+			await new QueueManager(setup.bindings).queueDocumentDeletion('doc-1')
+
+			expect(setup.env.DOCUMENT_INGESTION_QUEUE.sent[0].body.payload).toEqual({
+				type: 'document_delete',
+				documentId: 'doc-1',
+				hardDelete: false,
+				reason: undefined,
+			})
+			expect(setup.coordinatorCalls[1].body.metadata.mode).toBe('soft')
+		})
+
+		it('should record the deletion before sending it and roll the state back when sending fails', async () => {
+			const queued: string[] = []
+			setup.env.DOCUMENT_INGESTION_QUEUE.send = async () => {
+				queued.push(...setup.coordinatorCalls.map((call) => call.path))
+				throw new Error('Queue unavailable')
+			}
+
+			const result = await new QueueManager(setup.bindings).queueDocumentDeletion('doc-1')
+
+			expect(result).toMatchObject({ success: false, error: 'Queue unavailable' })
+			expect(queued).toEqual(['/get-state', '/update-state'])
+			expect(setup.coordinatorCalls[2]).toMatchObject({
+				path: '/update-state',
+				body: { status: 'failed', error: 'Queue unavailable' },
+			})
+		})
+	})
+
+	describe('queueDocumentForProcessing()', () => {
+		const document = { id: 'doc-1', text: 'Hello', source: 'test' }
+		const HOUR = 60 * 60 * 1000
+
+		it('should send a message without a scheduled time right away', async () => {
+			await new QueueManager(setup.bindings).queueDocumentForProcessing(document)
+
+			expect(setup.env.DOCUMENT_INGESTION_QUEUE.sent[0].options).toBeUndefined()
+		})
+
+		it("should delay a message scheduled within the queue's delivery delay", async () => {
+			await new QueueManager(setup.bindings).queueDocumentForProcessing(document, {
+				scheduledTime: Date.now() + HOUR,
+			})
+
+			expect(setup.env.DOCUMENT_INGESTION_QUEUE.sent[0].options?.delaySeconds).toBe(3600)
+			expect(setup.coordinatorCalls).toEqual([])
+		})
+
+		it('should hand a message scheduled beyond 12 hours to the scheduler', async () => {
+			const scheduledTime = Date.now() + 24 * HOUR
+
+			await new QueueManager(setup.bindings).queueDocumentForProcessing(document, {
+				scheduledTime,
+			})
+
+			expect(setup.env.DOCUMENT_INGESTION_QUEUE.sent).toEqual([])
+			expect(setup.coordinatorCalls).toEqual([
+				{
+					name: 'scheduler',
+					path: '/schedule-message',
+					body: {
+						message: expect.objectContaining({ type: 'document_ingestion' }),
+						deliverAt: scheduledTime,
+					},
+				},
+			])
+		})
+	})
+
+	describe('updateWorkflowState()', () => {
+		it('should record a completed run under its workflow instance', async () => {
+			await new QueueManager(setup.bindings).updateWorkflowState('doc-1', 'run-1', {
+				status: 'completed',
+				currentStep: 'completed',
+				startedAt: 1,
+			})
+
+			expect(setup.coordinatorCalls[0]).toMatchObject({
+				name: 'doc-1',
+				path: '/update-state',
+				body: {
+					documentId: 'doc-1',
+					status: 'completed',
+					progress: { currentStep: 'completed', percentage: 100 },
+					startedAt: 1,
+					workflowInstanceId: 'run-1',
+				},
+			})
+			expect(setup.coordinatorCalls[0].body.completedAt).toBeDefined()
+		})
+
+		it('should record the error of a failed run', async () => {
+			await new QueueManager(setup.bindings).updateWorkflowState('doc-1', 'run-1', {
+				status: 'failed',
+				currentStep: 'failed',
+				startedAt: 1,
+				error: 'Document text is empty or invalid',
+			})
+
+			expect(setup.coordinatorCalls[0].body).toMatchObject({
+				status: 'failed',
+				error: 'Document text is empty or invalid',
+				progress: { percentage: 0 },
+			})
+		})
+	})
+})
@@ -14,6 +14,13 @@ export interface ChunkMetadata {
 	doc_id: string
 	timestamp: number
 	acl?: string[]
+	/** Heading breadcrumb of the chunk, e.g. "Section > Subsection" */
+	section?: string
+	chunking_strategy?: string
+	/** Values redacted or masked by the DLP policy */
+	redaction_count?: number
+	/** Entity types found by DLP scanning, e.g. email or credit_card */
+	pii_types?: string[]
 }
 
 // Processing interfaces
@@ -71,7 +78,7 @@ export interface VectorizeInsertResult {
 
 export interface ChunkProcessingResult {
 	chunkId: string
-	embedding: number[]
+	embedding?: number[]
 	metadata: ChunkMetadata
 	success: boolean
 	error?: string
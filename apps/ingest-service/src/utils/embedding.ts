@@ -1,44 +1,60 @@
+import {
+	createWorkersAiProvider,
+	EMBEDDING_CACHE_STATS_ID,
+	withEmbeddingCache,
+} from '@repo/rag-core'
+
+import type { CachedEmbeddingProvider } from '@repo/rag-core'
 import type { Env } from '../context'
 
 /**
- * Generate embeddings using Workers AI
+ * Embedding provider for a registry model, by default the one configured in EMBEDDING_MODEL.
+ * Vectors are cached in R2 by model and text hash, so only unseen text reaches Workers AI.
  */
-export async function getEmbedding(text: string, env: Env): Promise<number[]> {
-	try {
-		const response = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
-			text: text,
-		})
-
-		console.log('AI Response type:', typeof response)
-		console.log('AI Response length:', Array.isArray(response) ? response.length : 'Not an array')
-		console.log('AI Response sample:', Array.isArray(response) ? response.slice(0, 5) : response)
-
-		// The response is an object with a data property containing the embedding array
-		let embedding: number[]
-		if (response && typeof response === 'object' && 'data' in response) {
-			const data = (response as any).data
-			if (Array.isArray(data) && data.length > 0) {
-				embedding = data[0] // The embedding is in data[0]
-			} else {
-				throw new Error(`Embedding failed: Invalid data format in response`)
-			}
-		} else {
-			throw new Error(
-				`Embedding failed: Expected object with data property, got ${typeof response}`
-			)
-		}
-
-		if (!Array.isArray(embedding)) {
-			throw new Error(`Embedding failed: Expected array, got ${typeof embedding}`)
-		}
-
-		if (embedding.length === 0) {
-			throw new Error(`Embedding failed: Empty array returned`)
-		}
+export function getEmbeddingProvider(
+	env: Env,
+	modelId: string | undefined = env.EMBEDDING_MODEL
+): CachedEmbeddingProvider {
+	return withEmbeddingCache(createWorkersAiProvider(env.AI, modelId), env.DOCS_BUCKET)
+}
 
+/**
+ * Generate an embedding with a provider shared across a document, whose cache
+ * stats the caller records once with recordEmbeddingCacheStats
+ */
+export async function getEmbedding(
+	text: string,
+	provider: CachedEmbeddingProvider
+): Promise<number[]> {
+	try {
+		const [embedding] = await provider.embed([text])
 		return embedding
 	} catch (error) {
 		console.error('Embedding error:', error)
 		throw new Error(`Embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
 	}
 }
+
+/**
+ * Add a provider's cache hits and misses to the per-model totals. Call once per
+ * provider, after its last lookup; failures are logged and otherwise ignored.
+ */
+export async function recordEmbeddingCacheStats(
+	provider: CachedEmbeddingProvider,
+	env: Env
+): Promise<void> {
+	const { hits, misses } = provider.stats
+	if (hits + misses === 0) {
+		return
+	}
+
+	try {
+		const id = env.DOCUMENT_COORDINATOR.idFromName(EMBEDDING_CACHE_STATS_ID)
+		await env.DOCUMENT_COORDINATOR.get(id).fetch('http://coordinator/record-cache-stats', {
+			method: 'POST',
+			body: JSON.stringify({ model: provider.model.id, hits, misses }),
+		})
+	} catch (error) {
+		console.error('Failed to record embedding cache stats:', error)
+	}
+}
@@ -1,5 +1,5 @@
 // Re-export all utility functions for convenient importing
 export * from './embedding'
 export * from './storage'
-export * from './chunking'
 export * from './processor'
+export * from './vector-index'
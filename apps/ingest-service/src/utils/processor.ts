@@ -1,6 +1,8 @@
-import { chunkText, cleanText } from './chunking'
-import { getEmbedding } from './embedding'
-import { storeChunkInR2, upsertVector } from './storage'
+import { buildManifest, chunkText, cleanText } from '@repo/rag-core'
+
+import { getEmbedding, getEmbeddingProvider, recordEmbeddingCacheStats } from './embedding'
+import { storeChunkInR2, storeManifest, upsertVector } from './storage'
+import { getVectorIndex, invalidateMigrationDocument, resolveVectorIndex } from './vector-index'
 
 import type { Env } from '../context'
 import type { ChunkMetadata, Document } from '../types'
@@ -10,11 +12,14 @@ import type { ChunkMetadata, Document } from '../types'
  */
 export async function processDocument(doc: Document, env: Env) {
 	try {
+		const vectorIndex = await resolveVectorIndex(env)
+
 		// Content cleaning and preprocessing
 		const cleanedText = cleanText(doc.text)
 
 		// Chunk the document
 		const chunks = chunkText(cleanedText)
+		const provider = getEmbeddingProvider(env, vectorIndex.model)
 
 		// Process each chunk
 		for (let i = 0; i < chunks.length; i++) {
@@ -24,7 +29,7 @@ export async function processDocument(doc: Document, env: Env) {
 			// const redactedChunk = await performDLPChecks(chunk);
 
 			// Generate embedding
-			const embedding = await getEmbedding(chunk, env)
+			const embedding = await getEmbedding(chunk, provider)
 
 			// Create chunk metadata
 			const chunkId = `${doc.id}#${i}`
@@ -41,9 +46,23 @@ export async function processDocument(doc: Document, env: Env) {
 			await storeChunkInR2(`chunks/${chunkId}.txt`, chunk, metadata, env)
 
 			// Upsert to Vectorize
-			await upsertVector(chunkId, embedding, metadata, env)
+			await upsertVector(chunkId, embedding, metadata, env, getVectorIndex(env, vectorIndex.slot))
 		}
 
+		await recordEmbeddingCacheStats(provider, env)
+
+		const manifest = await buildManifest({
+			documentId: doc.id,
+			source: doc.source,
+			url: doc.url,
+			metadata: doc.metadata,
+			embeddingModel: vectorIndex.model,
+			chunkingStrategy: 'fixed',
+			chunks: chunks.map((text, index) => ({ index, text })),
+		})
+		await storeManifest(manifest, env)
+		await invalidateMigrationDocument(doc.id, manifest.ingestedAt, env)
+
 		console.log(`Processed document ${doc.id} with ${chunks.length} chunks`)
 	} catch (error) {
 		console.error(`Failed to process document ${doc.id}:`, error)
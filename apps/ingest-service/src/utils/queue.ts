@@ -1,3 +1,4 @@
+import type { ChunkingStrategy, DlpPolicy } from '@repo/rag-core'
 import type { Document } from '@repo/rag-types'
 import type { Env } from '../context'
 
@@ -31,16 +32,26 @@ export interface DocumentIngestionPayload {
 	type: 'document_ingestion'
 	document: Document
 	options?: {
+		strategy?: ChunkingStrategy
 		chunkSize?: number
 		overlap?: number
+		maxTokens?: number
+		minTokens?: number
+		similarityThreshold?: number
 		dlpEnabled?: boolean
+		dlpPolicy?: DlpPolicy
 		forceReprocess?: boolean
+		/** Re-embed only chunks whose content changed since the last ingest (default true) */
+		incrementalUpdate?: boolean
+		/** Chunks sent per embedding call */
+		embeddingBatchSize?: number
 	}
 }
 
 export interface WebhookSyncPayload {
 	type: 'webhook_sync'
-	sourceType: 'sharepoint' | 'confluence' | 'jira' | 'website'
+	/** A source registered in the rag-core source registry */
+	sourceType: string
 	eventType: 'created' | 'updated' | 'deleted' | 'moved'
 	resourceId: string
 	resourceUrl: string
@@ -55,6 +66,16 @@ export interface BatchReprocessPayload {
 	options?: {
 		forceFullReprocess?: boolean
 		preserveVersions?: boolean
+		/** model_update: the index migration the documents belong to */
+		migrationId?: string
+		/** schema_change: chunk metadata version to migrate to, the latest by default */
+		schemaVersion?: number
+		/** policy_change: ACL replacing the documents' current one */
+		newAcl?: string[]
+		/** policy_change: DLP policy to re-scan the stored chunk text with */
+		dlpPolicy?: DlpPolicy
+		/** schema_change and policy_change: report the diffs without writing anything */
+		dryRun?: boolean
 	}
 }
 
@@ -69,6 +90,24 @@ export interface DocumentUpdatePayload {
 	incrementalUpdate: boolean
 }
 
+// Document state kept by DocumentCoordinator
+export interface ProcessingState {
+	documentId: string
+	status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'deleted'
+	progress: {
+		currentStep: string
+		stepsCompleted: number
+		totalSteps: number
+		percentage: number
+	}
+	startedAt: number
+	lastUpdatedAt: number
+	completedAt?: number
+	error?: string
+	workflowInstanceId?: string
+	metadata?: Record<string, any>
+}
+
 export interface DocumentDeletePayload {
 	type: 'document_delete'
 	documentId: string
@@ -76,21 +115,109 @@ export interface DocumentDeletePayload {
 	reason?: string
 }
 
+/**
+ * Delivery time of a request's notBefore (ISO 8601) or delaySeconds, undefined to send now
+ */
+export function scheduledTimeOf(options?: {
+	notBefore?: string
+	delaySeconds?: number
+}): number | undefined {
+	if (options?.notBefore) {
+		return Date.parse(options.notBefore)
+	}
+	if (options?.delaySeconds) {
+		return Date.now() + options.delaySeconds * 1000
+	}
+	return undefined
+}
+
+// Documents per model_update message; each is re-embedded in full by the queue processor
+const MIGRATION_DOCUMENTS_PER_MESSAGE = 50
+
+// Longest delivery delay a queue accepts, later messages wait in the scheduler
+const MAX_QUEUE_DELAY_SECONDS = 12 * 60 * 60
+
+// DocumentCoordinator instance holding messages until they are due
+const SCHEDULER_ID = 'scheduler'
+
+// Sent to the queue processor's fast lane whatever their type, so they never wait behind backfills
+const FAST_LANE_PRIORITIES: Array<QueueMessage['metadata']['priority']> = ['critical', 'high']
+
 export class QueueManager {
 	constructor(private env: Env) {}
 
+	/**
+	 * Queue a message is sent to: the fast lane for critical and high priority,
+	 * otherwise the queue of its type
+	 */
+	private queueFor(message: QueueMessage): Queue {
+		if (FAST_LANE_PRIORITIES.includes(message.metadata.priority)) {
+			return this.env.PRIORITY_PROCESSING_QUEUE
+		}
+
+		switch (message.type) {
+			case 'webhook_sync':
+				return this.env.WEBHOOK_PROCESSING_QUEUE
+			case 'batch_reprocess':
+				return this.env.BATCH_REPROCESSING_QUEUE
+			default:
+				return this.env.DOCUMENT_INGESTION_QUEUE
+		}
+	}
+
+	/**
+	 * Send a message now, or at its scheduledTime: with the queue's delivery delay
+	 * when that is close enough, otherwise through the scheduler's alarm
+	 */
+	private async dispatch(message: QueueMessage): Promise<void> {
+		const { scheduledTime } = message.metadata
+		const delaySeconds = scheduledTime ? Math.ceil((scheduledTime - Date.now()) / 1000) : 0
+
+		if (delaySeconds <= 0) {
+			await this.queueFor(message).send(message)
+			return
+		}
+
+		if (delaySeconds <= MAX_QUEUE_DELAY_SECONDS) {
+			await this.queueFor(message).send(message, { delaySeconds })
+			return
+		}
+
+		const scheduler = this.env.DOCUMENT_COORDINATOR.get(
+			this.env.DOCUMENT_COORDINATOR.idFromName(SCHEDULER_ID)
+		)
+		const response = await scheduler.fetch('http://coordinator/schedule-message', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ message, deliverAt: scheduledTime }),
+		})
+
+		if (!response.ok) {
+			throw new Error(`Failed to schedule message: ${response.status} ${await response.text()}`)
+		}
+	}
+
 	/**
 	 * Queue a document for asynchronous processing
 	 */
 	async queueDocumentForProcessing(
 		document: Document,
 		options?: {
+			strategy?: ChunkingStrategy
 			chunkSize?: number
 			overlap?: number
+			maxTokens?: number
+			minTokens?: number
+			similarityThreshold?: number
 			dlpEnabled?: boolean
+			dlpPolicy?: DlpPolicy
 			forceReprocess?: boolean
+			incrementalUpdate?: boolean
+			embeddingBatchSize?: number
 			priority?: 'low' | 'medium' | 'high' | 'critical'
 			source?: string
+			/** Epoch ms the message is delivered at */
+			scheduledTime?: number
 		}
 	): Promise<{ success: boolean; messageId: string; error?: string }> {
 		try {
@@ -102,10 +229,17 @@ export class QueueManager {
 					type: 'document_ingestion',
 					document,
 					options: {
+						strategy: options?.strategy || 'fixed',
 						chunkSize: options?.chunkSize || 1000,
 						overlap: options?.overlap || 200,
+						maxTokens: options?.maxTokens,
+						minTokens: options?.minTokens,
+						similarityThreshold: options?.similarityThreshold,
 						dlpEnabled: options?.dlpEnabled || false,
+						dlpPolicy: options?.dlpPolicy,
 						forceReprocess: options?.forceReprocess || false,
+						incrementalUpdate: options?.incrementalUpdate,
+						embeddingBatchSize: options?.embeddingBatchSize,
 					},
 				},
 				metadata: {
@@ -114,10 +248,11 @@ export class QueueManager {
 					maxRetries: 3,
 					correlationId: messageId,
 					source: options?.source || 'api',
+					scheduledTime: options?.scheduledTime,
 				},
 			}
 
-			await this.env.DOCUMENT_INGESTION_QUEUE.send(message)
+			await this.dispatch(message)
 
 			console.log(
 				JSON.stringify({
@@ -126,6 +261,7 @@ export class QueueManager {
 					messageId,
 					priority: message.metadata.priority,
 					source: document.source,
+					scheduledTime: options?.scheduledTime,
 				})
 			)
 
@@ -151,6 +287,18 @@ export class QueueManager {
 			batchSize?: number
 			priority?: 'low' | 'medium' | 'high' | 'critical'
 			source?: string
+			strategy?: ChunkingStrategy
+			chunkSize?: number
+			overlap?: number
+			maxTokens?: number
+			minTokens?: number
+			similarityThreshold?: number
+			dlpEnabled?: boolean
+			dlpPolicy?: DlpPolicy
+			forceReprocess?: boolean
+			incrementalUpdate?: boolean
+			embeddingBatchSize?: number
+			scheduledTime?: number
 		}
 	): Promise<{
 		success: boolean
@@ -172,6 +320,18 @@ export class QueueManager {
 				const result = await this.queueDocumentForProcessing(document, {
 					priority: options?.priority || 'medium',
 					source: options?.source || 'batch_api',
+					strategy: options?.strategy,
+					chunkSize: options?.chunkSize,
+					overlap: options?.overlap,
+					maxTokens: options?.maxTokens,
+					minTokens: options?.minTokens,
+					similarityThreshold: options?.similarityThreshold,
+					dlpEnabled: options?.dlpEnabled,
+					dlpPolicy: options?.dlpPolicy,
+					forceReprocess: options?.forceReprocess,
+					incrementalUpdate: options?.incrementalUpdate,
+					embeddingBatchSize: options?.embeddingBatchSize,
+					scheduledTime: options?.scheduledTime,
 				})
 
 				if (result.success) {
@@ -209,7 +369,7 @@ export class QueueManager {
 	 * Queue a webhook event for processing
 	 */
 	async queueWebhookEvent(
-		sourceType: 'sharepoint' | 'confluence' | 'jira' | 'website',
+		sourceType: string,
 		eventType: 'created' | 'updated' | 'deleted' | 'moved',
 		resourceId: string,
 		resourceUrl: string,
@@ -217,6 +377,8 @@ export class QueueManager {
 		options?: {
 			priority?: 'low' | 'medium' | 'high' | 'critical'
 			changeToken?: string
+			/** Epoch ms the event is processed at */
+			scheduledTime?: number
 		}
 	): Promise<{ success: boolean; messageId: string; error?: string }> {
 		try {
@@ -239,10 +401,11 @@ export class QueueManager {
 					maxRetries: 5, // Higher retry count for webhooks
 					correlationId: messageId,
 					source: 'webhook',
+					scheduledTime: options?.scheduledTime,
 				},
 			}
 
-			await this.env.WEBHOOK_PROCESSING_QUEUE.send(message)
+			await this.dispatch(message)
 
 			console.log(
 				JSON.stringify({
@@ -251,6 +414,7 @@ export class QueueManager {
 					eventType,
 					resourceId,
 					messageId,
+					scheduledTime: options?.scheduledTime,
 				})
 			)
 
@@ -277,6 +441,11 @@ export class QueueManager {
 			forceFullReprocess?: boolean
 			preserveVersions?: boolean
 			priority?: 'low' | 'medium' | 'high' | 'critical'
+			migrationId?: string
+			schemaVersion?: number
+			newAcl?: string[]
+			dlpPolicy?: DlpPolicy
+			dryRun?: boolean
 		}
 	): Promise<{ success: boolean; messageId: string; error?: string }> {
 		try {
@@ -291,6 +460,11 @@ export class QueueManager {
 					options: {
 						forceFullReprocess: options?.forceFullReprocess || false,
 						preserveVersions: options?.preserveVersions || true,
+						migrationId: options?.migrationId,
+						schemaVersion: options?.schemaVersion,
+						newAcl: options?.newAcl,
+						dlpPolicy: options?.dlpPolicy,
+						dryRun: options?.dryRun,
 					},
 				},
 				metadata: {
@@ -302,7 +476,7 @@ export class QueueManager {
 				},
 			}
 
-			await this.env.BATCH_REPROCESSING_QUEUE.send(message)
+			await this.dispatch(message)
 
 			console.log(
 				JSON.stringify({
@@ -326,6 +500,31 @@ export class QueueManager {
 		}
 	}
 
+	/**
+	 * Queue the documents of an index migration as model_update batch reprocessing,
+	 * MIGRATION_DOCUMENTS_PER_MESSAGE per message
+	 */
+	async queueIndexMigration(
+		migrationId: string,
+		documentIds: string[]
+	): Promise<{ success: boolean; messageIds: string[]; error?: string }> {
+		const messageIds: string[] = []
+
+		for (let i = 0; i < documentIds.length; i += MIGRATION_DOCUMENTS_PER_MESSAGE) {
+			const result = await this.queueBatchReprocess(
+				documentIds.slice(i, i + MIGRATION_DOCUMENTS_PER_MESSAGE),
+				'model_update',
+				{ migrationId, priority: 'low' }
+			)
+			if (!result.success) {
+				return { success: false, messageIds, error: result.error }
+			}
+			messageIds.push(result.messageId)
+		}
+
+		return { success: true, messageIds }
+	}
+
 	/**
 	 * Queue a document for deletion
 	 */
@@ -357,7 +556,65 @@ export class QueueManager {
 				},
 			}
 
-			await this.env.DOCUMENT_INGESTION_QUEUE.send(message)
+			const coordinator = this.getDocumentCoordinator(documentId)
+			const previous = await coordinator.fetch(
+				`http://coordinator/get-state?documentId=${encodeURIComponent(documentId)}`
+			)
+			const { state: previousState } = (await previous.json()) as { state?: ProcessingState }
+			const queuedAt = Date.now()
+
+			// Status polling shows the deletion from the moment it is queued, so the state is written first
+			const queued = await coordinator.fetch('http://coordinator/update-state', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					documentId,
+					status: 'queued',
+					progress: {
+						currentStep: 'deletion_queued',
+						stepsCompleted: 0,
+						totalSteps: 2,
+						percentage: 0,
+					},
+					startedAt: queuedAt,
+					metadata: {
+						operation: 'delete',
+						mode: options?.hardDelete ? 'hard' : 'soft',
+						reason: options?.reason,
+					},
+				}),
+			})
+			if (!queued.ok) {
+				throw new Error(`Failed to update state of document ${documentId}: ${queued.status}`)
+			}
+
+			try {
+				await this.dispatch(message)
+			} catch (error) {
+				// Put back the state the deletion replaced, or record that it never got queued
+				const rollback: Partial<ProcessingState> = previousState ?? {
+					documentId,
+					status: 'failed',
+					progress: {
+						currentStep: 'deletion_failed',
+						stepsCompleted: 0,
+						totalSteps: 2,
+						percentage: 0,
+					},
+					startedAt: queuedAt,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				}
+				await coordinator
+					.fetch('http://coordinator/update-state', {
+						method: 'POST',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(rollback),
+					})
+					.catch((rollbackError) =>
+						console.error('Failed to roll back deletion state:', rollbackError)
+					)
+				throw error
+			}
 
 			console.log(
 				JSON.stringify({
@@ -381,6 +638,71 @@ export class QueueManager {
 		}
 	}
 
+	/**
+	 * Record the workflow instance processing a document, so status lookups can find it
+	 */
+	async trackWorkflowInstance(documentId: string, workflowInstanceId: string): Promise<void> {
+		try {
+			await this.getDocumentCoordinator(documentId).fetch('http://coordinator/update-state', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					documentId,
+					status: 'queued',
+					progress: {
+						currentStep: 'workflow_queued',
+						stepsCompleted: 0,
+						totalSteps: 1,
+						percentage: 0,
+					},
+					startedAt: Date.now(),
+					workflowInstanceId,
+				}),
+			})
+		} catch (error) {
+			// The workflow runs either way, only the status lookup loses its instance id
+			console.error('Failed to track workflow instance:', error)
+		}
+	}
+
+	/**
+	 * Record how far a workflow run got, throwing so the workflow step retries the write
+	 */
+	async updateWorkflowState(
+		documentId: string,
+		workflowInstanceId: string,
+		update: Pick<ProcessingState, 'status' | 'startedAt' | 'error' | 'metadata'> & {
+			currentStep: string
+		}
+	): Promise<void> {
+		const { currentStep, ...state } = update
+		const finished = update.status === 'completed' || update.status === 'failed'
+
+		const response = await this.getDocumentCoordinator(documentId).fetch(
+			'http://coordinator/update-state',
+			{
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					documentId,
+					...state,
+					progress: {
+						currentStep,
+						stepsCompleted: update.status === 'completed' ? 1 : 0,
+						totalSteps: 1,
+						percentage: update.status === 'completed' ? 100 : 0,
+					},
+					completedAt: finished ? Date.now() : undefined,
+					workflowInstanceId,
+				}),
+			}
+		)
+
+		if (!response.ok) {
+			throw new Error(`Failed to update state of document ${documentId}: ${response.status}`)
+		}
+	}
+
 	/**
 	 * Get coordinator for a specific document
 	 */
@@ -392,11 +714,7 @@ export class QueueManager {
 	/**
 	 * Check processing status for a document
 	 */
-	async getProcessingStatus(documentId: string): Promise<{
-		status?: string
-		progress?: any
-		error?: string
-	}> {
+	async getProcessingStatus(documentId: string): Promise<Partial<ProcessingState>> {
 		try {
 			const coordinator = this.getDocumentCoordinator(documentId)
 
@@ -1,3 +1,11 @@
+import {
+	documentTextKey,
+	manifestKey,
+	toStoredChunkMetadata,
+	toVectorMetadata,
+} from '@repo/rag-core'
+
+import type { DocumentManifest, RedactionReport } from '@repo/rag-core'
 import type { Env } from '../context'
 import type { ChunkMetadata } from '../types'
 
@@ -8,7 +16,8 @@ export async function upsertVector(
 	id: string,
 	embedding: number[],
 	metadata: ChunkMetadata,
-	env: Env
+	env: Env,
+	index: VectorizeIndex = env.VECTORIZE_INDEX
 ) {
 	console.log('Upserting vector:', {
 		id,
@@ -17,24 +26,24 @@ export async function upsertVector(
 		metadata,
 	})
 
-	// Store comprehensive metadata for Vectorize
-	// Note: ACL should be stored as individual string values for proper filtering
-	const vectorizeMetadata: Record<string, string> = {
-		source: metadata.source || 'unknown',
-		url: metadata.url || '',
-		acl: Array.isArray(metadata.acl) ? metadata.acl.join(',') : String(metadata.acl || 'public'),
-		chunkIndex: String(metadata.chunk_index || 0),
-	}
-
-	const result = await env.VECTORIZE_INDEX.upsert([
-		{
+	return upsertVectors([{ id, embedding, metadata }], env, index)
+}
+
+/**
+ * Upsert a batch of vectors to Vectorize in one call, by default into the blue index
+ */
+export async function upsertVectors(
+	vectors: Array<{ id: string; embedding: number[]; metadata: ChunkMetadata }>,
+	env: Env,
+	index: VectorizeIndex = env.VECTORIZE_INDEX
+) {
+	return index.upsert(
+		vectors.map(({ id, embedding, metadata }) => ({
 			id,
 			values: embedding,
-			metadata: vectorizeMetadata,
-		},
-	])
-
-	return result
+			metadata: toVectorMetadata(metadata),
+		}))
+	)
 }
 
 /**
@@ -46,24 +55,117 @@ export async function storeChunkInR2(
 	metadata: ChunkMetadata,
 	env: Env
 ) {
-	// Convert metadata to string values for R2
-	const stringMetadata: Record<string, string> = {}
-	for (const [key, value] of Object.entries(metadata)) {
-		if (typeof value === 'string') {
-			stringMetadata[key] = value
-		} else if (typeof value === 'number') {
-			stringMetadata[key] = value.toString()
-		} else if (Array.isArray(value)) {
-			stringMetadata[key] = JSON.stringify(value)
-		} else if (value !== undefined && value !== null) {
-			stringMetadata[key] = JSON.stringify(value)
-		}
-	}
+	await env.DOCS_BUCKET.put(key, content, {
+		httpMetadata: {
+			contentType: 'text/plain',
+		},
+		customMetadata: toStoredChunkMetadata(metadata),
+	})
+}
 
+/**
+ * Store an uploaded file in R2 as received, next to its chunks
+ */
+export async function storeOriginalInR2(
+	key: string,
+	content: Uint8Array,
+	contentType: string,
+	metadata: Record<string, string>,
+	env: Env
+) {
 	await env.DOCS_BUCKET.put(key, content, {
+		httpMetadata: {
+			contentType,
+		},
+		customMetadata: metadata,
+	})
+}
+
+/**
+ * Store the cleaned text of a document, before DLP, so it can be reindexed
+ */
+export async function storeDocumentText(documentId: string, text: string, env: Env) {
+	await env.DOCS_BUCKET.put(documentTextKey(documentId), text, {
 		httpMetadata: {
 			contentType: 'text/plain',
 		},
-		customMetadata: stringMetadata,
+		customMetadata: { doc_id: documentId },
+	})
+}
+
+/**
+ * Store a DLP redaction report in R2 under dlp/, returning its key
+ */
+export async function storeRedactionReport(report: RedactionReport, env: Env): Promise<string> {
+	const key = `dlp/${report.documentId}.json`
+
+	await env.DOCS_BUCKET.put(key, JSON.stringify(report), {
+		httpMetadata: {
+			contentType: 'application/json',
+		},
+		customMetadata: {
+			doc_id: report.documentId,
+			policy: report.policy,
+			redaction_count: report.redactionCount.toString(),
+		},
+	})
+
+	return key
+}
+
+/**
+ * Load the DLP redaction report of a document
+ */
+export async function getRedactionReport(
+	documentId: string,
+	env: Env
+): Promise<RedactionReport | null> {
+	const object = await env.DOCS_BUCKET.get(`dlp/${documentId}.json`)
+	return object ? await object.json<RedactionReport>() : null
+}
+
+/**
+ * Store the manifest of an ingest in R2 under manifests/, returning its key
+ */
+export async function storeManifest(manifest: DocumentManifest, env: Env): Promise<string> {
+	const key = manifestKey(manifest.documentId)
+
+	await env.DOCS_BUCKET.put(key, JSON.stringify(manifest), {
+		httpMetadata: {
+			contentType: 'application/json',
+		},
+		customMetadata: {
+			doc_id: manifest.documentId,
+			chunk_count: manifest.chunks.length.toString(),
+			embedding_model: manifest.embeddingModel,
+		},
 	})
+
+	return key
+}
+
+/**
+ * Load the manifest written by the last ingest of a document
+ */
+export async function getManifest(documentId: string, env: Env): Promise<DocumentManifest | null> {
+	const object = await env.DOCS_BUCKET.get(manifestKey(documentId))
+	return object ? await object.json<DocumentManifest>() : null
+}
+
+/**
+ * Ids of all documents with a manifest, including soft deleted ones
+ */
+export async function listManifestDocumentIds(env: Env): Promise<string[]> {
+	const documentIds: string[] = []
+	let cursor: string | undefined
+
+	do {
+		const listing = await env.DOCS_BUCKET.list({ prefix: 'manifests/', cursor })
+		for (const object of listing.objects) {
+			documentIds.push(object.key.slice('manifests/'.length, -'.json'.length))
+		}
+		cursor = listing.truncated ? listing.cursor : undefined
+	} while (cursor)
+
+	return documentIds
 }
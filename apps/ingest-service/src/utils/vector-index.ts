@@ -0,0 +1,108 @@
+import { getEmbeddingModel } from '@repo/rag-core'
+
+import type { Env } from '../context'
+
+// DocumentCoordinator instance holding the active Vectorize index and model migrations
+const INDEX_MIGRATION_ID = 'index-migration'
+
+// Blue/green Vectorize indexes: VECTORIZE_INDEX is blue, VECTORIZE_INDEX_GREEN is green
+export type VectorIndexSlot = 'blue' | 'green'
+
+// Index that queries read and ingests write (mirror of the queue-processor type)
+export interface ActiveVectorIndex {
+	slot: VectorIndexSlot
+	model: string
+	switchedAt?: number
+	previous?: { slot: VectorIndexSlot; model: string }
+}
+
+// Re-embedding of every document into the inactive index (mirror of the queue-processor type)
+export interface IndexMigration {
+	id: string
+	fromSlot: VectorIndexSlot
+	toSlot: VectorIndexSlot
+	fromModel: string
+	toModel: string
+	status: 'running' | 'ready' | 'switched' | 'rolled_back' | 'cancelled'
+	totalDocuments: number
+	migratedDocuments: number
+	failedDocuments: number
+	startedAt: number
+	lastUpdatedAt: number
+	switchedAt?: number
+}
+
+export interface DocumentMigrationProgress {
+	documentId: string
+	status: 'pending' | 'migrated' | 'failed'
+	chunksMigrated: number
+	totalChunks: number
+	manifestIngestedAt?: string
+	error?: string
+	lastUpdatedAt: number
+}
+
+/**
+ * Coordinator instance that owns the active index and the index migration
+ */
+export function getIndexCoordinator(env: Env): DurableObjectStub {
+	const id = env.DOCUMENT_COORDINATOR.idFromName(INDEX_MIGRATION_ID)
+	return env.DOCUMENT_COORDINATOR.get(id)
+}
+
+/**
+ * Index and model documents are written with. Until the first index switch this
+ * is the blue index with EMBEDDING_MODEL.
+ */
+export async function resolveVectorIndex(env: Env): Promise<ActiveVectorIndex> {
+	const response = await getIndexCoordinator(env).fetch('http://coordinator/get-active-index')
+	const { active } = await response.json<{ active: ActiveVectorIndex | null }>()
+
+	return active ?? { slot: 'blue', model: getEmbeddingModel(env.EMBEDDING_MODEL).id }
+}
+
+export function getVectorIndex(env: Env, slot: VectorIndexSlot): VectorizeIndex {
+	return slot === 'green' ? env.VECTORIZE_INDEX_GREEN : env.VECTORIZE_INDEX
+}
+
+/**
+ * Tell a running index migration that a document was re-ingested, so its
+ * vectors in the target index are built again before the switch
+ */
+export async function invalidateMigrationDocument(
+	documentId: string,
+	manifestIngestedAt: string,
+	env: Env
+): Promise<void> {
+	await getIndexCoordinator(env).fetch('http://coordinator/invalidate-migration-document', {
+		method: 'POST',
+		body: JSON.stringify({ documentId, manifestIngestedAt }),
+	})
+}
+
+/**
+ * Call an index migration action of the coordinator. `ok` is false when the
+ * coordinator refused it, e.g. switching before every document is migrated.
+ */
+export async function callIndexCoordinator<T>(
+	env: Env,
+	action:
+		| 'start-migration'
+		| 'get-migration'
+		| 'switch-index'
+		| 'rollback-index'
+		| 'get-active-index',
+	init?: { body?: unknown; query?: Record<string, string> }
+): Promise<{ ok: boolean; data: T & { error?: string } }> {
+	const url = new URL(`http://coordinator/${action}`)
+	for (const [name, value] of Object.entries(init?.query ?? {})) {
+		url.searchParams.set(name, value)
+	}
+
+	const response = await getIndexCoordinator(env).fetch(
+		url.toString(),
+		init?.body === undefined ? undefined : { method: 'POST', body: JSON.stringify(init.body) }
+	)
+
+	return { ok: response.ok, data: await response.json<T & { error?: string }>() }
+}
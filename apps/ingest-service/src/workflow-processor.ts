@@ -1,10 +1,45 @@
 import { WorkflowEntrypoint } from 'cloudflare:workers'
-
-import { chunkText, cleanText } from './utils/chunking'
-import { getEmbedding } from './utils/embedding'
-import { storeChunkInR2, upsertVector } from './utils/storage'
+import { NonRetryableError } from 'cloudflare:workflows'
+
+import {
+	buildManifest,
+	buildRedactionReport,
+	chunkDocument,
+	DEFAULT_DLP_POLICY,
+	DEFAULT_EMBEDDING_BATCH_SIZE,
+	diffManifests,
+	embedInBatches,
+	formatBreadcrumb,
+	prepareText,
+	scanDocument,
+	tagChunk,
+} from '@repo/rag-core'
+
+import { getEmbeddingProvider, recordEmbeddingCacheStats } from './utils/embedding'
+import { QueueManager } from './utils/queue'
+import {
+	getManifest,
+	storeChunkInR2,
+	storeDocumentText,
+	storeManifest,
+	storeRedactionReport,
+	upsertVectors,
+} from './utils/storage'
+import {
+	getVectorIndex,
+	invalidateMigrationDocument,
+	resolveVectorIndex,
+} from './utils/vector-index'
 
 import type { WorkflowEvent, WorkflowStep } from 'cloudflare:workers'
+import type {
+	ChunkingStrategy,
+	DlpMarker,
+	DlpPolicy,
+	DocumentChunk,
+	DocumentManifest,
+	ManifestChunk,
+} from '@repo/rag-core'
 import type { Env } from './context'
 import type { ChunkMetadata, ChunkProcessingResult, Document } from './types'
 
@@ -12,18 +47,31 @@ import type { ChunkMetadata, ChunkProcessingResult, Document } from './types'
 export interface DocumentProcessingParams {
 	document: Document
 	options?: {
+		strategy?: ChunkingStrategy
 		chunkSize?: number
 		overlap?: number
+		maxTokens?: number
+		minTokens?: number
+		similarityThreshold?: number
 		retryLimit?: number
 		dlpEnabled?: boolean
+		dlpPolicy?: DlpPolicy
+		incrementalUpdate?: boolean
+		embeddingBatchSize?: number
 	}
 }
 
+// Chunk after DLP scanning
+export interface ScannedChunk extends DocumentChunk {
+	redactionCount?: number
+	entityTypes?: string[]
+}
+
 // State structure that persists between workflow steps
 export interface ProcessingState {
 	documentId: string
 	cleanedText?: string
-	chunks?: string[]
+	chunks?: DocumentChunk[]
 	processedChunks: ChunkProcessingResult[]
 	totalChunks: number
 	startTime: number
@@ -36,8 +84,66 @@ export interface ProcessingState {
  */
 export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, DocumentProcessingParams> {
 	async run(event: WorkflowEvent<DocumentProcessingParams>, step: WorkflowStep) {
+		const { document } = event.payload
+		const queueManager = new QueueManager(this.env)
+		const startedAt = event.timestamp.getTime()
+		const stateRetries = {
+			retries: { limit: 3, delay: '5 seconds', backoff: 'exponential' },
+			timeout: '30 seconds',
+		} as const
+
+		await step.do('record-processing-state', stateRetries, async () =>
+			queueManager.updateWorkflowState(document.id, event.instanceId, {
+				status: 'processing',
+				currentStep: 'workflow_running',
+				startedAt,
+			})
+		)
+
+		let result: Awaited<ReturnType<DocumentProcessingWorkflow['processDocument']>>
+		try {
+			result = await this.processDocument(event, step)
+		} catch (error) {
+			// Status lookups report the failure instead of a run that never ends
+			await step.do('record-failed-state', stateRetries, async () =>
+				queueManager.updateWorkflowState(document.id, event.instanceId, {
+					status: 'failed',
+					currentStep: 'failed',
+					startedAt,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			)
+			throw error
+		}
+
+		await step.do('record-completed-state', stateRetries, async () =>
+			queueManager.updateWorkflowState(document.id, event.instanceId, {
+				status: 'completed',
+				currentStep: 'completed',
+				startedAt,
+				metadata: {
+					totalChunks: result.totalChunks,
+					successfulChunks: result.successfulChunks,
+					failedChunks: result.failedChunks,
+				},
+			})
+		)
+
+		return result
+	}
+
+	private async processDocument(
+		event: WorkflowEvent<DocumentProcessingParams>,
+		step: WorkflowStep
+	) {
 		const { document, options = {} } = event.payload
-		const { retryLimit = 3, dlpEnabled = false } = options
+		const {
+			retryLimit = 3,
+			dlpEnabled = false,
+			dlpPolicy = DEFAULT_DLP_POLICY,
+			incrementalUpdate = true,
+			embeddingBatchSize = DEFAULT_EMBEDDING_BATCH_SIZE,
+		} = options
 
 		console.log(`Starting workflow processing for document: ${document.id}`)
 
@@ -59,7 +165,7 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 					throw new Error('Document text is empty or invalid')
 				}
 
-				const cleanedText = cleanText(document.text)
+				const cleanedText = prepareText(document.text, options.strategy)
 
 				if (cleanedText.length === 0) {
 					throw new Error('Document text became empty after cleaning')
@@ -72,7 +178,81 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 			}
 		)
 
-		// Step 2: Text chunking
+		// Index and embedding model of this run; an index switch mid-run does not mix models
+		const vectorIndex = await step.do(
+			'resolve-vector-index',
+			{
+				retries: {
+					limit: 2,
+					delay: '5 seconds',
+					backoff: 'exponential',
+				},
+				timeout: '30 seconds',
+			},
+			async () => resolveVectorIndex(this.env)
+		)
+
+		// Step 2: DLP/PII scanning (if enabled) of the whole text, before chunking or
+		// semantic embedding sees any of it
+		let dlpResults: {
+			text: string
+			markers: DlpMarker[]
+			redactionCount: number
+			reportKey: string
+		} | null = null
+		if (dlpEnabled) {
+			dlpResults = await step.do(
+				'dlp-scanning',
+				{
+					retries: {
+						limit: 2,
+						delay: '10 seconds',
+						backoff: 'exponential',
+					},
+					timeout: '10 minutes',
+				},
+				async (): Promise<{
+					text: string
+					markers: DlpMarker[]
+					redactionCount: number
+					reportKey: string
+				}> => {
+					console.log(`Performing DLP scanning for document ${document.id} (policy: ${dlpPolicy})`)
+
+					const scan = scanDocument(preprocessResult.cleanedText, dlpPolicy)
+
+					// Every hit is audited, including those of rejected documents
+					const report = await buildRedactionReport(
+						document.id,
+						dlpPolicy,
+						scan,
+						this.env.DLP_AUDIT_SALT
+					)
+					const reportKey = await storeRedactionReport(report, this.env)
+
+					// Rejection is final, retrying would find the same values
+					if (scan.rejected) {
+						throw new NonRetryableError(
+							`Document ${document.id} rejected by DLP policy, found: ${scan.entityTypes.join(', ')}`
+						)
+					}
+
+					console.log(
+						`DLP scan found ${scan.entityTypes.join(', ') || 'nothing'}, ${scan.redactionCount} redaction(s)`
+					)
+
+					// Findings hold the raw values, so only the scanned text and its markers leave the step
+					return {
+						text: scan.text,
+						markers: scan.markers,
+						redactionCount: scan.redactionCount,
+						reportKey,
+					}
+				}
+			)
+		}
+
+		// Step 3: Text chunking
 		const chunkingResult = await step.do(
 			'chunk-text',
 			{
@@ -83,13 +263,26 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 				},
 				timeout: '5 minutes',
 			},
-			async (): Promise<{ chunks: string[]; totalChunks: number }> => {
+			async (): Promise<{ chunks: DocumentChunk[]; totalChunks: number }> => {
 				console.log(`Chunking text for document ${document.id}`)
 
-				const chunks = chunkText(preprocessResult.cleanedText, {
-					chunkSize: options.chunkSize,
-					overlap: options.overlap,
-				})
+				// Only semantic chunking embeds, a batch of sentences per call
+				const embedding = getEmbeddingProvider(this.env, vectorIndex.model)
+				const chunks = await chunkDocument(
+					dlpResults?.text ?? preprocessResult.cleanedText,
+					{
+						strategy: options.strategy,
+						chunkSize: options.chunkSize,
+						overlap: options.overlap,
+						maxTokens: options.maxTokens,
+						minTokens: options.minTokens,
+						similarityThreshold: options.similarityThreshold,
+						model: vectorIndex.model,
+					},
+					embedding,
+					embeddingBatchSize
+				)
+				await recordEmbeddingCacheStats(embedding, this.env)
 
 				if (chunks.length === 0) {
 					throw new Error('No chunks were created from the document text')
@@ -103,43 +296,73 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 			}
 		)
 
-		// Step 3: DLP/PII scanning (if enabled)
-		let dlpResults: { chunks: string[]; redactionCount: number } | null = null
-		if (dlpEnabled) {
-			dlpResults = await step.do(
-				'dlp-scanning',
-				{
-					retries: {
-						limit: 2,
-						delay: '10 seconds',
-						backoff: 'exponential',
-					},
-					timeout: '10 minutes',
+		const finalChunks: ScannedChunk[] = chunkingResult.chunks.map((chunk) =>
+			dlpResults ? { ...chunk, ...tagChunk(chunk.text, dlpResults.markers) } : chunk
+		)
+
+		// Step 4: Compare with the previous manifest so unchanged chunks keep their vectors
+		const manifestDiff = await step.do(
+			'diff-manifest',
+			{
+				retries: {
+					limit: 2,
+					delay: '5 seconds',
+					backoff: 'exponential',
 				},
-				async (): Promise<{ chunks: string[]; redactionCount: number }> => {
-					console.log(`Performing DLP scanning for document ${document.id}`)
+				timeout: '2 minutes',
+			},
+			async (): Promise<{
+				manifest: DocumentManifest
+				embedIndices: number[]
+				unchangedCount: number
+				removed: ManifestChunk[]
+			}> => {
+				const manifest = await buildManifest({
+					documentId: document.id,
+					source: document.source,
+					url: document.url,
+					metadata: document.metadata,
+					embeddingModel: vectorIndex.model,
+					chunkingStrategy: options.strategy || 'fixed',
+					chunkingOptions: {
+						chunkSize: options.chunkSize,
+						overlap: options.overlap,
+						maxTokens: options.maxTokens,
+						minTokens: options.minTokens,
+						similarityThreshold: options.similarityThreshold,
+					},
+					dlpPolicy: dlpEnabled ? dlpPolicy : undefined,
+					chunks: finalChunks.map((chunk, index) => ({
+						index,
+						text: chunk.text,
+						section: formatBreadcrumb(chunk.headings) || undefined,
+					})),
+				})
+				const diff = diffManifests(await getManifest(document.id, this.env), manifest)
+				const toEmbed = incrementalUpdate ? [...diff.added, ...diff.changed] : manifest.chunks
 
-					// TODO: Implement actual DLP/PII detection
-					// For now, just return the chunks unchanged
-					// const scannedChunks = await performDLPChecks(chunkingResult.chunks, this.env);
+				console.log(
+					`Document ${document.id}: ${toEmbed.length} chunk(s) to embed, ${diff.unchanged.length} unchanged, ${diff.removed.length} removed`
+				)
 
-					return {
-						chunks: chunkingResult.chunks,
-						redactionCount: 0,
-					}
+				return {
+					manifest,
+					embedIndices: toEmbed.map((chunk) => chunk.index).sort((a, b) => a - b),
+					unchangedCount: incrementalUpdate ? diff.unchanged.length : 0,
+					removed: diff.removed,
 				}
-			)
-		}
-
-		const finalChunks = dlpResults?.chunks || chunkingResult.chunks
+			}
+		)
 
-		// Step 4: Process chunks in batches for better error handling and observability
-		const batchSize = 5 // Process 5 chunks at a time
+		// Step 5: Process new or changed chunks in batches for better error handling and observability.
+		// Each batch is embedded in one Workers AI call and upserted in one Vectorize call.
+		const batchSize = embeddingBatchSize
 		const allResults: ChunkProcessingResult[] = []
+		const { embedIndices } = manifestDiff
 
-		for (let batchStart = 0; batchStart < finalChunks.length; batchStart += batchSize) {
-			const batchEnd = Math.min(batchStart + batchSize, finalChunks.length)
-			const batch = finalChunks.slice(batchStart, batchEnd)
+		for (let batchStart = 0; batchStart < embedIndices.length; batchStart += batchSize) {
+			const batchEnd = Math.min(batchStart + batchSize, embedIndices.length)
+			const batch = embedIndices.slice(batchStart, batchEnd)
 
 			const batchResults = await step.do(
 				`process-chunks-batch-${Math.floor(batchStart / batchSize)}`,
@@ -156,16 +379,35 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 						`Processing batch ${Math.floor(batchStart / batchSize) + 1} (chunks ${batchStart + 1}-${batchEnd})`
 					)
 
-					const batchResults: ChunkProcessingResult[] = []
+					const batchChunks = batch.map((chunkIndex) => ({
+						chunkIndex,
+						chunkId: `${document.id}#${chunkIndex}`,
+						chunk: finalChunks[chunkIndex],
+					}))
+
+					// Texts that fail as part of the batch are retried one at a time
+					const embedding = getEmbeddingProvider(this.env, vectorIndex.model)
+					const { vectors, failures } = await embedInBatches(
+						embedding,
+						batchChunks.map(({ chunkId, chunk }) => ({ id: chunkId, text: chunk.text })),
+						batchSize
+					)
+					await recordEmbeddingCacheStats(embedding, this.env)
+					const embeddingErrors = new Map(failures.map(({ id, error }) => [id, error]))
 
-					for (let i = 0; i < batch.length; i++) {
-						const chunk = batch[i]
-						const chunkIndex = batchStart + i
-						const chunkId = `${document.id}#${chunkIndex}`
+					const batchResults: ChunkProcessingResult[] = []
+					const vectorsToUpsert: Array<{
+						id: string
+						embedding: number[]
+						metadata: ChunkMetadata
+					}> = []
 
+					for (const { chunkIndex, chunkId, chunk } of batchChunks) {
 						try {
-							// Generate embedding
-							const embedding = await getEmbedding(chunk, this.env)
+							const embedding = vectors.get(chunkId)
+							if (!embedding) {
+								throw new Error(`Embedding failed: ${embeddingErrors.get(chunkId)}`)
+							}
 
 							// Create chunk metadata
 							const metadata: ChunkMetadata = {
@@ -175,35 +417,29 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 								doc_id: document.id,
 								timestamp: Date.now(),
 								acl: document.metadata?.acl || [],
+								section: formatBreadcrumb(chunk.headings) || undefined,
+								chunking_strategy: options.strategy || 'fixed',
+								redaction_count: chunk.redactionCount,
+								pii_types: chunk.entityTypes?.length ? chunk.entityTypes : undefined,
 							}
 
-							// Store chunk in R2 (parallel to embedding generation)
-							const [r2Result, vectorResult] = await Promise.allSettled([
-								storeChunkInR2(`chunks/${chunkId}.txt`, chunk, metadata, this.env),
-								upsertVector(chunkId, embedding, metadata, this.env),
-							])
-
-							// Check results
-							if (r2Result.status === 'rejected') {
-								throw new Error(`R2 storage failed: ${r2Result.reason}`)
-							}
-							if (vectorResult.status === 'rejected') {
-								throw new Error(`Vectorize upsert failed: ${vectorResult.reason}`)
+							try {
+								await storeChunkInR2(`chunks/${chunkId}.txt`, chunk.text, metadata, this.env)
+							} catch (error) {
+								throw new Error(`R2 storage failed: ${error}`)
 							}
 
+							vectorsToUpsert.push({ id: chunkId, embedding, metadata })
+							// Vectors stay out of the step output, which Workflows caps in size
 							batchResults.push({
 								chunkId,
-								embedding,
 								metadata,
 								success: true,
 							})
-
-							console.log(`Successfully processed chunk ${chunkId}`)
 						} catch (error) {
 							console.error(`Failed to process chunk ${chunkId}:`, error)
 							batchResults.push({
 								chunkId,
-								embedding: [],
 								metadata: {} as ChunkMetadata,
 								success: false,
 								error: error instanceof Error ? error.message : 'Unknown error',
@@ -211,6 +447,15 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 						}
 					}
 
+					// A failed upsert fails the whole batch, so the step retries it
+					if (vectorsToUpsert.length > 0) {
+						await upsertVectors(
+							vectorsToUpsert,
+							this.env,
+							getVectorIndex(this.env, vectorIndex.slot)
+						)
+					}
+
 					const successCount = batchResults.filter((r) => r.success).length
 					const failureCount = batchResults.length - successCount
 
@@ -228,12 +473,36 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 			allResults.push(...batchResults)
 
 			// Add a small delay between batches to avoid overwhelming services
-			if (batchEnd < finalChunks.length) {
+			if (batchEnd < embedIndices.length) {
 				await step.sleep('batch-delay', '2 seconds')
 			}
 		}
 
-		// Step 5: Final validation and cleanup
+		// Step 6: Drop vectors and chunks the document no longer has
+		if (manifestDiff.removed.length > 0) {
+			await step.do(
+				'remove-stale-chunks',
+				{
+					retries: {
+						limit: 2,
+						delay: '5 seconds',
+						backoff: 'exponential',
+					},
+					timeout: '5 minutes',
+				},
+				async () => {
+					const { removed } = manifestDiff
+					await getVectorIndex(this.env, vectorIndex.slot).deleteByIds(
+						removed.map((chunk) => chunk.id)
+					)
+					await this.env.DOCS_BUCKET.delete(removed.map((chunk) => chunk.key))
+
+					console.log(`Removed ${removed.length} stale chunk(s) of document ${document.id}`)
+				}
+			)
+		}
+
+		// Step 7: Final validation, manifest and cleanup
 		const finalResult = await step.do(
 			'finalize-processing',
 			{
@@ -248,7 +517,8 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 				const failedChunks = allResults.filter((r) => !r.success)
 
 				console.log(`Document ${document.id} processing completed:`)
-				console.log(`- Total chunks: ${allResults.length}`)
+				console.log(`- Total chunks: ${finalChunks.length}`)
+				console.log(`- Unchanged: ${manifestDiff.unchangedCount}`)
 				console.log(`- Successful: ${successfulChunks.length}`)
 				console.log(`- Failed: ${failedChunks.length}`)
 
@@ -260,11 +530,29 @@ export class DocumentProcessingWorkflow extends WorkflowEntrypoint<Env, Document
 					)
 				}
 
+				// The manifest lists what is actually stored, so status and delete need not guess.
+				// Failed chunks are left out and get embedded again on the next ingest.
+				const failedIds = new Set(failedChunks.map((c) => c.chunkId))
+				const { manifest } = manifestDiff
+				await storeDocumentText(document.id, preprocessResult.cleanedText, this.env)
+				const manifestKey = await storeManifest(
+					{ ...manifest, chunks: manifest.chunks.filter((chunk) => !failedIds.has(chunk.id)) },
+					this.env
+				)
+				await invalidateMigrationDocument(document.id, manifest.ingestedAt, this.env)
+
 				return {
 					documentId: document.id,
-					totalChunks: allResults.length,
+					totalChunks: finalChunks.length,
 					successfulChunks: successfulChunks.length,
 					failedChunks: failedChunks.length,
+					unchangedChunks: manifestDiff.unchangedCount,
+					removedChunks: manifestDiff.removed.length,
+					redactionCount: dlpResults?.redactionCount ?? 0,
+					dlpReport: dlpResults
+						? { key: dlpResults.reportKey, url: `/dlp/${document.id}` }
+						: undefined,
+					manifestKey,
 					processingTime: Date.now() - event.timestamp.getTime(),
 					results: allResults,
 				}
@@ -3,8 +3,13 @@ import type { HonoApp, SharedHonoEnv, SharedHonoVariables } from '@repo/hono-hel
 export type Env = SharedHonoEnv & {
 	DOCS_BUCKET: R2Bucket
 	VECTORIZE_INDEX: VectorizeIndex
+	// Second index of the blue/green pair, served after an embedding model migration
+	VECTORIZE_INDEX_GREEN: VectorizeIndex
 	AI: Ai
 
+	// Embedding model id from the rag-core registry, must match the ingest service
+	EMBEDDING_MODEL?: string
+
 	// Coordination service binding for query-time operations
 	DOCUMENT_COORDINATOR: DurableObjectNamespace
 }
@@ -33,6 +33,7 @@ export const QueryResponseSchema = z
 				id: z.string(),
 				text: z.string(),
 				score: z.number(),
+				section: z.string().optional(),
 				metadata: z.record(z.string(), z.any()).optional(),
 			})
 		),
@@ -9,6 +9,8 @@ export interface QueryResult {
 	sources: Array<{
 		id: string
 		url?: string
+		/** Heading breadcrumb of the cited chunk, e.g. "Section > Subsection" */
+		section?: string
 		score: number
 		content: string
 	}>
@@ -39,11 +41,22 @@ export interface Chunk {
 		source?: string
 		acl?: string | string[]
 		url?: string
+		section?: string
 		[key: string]: any
 	}
 	score: number
 }
 
+// Blue/green Vectorize indexes: VECTORIZE_INDEX is blue, VECTORIZE_INDEX_GREEN is green
+export type VectorIndexSlot = 'blue' | 'green'
+
+// Index and model queries are served from, switched by the ingest service admin routes
+export interface ActiveVectorIndex {
+	slot: VectorIndexSlot
+	model: string
+	switchedAt?: number
+}
+
 // Vectorize search result interface
 export interface VectorizeMatch {
 	id: string
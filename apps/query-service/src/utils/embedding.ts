@@ -1,32 +1,21 @@
+import { createWorkersAiProvider } from '@repo/rag-core'
+
 import type { Env } from '../context'
-import type { AIEmbeddingResponse } from '../types'
 
 /**
- * Generate query embedding using Workers AI
+ * Generate query embedding using Workers AI, with the model documents were embedded with
  */
-export async function getQueryEmbedding(query: string, env: Env): Promise<number[]> {
-	const queryResponse = await env.AI.run('@cf/baai/bge-base-en-v1.5', {
-		text: query,
-	})
-
-	// Extract embedding from the response object
-	let queryEmbedding: number[]
-	if (queryResponse && typeof queryResponse === 'object' && 'data' in queryResponse) {
-		const data = (queryResponse as AIEmbeddingResponse).data
-		if (Array.isArray(data) && data.length > 0) {
-			queryEmbedding = data[0] // The embedding is in data[0]
-		} else {
-			throw new Error(`Query embedding failed: Invalid data format in response`)
-		}
-	} else {
+export async function getQueryEmbedding(
+	query: string,
+	env: Env,
+	modelId: string | undefined = env.EMBEDDING_MODEL
+): Promise<number[]> {
+	try {
+		const [queryEmbedding] = await createWorkersAiProvider(env.AI, modelId).embed([query])
+		return queryEmbedding
+	} catch (error) {
 		throw new Error(
-			`Query embedding failed: Expected object with data property, got ${typeof queryResponse}`
+			`Query embedding failed: ${error instanceof Error ? error.message : 'Unknown error'}`
 		)
 	}
-
-	if (!Array.isArray(queryEmbedding) || queryEmbedding.length === 0) {
-		throw new Error(`Query embedding failed: No data returned`)
-	}
-
-	return queryEmbedding
 }
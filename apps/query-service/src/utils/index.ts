@@ -2,6 +2,7 @@
 export * from './metrics'
 export * from './embedding'
 export * from './search'
+export * from './vector-index'
 export * from './retrieval'
 export * from './ai'
 export * from './query'
@@ -5,6 +5,7 @@ import { getQueryEmbedding } from './embedding'
 import { logPerformanceMetrics } from './metrics'
 import { prepareContextFromChunks, retrieveChunksFromR2 } from './retrieval'
 import { filterChunksByACL, searchVectorize } from './search'
+import { resolveVectorIndex } from './vector-index'
 
 import type { Context } from 'hono'
 import type { App, Env } from '../context'
@@ -48,17 +49,18 @@ export async function processQuery(
 	metrics.queryLength = query.length
 	metrics.userPermissions = userContext?.permissions || []
 
-	// 1. Generate query embedding using Workers AI
+	// 1. Generate query embedding using Workers AI, with the model of the active index
 	const embeddingStart = Date.now()
 	startTime(c, 'embedding')
-	const queryEmbedding = await getQueryEmbedding(query, c.env)
+	const vectorIndex = await resolveVectorIndex(c.env)
+	const queryEmbedding = await getQueryEmbedding(query, c.env, vectorIndex.model)
 	endTime(c, 'embedding')
 	metrics.embeddingTime = Date.now() - embeddingStart
 
 	// 2. Search Vectorize (no ACL filtering for better performance)
 	const vectorSearchStart = Date.now()
 	startTime(c, 'vector-search')
-	const matches = await searchVectorize(queryEmbedding, c.env, 10)
+	const matches = await searchVectorize(queryEmbedding, c.env, 10, vectorIndex.slot)
 	endTime(c, 'vector-search')
 	metrics.vectorSearchTime = Date.now() - vectorSearchStart
 
@@ -114,6 +116,7 @@ export async function processQuery(
 		sources: chunks.map((chunk) => ({
 			id: chunk.id,
 			url: typeof chunk.metadata?.url === 'string' ? chunk.metadata.url : undefined,
+			section: chunk.metadata?.section || undefined,
 			score: chunk.score,
 			content: chunk.content.substring(0, 200) + '...', // Preview
 		})),
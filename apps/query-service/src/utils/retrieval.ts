@@ -27,6 +27,11 @@ export async function retrieveChunksFromR2(matches: VectorizeMatch[], env: Env):
 				return null
 			}
 
+			// Soft-deleted documents stay in storage but are never cited
+			if (object.customMetadata?.deleted_at) {
+				return null
+			}
+
 			const content = await object.text()
 			return {
 				id: match.id,
@@ -60,7 +65,8 @@ export function prepareContextFromChunks(chunks: Chunk[]): string {
 		.map((chunk, index) => {
 			const source = chunk.metadata?.source || 'Unknown source'
 			const url = chunk.metadata?.url || ''
-			return `[${index + 1}] Source: ${source}${url ? ` (${url})` : ''}\nContent: ${chunk.content}\n`
+			const section = chunk.metadata?.section ? ` > ${chunk.metadata.section}` : ''
+			return `[${index + 1}] Source: ${source}${section}${url ? ` (${url})` : ''}\nContent: ${chunk.content}\n`
 		})
 		.join('\n')
 }
@@ -1,5 +1,5 @@
 import type { Env } from '../context'
-import type { Chunk, VectorizeMatch } from '../types'
+import type { Chunk, VectorIndexSlot, VectorizeMatch } from '../types'
 
 /**
  * Search Vectorize for similar vectors
@@ -7,8 +7,11 @@ import type { Chunk, VectorizeMatch } from '../types'
 export async function searchVectorize(
 	queryEmbedding: number[],
 	env: Env,
-	topK: number = 10
+	topK: number = 10,
+	slot: VectorIndexSlot = 'blue'
 ): Promise<VectorizeMatch[]> {
+	const index = slot === 'green' ? env.VECTORIZE_INDEX_GREEN : env.VECTORIZE_INDEX
+
 	const searchOptions: any = {
 		topK,
 		returnMetadata: 'all',
@@ -19,7 +22,7 @@ export async function searchVectorize(
 
 	// Mock Vectorize results for local development
 	let results
-	if (!env.VECTORIZE_INDEX || typeof env.VECTORIZE_INDEX.query !== 'function') {
+	if (!index || typeof index.query !== 'function') {
 		console.warn('Vectorize not available - using mock results for development')
 		results = {
 			matches: [
@@ -46,7 +49,7 @@ export async function searchVectorize(
 			],
 		}
 	} else {
-		results = await env.VECTORIZE_INDEX.query(queryEmbedding, searchOptions)
+		results = await index.query(queryEmbedding, searchOptions)
 	}
 
 	return results.matches || []
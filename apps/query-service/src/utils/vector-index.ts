@@ -0,0 +1,38 @@
+import { getEmbeddingModel } from '@repo/rag-core'
+
+import type { Env } from '../context'
+import type { ActiveVectorIndex } from '../types'
+
+// How long an isolate reuses the active index before asking the coordinator again
+const ACTIVE_INDEX_TTL_MS = 10_000
+
+let cached: { index: ActiveVectorIndex; expiresAt: number } | undefined
+
+/**
+ * Index and model to serve queries from. Slot and model are cached together for
+ * ACTIVE_INDEX_TTL_MS, so an index switch applies within that time and query vectors
+ * never mix with another model's index.
+ */
+export async function resolveVectorIndex(env: Env): Promise<ActiveVectorIndex> {
+	const fallback: ActiveVectorIndex = {
+		slot: 'blue',
+		model: getEmbeddingModel(env.EMBEDDING_MODEL).id,
+	}
+
+	// Local development without the queue processor
+	if (!env.DOCUMENT_COORDINATOR) {
+		return fallback
+	}
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.index
+	}
+
+	const id = env.DOCUMENT_COORDINATOR.idFromName('index-migration')
+	const response = await env.DOCUMENT_COORDINATOR.get(id).fetch(
+		'http://coordinator/get-active-index'
+	)
+	const { active } = await response.json<{ active: ActiveVectorIndex | null }>()
+
+	cached = { index: active ?? fallback, expiresAt: Date.now() + ACTIVE_INDEX_TTL_MS }
+	return cached.index
+}
@@ -1,13 +1,23 @@
 import type { HonoRequest } from 'hono'
+import type { QueueMessage } from './types'
 
 // Environment interface matching wrangler.jsonc
 export interface Env {
+	// Queue producer bindings, for work queued by the processors themselves
+	DOCUMENT_INGESTION_QUEUE: Queue<QueueMessage>
+	WEBHOOK_PROCESSING_QUEUE: Queue<QueueMessage>
+	BATCH_REPROCESSING_QUEUE: Queue<QueueMessage>
+	// Fast lane for critical and high priority messages of any type
+	PRIORITY_PROCESSING_QUEUE: Queue<QueueMessage>
+
 	// Durable Object bindings
 	DOCUMENT_COORDINATOR: DurableObjectNamespace
 
 	// Storage bindings
 	DOCS_BUCKET: R2Bucket
 	VECTORIZE_INDEX: VectorizeIndex
+	// Second index of the blue/green pair, written by embedding model migrations
+	VECTORIZE_INDEX_GREEN: VectorizeIndex
 
 	// AI bindings
 	AI: Ai
@@ -15,6 +25,39 @@ export interface Env {
 	// Environment variables
 	VECTORIZE_INDEX_ID: string
 	AI_ACCOUNT_ID: string
+
+	// Embedding model id from the rag-core registry, shared with ingest and query
+	EMBEDDING_MODEL?: string
+
+	// Secret keying the hashes in DLP redaction reports
+	DLP_AUDIT_SALT?: string
+
+	// Window webhook events of one resource are coalesced in, 0 to process each event
+	WEBHOOK_COALESCE_SECONDS?: string
+
+	// Microsoft Graph app registration of the SharePoint connector; the secret is a wrangler secret
+	SHAREPOINT_TENANT_ID?: string
+	SHAREPOINT_CLIENT_ID?: string
+	SHAREPOINT_CLIENT_SECRET?: string
+	// Graph and identity platform roots, only set to test against a local stand-in
+	SHAREPOINT_GRAPH_URL?: string
+	SHAREPOINT_AUTHORITY_URL?: string
+
+	// Confluence site root (e.g. https://example.atlassian.net/wiki) and the account of its API
+	// token; without CONFLUENCE_EMAIL the token is a Data Center personal access token
+	CONFLUENCE_BASE_URL?: string
+	CONFLUENCE_EMAIL?: string
+	CONFLUENCE_API_TOKEN?: string
+
+	// Jira site root and the account of its API token, as for Confluence, and the comma separated
+	// custom field ids rendered into issue documents
+	JIRA_BASE_URL?: string
+	JIRA_EMAIL?: string
+	JIRA_API_TOKEN?: string
+	JIRA_CUSTOM_FIELDS?: string
+
+	// User agent of the website crawler, matched against robots.txt groups
+	WEBSITE_USER_AGENT?: string
 }
 
 // Hono app type with environment bindings
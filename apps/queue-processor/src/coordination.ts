@@ -1,10 +1,49 @@
 import { DurableObject } from 'cloudflare:workers'
 
-import type { DeduplicationResult, DocumentLock, ProcessingState } from './types'
+import { PRIORITY_ORDER, queueBindingFor } from './queues'
+
+import type {
+	ActiveVectorIndex,
+	DeduplicationResult,
+	DocumentLock,
+	DocumentMigrationProgress,
+	EmbeddingCacheModelStats,
+	IndexMigration,
+	PendingWebhookEvent,
+	ProcessingState,
+	QueueMessage,
+	ScheduledMessage,
+	WebhookCoalesceResult,
+	WebhookSyncPayload,
+} from './types'
+
+// Durable Object storage takes at most 128 keys per put or delete
+const STORAGE_BATCH_SIZE = 128
+
+// DocumentCoordinator instance holding the active Vectorize index and model migrations
+export const INDEX_MIGRATION_ID = 'index-migration'
+
+// DocumentCoordinator instance holding messages scheduled beyond the queues' delivery delay
+export const SCHEDULER_ID = 'scheduler'
+
+// DocumentCoordinator instance coalescing the webhook events of one resource
+export const webhookCoalescingId = (sourceType: string, resourceId: string) =>
+	`webhook:${sourceType}:${resourceId}`
+
+// Scheduler keys sort by delivery time, so due messages are a prefix range
+const scheduledMessageKey = (deliverAt: number, id: string) =>
+	`scheduled:${deliverAt.toString().padStart(15, '0')}:${id}`
+
+// Delay before the alarm tries again after messages could not be sent
+const SCHEDULER_RETRY_MS = 60 * 1000
+
+export class DocumentCoordinator extends DurableObject<Env> {
+	// The base class keeps the state as ctx, the handlers use it as state
+	private state: DurableObjectState
 
-export class DocumentCoordinator extends DurableObject {
 	constructor(state: DurableObjectState, env: Env) {
 		super(state, env)
+		this.state = state
 	}
 
 	async fetch(request: Request): Promise<Response> {
@@ -27,6 +66,28 @@ export class DocumentCoordinator extends DurableObject {
 					return this.handleDeduplication(request)
 				case 'cleanup':
 					return this.handleCleanup(request)
+				case 'record-cache-stats':
+					return this.handleRecordCacheStats(request)
+				case 'get-cache-stats':
+					return this.handleGetCacheStats()
+				case 'get-active-index':
+					return this.handleGetActiveIndex()
+				case 'start-migration':
+					return this.handleStartMigration(request)
+				case 'record-migration-progress':
+					return this.handleRecordMigrationProgress(request)
+				case 'invalidate-migration-document':
+					return this.handleInvalidateMigrationDocument(request)
+				case 'get-migration':
+					return this.handleGetMigration(request)
+				case 'switch-index':
+					return this.handleSwitchIndex()
+				case 'rollback-index':
+					return this.handleRollbackIndex()
+				case 'schedule-message':
+					return this.handleScheduleMessage(request)
+				case 'coalesce-webhook':
+					return this.handleCoalesceWebhook(request)
 				default:
 					return new Response('Not Found', { status: 404 })
 			}
@@ -204,8 +265,9 @@ export class DocumentCoordinator extends DurableObject {
 		const stateKey = `state:${stateUpdate.documentId}`
 		const existingState = await this.state.storage.get<ProcessingState>(stateKey)
 
+		// A new run starts from a clean state, so an earlier run's error and workflow instance do not linger
 		const updatedState: ProcessingState = {
-			...existingState,
+			...(existingState && runKey(existingState) === runKey(stateUpdate) ? existingState : {}),
 			...stateUpdate,
 			lastUpdatedAt: Date.now(),
 		}
@@ -328,6 +390,547 @@ export class DocumentCoordinator extends DurableObject {
 		)
 	}
 
+	// Embedding Cache Statistics
+	private async handleRecordCacheStats(request: Request): Promise<Response> {
+		const { model, hits, misses } = await request.json<{
+			model: string
+			hits: number
+			misses: number
+		}>()
+
+		const statsKey = `cache-stats:${model}`
+		const existing = await this.state.storage.get<EmbeddingCacheModelStats>(statsKey)
+
+		const totalHits = (existing?.hits ?? 0) + hits
+		const totalMisses = (existing?.misses ?? 0) + misses
+		const stats: EmbeddingCacheModelStats = {
+			model,
+			hits: totalHits,
+			misses: totalMisses,
+			hitRate: totalHits + totalMisses > 0 ? totalHits / (totalHits + totalMisses) : 0,
+			lastUpdatedAt: Date.now(),
+		}
+
+		await this.state.storage.put(statsKey, stats)
+
+		return new Response(JSON.stringify({ success: true, stats }))
+	}
+
+	private async handleGetCacheStats(): Promise<Response> {
+		const entries = await this.state.storage.list<EmbeddingCacheModelStats>({
+			prefix: 'cache-stats:',
+		})
+
+		return new Response(JSON.stringify({ models: [...entries.values()] }))
+	}
+
+	// Blue/Green Index Migration
+	private async handleGetActiveIndex(): Promise<Response> {
+		const active = await this.state.storage.get<ActiveVectorIndex>('active-index')
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+
+		return new Response(JSON.stringify({ active: active ?? null, migration: migration ?? null }))
+	}
+
+	private async handleStartMigration(request: Request): Promise<Response> {
+		const { fromModel, toModel, documentIds } = await request.json<{
+			fromModel: string
+			toModel: string
+			documentIds: string[]
+		}>()
+
+		const existing = await this.state.storage.get<IndexMigration>('migration')
+		if (existing && isMigrationOpen(existing)) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: `Index migration ${existing.id} is already ${existing.status}`,
+				}),
+				{ status: 409 }
+			)
+		}
+
+		const active: ActiveVectorIndex = (await this.state.storage.get<ActiveVectorIndex>(
+			'active-index'
+		)) ?? { slot: 'blue', model: fromModel }
+		const migration = await this.beginMigration(active, toModel, documentIds)
+
+		return new Response(JSON.stringify({ success: true, migration }))
+	}
+
+	// Record a migration from the active index into the other one, with every document pending
+	private async beginMigration(
+		active: ActiveVectorIndex,
+		toModel: string,
+		documentIds: string[]
+	): Promise<IndexMigration> {
+		const ids = [...new Set(documentIds)]
+		const now = Date.now()
+
+		const migration: IndexMigration = {
+			id: crypto.randomUUID(),
+			fromSlot: active.slot,
+			toSlot: active.slot === 'blue' ? 'green' : 'blue',
+			fromModel: active.model,
+			toModel,
+			status: ids.length > 0 ? 'running' : 'ready',
+			totalDocuments: ids.length,
+			migratedDocuments: 0,
+			failedDocuments: 0,
+			startedAt: now,
+			lastUpdatedAt: now,
+		}
+
+		// Progress of an earlier migration does not carry over, nor do changes kept for a rollback
+		const previousKeys = [
+			...(await this.state.storage.list({ prefix: 'migration-doc:' })).keys(),
+			...(await this.state.storage.list({ prefix: 'rollback-doc:' })).keys(),
+		]
+		for (let i = 0; i < previousKeys.length; i += STORAGE_BATCH_SIZE) {
+			await this.state.storage.delete(previousKeys.slice(i, i + STORAGE_BATCH_SIZE))
+		}
+
+		for (let i = 0; i < ids.length; i += STORAGE_BATCH_SIZE) {
+			const entries: Record<string, DocumentMigrationProgress> = {}
+			for (const documentId of ids.slice(i, i + STORAGE_BATCH_SIZE)) {
+				entries[`migration-doc:${documentId}`] = {
+					documentId,
+					status: 'pending',
+					chunksMigrated: 0,
+					totalChunks: 0,
+					lastUpdatedAt: now,
+				}
+			}
+			await this.state.storage.put(entries)
+		}
+
+		await this.state.storage.put({ 'active-index': active, migration })
+
+		console.log(
+			JSON.stringify({
+				type: 'index_migration_started',
+				migrationId: migration.id,
+				fromSlot: migration.fromSlot,
+				toSlot: migration.toSlot,
+				toModel,
+				totalDocuments: ids.length,
+			})
+		)
+
+		return migration
+	}
+
+	private async handleRecordMigrationProgress(request: Request): Promise<Response> {
+		const update: Omit<DocumentMigrationProgress, 'lastUpdatedAt'> & { migrationId: string } =
+			await request.json()
+
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+		if (!migration || migration.id !== update.migrationId || !isMigrationOpen(migration)) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: `Index migration ${update.migrationId} is not running`,
+				}),
+				{ status: 409 }
+			)
+		}
+
+		const progressKey = `migration-doc:${update.documentId}`
+		const existing = await this.state.storage.get<DocumentMigrationProgress>(progressKey)
+
+		// Re-ingested since the vectors were built: the document has to be migrated again
+		const stale =
+			!!existing?.manifestIngestedAt &&
+			!!update.manifestIngestedAt &&
+			update.manifestIngestedAt < existing.manifestIngestedAt
+
+		const progress: DocumentMigrationProgress = {
+			documentId: update.documentId,
+			status: stale ? 'pending' : update.status,
+			chunksMigrated: update.chunksMigrated,
+			totalChunks: update.totalChunks,
+			manifestIngestedAt: stale ? existing.manifestIngestedAt : update.manifestIngestedAt,
+			error: update.status === 'failed' ? update.error : undefined,
+			lastUpdatedAt: Date.now(),
+		}
+
+		await this.state.storage.put(progressKey, progress)
+		const updated = await this.updateMigrationCounts(migration, existing?.status, progress.status)
+
+		return new Response(JSON.stringify({ success: true, migration: updated, progress }))
+	}
+
+	// Called after an ingest or hard delete, so a running migration does not keep stale vectors
+	private async handleInvalidateMigrationDocument(request: Request): Promise<Response> {
+		const { documentId, manifestIngestedAt, deleted } = await request.json<{
+			documentId: string
+			manifestIngestedAt?: string
+			deleted?: boolean
+		}>()
+
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+
+		// The index served before the switch misses this change, so a rollback migrates it back first.
+		// Hard deletes already removed the vectors from both indexes.
+		if (migration?.status === 'switched') {
+			const rollbackKey = `rollback-doc:${documentId}`
+			await (deleted
+				? this.state.storage.delete(rollbackKey)
+				: this.state.storage.put(rollbackKey, documentId))
+			return new Response(JSON.stringify({ success: true, migration }))
+		}
+
+		if (!migration || !isMigrationOpen(migration)) {
+			return new Response(JSON.stringify({ success: true, migration: null }))
+		}
+
+		const progressKey = `migration-doc:${documentId}`
+		const existing = await this.state.storage.get<DocumentMigrationProgress>(progressKey)
+
+		if (deleted) {
+			await this.state.storage.delete(progressKey)
+		} else {
+			await this.state.storage.put(progressKey, {
+				documentId,
+				status: 'pending',
+				chunksMigrated: 0,
+				totalChunks: 0,
+				manifestIngestedAt,
+				lastUpdatedAt: Date.now(),
+			} satisfies DocumentMigrationProgress)
+		}
+
+		const updated = await this.updateMigrationCounts(
+			migration,
+			existing?.status,
+			deleted ? undefined : 'pending'
+		)
+
+		return new Response(JSON.stringify({ success: true, migration: updated }))
+	}
+
+	private async handleGetMigration(request: Request): Promise<Response> {
+		const url = new URL(request.url)
+		const status = url.searchParams.get('status')
+
+		const active = await this.state.storage.get<ActiveVectorIndex>('active-index')
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+
+		// Documents in one state, e.g. pending ones to queue again
+		let documents: DocumentMigrationProgress[] | undefined
+		if (status) {
+			const entries = await this.state.storage.list<DocumentMigrationProgress>({
+				prefix: 'migration-doc:',
+			})
+			documents = [...entries.values()].filter((progress) => progress.status === status)
+		}
+
+		return new Response(
+			JSON.stringify({
+				active: active ?? null,
+				migration: migration ?? null,
+				coverage: migration ? migrationCoverage(migration) : null,
+				documents,
+			})
+		)
+	}
+
+	private async handleSwitchIndex(): Promise<Response> {
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+		if (!migration || migration.status !== 'ready') {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: migration
+						? `Index migration is ${migration.status} at ${Math.floor(migrationCoverage(migration) * 100)}% coverage`
+						: 'No index migration to switch to',
+				}),
+				{ status: 409 }
+			)
+		}
+
+		const now = Date.now()
+		const previous = (await this.state.storage.get<ActiveVectorIndex>('active-index')) ?? {
+			slot: migration.fromSlot,
+			model: migration.fromModel,
+		}
+		const active: ActiveVectorIndex = {
+			slot: migration.toSlot,
+			model: migration.toModel,
+			switchedAt: now,
+			previous: { slot: previous.slot, model: previous.model },
+		}
+		const switched: IndexMigration = {
+			...migration,
+			status: 'switched',
+			switchedAt: now,
+			lastUpdatedAt: now,
+		}
+
+		// One put, so readers see either the old or the new index with its model
+		await this.state.storage.put({ 'active-index': active, migration: switched })
+
+		console.log(
+			JSON.stringify({
+				type: 'index_switched',
+				migrationId: migration.id,
+				slot: active.slot,
+				model: active.model,
+			})
+		)
+
+		return new Response(JSON.stringify({ success: true, active, migration: switched }))
+	}
+
+	// Cancels an unfinished migration, or switches back to the index served before it. Documents
+	// changed since the switch are migrated back first, and the switch back waits for them.
+	private async handleRollbackIndex(): Promise<Response> {
+		const now = Date.now()
+		const migration = await this.state.storage.get<IndexMigration>('migration')
+		const active = await this.state.storage.get<ActiveVectorIndex>('active-index')
+
+		if (migration && isMigrationOpen(migration)) {
+			const cancelled: IndexMigration = { ...migration, status: 'cancelled', lastUpdatedAt: now }
+			await this.state.storage.put('migration', cancelled)
+
+			return new Response(
+				JSON.stringify({ success: true, active: active ?? null, migration: cancelled })
+			)
+		}
+
+		if (!migration || migration.status !== 'switched' || !active?.previous) {
+			return new Response(
+				JSON.stringify({
+					success: false,
+					error: 'No index switch to roll back',
+				}),
+				{ status: 409 }
+			)
+		}
+
+		const changed = [
+			...(await this.state.storage.list<string>({ prefix: 'rollback-doc:' })).values(),
+		]
+		if (changed.length > 0) {
+			const reverse = await this.beginMigration(active, active.previous.model, changed)
+
+			return new Response(
+				JSON.stringify({ success: true, active, migration: reverse, documentIds: changed }),
+				{ status: 202 }
+			)
+		}
+
+		const restored: ActiveVectorIndex = {
+			slot: active.previous.slot,
+			model: active.previous.model,
+			switchedAt: now,
+		}
+		const rolledBack: IndexMigration = { ...migration, status: 'rolled_back', lastUpdatedAt: now }
+
+		await this.state.storage.put({ 'active-index': restored, migration: rolledBack })
+
+		console.log(
+			JSON.stringify({
+				type: 'index_switch_rolled_back',
+				migrationId: migration.id,
+				slot: restored.slot,
+				model: restored.model,
+			})
+		)
+
+		return new Response(JSON.stringify({ success: true, active: restored, migration: rolledBack }))
+	}
+
+	// Move one document between progress states and recompute whether the migration is ready
+	private async updateMigrationCounts(
+		migration: IndexMigration,
+		before: DocumentMigrationProgress['status'] | undefined,
+		after: DocumentMigrationProgress['status'] | undefined
+	): Promise<IndexMigration> {
+		const count = (status: DocumentMigrationProgress['status'] | undefined) => ({
+			total: status ? 1 : 0,
+			migrated: status === 'migrated' ? 1 : 0,
+			failed: status === 'failed' ? 1 : 0,
+		})
+		const removed = count(before)
+		const added = count(after)
+
+		const totalDocuments = migration.totalDocuments - removed.total + added.total
+		const migratedDocuments = migration.migratedDocuments - removed.migrated + added.migrated
+		const updated: IndexMigration = {
+			...migration,
+			totalDocuments,
+			migratedDocuments,
+			failedDocuments: migration.failedDocuments - removed.failed + added.failed,
+			status: migratedDocuments === totalDocuments ? 'ready' : 'running',
+			lastUpdatedAt: Date.now(),
+		}
+
+		await this.state.storage.put('migration', updated)
+		return updated
+	}
+
+	// Scheduled Messages
+	private async handleScheduleMessage(request: Request): Promise<Response> {
+		const { message, deliverAt } = await request.json<{
+			message: QueueMessage
+			deliverAt: number
+		}>()
+
+		const scheduled: ScheduledMessage = { message, deliverAt, scheduledAt: Date.now() }
+		await this.state.storage.put(
+			scheduledMessageKey(deliverAt, message.metadata.correlationId),
+			scheduled
+		)
+
+		await this.armAlarm(deliverAt)
+
+		console.log(
+			JSON.stringify({
+				type: 'message_scheduled',
+				messageType: message.type,
+				correlationId: message.metadata.correlationId,
+				deliverAt,
+			})
+		)
+
+		return new Response(JSON.stringify({ success: true, deliverAt }))
+	}
+
+	// Send due scheduled messages to their queues, and set the alarm for the next one
+	private async deliverScheduledMessages() {
+		const now = Date.now()
+		const due = await this.state.storage.list<ScheduledMessage>({
+			prefix: 'scheduled:',
+			end: scheduledMessageKey(now + 1, ''),
+		})
+
+		let failed = 0
+		for (const [key, { message }] of due.entries()) {
+			try {
+				await this.env[queueBindingFor(message.type, message.metadata.priority)].send(message)
+				await this.state.storage.delete(key)
+			} catch (error) {
+				// Kept, the next alarm sends it again
+				failed++
+				console.error('Scheduled message delivery failed:', error)
+			}
+		}
+
+		if (due.size > 0) {
+			console.log(
+				JSON.stringify({
+					type: 'scheduled_messages_delivered',
+					delivered: due.size - failed,
+					failed,
+					timestamp: now,
+				})
+			)
+		}
+
+		if (failed > 0) {
+			await this.armAlarm(Date.now() + SCHEDULER_RETRY_MS)
+			return
+		}
+
+		const next = await this.state.storage.list<ScheduledMessage>({
+			prefix: 'scheduled:',
+			limit: 1,
+		})
+		for (const scheduled of next.values()) {
+			await this.armAlarm(scheduled.deliverAt)
+		}
+	}
+
+	// Webhook Coalescing
+	private async handleCoalesceWebhook(request: Request): Promise<Response> {
+		const { message, windowMs } = await request.json<{
+			message: QueueMessage & { payload: WebhookSyncPayload }
+			windowMs: number
+		}>()
+		const pending = await this.state.storage.get<PendingWebhookEvent>('webhook-pending')
+
+		// A deletion makes pending updates pointless, it is processed right away
+		if (message.payload.eventType === 'deleted') {
+			if (pending) {
+				await this.state.storage.delete('webhook-pending')
+			}
+			const result: WebhookCoalesceResult = {
+				action: 'process',
+				cancelledEvents: pending?.eventCount ?? 0,
+			}
+			return new Response(JSON.stringify(result))
+		}
+
+		const now = Date.now()
+		const coalesced: PendingWebhookEvent = {
+			message: pending ? mergeWebhookEvents(pending.message, message) : message,
+			eventCount: (pending?.eventCount ?? 0) + 1,
+			correlationIds: [...(pending?.correlationIds ?? []), message.metadata.correlationId],
+			firstEventAt: pending?.firstEventAt ?? now,
+			// The window starts with the first event, so a steady stream still gets processed
+			deliverAt: pending?.deliverAt ?? now + windowMs,
+		}
+		await this.state.storage.put('webhook-pending', coalesced)
+		await this.armAlarm(coalesced.deliverAt)
+
+		const result: WebhookCoalesceResult = {
+			action: 'coalesced',
+			pendingEvents: coalesced.eventCount,
+			deliverAt: coalesced.deliverAt,
+		}
+		return new Response(JSON.stringify(result))
+	}
+
+	// Send the merged webhook event once its window ended
+	private async deliverCoalescedWebhook() {
+		// No event may be merged in between sending the pending one and deleting it
+		await this.state.blockConcurrencyWhile(async () => {
+			const pending = await this.state.storage.get<PendingWebhookEvent>('webhook-pending')
+			if (!pending) {
+				return
+			}
+			if (pending.deliverAt > Date.now()) {
+				await this.armAlarm(pending.deliverAt)
+				return
+			}
+
+			const message: QueueMessage & { payload: WebhookSyncPayload } = {
+				...pending.message,
+				payload: { ...pending.message.payload, coalescedEvents: pending.eventCount },
+				metadata: { ...pending.message.metadata, retryCount: 0 },
+			}
+
+			try {
+				await this.env[queueBindingFor(message.type, message.metadata.priority)].send(message)
+			} catch (error) {
+				console.error('Coalesced webhook delivery failed:', error)
+				await this.armAlarm(Date.now() + SCHEDULER_RETRY_MS)
+				return
+			}
+			await this.state.storage.delete('webhook-pending')
+
+			console.log(
+				JSON.stringify({
+					type: 'webhook_events_coalesced',
+					sourceType: message.payload.sourceType,
+					resourceId: message.payload.resourceId,
+					eventCount: pending.eventCount,
+					correlationIds: pending.correlationIds,
+					changeToken: message.payload.changeToken,
+				})
+			)
+		})
+	}
+
+	// Set the alarm to `time` unless it already goes off earlier
+	private async armAlarm(time: number) {
+		const alarm = await this.state.storage.getAlarm()
+		if (alarm === null || time < alarm) {
+			await this.state.storage.setAlarm(time)
+		}
+	}
+
 	// WebSocket state change notifications
 	private emitStateChange(state: ProcessingState) {
 		// In a real implementation, you would maintain WebSocket connections
@@ -343,8 +946,53 @@ export class DocumentCoordinator extends DurableObject {
 		)
 	}
 
-	// Alarm handler for periodic cleanup
+	// Alarm handler for scheduled messages, coalesced webhooks and periodic cleanup
 	async alarm() {
+		await this.deliverScheduledMessages()
+		await this.deliverCoalescedWebhook()
 		await this.handleCleanup(new Request('http://localhost/cleanup'))
 	}
 }
+
+// The latest event with the latest changeToken; a resource created in the window stays created
+function mergeWebhookEvents(
+	pending: QueueMessage & { payload: WebhookSyncPayload },
+	latest: QueueMessage & { payload: WebhookSyncPayload }
+): QueueMessage & { payload: WebhookSyncPayload } {
+	return {
+		...latest,
+		payload: {
+			...latest.payload,
+			eventType: pending.payload.eventType === 'created' ? 'created' : latest.payload.eventType,
+			changeToken: latest.payload.changeToken ?? pending.payload.changeToken,
+			metadata: { ...pending.payload.metadata, ...latest.payload.metadata },
+		},
+		metadata: {
+			...latest.metadata,
+			// Traced as the first event, which the others were merged into
+			correlationId: pending.metadata.correlationId,
+			priority: higherPriority(pending.metadata.priority, latest.metadata.priority),
+		},
+	}
+}
+
+function higherPriority(
+	a: QueueMessage['metadata']['priority'],
+	b: QueueMessage['metadata']['priority']
+): QueueMessage['metadata']['priority'] {
+	return PRIORITY_ORDER.indexOf(a) <= PRIORITY_ORDER.indexOf(b) ? a : b
+}
+
+function isMigrationOpen(migration: IndexMigration): boolean {
+	return migration.status === 'running' || migration.status === 'ready'
+}
+
+// Share of documents whose vectors are in the target index
+function migrationCoverage(migration: IndexMigration): number {
+	return migration.totalDocuments > 0 ? migration.migratedDocuments / migration.totalDocuments : 1
+}
+
+// A workflow run is identified by its instance, a queue run by when it started
+function runKey(state: ProcessingState): string | number {
+	return state.workflowInstanceId ?? state.startedAt
+}
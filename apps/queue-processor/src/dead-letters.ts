@@ -0,0 +1,332 @@
+import { QueueSender } from './queue-sender'
+import { QUEUE_MAX_RETRIES } from './queues'
+
+import type { QueueProcessorContext } from './context'
+import type {
+	DeadLetterFailure,
+	DeadLetterMessage,
+	QueueMessage,
+	QueueMessagePayload,
+} from './types'
+
+const DEAD_LETTER_PREFIX = 'dead-letters/'
+
+export const deadLetterKey = (id: string) => `${DEAD_LETTER_PREFIX}${id}.json`
+
+// Failures of a message that still has retries left, kept until it succeeds or runs out
+const failureHistoryKey = (id: string) => `queue-failures/${id}.json`
+
+// R2 custom metadata is limited to 2 KB per object
+const MAX_LISTED_ERROR_LENGTH = 200
+
+export interface QueueFailure {
+	error: string
+	code?: string
+	stackTrace?: string
+	retryable: boolean
+}
+
+export interface DeadLetterSummary {
+	id: string
+	queue: string
+	type: string
+	status: DeadLetterMessage['status']
+	failureCount: number
+	lastFailureAt: number
+	lastError: string
+}
+
+export type DeadLetterResult =
+	| { deadLetter: DeadLetterMessage }
+	| { error: string; status: 400 | 404 | 409 }
+
+/**
+ * Dead letters are stored in R2 under dead-letters/{messageId}.json. A message
+ * becomes one when it fails without being retryable or fails its last attempt;
+ * its failures from earlier attempts are carried over.
+ */
+export class DeadLetterStore {
+	private sender: QueueSender
+
+	constructor(private ctx: QueueProcessorContext) {
+		this.sender = new QueueSender(ctx)
+	}
+
+	/**
+	 * Retry the message while the failure is retryable and attempts are left,
+	 * otherwise record it as a dead letter and ack it
+	 */
+	async settleFailure(
+		message: Message<unknown>,
+		queue: string,
+		queueMessage: QueueMessage,
+		failure: QueueFailure
+	): Promise<void> {
+		// The queue stops redelivering at its own max_retries, whatever the envelope asks for
+		const maxRetries = Math.min(
+			queueMessage.metadata.maxRetries,
+			QUEUE_MAX_RETRIES[queue] ?? queueMessage.metadata.maxRetries
+		)
+		const final = !failure.retryable || message.attempts > maxRetries
+		const entry: DeadLetterFailure = {
+			timestamp: Date.now(),
+			error: failure.error,
+			stackTrace: failure.stackTrace,
+			attempt: message.attempts,
+			code: failure.code,
+		}
+
+		try {
+			const { replayOf } = queueMessage.metadata
+			if (replayOf) {
+				await this.recordReplayFailure(replayOf, entry, final)
+			} else {
+				await this.recordFailure(message.id, queue, queueMessage, entry, final)
+			}
+		} catch (error) {
+			// Acking without a record would lose the message, let the queue deliver it again
+			this.ctx.logEvent('dead_letter_record_failed', {
+				messageId: message.id,
+				queue,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+			message.retry()
+			return
+		}
+
+		if (final) {
+			message.ack()
+		} else {
+			message.retry()
+		}
+	}
+
+	/**
+	 * Drop the failure history of a message that succeeded after retrying, or the
+	 * dead letter a successful replay resolved
+	 */
+	async settleSuccess(message: Message<unknown>, queueMessage: QueueMessage): Promise<void> {
+		const { replayOf } = queueMessage.metadata
+
+		try {
+			if (replayOf) {
+				await this.ctx.env.DOCS_BUCKET.delete(deadLetterKey(replayOf))
+				this.ctx.logEvent('dead_letter_resolved', { id: replayOf })
+			} else if (message.attempts > 1) {
+				await this.ctx.env.DOCS_BUCKET.delete(failureHistoryKey(message.id))
+			}
+		} catch (error) {
+			this.ctx.logEvent('dead_letter_cleanup_failed', {
+				messageId: message.id,
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
+	}
+
+	async list(
+		filter: {
+			status?: DeadLetterMessage['status']
+			queue?: string
+			limit?: number
+			cursor?: string
+		} = {}
+	): Promise<{ deadLetters: DeadLetterSummary[]; cursor?: string }> {
+		const limit = filter.limit ?? 50
+		const deadLetters: DeadLetterSummary[] = []
+		let cursor = filter.cursor
+
+		// Filters apply before the limit: pages no larger than the matches still missing
+		// are read until there are enough, so the cursor never skips a match
+		do {
+			const listing = await this.ctx.env.DOCS_BUCKET.list({
+				prefix: DEAD_LETTER_PREFIX,
+				limit: limit - deadLetters.length,
+				cursor,
+				include: ['customMetadata'],
+			})
+
+			deadLetters.push(
+				...listing.objects
+					.map((object: R2Object) => toSummary(object))
+					.filter(
+						(deadLetter: DeadLetterSummary) =>
+							(!filter.status || deadLetter.status === filter.status) &&
+							(!filter.queue || deadLetter.queue === filter.queue)
+					)
+			)
+			cursor = listing.truncated ? listing.cursor : undefined
+		} while (cursor && deadLetters.length < limit)
+
+		return { deadLetters, cursor }
+	}
+
+	async get(id: string): Promise<DeadLetterMessage | null> {
+		const object = await this.ctx.env.DOCS_BUCKET.get(deadLetterKey(id))
+		return object ? await object.json() : null
+	}
+
+	/**
+	 * Send a failed dead letter to its queue again, with `payload` replacing the
+	 * original one when given. It stays `manual_retry_pending` until the replay
+	 * succeeds, which removes it, or fails its last attempt, which sets it back to `failed`.
+	 */
+	async replay(id: string, payload?: QueueMessagePayload): Promise<DeadLetterResult> {
+		const deadLetter = await this.get(id)
+		if (!deadLetter) {
+			return { error: `Dead letter not found: ${id}`, status: 404 }
+		}
+		if (deadLetter.status !== 'failed') {
+			return { error: `Dead letter ${id} is ${deadLetter.status}`, status: 409 }
+		}
+
+		const original = deadLetter.originalMessage
+		if (payload && payload.type !== original.payload.type) {
+			return {
+				error: `Payload type ${payload.type} does not match ${original.payload.type}`,
+				status: 400,
+			}
+		}
+
+		const previous = { ...deadLetter }
+		deadLetter.status = 'manual_retry_pending'
+		deadLetter.replayedAt = Date.now()
+		deadLetter.replayCount = (deadLetter.replayCount ?? 0) + 1
+		if (payload) {
+			deadLetter.editedPayload = payload
+		}
+
+		// Stored before sending, so a fast replay cannot finish before the record says it started
+		await this.store(deadLetter)
+		try {
+			await this.sender.send(deadLetter.editedPayload ?? original.payload, original.metadata, {
+				maxRetries: original.metadata.maxRetries,
+				replayOf: id,
+			})
+		} catch (error) {
+			await this.store(previous)
+			throw error
+		}
+
+		this.ctx.logEvent('dead_letter_replayed', {
+			id,
+			queue: deadLetter.queue,
+			edited: !!deadLetter.editedPayload,
+			replayCount: deadLetter.replayCount,
+		})
+
+		return { deadLetter }
+	}
+
+	async abandon(id: string, reason?: string): Promise<DeadLetterResult> {
+		const deadLetter = await this.get(id)
+		if (!deadLetter) {
+			return { error: `Dead letter not found: ${id}`, status: 404 }
+		}
+		if (deadLetter.status === 'abandoned') {
+			return { error: `Dead letter ${id} is already abandoned`, status: 409 }
+		}
+
+		deadLetter.status = 'abandoned'
+		deadLetter.abandonedAt = Date.now()
+		deadLetter.abandonReason = reason
+		await this.store(deadLetter)
+
+		this.ctx.logEvent('dead_letter_abandoned', { id, queue: deadLetter.queue, reason })
+
+		return { deadLetter }
+	}
+
+	private async recordFailure(
+		id: string,
+		queue: string,
+		queueMessage: QueueMessage,
+		entry: DeadLetterFailure,
+		final: boolean
+	): Promise<void> {
+		const historyObject = await this.ctx.env.DOCS_BUCKET.get(failureHistoryKey(id))
+		const history: DeadLetterFailure[] = historyObject ? await historyObject.json() : []
+		const failures = [...history, entry]
+
+		if (!final) {
+			await this.ctx.env.DOCS_BUCKET.put(failureHistoryKey(id), JSON.stringify(failures), {
+				httpMetadata: {
+					contentType: 'application/json',
+				},
+			})
+			return
+		}
+
+		await this.store({
+			id,
+			queue,
+			originalMessage: queueMessage,
+			failureCount: failures.length,
+			lastFailureAt: entry.timestamp,
+			failures,
+			status: 'failed',
+		})
+		if (historyObject) {
+			await this.ctx.env.DOCS_BUCKET.delete(failureHistoryKey(id))
+		}
+
+		this.ctx.logEvent('message_dead_lettered', {
+			id,
+			queue,
+			type: queueMessage.type,
+			correlationId: queueMessage.metadata.correlationId,
+			failureCount: failures.length,
+			error: entry.error,
+		})
+		this.ctx.logMetric('dead_letters', 1, { queue })
+	}
+
+	private async recordReplayFailure(
+		id: string,
+		entry: DeadLetterFailure,
+		final: boolean
+	): Promise<void> {
+		const deadLetter = await this.get(id)
+		if (!deadLetter) {
+			return
+		}
+
+		deadLetter.failures.push(entry)
+		deadLetter.failureCount = deadLetter.failures.length
+		deadLetter.lastFailureAt = entry.timestamp
+		if (final && deadLetter.status === 'manual_retry_pending') {
+			deadLetter.status = 'failed'
+		}
+		await this.store(deadLetter)
+	}
+
+	private async store(deadLetter: DeadLetterMessage): Promise<void> {
+		const lastFailure = deadLetter.failures[deadLetter.failures.length - 1]
+
+		await this.ctx.env.DOCS_BUCKET.put(deadLetterKey(deadLetter.id), JSON.stringify(deadLetter), {
+			httpMetadata: {
+				contentType: 'application/json',
+			},
+			customMetadata: {
+				queue: deadLetter.queue,
+				type: deadLetter.originalMessage.type,
+				status: deadLetter.status,
+				failure_count: deadLetter.failureCount.toString(),
+				last_failure_at: deadLetter.lastFailureAt.toString(),
+				last_error: (lastFailure?.error ?? '').slice(0, MAX_LISTED_ERROR_LENGTH),
+			},
+		})
+	}
+}
+
+function toSummary(object: R2Object): DeadLetterSummary {
+	const metadata = object.customMetadata ?? {}
+	return {
+		id: object.key.slice(DEAD_LETTER_PREFIX.length, -'.json'.length),
+		queue: metadata.queue ?? '',
+		type: metadata.type ?? '',
+		status: (metadata.status ?? 'failed') as DeadLetterMessage['status'],
+		failureCount: Number(metadata.failure_count ?? 0),
+		lastFailureAt: Number(metadata.last_failure_at ?? 0),
+		lastError: metadata.last_error ?? '',
+	}
+}
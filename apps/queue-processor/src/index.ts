@@ -1,22 +1,40 @@
+import { zValidator } from '@hono/zod-validator'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
 import { prettyJSON } from 'hono/pretty-json'
 
+import { EMBEDDING_CACHE_STATS_ID } from '@repo/rag-core'
+import { z } from '@repo/workspace-dependencies/zod'
+
 import { createQueueProcessorContext } from './context'
 import { DocumentCoordinator } from './coordination'
+import { DeadLetterStore } from './dead-letters'
 import { BatchProcessor } from './processors/batch-processor'
 import { DocumentProcessor } from './processors/document-processor'
 import { WebhookProcessor } from './processors/webhook-processor'
+import {
+	INGESTION_CONCURRENCY,
+	MAX_RETRIES,
+	PRIORITY_ORDER,
+	PRIORITY_QUEUE,
+	processByPriority,
+	WEBHOOK_CONCURRENCY,
+} from './queues'
+import { ReplayDeadLetterSchema } from './schemas'
 
 import type { Env } from './context'
+import type { QueuePriority } from './queues'
 import type {
 	BatchProcessingResult,
 	BatchReprocessPayload,
+	DeadLetterMessage,
 	DocumentDeletePayload,
 	DocumentIngestionPayload,
 	DocumentUpdatePayload,
+	EmbeddingCacheModelStats,
 	QueueMessage,
+	QueueMessagePayload,
 	WebhookSyncPayload,
 } from './types'
 
@@ -46,11 +64,16 @@ app.get('/', (c) => {
 			'GET /health - Health check',
 			'GET /metrics - Processing metrics',
 			'POST /admin/cleanup - Trigger cleanup',
+			'GET /admin/dead-letters - List dead letters',
+			'GET /admin/dead-letters/:id - Inspect a dead letter',
+			'POST /admin/dead-letters/:id/replay - Replay a dead letter',
+			'POST /admin/dead-letters/:id/abandon - Abandon a dead letter',
 		],
 		queues: [
 			'document-ingestion - Document processing queue',
 			'webhook-processing - Webhook event processing',
 			'batch-reprocessing - Batch reprocessing operations',
+			'priority-processing - Critical and high priority messages of any type',
 		],
 	})
 })
@@ -65,12 +88,28 @@ app.get('/health', (c) => {
 })
 
 app.get('/metrics', async (c) => {
-	// TODO: Implement metrics collection from Durable Objects
-	return c.json({
-		status: 'metrics endpoint',
-		note: 'Metrics collection not yet implemented',
-		timestamp: new Date().toISOString(),
-	})
+	try {
+		// Embedding cache hit rates are aggregated per model in one coordinator instance
+		const coordinatorId = c.env.DOCUMENT_COORDINATOR.idFromName(EMBEDDING_CACHE_STATS_ID)
+		const coordinator = c.env.DOCUMENT_COORDINATOR.get(coordinatorId)
+
+		const response = await coordinator.fetch('http://coordinator/get-cache-stats')
+		const embeddingCache: { models: EmbeddingCacheModelStats[] } = await response.json()
+
+		return c.json({
+			embeddingCache,
+			timestamp: new Date().toISOString(),
+		})
+	} catch (error) {
+		console.error('Metrics collection failed:', error)
+		return c.json(
+			{
+				error: 'Failed to collect metrics',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
 })
 
 // Administrative endpoints
@@ -105,17 +144,174 @@ app.post('/admin/cleanup', async (c) => {
 	}
 })
 
+// Dead letters: messages that failed without being retryable or ran out of retries
+const DEAD_LETTER_STATUSES: Array<DeadLetterMessage['status']> = [
+	'failed',
+	'manual_retry_pending',
+	'abandoned',
+]
+
+app.get('/admin/dead-letters', async (c) => {
+	const status = c.req.query('status') as DeadLetterMessage['status'] | undefined
+	if (status && !DEAD_LETTER_STATUSES.includes(status)) {
+		return c.json(
+			{
+				error: 'Invalid status',
+				message: `status must be one of ${DEAD_LETTER_STATUSES.join(', ')}`,
+			},
+			400
+		)
+	}
+
+	try {
+		const deadLetters = new DeadLetterStore(createQueueProcessorContext(c.env))
+		const limit = Number(c.req.query('limit') || 50)
+
+		const result = await deadLetters.list({
+			status,
+			queue: c.req.query('queue'),
+			limit: Math.min(Math.max(1, limit || 50), 1000),
+			cursor: c.req.query('cursor'),
+		})
+
+		return c.json(result)
+	} catch (error) {
+		console.error('Dead letter listing failed:', error)
+		return c.json(
+			{
+				error: 'Failed to list dead letters',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
+app.get('/admin/dead-letters/:id', async (c) => {
+	const id = c.req.param('id')
+
+	try {
+		const deadLetters = new DeadLetterStore(createQueueProcessorContext(c.env))
+		const deadLetter = await deadLetters.get(id)
+		if (!deadLetter) {
+			return c.json({ error: 'Dead letter not found', message: `No dead letter ${id}` }, 404)
+		}
+
+		return c.json(deadLetter)
+	} catch (error) {
+		console.error('Dead letter lookup failed:', error)
+		return c.json(
+			{
+				error: 'Failed to get dead letter',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
+// Body: { payload? } to replay with an edited payload of the same type
+app.post(
+	'/admin/dead-letters/:id/replay',
+	zValidator('json', ReplayDeadLetterSchema, (result, c) => {
+		if (!result.success) {
+			return c.json(
+				{ error: 'Invalid replay payload', message: z.prettifyError(result.error) },
+				400
+			)
+		}
+	}),
+	async (c) => {
+		const id = c.req.param('id')
+		const body = c.req.valid('json')
+
+		try {
+			const deadLetters = new DeadLetterStore(createQueueProcessorContext(c.env))
+			const result = await deadLetters.replay(id, body.payload)
+			if ('error' in result) {
+				return c.json({ error: 'Cannot replay dead letter', message: result.error }, result.status)
+			}
+
+			return c.json({ success: true, deadLetter: result.deadLetter }, 202)
+		} catch (error) {
+			console.error('Dead letter replay failed:', error)
+			return c.json(
+				{
+					error: 'Failed to replay dead letter',
+					message: error instanceof Error ? error.message : 'Unknown error',
+				},
+				500
+			)
+		}
+	}
+)
+
+// Body: { reason? }
+app.post('/admin/dead-letters/:id/abandon', async (c) => {
+	const id = c.req.param('id')
+	const body: { reason?: string } = await c.req.json().catch(() => ({}))
+
+	try {
+		const deadLetters = new DeadLetterStore(createQueueProcessorContext(c.env))
+		const result = await deadLetters.abandon(id, body.reason)
+		if ('error' in result) {
+			return c.json({ error: 'Cannot abandon dead letter', message: result.error }, result.status)
+		}
+
+		return c.json({ success: true, deadLetter: result.deadLetter })
+	} catch (error) {
+		console.error('Dead letter abandon failed:', error)
+		return c.json(
+			{
+				error: 'Failed to abandon dead letter',
+				message: error instanceof Error ? error.message : 'Unknown error',
+			},
+			500
+		)
+	}
+})
+
 // Queue Message Handlers
 
+// Envelope metadata, when the sender wrapped the payload in a QueueMessage
+function envelopeMetadataOf(
+	message: Message<QueueMessage | QueueMessagePayload>
+): QueueMessage['metadata'] | undefined {
+	// Webhook payloads have a metadata field of their own, so check for the payload
+	return 'payload' in message.body ? message.body.metadata : undefined
+}
+
+// The envelope metadata as sent, with defaults for what a bare payload or partial envelope lacks
+function queueMetadataOf(
+	message: Message<QueueMessage | QueueMessagePayload>,
+	type: QueueMessage['type']
+): QueueMessage['metadata'] {
+	return {
+		priority: 'medium',
+		maxRetries: MAX_RETRIES[type],
+		correlationId: message.id,
+		source: 'queue-processor',
+		...envelopeMetadataOf(message),
+		retryCount: message.attempts,
+	}
+}
+
+// Bare payloads and unknown priorities are processed as medium
+function priorityOf(message: Message<QueueMessage | QueueMessagePayload>): QueuePriority {
+	const priority = envelopeMetadataOf(message)?.priority
+	return priority && PRIORITY_ORDER.includes(priority) ? priority : 'medium'
+}
+
 /**
  * Handle document ingestion queue messages
  */
 export async function handleDocumentIngestion(
-	batch: MessageBatch<DocumentIngestionPayload>,
+	batch: MessageBatch<QueueMessage | DocumentIngestionPayload>,
 	env: Env
 ): Promise<void> {
 	const ctx = createQueueProcessorContext(env)
 	const processor = new DocumentProcessor(ctx)
+	const deadLetters = new DeadLetterStore(ctx)
 
 	const results: BatchProcessingResult = {
 		totalMessages: batch.messages.length,
@@ -134,65 +330,68 @@ export async function handleDocumentIngestion(
 		batchId: crypto.randomUUID(),
 	})
 
-	// Process messages concurrently with limited concurrency
-	const concurrency = Math.min(batch.messages.length, 5)
-	const chunks = []
+	// Highest priority first, with less concurrency for low priority backfills
+	await processByPriority(batch.messages, priorityOf, INGESTION_CONCURRENCY, async (message) => {
+		// The ingest service sends QueueMessage envelopes, updates and deletions share this queue
+		const payload = 'payload' in message.body ? message.body.payload : message.body
+		const queueMessage = {
+			type: payload.type,
+			payload,
+			metadata: queueMetadataOf(message, payload.type),
+		} as QueueMessage
 
-	for (let i = 0; i < batch.messages.length; i += concurrency) {
-		chunks.push(batch.messages.slice(i, i + concurrency))
-	}
+		try {
+			const result =
+				payload.type === 'document_delete'
+					? await processor.processDocumentDeletion(
+							queueMessage as QueueMessage & { payload: DocumentDeletePayload }
+						)
+					: payload.type === 'document_update'
+						? await processor.processDocumentUpdate(
+								queueMessage as QueueMessage & { payload: DocumentUpdatePayload }
+							)
+						: await processor.processDocumentIngestion(
+								queueMessage as QueueMessage & { payload: DocumentIngestionPayload }
+							)
+			results.results.push(result)
 
-	for (const chunk of chunks) {
-		const chunkPromises = chunk.map(async (message) => {
-			try {
-				// Convert Cloudflare Workers Message to our QueueMessage format
-				const queueMessage: QueueMessage & { payload: DocumentIngestionPayload } = {
-					type: 'document_ingestion',
-					payload: message.body,
-					metadata: {
-						priority: 'medium',
-						retryCount: message.attempts,
-						maxRetries: 3,
-						correlationId: message.id,
-						source: 'queue-processor',
-					},
-				}
-				const result = await processor.processDocumentIngestion(queueMessage)
-				results.results.push(result)
-
-				if (result.success) {
-					results.successCount++
-					message.ack()
-				} else {
-					results.failureCount++
-					results.errors.push({
-						messageId: result.messageId,
-						error: result.error?.message || 'Unknown error',
-						retryable: result.error?.retryable || false,
-					})
-
-					if (result.error?.retryable) {
-						message.retry()
-					} else {
-						message.ack() // Don't retry non-retryable errors
-					}
-				}
-			} catch (error) {
+			if (result.success) {
+				results.successCount++
+				await deadLetters.settleSuccess(message, queueMessage)
+				message.ack()
+			} else {
 				results.failureCount++
-				const errorMessage = error instanceof Error ? error.message : 'Unknown error'
 				results.errors.push({
-					messageId: message.id || 'unknown',
-					error: errorMessage,
-					retryable: true,
+					messageId: result.messageId,
+					error: result.error?.message || 'Unknown error',
+					retryable: result.error?.retryable || false,
 				})
 
-				console.error('Message processing failed:', error)
-				message.retry()
+				// Retries what can be retried, records the rest as dead letters
+				await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+					error: result.error?.message || 'Unknown error',
+					code: result.error?.code,
+					stackTrace: result.error?.stackTrace,
+					retryable: result.error?.retryable || false,
+				})
 			}
-		})
-
-		await Promise.all(chunkPromises)
-	}
+		} catch (error) {
+			results.failureCount++
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+			results.errors.push({
+				messageId: message.id || 'unknown',
+				error: errorMessage,
+				retryable: true,
+			})
+
+			console.error('Message processing failed:', error)
+			await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+				error: errorMessage,
+				stackTrace: error instanceof Error ? error.stack : undefined,
+				retryable: true,
+			})
+		}
+	})
 
 	results.totalProcessingTime = Date.now() - startTime
 
@@ -212,11 +411,12 @@ export async function handleDocumentIngestion(
  * Handle webhook processing queue messages
  */
 export async function handleWebhookProcessing(
-	batch: MessageBatch<WebhookSyncPayload>,
+	batch: MessageBatch<QueueMessage | WebhookSyncPayload>,
 	env: Env
 ): Promise<void> {
 	const ctx = createQueueProcessorContext(env)
 	const processor = new WebhookProcessor(ctx)
+	const deadLetters = new DeadLetterStore(ctx)
 
 	const startTime = Date.now()
 
@@ -225,55 +425,46 @@ export async function handleWebhookProcessing(
 		batchId: crypto.randomUUID(),
 	})
 
-	// Process webhook messages with higher concurrency since they're typically lighter
-	const concurrency = Math.min(batch.messages.length, 10)
-	const chunks = []
-
-	for (let i = 0; i < batch.messages.length; i += concurrency) {
-		chunks.push(batch.messages.slice(i, i + concurrency))
-	}
-
 	let successCount = 0
 	let failureCount = 0
 
-	for (const chunk of chunks) {
-		const chunkPromises = chunk.map(async (message) => {
-			try {
-				// Convert Cloudflare Workers Message to our QueueMessage format
-				const queueMessage: QueueMessage & { payload: WebhookSyncPayload } = {
-					type: 'webhook_sync',
-					payload: message.body,
-					metadata: {
-						priority: 'medium',
-						retryCount: message.attempts,
-						maxRetries: 5,
-						correlationId: message.id,
-						source: 'queue-processor',
-					},
-				}
-				const result = await processor.processWebhookSync(queueMessage)
-
-				if (result.success) {
-					successCount++
-					message.ack()
-				} else {
-					failureCount++
-
-					if (result.error?.retryable) {
-						message.retry()
-					} else {
-						message.ack()
-					}
-				}
-			} catch (error) {
+	// Webhook messages are typically lighter, so they run with higher concurrency
+	await processByPriority(batch.messages, priorityOf, WEBHOOK_CONCURRENCY, async (message) => {
+		// Convert Cloudflare Workers Message to our QueueMessage format
+		const queueMessage: QueueMessage & { payload: WebhookSyncPayload } = {
+			type: 'webhook_sync',
+			payload: ('payload' in message.body
+				? message.body.payload
+				: message.body) as WebhookSyncPayload,
+			metadata: queueMetadataOf(message, 'webhook_sync'),
+		}
+
+		try {
+			const result = await processor.processWebhookSync(queueMessage)
+
+			if (result.success) {
+				successCount++
+				await deadLetters.settleSuccess(message, queueMessage)
+				message.ack()
+			} else {
 				failureCount++
-				console.error('Webhook message processing failed:', error)
-				message.retry()
+				await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+					error: result.error?.message || 'Unknown error',
+					code: result.error?.code,
+					stackTrace: result.error?.stackTrace,
+					retryable: result.error?.retryable || false,
+				})
 			}
-		})
-
-		await Promise.all(chunkPromises)
-	}
+		} catch (error) {
+			failureCount++
+			console.error('Webhook message processing failed:', error)
+			await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+				error: error instanceof Error ? error.message : 'Unknown error',
+				stackTrace: error instanceof Error ? error.stack : undefined,
+				retryable: true,
+			})
+		}
+	})
 
 	const totalProcessingTime = Date.now() - startTime
 
@@ -294,11 +485,12 @@ export async function handleWebhookProcessing(
  * Handle batch reprocessing queue messages
  */
 export async function handleBatchReprocessing(
-	batch: MessageBatch<BatchReprocessPayload>,
+	batch: MessageBatch<QueueMessage | BatchReprocessPayload>,
 	env: Env
 ): Promise<void> {
 	const ctx = createQueueProcessorContext(env)
 	const processor = new BatchProcessor(ctx)
+	const deadLetters = new DeadLetterStore(ctx)
 
 	const startTime = Date.now()
 
@@ -307,35 +499,43 @@ export async function handleBatchReprocessing(
 		batchId: crypto.randomUUID(),
 	})
 
-	// Process batch reprocessing messages sequentially to avoid overwhelming the system
-	for (const message of batch.messages) {
+	// Process batch reprocessing messages sequentially to avoid overwhelming the system,
+	// highest priority first; each message's priority sets its document concurrency
+	const messages = [...batch.messages].sort(
+		(a, b) => PRIORITY_ORDER.indexOf(priorityOf(a)) - PRIORITY_ORDER.indexOf(priorityOf(b))
+	)
+
+	for (const message of messages) {
+		// Convert Cloudflare Workers Message to our QueueMessage format
+		const queueMessage: QueueMessage & { payload: BatchReprocessPayload } = {
+			type: 'batch_reprocess',
+			payload: ('payload' in message.body
+				? message.body.payload
+				: message.body) as BatchReprocessPayload,
+			metadata: queueMetadataOf(message, 'batch_reprocess'),
+		}
+
 		try {
-			// Convert Cloudflare Workers Message to our QueueMessage format
-			const queueMessage: QueueMessage & { payload: BatchReprocessPayload } = {
-				type: 'batch_reprocess',
-				payload: message.body,
-				metadata: {
-					priority: 'medium',
-					retryCount: message.attempts,
-					maxRetries: 2,
-					correlationId: message.id,
-					source: 'queue-processor',
-				},
-			}
 			const result = await processor.processBatchReprocess(queueMessage)
 
 			if (result.success) {
+				await deadLetters.settleSuccess(message, queueMessage)
 				message.ack()
 			} else {
-				if (result.error?.retryable) {
-					message.retry()
-				} else {
-					message.ack()
-				}
+				await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+					error: result.error?.message || 'Unknown error',
+					code: result.error?.code,
+					stackTrace: result.error?.stackTrace,
+					retryable: result.error?.retryable || false,
+				})
 			}
 		} catch (error) {
 			console.error('Batch reprocessing failed:', error)
-			message.retry()
+			await deadLetters.settleFailure(message, batch.queue, queueMessage, {
+				error: error instanceof Error ? error.message : 'Unknown error',
+				stackTrace: error instanceof Error ? error.stack : undefined,
+				retryable: true,
+			})
 		}
 	}
 
@@ -347,6 +547,60 @@ export async function handleBatchReprocessing(
 	})
 }
 
+/**
+ * Handle fast lane messages: critical and high priority messages of every type,
+ * passed to the handler of their type so they are processed like on their own queue
+ */
+export async function handlePriorityProcessing(
+	batch: MessageBatch<QueueMessage | QueueMessagePayload>,
+	env: Env
+): Promise<void> {
+	const ctx = createQueueProcessorContext(env)
+	const typeOf = (message: Message<QueueMessage | QueueMessagePayload>) =>
+		'payload' in message.body ? message.body.payload.type : message.body.type
+
+	const webhooks = batch.messages.filter((message) => typeOf(message) === 'webhook_sync')
+	const reprocessing = batch.messages.filter((message) => typeOf(message) === 'batch_reprocess')
+	const documents = batch.messages.filter(
+		(message) => !webhooks.includes(message) && !reprocessing.includes(message)
+	)
+
+	ctx.logEvent('priority_batch_started', {
+		messageCount: batch.messages.length,
+		documents: documents.length,
+		webhooks: webhooks.length,
+		batchReprocess: reprocessing.length,
+	})
+
+	await Promise.all([
+		documents.length > 0 &&
+			handleDocumentIngestion(
+				subBatch(batch, documents) as MessageBatch<QueueMessage | DocumentIngestionPayload>,
+				env
+			),
+		webhooks.length > 0 &&
+			handleWebhookProcessing(
+				subBatch(batch, webhooks) as MessageBatch<QueueMessage | WebhookSyncPayload>,
+				env
+			),
+		reprocessing.length > 0 &&
+			handleBatchReprocessing(
+				subBatch(batch, reprocessing) as MessageBatch<QueueMessage | BatchReprocessPayload>,
+				env
+			),
+	])
+}
+
+// Part of a batch, keeping its queue name so failures are recorded against it
+function subBatch<T>(batch: MessageBatch<T>, messages: ReadonlyArray<Message<T>>): MessageBatch<T> {
+	return {
+		queue: batch.queue,
+		messages,
+		retryAll: (options) => messages.forEach((message) => message.retry(options)),
+		ackAll: () => messages.forEach((message) => message.ack()),
+	}
+}
+
 // Error handling middleware
 app.onError((err, c) => {
 	console.error('Unhandled error:', err)
@@ -374,6 +628,8 @@ async function queueHandler(batch: MessageBatch<any>, env: Env, ctx: ExecutionCo
 			return handleWebhookProcessing(batch, env)
 		case 'batch-reprocessing':
 			return handleBatchReprocessing(batch, env)
+		case PRIORITY_QUEUE:
+			return handlePriorityProcessing(batch, env)
 		default:
 			console.error(`Unknown queue: ${queueName}`)
 			// Acknowledge all messages to prevent infinite retries
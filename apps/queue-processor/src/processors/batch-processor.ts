@@ -1,12 +1,64 @@
+import {
+	createWorkersAiProvider,
+	diffMetadata,
+	documentTextKey,
+	embedInBatches,
+	getEmbeddingModel,
+	manifestKey,
+	migrateChunkMetadata,
+	parseMetadataList,
+	scanChunks,
+	sha256Hex,
+	toVectorMetadata,
+	withEmbeddingCache,
+} from '@repo/rag-core'
+
+import { INDEX_MIGRATION_ID } from '../coordination'
+import { QueueSender } from '../queue-sender'
+import { BATCH_DOCUMENT_CONCURRENCY, isFastLane } from '../queues'
+
+import type { DocumentManifest, MetadataChange, StoredChunkMetadata } from '@repo/rag-core'
+import type { Document } from '@repo/rag-types'
 import type {
+	ActiveVectorIndex,
 	BatchReprocessPayload,
+	DocumentIngestionPayload,
+	DocumentLock,
+	DocumentMigrationProgress,
+	DocumentReprocessDiff,
+	IndexMigration,
 	ProcessingResult,
 	QueueMessage,
 	QueueProcessorContext,
+	VectorIndexSlot,
 } from '../types'
 
+// Chunks re-embedded and copied per call during an index migration
+const MIGRATION_BATCH_SIZE = 20
+
+// Vectors read and rewritten per Vectorize call when chunk metadata changes
+const METADATA_UPDATE_BATCH_SIZE = 20
+
+interface StoredChunk {
+	id: string
+	key: string
+	content: string
+	metadata: StoredChunkMetadata
+}
+
+// A chunk whose R2 object and vector are rewritten
+interface ChunkUpdate extends StoredChunk {
+	changes: MetadataChange[]
+	/** The text changed, so the vector has to be embedded again */
+	reembed: boolean
+}
+
 export class BatchProcessor {
-	constructor(private ctx: QueueProcessorContext) {}
+	private sender: QueueSender
+
+	constructor(private ctx: QueueProcessorContext) {
+		this.sender = new QueueSender(ctx)
+	}
 
 	async processBatchReprocess(
 		message: QueueMessage & { payload: BatchReprocessPayload }
@@ -22,7 +74,7 @@ export class BatchProcessor {
 		})
 
 		try {
-			const results = await this.processBatch(payload)
+			const results = await this.processBatch(payload, message.metadata)
 
 			const processingTime = Date.now() - startTime
 
@@ -68,18 +120,21 @@ export class BatchProcessor {
 					code: 'BATCH_PROCESSING_FAILED',
 					message: errorMessage,
 					retryable: this.isRetryableError(error),
+					stackTrace: error instanceof Error ? error.stack : undefined,
 				},
 			}
 		}
 	}
 
-	private async processBatch(payload: BatchReprocessPayload) {
+	private async processBatch(payload: BatchReprocessPayload, trigger: QueueMessage['metadata']) {
 		const { documentIds, reason, options = {} } = payload
-		const batchSize = 5 // Process 5 documents concurrently
+		// Documents processed concurrently, more for urgent batches than for backfills
+		const batchSize = BATCH_DOCUMENT_CONCURRENCY[trigger.priority] ?? 5
 		const results = {
 			successCount: 0,
 			failureCount: 0,
 			errors: [] as Array<{ documentId: string; error: string }>,
+			diffs: [] as DocumentReprocessDiff[],
 		}
 
 		// Process documents in batches to avoid overwhelming the system
@@ -89,12 +144,13 @@ export class BatchProcessor {
 			this.ctx.logEvent('processing_batch_chunk', {
 				batchIndex: Math.floor(i / batchSize),
 				chunkSize: batch.length,
+				priority: trigger.priority,
 				totalRemaining: documentIds.length - i,
 			})
 
 			// Process batch concurrently
 			const batchPromises = batch.map((documentId) =>
-				this.processDocument(documentId, reason, options).catch((error) => ({
+				this.processDocument(documentId, reason, options, trigger).catch((error) => ({
 					documentId,
 					success: false,
 					error: error.message,
@@ -105,6 +161,10 @@ export class BatchProcessor {
 
 			// Aggregate results
 			for (const result of batchResults) {
+				if ('diff' in result && result.diff) {
+					results.diffs.push(result.diff)
+				}
+
 				if (result.success) {
 					results.successCount++
 				} else {
@@ -116,8 +176,9 @@ export class BatchProcessor {
 				}
 			}
 
-			// Add small delay between batches to be respectful of rate limits
-			if (i + batchSize < documentIds.length) {
+			// Add small delay between batches to be respectful of rate limits, except for
+			// critical and high priority work
+			if (i + batchSize < documentIds.length && !isFastLane(trigger.priority)) {
 				await new Promise((resolve) => setTimeout(resolve, 1000))
 			}
 		}
@@ -128,8 +189,14 @@ export class BatchProcessor {
 	private async processDocument(
 		documentId: string,
 		reason: string,
-		options: any
-	): Promise<{ documentId: string; success: boolean; error?: string }> {
+		options: any,
+		trigger: QueueMessage['metadata']
+	): Promise<{
+		documentId: string
+		success: boolean
+		error?: string
+		diff?: DocumentReprocessDiff
+	}> {
 		try {
 			switch (reason) {
 				case 'schema_change':
@@ -139,7 +206,7 @@ export class BatchProcessor {
 				case 'policy_change':
 					return await this.handlePolicyChange(documentId, options)
 				case 'manual_reindex':
-					return await this.handleManualReindex(documentId, options)
+					return await this.handleManualReindex(documentId, options, trigger)
 				default:
 					throw new Error(`Unknown reprocessing reason: ${reason}`)
 			}
@@ -153,204 +220,527 @@ export class BatchProcessor {
 	}
 
 	private async handleSchemaChange(documentId: string, options: any) {
-		this.ctx.logEvent('handling_schema_change', { documentId })
-
-		// For schema changes, we typically need to:
-		// 1. Retrieve the original document content
-		// 2. Re-chunk with new schema
-		// 3. Regenerate embeddings
-		// 4. Update metadata format
-		// 5. Replace old vectors
+		this.ctx.logEvent('handling_schema_change', {
+			documentId,
+			schemaVersion: options.schemaVersion,
+		})
 
-		const documentContent = await this.retrieveOriginalDocument(documentId)
-		if (!documentContent) {
+		// Stored chunks are migrated in place: only their R2 custom metadata and the
+		// vector metadata derived from it change, so nothing is chunked or embedded again
+		const manifest = await this.loadManifest(documentId)
+		if (!manifest) {
 			throw new Error(`Document not found: ${documentId}`)
 		}
 
-		// Apply new schema transformations
-		const transformedDocument = await this.applySchemaTransformation(documentContent, options)
+		const chunks = await this.retrieveDocumentChunks(manifest)
+		const updates: ChunkUpdate[] = []
+		for (const chunk of chunks) {
+			const { metadata, changes } = migrateChunkMetadata(chunk.metadata, options.schemaVersion)
+			if (changes.length > 0) {
+				updates.push({ ...chunk, metadata, changes, reembed: false })
+			}
+		}
+
+		const diff = this.buildReprocessDiff(documentId, 'schema_change', options, chunks, updates)
+		if (!diff.dryRun && updates.length > 0) {
+			await this.rewriteChunks(manifest, updates)
+		}
 
-		// Queue for reprocessing with new schema
-		await this.queueDocumentForReprocessing(transformedDocument, 'schema_change')
+		this.ctx.logEvent('schema_change_applied', { ...diff })
 
-		return { documentId, success: true }
+		return { documentId, success: true, diff }
 	}
 
 	private async handleModelUpdate(documentId: string, options: any) {
-		this.ctx.logEvent('handling_model_update', { documentId })
-
-		// For model updates, we need to:
-		// 1. Retrieve existing chunks
-		// 2. Regenerate embeddings with new model
-		// 3. Update vector storage
+		this.ctx.logEvent('handling_model_update', { documentId, migrationId: options.migrationId })
+
+		// Blue/green: the stored chunks are re-embedded into the inactive index with the
+		// migration's model, while queries keep reading the active index until the switch
+		const migration = await this.getIndexMigration()
+		if (
+			!migration ||
+			migration.id !== options.migrationId ||
+			(migration.status !== 'running' && migration.status !== 'ready')
+		) {
+			throw new Error(`Index migration ${options.migrationId} is not running`)
+		}
 
-		const chunks = await this.retrieveDocumentChunks(documentId)
-		if (!chunks || chunks.length === 0) {
-			throw new Error(`No chunks found for document: ${documentId}`)
+		const manifest = await this.loadManifest(documentId)
+		if (!manifest) {
+			// Hard deleted since the migration started, nothing left to migrate
+			await this.removeFromMigration(documentId)
+			return { documentId, success: true }
 		}
 
-		// Regenerate embeddings for all chunks
-		for (const chunk of chunks) {
-			const newEmbedding = await this.generateEmbeddingWithNewModel(chunk.content)
-			await this.updateChunkEmbedding(chunk.id, newEmbedding)
+		let chunksMigrated = 0
+		const reportProgress = (status: DocumentMigrationProgress['status'], error?: string) =>
+			this.recordMigrationProgress(migration.id, {
+				documentId,
+				status,
+				chunksMigrated,
+				totalChunks: manifest.chunks.length,
+				manifestIngestedAt: manifest.ingestedAt,
+				error,
+			})
+
+		try {
+			const chunks = await this.retrieveDocumentChunks(manifest)
+			if (chunks.length === 0) {
+				throw new Error(`No chunks found for document: ${documentId}`)
+			}
+
+			const provider = withEmbeddingCache(
+				createWorkersAiProvider(this.ctx.env.AI, migration.toModel),
+				this.ctx.env.DOCS_BUCKET
+			)
+			const targetIndex = this.getVectorIndex(migration.toSlot)
+
+			for (let i = 0; i < chunks.length; i += MIGRATION_BATCH_SIZE) {
+				const batch = chunks.slice(i, i + MIGRATION_BATCH_SIZE)
+
+				const { vectors, failures } = await embedInBatches(
+					provider,
+					batch.map(({ id, content }) => ({ id, text: content })),
+					MIGRATION_BATCH_SIZE
+				)
+				if (failures.length > 0) {
+					throw new Error(
+						`Embedding failed for ${failures.map(({ id, error }) => `${id} (${error})`).join(', ')}`
+					)
+				}
+
+				// Metadata comes from the stored chunk, the same as the active index was written
+				// with, so no vector reaches the new index without its ACL
+				await targetIndex.upsert(
+					batch.map(({ id, metadata }) => ({
+						id,
+						values: vectors.get(id)!,
+						metadata: toVectorMetadata(metadata),
+					}))
+				)
+
+				chunksMigrated += batch.length
+				await reportProgress('pending')
+			}
+
+			await reportProgress('migrated')
+
+			this.ctx.logMetric('index_migration_chunks', chunksMigrated, {
+				model: migration.toModel,
+				slot: migration.toSlot,
+			})
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+			await reportProgress('failed', errorMessage).catch(() => undefined)
+			throw error
 		}
 
 		return { documentId, success: true }
 	}
 
 	private async handlePolicyChange(documentId: string, options: any) {
-		this.ctx.logEvent('handling_policy_change', { documentId })
+		this.ctx.logEvent('handling_policy_change', {
+			documentId,
+			newAcl: options.newAcl,
+			dlpPolicy: options.dlpPolicy,
+		})
 
-		// For policy changes, we might need to:
-		// 1. Update ACL metadata
-		// 2. Apply new DLP rules
-		// 3. Update access controls
+		// Chunks without ACL entries are public, so an empty ACL never replaces one
+		if (options.newAcl && options.newAcl.filter(Boolean).length === 0) {
+			throw new Error(`Policy change for ${documentId} has an empty ACL`)
+		}
 
-		const documentMetadata = await this.retrieveDocumentMetadata(documentId)
-		if (!documentMetadata) {
-			throw new Error(`Document metadata not found: ${documentId}`)
+		const manifest = await this.loadManifest(documentId)
+		if (!manifest) {
+			throw new Error(`Document not found: ${documentId}`)
 		}
 
-		// Apply new policy rules
-		const updatedMetadata = await this.applyPolicyChanges(documentMetadata, options)
+		const chunks = await this.retrieveDocumentChunks(manifest)
+		const acl: string[] = options.newAcl ?? parseMetadataList(manifest.metadata.acl)
+
+		// Stored text was already through the ingest policy, so a re-scan only finds
+		// what that policy let through, e.g. after tag-only or with DLP disabled
+		const scan = options.dlpPolicy
+			? scanChunks(
+					chunks.map((chunk) => chunk.content),
+					options.dlpPolicy
+				)
+			: null
+		const deletedAt = scan?.rejected ? new Date().toISOString() : undefined
+
+		const updates: ChunkUpdate[] = []
+		chunks.forEach((chunk, i) => {
+			// Bring older chunks to the current schema first so the ACL has one format
+			const { metadata: current } = migrateChunkMetadata(chunk.metadata)
+			const metadata: StoredChunkMetadata = { ...current, acl: acl.join(',') }
+
+			const scanned = scan?.chunks[i]
+			if (scanned && scanned.entityTypes.length > 0) {
+				metadata.redaction_count = String(
+					Number(current.redaction_count || 0) + scanned.redactionCount
+				)
+				metadata.pii_types = [
+					...new Set([...parseMetadataList(current.pii_types), ...scanned.entityTypes]),
+				].join(',')
+			}
+			if (deletedAt) {
+				metadata.deleted_at = deletedAt
+				metadata.deleted_reason = 'dlp_policy'
+			}
 
-		// Update all chunks with new metadata
-		await this.updateDocumentMetadata(documentId, updatedMetadata)
+			const content = scanned?.text ?? chunk.content
+			const changes = diffMetadata(chunk.metadata, metadata)
+			if (changes.length > 0 || content !== chunk.content) {
+				updates.push({ ...chunk, content, metadata, changes, reembed: content !== chunk.content })
+			}
+		})
 
-		return { documentId, success: true }
+		const diff = this.buildReprocessDiff(documentId, 'policy_change', options, chunks, updates)
+		diff.documentChanges = diffMetadata(
+			{ acl: parseMetadataList(manifest.metadata.acl).join(',') },
+			{ acl: acl.join(',') }
+		)
+		if (scan) {
+			diff.redactionCount = scan.redactionCount
+			diff.rejected = scan.rejected
+		}
+
+		if (!diff.dryRun && (updates.length > 0 || diff.documentChanges.length > 0)) {
+			await this.rewriteChunks(
+				{
+					...manifest,
+					metadata: { ...manifest.metadata, acl },
+					dlpPolicy: options.dlpPolicy ?? manifest.dlpPolicy,
+					deletedAt: deletedAt ?? manifest.deletedAt,
+				},
+				updates
+			)
+		}
+
+		if (scan && !diff.dryRun) {
+			this.ctx.logMetric('dlp_redactions', scan.redactionCount, { policy: options.dlpPolicy })
+		}
+		this.ctx.logEvent('policy_change_applied', { ...diff })
+
+		return { documentId, success: true, diff }
 	}
 
-	private async handleManualReindex(documentId: string, options: any) {
+	private async handleManualReindex(
+		documentId: string,
+		options: any,
+		trigger: QueueMessage['metadata']
+	) {
 		this.ctx.logEvent('handling_manual_reindex', { documentId })
 
-		// For manual reindexing, we do a full reprocess
-		const documentContent = await this.retrieveOriginalDocument(documentId)
-		if (!documentContent) {
+		const manifest = await this.loadManifest(documentId)
+		if (!manifest) {
 			throw new Error(`Document not found: ${documentId}`)
 		}
+		const documentContent = await this.retrieveOriginalDocument(manifest)
+		if (!documentContent) {
+			throw new Error(`Document ${documentId} is deleted or has no stored text to reindex from`)
+		}
 
-		// Queue for complete reprocessing
-		await this.queueDocumentForReprocessing(documentContent, 'manual_reindex', {
-			forceReprocess: true,
-			preserveVersions: options.preserveVersions,
+		// A full reprocess through the ingestion queue, chunked and scanned the way it was before
+		await this.queueDocumentForReprocessing(documentContent, 'manual_reindex', trigger, {
+			strategy: manifest.chunkingStrategy,
+			...manifest.chunkingOptions,
+			dlpEnabled: !!manifest.dlpPolicy,
+			dlpPolicy: manifest.dlpPolicy,
+			skipDeduplication: true,
+			incrementalUpdate: !options.forceFullReprocess,
 		})
 
 		return { documentId, success: true }
 	}
 
-	// Helper methods (placeholder implementations)
-	private async retrieveOriginalDocument(documentId: string): Promise<any> {
-		// TODO: Implement retrieval from R2 or original source
-		this.ctx.logEvent('retrieving_original_document', { documentId })
+	/**
+	 * The document as last ingested, from the text stored before DLP. Stored chunks are
+	 * redacted and overlap, so they cannot stand in for it.
+	 */
+	private async retrieveOriginalDocument(manifest: DocumentManifest): Promise<Document | null> {
+		this.ctx.logEvent('retrieving_original_document', { documentId: manifest.documentId })
+
+		if (manifest.deletedAt) {
+			return null
+		}
+
+		const object = await this.ctx.env.DOCS_BUCKET.get(documentTextKey(manifest.documentId))
+		if (!object) {
+			return null
+		}
 
-		// Placeholder - in reality, this would fetch from R2 or source system
 		return {
-			id: documentId,
-			text: `Original content for ${documentId}`,
-			source: 'unknown',
-			metadata: {},
+			id: manifest.documentId,
+			text: await object.text(),
+			source: manifest.source,
+			url: manifest.url,
+			metadata: manifest.metadata,
 		}
 	}
 
-	private async retrieveDocumentChunks(
-		documentId: string
-	): Promise<Array<{ id: string; content: string }>> {
-		// TODO: Implement chunk retrieval from R2
-		this.ctx.logEvent('retrieving_document_chunks', { documentId })
-
-		// Placeholder implementation
-		return [
-			{ id: `${documentId}#0`, content: `Chunk 0 for ${documentId}` },
-			{ id: `${documentId}#1`, content: `Chunk 1 for ${documentId}` },
-		]
+	// The manifest lists the chunks the last ingest stored
+	private async retrieveDocumentChunks(manifest: DocumentManifest): Promise<StoredChunk[]> {
+		this.ctx.logEvent('retrieving_document_chunks', { documentId: manifest.documentId })
+
+		const chunks = await Promise.all(
+			manifest.chunks.map(async (chunk) => {
+				const object = await this.ctx.env.DOCS_BUCKET.get(chunk.key)
+				return object
+					? {
+							id: chunk.id,
+							key: chunk.key,
+							content: await object.text(),
+							metadata: object.customMetadata ?? {},
+						}
+					: null
+			})
+		)
+
+		return chunks.filter((chunk) => chunk !== null)
+	}
+
+	private async loadManifest(documentId: string): Promise<DocumentManifest | null> {
+		const object = await this.ctx.env.DOCS_BUCKET.get(manifestKey(documentId))
+		return object ? await object.json() : null
+	}
+
+	private async storeManifest(manifest: DocumentManifest): Promise<void> {
+		await this.ctx.env.DOCS_BUCKET.put(manifestKey(manifest.documentId), JSON.stringify(manifest), {
+			httpMetadata: {
+				contentType: 'application/json',
+			},
+			customMetadata: {
+				doc_id: manifest.documentId,
+				chunk_count: manifest.chunks.length.toString(),
+				embedding_model: manifest.embeddingModel,
+			},
+		})
 	}
 
-	private async retrieveDocumentMetadata(documentId: string): Promise<any> {
-		// TODO: Implement metadata retrieval
-		this.ctx.logEvent('retrieving_document_metadata', { documentId })
+	/**
+	 * Write changed chunks to R2 and the active index, then record the new manifest.
+	 * Vectors keep their values unless the text changed; a vector missing from the
+	 * index is embedded again as well.
+	 */
+	private async rewriteChunks(manifest: DocumentManifest, updates: ChunkUpdate[]): Promise<void> {
+		const lockResult = await this.acquireUpdateLock(manifest.documentId)
+		if (!lockResult.success || !lockResult.lock) {
+			throw new Error(lockResult.error || `Could not lock document: ${manifest.documentId}`)
+		}
+
+		try {
+			const target = await this.resolveVectorIndex()
+			const index = this.getVectorIndex(target.slot)
+			const provider = withEmbeddingCache(
+				createWorkersAiProvider(this.ctx.env.AI, target.model),
+				this.ctx.env.DOCS_BUCKET
+			)
+
+			for (let i = 0; i < updates.length; i += METADATA_UPDATE_BATCH_SIZE) {
+				const batch = updates.slice(i, i + METADATA_UPDATE_BATCH_SIZE)
+
+				await Promise.all(
+					batch.map((chunk) =>
+						this.ctx.env.DOCS_BUCKET.put(chunk.key, chunk.content, {
+							httpMetadata: {
+								contentType: 'text/plain',
+							},
+							customMetadata: chunk.metadata,
+						})
+					)
+				)
+
+				const keep = batch.filter((chunk) => !chunk.reembed).map((chunk) => chunk.id)
+				const existing = keep.length > 0 ? await index.getByIds(keep) : []
+				const values = new Map(existing.map((vector) => [vector.id, vector.values]))
+
+				const toEmbed = batch.filter((chunk) => !values.has(chunk.id))
+				const { vectors, failures } = await embedInBatches(
+					provider,
+					toEmbed.map(({ id, content }) => ({ id, text: content })),
+					METADATA_UPDATE_BATCH_SIZE
+				)
+				if (failures.length > 0) {
+					throw new Error(
+						`Embedding failed for ${failures.map(({ id, error }) => `${id} (${error})`).join(', ')}`
+					)
+				}
+
+				await index.upsert(
+					batch.map((chunk) => ({
+						id: chunk.id,
+						values: values.get(chunk.id) ?? vectors.get(chunk.id)!,
+						metadata: toVectorMetadata(chunk.metadata),
+					}))
+				)
+			}
+
+			const hashes = new Map(
+				await Promise.all(
+					updates
+						.filter((chunk) => chunk.reembed)
+						.map(async (chunk) => [chunk.id, await sha256Hex(chunk.content)] as const)
+				)
+			)
+			const updated: DocumentManifest = {
+				...manifest,
+				chunks: manifest.chunks.map((chunk) => ({
+					...chunk,
+					contentHash: hashes.get(chunk.id) ?? chunk.contentHash,
+				})),
+				ingestedAt: new Date().toISOString(),
+			}
+			await this.storeManifest(updated)
+
+			// Copies a running index migration already made carry the old metadata
+			await this.getMigrationCoordinator().fetch(
+				'http://coordinator/invalidate-migration-document',
+				{
+					method: 'POST',
+					body: JSON.stringify({
+						documentId: manifest.documentId,
+						manifestIngestedAt: updated.ingestedAt,
+					}),
+				}
+			)
+		} finally {
+			await this.releaseLock(lockResult.lock)
+		}
+	}
+
+	private buildReprocessDiff(
+		documentId: string,
+		reason: BatchReprocessPayload['reason'],
+		options: any,
+		chunks: StoredChunk[],
+		updates: ChunkUpdate[]
+	): DocumentReprocessDiff {
+		const chunkChanges = new Map<string, MetadataChange & { chunks: number }>()
+		for (const update of updates) {
+			for (const change of update.changes) {
+				const entry = chunkChanges.get(change.key)
+				if (entry) {
+					entry.chunks++
+				} else {
+					chunkChanges.set(change.key, { ...change, chunks: 1 })
+				}
+			}
+		}
 
 		return {
 			documentId,
-			acl: ['internal'],
-			lastModified: Date.now(),
-			source: 'unknown',
+			reason,
+			dryRun: !!options.dryRun,
+			chunksScanned: chunks.length,
+			chunksUpdated: updates.length,
+			chunksReembedded: updates.filter((update) => update.reembed).length,
+			chunkChanges: [...chunkChanges.values()],
+			documentChanges: [],
 		}
 	}
 
-	private async applySchemaTransformation(document: any, options: any): Promise<any> {
-		// TODO: Implement actual schema transformation logic
-		this.ctx.logEvent('applying_schema_transformation', {
-			documentId: document.id,
-			transformationType: options.transformationType,
+	// Index and model queries read; EMBEDDING_MODEL until the first index switch
+	private async resolveVectorIndex(): Promise<ActiveVectorIndex> {
+		const response = await this.getMigrationCoordinator().fetch(
+			'http://coordinator/get-active-index'
+		)
+		const { active }: { active: ActiveVectorIndex | null } = await response.json()
+
+		return active ?? { slot: 'blue', model: getEmbeddingModel(this.ctx.env.EMBEDDING_MODEL).id }
+	}
+
+	private async acquireUpdateLock(documentId: string): Promise<{
+		success: boolean
+		lock?: DocumentLock
+		error?: string
+	}> {
+		const coordinator = this.ctx.getCoordinator(documentId)
+
+		const response = await coordinator.fetch('http://coordinator/acquire-lock', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				documentId,
+				lockType: 'updating',
+				ttlSeconds: 600,
+				workerId: this.ctx.workerId,
+			}),
 		})
 
-		return {
-			...document,
-			metadata: {
-				...document.metadata,
-				schemaVersion: options.newSchemaVersion || '2.0',
-				transformedAt: Date.now(),
-			},
-		}
+		return await response.json()
 	}
 
-	private async generateEmbeddingWithNewModel(content: string): Promise<number[]> {
-		// Use the updated AI model to generate embeddings
-		const response = await this.ctx.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-			text: [content],
+	private async releaseLock(lock: DocumentLock): Promise<void> {
+		const coordinator = this.ctx.getCoordinator(lock.documentId)
+
+		await coordinator.fetch('http://coordinator/release-lock', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({
+				documentId: lock.documentId,
+				lockId: lock.lockId,
+				workerId: this.ctx.workerId,
+			}),
 		})
+	}
 
-		return response.data[0]
+	private getVectorIndex(slot: VectorIndexSlot): VectorizeIndex {
+		return slot === 'green' ? this.ctx.env.VECTORIZE_INDEX_GREEN : this.ctx.env.VECTORIZE_INDEX
 	}
 
-	private async updateChunkEmbedding(chunkId: string, embedding: number[]): Promise<void> {
-		// TODO: Update the embedding in Vectorize
-		this.ctx.logEvent('updating_chunk_embedding', { chunkId })
+	private getMigrationCoordinator(): DurableObjectStub {
+		const id = this.ctx.env.DOCUMENT_COORDINATOR.idFromName(INDEX_MIGRATION_ID)
+		return this.ctx.env.DOCUMENT_COORDINATOR.get(id)
+	}
 
-		// In reality, this would update the vector in Vectorize
-		await this.ctx.env.VECTORIZE_INDEX.upsert([
-			{
-				id: chunkId,
-				values: embedding,
-			},
-		])
+	private async getIndexMigration(): Promise<IndexMigration | null> {
+		const response = await this.getMigrationCoordinator().fetch(
+			'http://coordinator/get-active-index'
+		)
+		const { migration }: { migration: IndexMigration | null } = await response.json()
+		return migration
 	}
 
-	private async applyPolicyChanges(metadata: any, options: any): Promise<any> {
-		// TODO: Implement actual policy application logic
-		this.ctx.logEvent('applying_policy_changes', {
-			documentId: metadata.documentId,
-			policyType: options.policyType,
-		})
+	private async recordMigrationProgress(
+		migrationId: string,
+		progress: Omit<DocumentMigrationProgress, 'lastUpdatedAt'>
+	): Promise<void> {
+		const response = await this.getMigrationCoordinator().fetch(
+			'http://coordinator/record-migration-progress',
+			{
+				method: 'POST',
+				body: JSON.stringify({ migrationId, ...progress }),
+			}
+		)
 
-		return {
-			...metadata,
-			acl: options.newAcl || metadata.acl,
-			policyVersion: options.policyVersion || '1.0',
-			updatedAt: Date.now(),
+		// Cancelled or rolled back while this document was being migrated
+		if (!response.ok) {
+			const { error }: { error?: string } = await response.json()
+			throw new Error(error || `Index migration ${migrationId} is not running`)
 		}
 	}
 
-	private async updateDocumentMetadata(documentId: string, metadata: any): Promise<void> {
-		// TODO: Update metadata in both Vectorize and R2
-		this.ctx.logEvent('updating_document_metadata', { documentId })
-
-		// This would update metadata across all chunks for the document
+	private async removeFromMigration(documentId: string): Promise<void> {
+		await this.getMigrationCoordinator().fetch('http://coordinator/invalidate-migration-document', {
+			method: 'POST',
+			body: JSON.stringify({ documentId, deleted: true }),
+		})
 	}
 
 	private async queueDocumentForReprocessing(
-		document: any,
-		reason: string,
-		options: any = {}
+		document: Document,
+		reason: BatchReprocessPayload['reason'],
+		trigger: QueueMessage['metadata'],
+		options: DocumentIngestionPayload['options'] = {}
 	): Promise<void> {
-		// TODO: Send message to document ingestion queue
+		await this.sender.send({ type: 'document_ingestion', document, options }, trigger)
+
 		this.ctx.logEvent('queueing_document_for_reprocessing', {
 			documentId: document.id,
 			reason,
-			options,
+			correlationId: trigger.correlationId,
 		})
-
-		// In a real implementation, this would send a message to the appropriate queue
 	}
 
 	private isRetryableError(error: unknown): boolean {
@@ -1,13 +1,52 @@
+import {
+	buildManifest,
+	buildRedactionReport,
+	chunkDocument,
+	createWorkersAiProvider,
+	DEFAULT_DLP_POLICY,
+	DEFAULT_EMBEDDING_BATCH_SIZE,
+	diffManifests,
+	documentTextKey,
+	EMBEDDING_CACHE_STATS_ID,
+	embedInBatches,
+	formatBreadcrumb,
+	getEmbeddingModel,
+	manifestKey,
+	prepareText,
+	scanDocument,
+	tagChunk,
+	toStoredChunkMetadata,
+	toVectorMetadata,
+	withEmbeddingCache,
+} from '@repo/rag-core'
+
+import { INDEX_MIGRATION_ID } from '../coordination'
+
+import type {
+	CachedEmbeddingProvider,
+	DlpDocumentScan,
+	DlpPolicy,
+	DocumentManifest,
+} from '@repo/rag-core'
 import type { ChunkMetadata, Document } from '@repo/rag-types'
 import type {
+	ActiveVectorIndex,
+	DocumentDeletePayload,
 	DocumentIngestionPayload,
 	DocumentLock,
+	DocumentUpdatePayload,
 	ProcessingResult,
 	QueueMessage,
 	QueueProcessorContext,
+	VectorIndexSlot,
 } from '../types'
 
+// Chunks deleted per R2/Vectorize call
+const DELETE_BATCH_SIZE = 100
+
 export class DocumentProcessor {
+	private embeddingProvider?: CachedEmbeddingProvider
+
 	constructor(private ctx: QueueProcessorContext) {}
 
 	async processDocumentIngestion(
@@ -46,7 +85,11 @@ export class DocumentProcessor {
 				const contentHash = await this.generateContentHash(document.text)
 				const deduplicationResult = await this.checkDeduplication(document.id, contentHash)
 
-				if (deduplicationResult.isDuplicate && !options.forceReprocess) {
+				if (
+					deduplicationResult.isDuplicate &&
+					!options.forceReprocess &&
+					!options.skipDeduplication
+				) {
 					await this.releaseLock(lock)
 					return {
 						success: true,
@@ -73,8 +116,9 @@ export class DocumentProcessor {
 					lastUpdatedAt: Date.now(),
 				})
 
-				// Step 4: Process document content
-				const cleanedText = this.cleanText(document.text)
+				// Step 4: Process document content, for the index and model queries currently read
+				const target = await this.resolveVectorIndex()
+				const cleanedText = prepareText(document.text, options.strategy)
 
 				await this.updateProcessingState(document.id, {
 					documentId: document.id,
@@ -89,8 +133,56 @@ export class DocumentProcessor {
 					lastUpdatedAt: Date.now(),
 				})
 
+				// DLP scanning of the whole text if enabled, before it is chunked, embedded or stored
+				const dlpScan = options.dlpEnabled
+					? await this.performDLPScanning(document.id, cleanedText, options.dlpPolicy)
+					: undefined
+
+				if (dlpScan?.rejected) {
+					const errorMessage = `Document rejected by DLP policy, found: ${dlpScan.entityTypes.join(', ')}`
+
+					await this.updateProcessingState(document.id, {
+						documentId: document.id,
+						status: 'failed',
+						progress: {
+							currentStep: 'failed',
+							stepsCompleted: 1,
+							totalSteps: 4,
+							percentage: 25,
+						},
+						startedAt: startTime,
+						lastUpdatedAt: Date.now(),
+						error: errorMessage,
+					})
+					await this.releaseLock(lock)
+
+					return {
+						success: false,
+						messageId,
+						processingTime: Date.now() - startTime,
+						error: {
+							code: 'DLP_POLICY_REJECTED',
+							message: errorMessage,
+							retryable: false,
+						},
+					}
+				}
+
 				// Step 5: Chunk the document
-				const chunks = this.chunkText(cleanedText, options.chunkSize, options.overlap)
+				const chunks = await chunkDocument(
+					dlpScan?.text ?? cleanedText,
+					{
+						strategy: options.strategy,
+						chunkSize: options.chunkSize ?? 1000,
+						overlap: options.overlap ?? 200,
+						maxTokens: options.maxTokens,
+						minTokens: options.minTokens,
+						similarityThreshold: options.similarityThreshold,
+						model: target.model,
+					},
+					this.getEmbeddingProvider(target.model),
+					options.embeddingBatchSize
+				)
 
 				await this.updateProcessingState(document.id, {
 					documentId: document.id,
@@ -105,41 +197,82 @@ export class DocumentProcessor {
 					lastUpdatedAt: Date.now(),
 				})
 
-				// Step 6: Generate embeddings and store chunks
-				let embeddingsGenerated = 0
-				for (let i = 0; i < chunks.length; i++) {
-					const chunk = chunks[i]
-
-					// DLP scanning if enabled
-					let processedChunk = chunk
-					if (options.dlpEnabled) {
-						processedChunk = await this.performDLPScanning(chunk)
-					}
+				// Step 6: Compare with the previous manifest so unchanged chunks keep their vectors
+				const manifest = await buildManifest({
+					documentId: document.id,
+					source: document.source,
+					url: document.url,
+					metadata: document.metadata,
+					embeddingModel: target.model,
+					chunkingStrategy: options.strategy || 'fixed',
+					chunkingOptions: {
+						chunkSize: options.chunkSize,
+						overlap: options.overlap,
+						maxTokens: options.maxTokens,
+						minTokens: options.minTokens,
+						similarityThreshold: options.similarityThreshold,
+					},
+					dlpPolicy: dlpScan ? (options.dlpPolicy ?? DEFAULT_DLP_POLICY) : undefined,
+					chunks: chunks.map((chunk, i) => ({
+						index: i,
+						text: chunk.text,
+						section: formatBreadcrumb(chunk.headings) || undefined,
+					})),
+				})
+				const diff = diffManifests(await this.loadManifest(document.id), manifest)
+				const incremental = options.incrementalUpdate !== false && !options.forceReprocess
+				const chunksToEmbed = incremental ? [...diff.added, ...diff.changed] : manifest.chunks
 
-					// Generate embedding
-					const embedding = await this.generateEmbedding(processedChunk)
-
-					// Create chunk metadata
-					const chunkId = `${document.id}#${i}`
-					const metadata: ChunkMetadata = {
-						source: document.source,
-						url: document.url,
-						chunk_index: i,
-						doc_id: document.id,
-						timestamp: Date.now(),
-						acl: document.metadata?.acl || [],
+				// Step 7: Generate embeddings and store new or changed chunks, a batch per AI call
+				const batchSize = options.embeddingBatchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE
+				let embeddingsGenerated = 0
+				for (let start = 0; start < chunksToEmbed.length; start += batchSize) {
+					const batch = chunksToEmbed.slice(start, start + batchSize)
+
+					const { vectors, failures } = await embedInBatches(
+						this.getEmbeddingProvider(target.model),
+						batch.map(({ id, index }) => ({ id, text: chunks[index].text })),
+						batchSize
+					)
+					if (failures.length > 0) {
+						throw new Error(
+							`Embedding failed for ${failures.map(({ id, error }) => `${id} (${error})`).join(', ')}`
+						)
 					}
 
-					// Store chunk in R2
-					await this.storeChunkInR2(`chunks/${chunkId}.txt`, processedChunk, metadata)
-
-					// Store embedding in Vectorize
-					await this.upsertVector(chunkId, embedding, metadata)
-
-					embeddingsGenerated++
+					const vectorsToUpsert = await Promise.all(
+						batch.map(async ({ id: chunkId, index: i, key }) => {
+							const chunk = chunks[i]
+							const scannedChunk = dlpScan && tagChunk(chunk.text, dlpScan.markers)
+
+							// Create chunk metadata
+							const metadata: ChunkMetadata = {
+								source: document.source,
+								url: document.url,
+								chunk_index: i,
+								doc_id: document.id,
+								timestamp: Date.now(),
+								acl: document.metadata?.acl || [],
+								section: formatBreadcrumb(chunk.headings) || undefined,
+								chunking_strategy: options.strategy || 'fixed',
+								redaction_count: scannedChunk?.redactionCount,
+								pii_types: scannedChunk?.entityTypes.length ? scannedChunk.entityTypes : undefined,
+							}
+
+							// Store chunk in R2
+							await this.storeChunkInR2(key, chunk.text, metadata)
+
+							return { id: chunkId, embedding: vectors.get(chunkId)!, metadata }
+						})
+					)
+
+					// Store the batch's embeddings in Vectorize
+					await this.upsertVectors(vectorsToUpsert, target.slot)
+
+					embeddingsGenerated += batch.length
 
 					// Update progress
-					const progressPercentage = 50 + ((i + 1) / chunks.length) * 40
+					const progressPercentage = 50 + (embeddingsGenerated / chunksToEmbed.length) * 40
 					await this.updateProcessingState(document.id, {
 						documentId: document.id,
 						status: 'processing',
@@ -154,7 +287,21 @@ export class DocumentProcessor {
 					})
 				}
 
-				// Step 7: Finalize processing
+				await this.recordEmbeddingCacheStats()
+
+				// Step 8: Drop chunks the document no longer has, then record what is stored
+				for (let i = 0; i < diff.removed.length; i += DELETE_BATCH_SIZE) {
+					const removed = diff.removed.slice(i, i + DELETE_BATCH_SIZE)
+					await this.getVectorIndex(target.slot).deleteByIds(removed.map((chunk) => chunk.id))
+					await this.ctx.env.DOCS_BUCKET.delete(removed.map((chunk) => chunk.key))
+				}
+
+				await this.storeDocumentText(document.id, cleanedText)
+				await this.storeManifest(manifest)
+				await this.invalidateMigrationDocument(document.id, {
+					manifestIngestedAt: manifest.ingestedAt,
+				})
+
 				await this.updateProcessingState(document.id, {
 					documentId: document.id,
 					status: 'completed',
@@ -179,6 +326,8 @@ export class DocumentProcessor {
 					messageId,
 					chunksProcessed: chunks.length,
 					embeddingsGenerated,
+					chunksUnchanged: chunks.length - chunksToEmbed.length,
+					chunksRemoved: diff.removed.length,
 					processingTime,
 				})
 
@@ -193,6 +342,11 @@ export class DocumentProcessor {
 					processingTime,
 					chunksProcessed: chunks.length,
 					embeddingsGenerated,
+					metadata: {
+						chunksUnchanged: chunks.length - chunksToEmbed.length,
+						chunksRemoved: diff.removed.length,
+						...(dlpScan ? { redactionCount: dlpScan.redactionCount } : {}),
+					},
 				}
 			} catch (error) {
 				// Release lock on error
@@ -233,12 +387,290 @@ export class DocumentProcessor {
 					code: 'PROCESSING_FAILED',
 					message: errorMessage,
 					retryable: this.isRetryableError(error),
+					stackTrace: error instanceof Error ? error.stack : undefined,
 				},
 			}
 		}
 	}
 
-	private async acquireProcessingLock(documentId: string): Promise<{
+	/**
+	 * Re-ingest a stored document with changed text, metadata or ACL. Source, URL and
+	 * metadata not in the update come from its manifest, as do its chunking options and
+	 * DLP policy.
+	 */
+	async processDocumentUpdate(
+		message: QueueMessage & { payload: DocumentUpdatePayload }
+	): Promise<ProcessingResult> {
+		const { documentId, changes, incrementalUpdate } = message.payload
+		const manifest = await this.loadManifest(documentId)
+
+		const rejectUpdate = (code: string, errorMessage: string): ProcessingResult => ({
+			success: false,
+			messageId: message.metadata.correlationId,
+			processingTime: 0,
+			error: { code, message: errorMessage, retryable: false },
+		})
+
+		if (!manifest || manifest.deletedAt) {
+			return rejectUpdate('DOCUMENT_NOT_FOUND', `No manifest found for document ${documentId}`)
+		}
+		// Chunks are stored redacted, so the original text has to come with the update
+		if (!changes.text) {
+			return rejectUpdate(
+				'UPDATE_TEXT_REQUIRED',
+				`Document ${documentId} cannot be updated without its text`
+			)
+		}
+
+		return this.processDocumentIngestion({
+			type: 'document_ingestion',
+			payload: {
+				type: 'document_ingestion',
+				document: {
+					id: documentId,
+					text: changes.text,
+					source: manifest.source,
+					url: manifest.url,
+					metadata: {
+						...manifest.metadata,
+						...changes.metadata,
+						...(changes.acl ? { acl: changes.acl } : {}),
+					},
+				},
+				// Chunked and scanned the way the stored version was
+				options: {
+					strategy: manifest.chunkingStrategy,
+					...manifest.chunkingOptions,
+					dlpEnabled: !!manifest.dlpPolicy,
+					dlpPolicy: manifest.dlpPolicy,
+					incrementalUpdate,
+					// Metadata-only changes leave the text hash as is
+					skipDeduplication: true,
+				},
+			},
+			metadata: message.metadata,
+		})
+	}
+
+	async processDocumentDeletion(
+		message: QueueMessage & { payload: DocumentDeletePayload }
+	): Promise<ProcessingResult> {
+		const startTime = Date.now()
+		const { documentId, hardDelete, reason } = message.payload
+		const messageId = message.metadata.correlationId
+		const mode = hardDelete ? 'hard' : 'soft'
+
+		this.ctx.logEvent('document_deletion_started', { documentId, messageId, mode, reason })
+
+		try {
+			const lockResult = await this.acquireProcessingLock(documentId, 'deleting')
+			if (!lockResult.success) {
+				return {
+					success: false,
+					messageId,
+					processingTime: Date.now() - startTime,
+					error: {
+						code: 'LOCK_ACQUISITION_FAILED',
+						message: lockResult.error || 'Could not acquire deletion lock',
+						retryable: true,
+					},
+				}
+			}
+
+			const lock = lockResult.lock!
+
+			try {
+				// Documents ingested before manifests were written fall back to an R2 listing
+				const manifest = await this.loadManifest(documentId)
+				const chunkKeys = manifest
+					? manifest.chunks.map((chunk) => chunk.key)
+					: await this.listChunkKeys(documentId)
+				const currentStep = hardDelete ? 'deleting_chunks' : 'marking_chunks_deleted'
+				const updateDeletionProgress = (percentage: number) =>
+					this.updateProcessingState(documentId, {
+						documentId,
+						status: 'processing',
+						progress: { currentStep, stepsCompleted: 1, totalSteps: 2, percentage },
+						startedAt: startTime,
+						lastUpdatedAt: Date.now(),
+						metadata: { operation: 'delete', mode, reason, totalChunks: chunkKeys.length },
+					})
+
+				await updateDeletionProgress(0)
+
+				for (let i = 0; i < chunkKeys.length; i += DELETE_BATCH_SIZE) {
+					const keys = chunkKeys.slice(i, i + DELETE_BATCH_SIZE)
+
+					if (hardDelete) {
+						// Vector ids are the chunk keys without the chunks/ prefix and .txt suffix.
+						// Both indexes of the blue/green pair, so a switch cannot bring them back.
+						const ids = keys.map((key) => key.slice('chunks/'.length, -'.txt'.length))
+						await this.ctx.env.VECTORIZE_INDEX.deleteByIds(ids)
+						await this.ctx.env.VECTORIZE_INDEX_GREEN.deleteByIds(ids)
+						await this.ctx.env.DOCS_BUCKET.delete(keys)
+					} else {
+						await Promise.all(keys.map((key) => this.markChunkDeleted(key, reason)))
+					}
+
+					const done = Math.min(i + DELETE_BATCH_SIZE, chunkKeys.length)
+					await updateDeletionProgress(Math.round((done / chunkKeys.length) * 90))
+				}
+
+				if (hardDelete) {
+					await this.ctx.env.DOCS_BUCKET.delete([
+						`originals/${documentId}`,
+						documentTextKey(documentId),
+						manifestKey(documentId),
+					])
+					await this.invalidateMigrationDocument(documentId, { deleted: true })
+				} else if (manifest) {
+					await this.storeManifest({ ...manifest, deletedAt: new Date().toISOString() })
+				}
+
+				await this.updateProcessingState(documentId, {
+					documentId,
+					status: 'deleted',
+					progress: { currentStep: 'deleted', stepsCompleted: 2, totalSteps: 2, percentage: 100 },
+					startedAt: startTime,
+					lastUpdatedAt: Date.now(),
+					completedAt: Date.now(),
+					metadata: {
+						operation: 'delete',
+						mode,
+						reason,
+						totalChunks: chunkKeys.length,
+						chunksDeleted: chunkKeys.length,
+					},
+				})
+
+				await this.releaseLock(lock)
+
+				const processingTime = Date.now() - startTime
+
+				this.ctx.logEvent('document_deletion_completed', {
+					documentId,
+					messageId,
+					mode,
+					chunksDeleted: chunkKeys.length,
+					processingTime,
+				})
+
+				return {
+					success: true,
+					messageId,
+					processingTime,
+					chunksProcessed: chunkKeys.length,
+					metadata: { action: `${mode}_deleted` },
+				}
+			} catch (error) {
+				await this.releaseLock(lock)
+				throw error
+			}
+		} catch (error) {
+			const processingTime = Date.now() - startTime
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+			await this.updateProcessingState(documentId, {
+				documentId,
+				status: 'failed',
+				progress: { currentStep: 'failed', stepsCompleted: 0, totalSteps: 2, percentage: 0 },
+				startedAt: startTime,
+				lastUpdatedAt: Date.now(),
+				error: errorMessage,
+				metadata: { operation: 'delete', mode, reason },
+			})
+
+			this.ctx.logEvent('document_deletion_failed', {
+				documentId,
+				messageId,
+				mode,
+				error: errorMessage,
+				processingTime,
+			})
+
+			return {
+				success: false,
+				messageId,
+				processingTime,
+				error: {
+					code: 'DELETION_FAILED',
+					message: errorMessage,
+					retryable: this.isRetryableError(error),
+					stackTrace: error instanceof Error ? error.stack : undefined,
+				},
+			}
+		}
+	}
+
+	/**
+	 * List the R2 keys of every chunk of a document (chunks/{docId}#n.txt)
+	 */
+	private async listChunkKeys(documentId: string): Promise<string[]> {
+		const keys: string[] = []
+		let cursor: string | undefined
+
+		do {
+			const listing = await this.ctx.env.DOCS_BUCKET.list({
+				prefix: `chunks/${documentId}#`,
+				cursor,
+			})
+			keys.push(...listing.objects.map((object: R2Object) => object.key))
+			cursor = listing.truncated ? listing.cursor : undefined
+		} while (cursor)
+
+		return keys
+	}
+
+	/**
+	 * Soft delete: the chunk stays in R2 and Vectorize, flagged so the query service skips it
+	 */
+	private async markChunkDeleted(key: string, reason?: string): Promise<void> {
+		const object = await this.ctx.env.DOCS_BUCKET.get(key)
+		if (!object) {
+			return
+		}
+
+		await this.ctx.env.DOCS_BUCKET.put(key, await object.text(), {
+			httpMetadata: object.httpMetadata,
+			customMetadata: {
+				...object.customMetadata,
+				deleted_at: new Date().toISOString(),
+				...(reason ? { deleted_reason: reason } : {}),
+			},
+		})
+	}
+
+	private async storeDocumentText(documentId: string, text: string): Promise<void> {
+		await this.ctx.env.DOCS_BUCKET.put(documentTextKey(documentId), text, {
+			httpMetadata: {
+				contentType: 'text/plain',
+			},
+			customMetadata: { doc_id: documentId },
+		})
+	}
+
+	private async storeManifest(manifest: DocumentManifest): Promise<void> {
+		await this.ctx.env.DOCS_BUCKET.put(manifestKey(manifest.documentId), JSON.stringify(manifest), {
+			httpMetadata: {
+				contentType: 'application/json',
+			},
+			customMetadata: {
+				doc_id: manifest.documentId,
+				chunk_count: manifest.chunks.length.toString(),
+				embedding_model: manifest.embeddingModel,
+			},
+		})
+	}
+
+	private async loadManifest(documentId: string): Promise<DocumentManifest | null> {
+		const object = await this.ctx.env.DOCS_BUCKET.get(manifestKey(documentId))
+		return object ? await object.json() : null
+	}
+
+	private async acquireProcessingLock(
+		documentId: string,
+		lockType: DocumentLock['lockType'] = 'processing'
+	): Promise<{
 		success: boolean
 		lock?: DocumentLock
 		error?: string
@@ -250,7 +682,7 @@ export class DocumentProcessor {
 			headers: { 'Content-Type': 'application/json' },
 			body: JSON.stringify({
 				documentId,
-				lockType: 'processing',
+				lockType,
 				ttlSeconds: 1800, // 30 minutes
 				workerId: this.ctx.workerId,
 			}),
@@ -307,36 +739,81 @@ export class DocumentProcessor {
 		return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('')
 	}
 
-	private cleanText(text: string): string {
-		return text.replace(/\s+/g, ' ').replace(/\n+/g, '\n').trim()
-	}
+	private async performDLPScanning(
+		documentId: string,
+		text: string,
+		policy: DlpPolicy = DEFAULT_DLP_POLICY
+	): Promise<DlpDocumentScan> {
+		const scan = scanDocument(text, policy)
 
-	private chunkText(text: string, chunkSize = 1000, overlap = 200): string[] {
-		const words = text.split(/\s+/)
-		const chunks: string[] = []
+		// Audit every hit as a salted hash, the same report the ingest workflow writes
+		const report = await buildRedactionReport(documentId, policy, scan, this.ctx.env.DLP_AUDIT_SALT)
+		await this.ctx.env.DOCS_BUCKET.put(`dlp/${documentId}.json`, JSON.stringify(report), {
+			httpMetadata: {
+				contentType: 'application/json',
+			},
+			customMetadata: {
+				doc_id: documentId,
+				policy,
+				redaction_count: scan.redactionCount.toString(),
+			},
+		})
 
-		for (let i = 0; i < words.length; i += chunkSize - overlap) {
-			const chunk = words.slice(i, i + chunkSize).join(' ')
-			chunks.push(chunk)
+		this.ctx.logEvent('dlp_scan_completed', {
+			documentId,
+			policy,
+			redactionCount: scan.redactionCount,
+			entityTypes: scan.entityTypes,
+			rejected: scan.rejected,
+		})
 
-			if (i + chunkSize >= words.length) break
-		}
+		this.ctx.logMetric('dlp_redactions', scan.redactionCount, { policy })
 
-		return chunks
+		return scan
 	}
 
-	private async performDLPScanning(chunk: string): Promise<string> {
-		// TODO: Implement actual DLP scanning
-		// For now, return chunk unchanged
-		return chunk
+	// One cached provider per processor and model, so its hit counts cover the whole batch
+	private getEmbeddingProvider(modelId: string): CachedEmbeddingProvider {
+		if (this.embeddingProvider?.model.id !== modelId) {
+			this.embeddingProvider = withEmbeddingCache(
+				createWorkersAiProvider(this.ctx.env.AI, modelId),
+				this.ctx.env.DOCS_BUCKET
+			)
+		}
+		return this.embeddingProvider
 	}
 
-	private async generateEmbedding(text: string): Promise<number[]> {
-		const response = await this.ctx.env.AI.run('@cf/baai/bge-base-en-v1.5', {
-			text: [text],
-		})
+	// Add cache lookups since the last call to the per-model totals
+	private async recordEmbeddingCacheStats(): Promise<void> {
+		const provider = this.embeddingProvider
+		if (!provider) {
+			return
+		}
+
+		const { hits, misses } = provider.stats
+		if (hits + misses === 0) {
+			return
+		}
+		provider.stats.hits = 0
+		provider.stats.misses = 0
 
-		return response.data[0]
+		this.ctx.logMetric('embedding_cache_hits', hits, { model: provider.model.id })
+		this.ctx.logMetric('embedding_cache_misses', misses, { model: provider.model.id })
+
+		try {
+			const id = this.ctx.env.DOCUMENT_COORDINATOR.idFromName(EMBEDDING_CACHE_STATS_ID)
+			await this.ctx.env.DOCUMENT_COORDINATOR.get(id).fetch(
+				'http://coordinator/record-cache-stats',
+				{
+					method: 'POST',
+					body: JSON.stringify({ model: provider.model.id, hits, misses }),
+				}
+			)
+		} catch (error) {
+			this.ctx.logEvent('embedding_cache_stats_failed', {
+				error: error instanceof Error ? error.message : 'Unknown error',
+			})
+		}
 	}
 
 	private async storeChunkInR2(
@@ -348,22 +825,51 @@ export class DocumentProcessor {
 			httpMetadata: {
 				contentType: 'text/plain',
 			},
-			customMetadata: metadata,
+			customMetadata: toStoredChunkMetadata(metadata),
 		})
 	}
 
-	private async upsertVector(
-		id: string,
-		embedding: number[],
-		metadata: ChunkMetadata
+	// Index and model queries read; EMBEDDING_MODEL until the first index switch
+	private async resolveVectorIndex(): Promise<ActiveVectorIndex> {
+		const id = this.ctx.env.DOCUMENT_COORDINATOR.idFromName(INDEX_MIGRATION_ID)
+		const response = await this.ctx.env.DOCUMENT_COORDINATOR.get(id).fetch(
+			'http://coordinator/get-active-index'
+		)
+		const { active }: { active: ActiveVectorIndex | null } = await response.json()
+
+		return active ?? { slot: 'blue', model: getEmbeddingModel(this.ctx.env.EMBEDDING_MODEL).id }
+	}
+
+	private getVectorIndex(slot: VectorIndexSlot): VectorizeIndex {
+		return slot === 'green' ? this.ctx.env.VECTORIZE_INDEX_GREEN : this.ctx.env.VECTORIZE_INDEX
+	}
+
+	// A running index migration has to re-embed documents written after it started
+	private async invalidateMigrationDocument(
+		documentId: string,
+		change: { manifestIngestedAt?: string; deleted?: boolean }
 	): Promise<void> {
-		await this.ctx.env.VECTORIZE_INDEX.upsert([
+		const id = this.ctx.env.DOCUMENT_COORDINATOR.idFromName(INDEX_MIGRATION_ID)
+		await this.ctx.env.DOCUMENT_COORDINATOR.get(id).fetch(
+			'http://coordinator/invalidate-migration-document',
 			{
+				method: 'POST',
+				body: JSON.stringify({ documentId, ...change }),
+			}
+		)
+	}
+
+	private async upsertVectors(
+		vectors: Array<{ id: string; embedding: number[]; metadata: ChunkMetadata }>,
+		slot: VectorIndexSlot
+	): Promise<void> {
+		await this.getVectorIndex(slot).upsert(
+			vectors.map(({ id, embedding, metadata }) => ({
 				id,
 				values: embedding,
-				metadata: metadata as Record<string, any>,
-			},
-		])
+				metadata: toVectorMetadata(metadata),
+			}))
+		)
 	}
 
 	private isRetryableError(error: unknown): boolean {
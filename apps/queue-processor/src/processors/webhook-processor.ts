@@ -1,12 +1,32 @@
+import { manifestKey, sourceRegistry } from '@repo/rag-core'
+
+import { webhookCoalescingId } from '../coordination'
+import { QueueSender } from '../queue-sender'
+
+import type { DocumentManifest, SourceChanges, SourceConnector, SourceState } from '@repo/rag-core'
+import type { Document } from '@repo/rag-types'
 import type {
 	ProcessingResult,
 	QueueMessage,
 	QueueProcessorContext,
+	WebhookCoalesceResult,
 	WebhookSyncPayload,
 } from '../types'
 
+// Coalescing window when WEBHOOK_COALESCE_SECONDS is not set
+const DEFAULT_COALESCE_SECONDS = 30
+
+// Where the checkpoints of a source's change listings are kept, e.g. SharePoint delta links
+const checkpointKey = (sourceType: string, key: string) => `connectors/${sourceType}/${key}`
+
 export class WebhookProcessor {
-	constructor(private ctx: QueueProcessorContext) {}
+	private sender: QueueSender
+	// One connector per source and processor, so a batch of events shares tokens and caches
+	private connectors = new Map<string, SourceConnector>()
+
+	constructor(private ctx: QueueProcessorContext) {
+		this.sender = new QueueSender(ctx)
+	}
 
 	async processWebhookSync(
 		message: QueueMessage & { payload: WebhookSyncPayload }
@@ -23,18 +43,27 @@ export class WebhookProcessor {
 		})
 
 		try {
-			switch (payload.sourceType) {
-				case 'sharepoint':
-					return await this.processSharePointWebhook(message, startTime)
-				case 'confluence':
-					return await this.processConfluenceWebhook(message, startTime)
-				case 'jira':
-					return await this.processJiraWebhook(message, startTime)
-				case 'website':
-					return await this.processWebsiteWebhook(message, startTime)
-				default:
-					throw new Error(`Unsupported source type: ${payload.sourceType}`)
+			const connector = this.connector(payload.sourceType)
+
+			// Several events per save are merged into one fetch and ingest
+			const coalesced = await this.coalesceEvent(message)
+			if (coalesced.action === 'coalesced') {
+				return {
+					success: true,
+					messageId,
+					processingTime: Date.now() - startTime,
+					metadata: {
+						sourceType: payload.sourceType,
+						eventType: payload.eventType,
+						resourceId: payload.resourceId,
+						coalesced: true,
+						pendingEvents: coalesced.pendingEvents,
+						deliverAt: coalesced.deliverAt,
+					},
+				}
 			}
+
+			return await this.processSourceEvent(connector, message, startTime)
 		} catch (error) {
 			const processingTime = Date.now() - startTime
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -56,52 +85,46 @@ export class WebhookProcessor {
 					code: 'WEBHOOK_PROCESSING_FAILED',
 					message: errorMessage,
 					retryable: this.isRetryableError(error),
+					stackTrace: error instanceof Error ? error.stack : undefined,
 				},
 			}
 		}
 	}
 
-	private async processSharePointWebhook(
+	private async processSourceEvent(
+		connector: SourceConnector,
 		message: QueueMessage & { payload: WebhookSyncPayload },
 		startTime: number
 	): Promise<ProcessingResult> {
 		const { payload } = message
 		const messageId = message.metadata.correlationId
-
-		// Extract SharePoint-specific webhook data
-		const { eventType, resourceId, resourceUrl, changeToken, metadata } = payload
-
-		switch (eventType) {
-			case 'created':
-			case 'updated': {
-				// Fetch the updated document from SharePoint
-				const documentContent = await this.fetchSharePointDocument(resourceUrl, metadata)
-
-				if (documentContent) {
-					// Queue document for processing
-					await this.queueDocumentForProcessing(documentContent, 'sharepoint', resourceUrl)
-				}
-				break
-			}
-
-			case 'deleted': {
-				// Queue document for deletion
-				await this.queueDocumentForDeletion(resourceId, 'sharepoint')
-				break
-			}
-
-			case 'moved':
-				// Handle document move - may require deletion and re-creation
-				await this.handleDocumentMove(resourceId, resourceUrl, metadata)
-				break
+		const { sourceType, eventType, resourceId } = payload
+		const state = this.sourceState(sourceType)
+
+		let outcome: string
+		const changes = await connector.listChanges(payload, state)
+		if (changes) {
+			await this.queueChanges(sourceType, changes, message)
+			outcome = 'listed'
+		} else if (eventType === 'deleted') {
+			await this.queueDocumentForDeletion(
+				await connector.documentId(payload, state),
+				sourceType,
+				message.metadata
+			)
+			outcome = 'deleted'
+		} else {
+			outcome = await this.ingestResource(connector, message, state)
 		}
 
 		const processingTime = Date.now() - startTime
 
-		this.ctx.logEvent('sharepoint_webhook_processed', {
+		this.ctx.logEvent('webhook_processed', {
 			messageId,
+			sourceType,
 			eventType,
 			resourceId,
+			outcome,
 			processingTime,
 		})
 
@@ -110,302 +133,242 @@ export class WebhookProcessor {
 			messageId,
 			processingTime,
 			metadata: {
-				sourceType: 'sharepoint',
+				sourceType,
 				eventType,
 				resourceId,
+				outcome,
 			},
 		}
 	}
 
-	private async processConfluenceWebhook(
+	/**
+	 * Fetch the event's resource and queue it as a document with its ACL, unless
+	 * the source skips it; a resource the source removed is deleted
+	 */
+	private async ingestResource(
+		connector: SourceConnector,
 		message: QueueMessage & { payload: WebhookSyncPayload },
-		startTime: number
-	): Promise<ProcessingResult> {
+		state: SourceState
+	): Promise<string> {
 		const { payload } = message
-		const messageId = message.metadata.correlationId
-
-		// Extract Confluence-specific webhook data
-		const { eventType, resourceId, resourceUrl, metadata } = payload
-
-		switch (eventType) {
-			case 'created':
-			case 'updated': {
-				const pageContent = await this.fetchConfluencePage(resourceUrl, metadata)
-
-				if (pageContent) {
-					await this.queueDocumentForProcessing(pageContent, 'confluence', resourceUrl)
+		const result = await connector.fetchResource(payload, state)
+
+		let reason: string
+		if (result.status === 'gone') {
+			await this.queueDocumentForDeletion(result.documentId, payload.sourceType, message.metadata)
+			return 'gone'
+		} else if (result.status === 'skipped') {
+			reason = result.reason
+		} else {
+			const acl = await connector.resolveAcl(result.resource)
+			const document = connector.toDocument(result.resource, acl)
+			// Only sources that can tell an unchanged resource need the manifest read
+			const manifest = document && connector.isIngested ? await state.manifest(document.id) : null
+
+			if (!document) {
+				reason = 'no text'
+			} else if (manifest && connector.isIngested?.(document, manifest)) {
+				reason = 'unchanged'
+			} else {
+				await this.queueDocumentForProcessing(
+					document,
+					connector,
+					document.url ?? payload.resourceUrl,
+					message.metadata
+				)
+				if (result.checkpoint) {
+					await this.saveCheckpoint(payload.sourceType, result.checkpoint)
 				}
-				break
-			}
-
-			case 'deleted': {
-				await this.queueDocumentForDeletion(resourceId, 'confluence')
-				break
+				return 'queued'
 			}
 		}
 
-		const processingTime = Date.now() - startTime
-
-		this.ctx.logEvent('confluence_webhook_processed', {
-			messageId,
-			eventType,
-			resourceId,
-			processingTime,
+		this.ctx.logEvent('source_resource_skipped', {
+			messageId: message.metadata.correlationId,
+			sourceType: payload.sourceType,
+			resourceId: payload.resourceId,
+			reason,
 		})
-
-		return {
-			success: true,
-			messageId,
-			processingTime,
-			metadata: {
-				sourceType: 'confluence',
-				eventType,
-				resourceId,
-			},
-		}
+		return 'skipped'
 	}
 
-	private async processJiraWebhook(
-		message: QueueMessage & { payload: WebhookSyncPayload },
-		startTime: number
-	): Promise<ProcessingResult> {
-		const { payload } = message
-		const messageId = message.metadata.correlationId
-
-		// Extract Jira-specific webhook data
-		const { eventType, resourceId, resourceUrl, metadata } = payload
-
-		switch (eventType) {
-			case 'created':
-			case 'updated': {
-				const issueContent = await this.fetchJiraIssue(resourceUrl, metadata)
-
-				if (issueContent) {
-					await this.queueDocumentForProcessing(issueContent, 'jira', resourceUrl)
-				}
-				break
-			}
-
-			case 'deleted': {
-				await this.queueDocumentForDeletion(resourceId, 'jira')
-				break
-			}
+	/**
+	 * Queue the resources a listing found changed as events of their own, so each
+	 * is fetched and retried separately, and delete the removed ones
+	 */
+	private async queueChanges(
+		sourceType: string,
+		changes: SourceChanges,
+		message: QueueMessage & { payload: WebhookSyncPayload }
+	): Promise<void> {
+		for (const event of changes.events) {
+			// A listing reports each resource once, so its events skip coalescing
+			await this.sender.send(
+				{ type: 'webhook_sync', sourceType, ...event, coalescedEvents: 0 },
+				message.metadata,
+				changes.priority ? { priority: changes.priority } : undefined
+			)
 		}
 
-		const processingTime = Date.now() - startTime
-
-		this.ctx.logEvent('jira_webhook_processed', {
-			messageId,
-			eventType,
-			resourceId,
-			processingTime,
-		})
-
-		return {
-			success: true,
-			messageId,
-			processingTime,
-			metadata: {
-				sourceType: 'jira',
-				eventType,
-				resourceId,
-			},
+		for (const documentId of changes.deletedDocumentIds) {
+			await this.queueDocumentForDeletion(documentId, sourceType, message.metadata)
 		}
-	}
 
-	private async processWebsiteWebhook(
-		message: QueueMessage & { payload: WebhookSyncPayload },
-		startTime: number
-	): Promise<ProcessingResult> {
-		const { payload } = message
-		const messageId = message.metadata.correlationId
-
-		// Website webhooks might come from CMS systems, RSS feeds, etc.
-		const { eventType, resourceId, resourceUrl } = payload
-
-		switch (eventType) {
-			case 'created':
-			case 'updated': {
-				const webContent = await this.fetchWebContent(resourceUrl)
-
-				if (webContent) {
-					await this.queueDocumentForProcessing(webContent, 'website', resourceUrl)
-				}
-				break
-			}
-
-			case 'deleted': {
-				await this.queueDocumentForDeletion(resourceId, 'website')
-				break
-			}
+		// Stored last, a failed listing is retried from the same checkpoint
+		if (changes.checkpoint) {
+			await this.saveCheckpoint(sourceType, changes.checkpoint)
 		}
 
-		const processingTime = Date.now() - startTime
-
-		this.ctx.logEvent('website_webhook_processed', {
-			messageId,
-			eventType,
-			resourceId,
-			processingTime,
+		this.ctx.logEvent('source_changes_queued', {
+			sourceType,
+			resourceId: message.payload.resourceId,
+			changedResources: changes.events.length,
+			deletedDocuments: changes.deletedDocumentIds.length,
+			correlationId: message.metadata.correlationId,
 		})
-
-		return {
-			success: true,
-			messageId,
-			processingTime,
-			metadata: {
-				sourceType: 'website',
-				eventType,
-				resourceId,
-			},
-		}
 	}
 
-	// Content fetching methods (placeholder implementations)
-	private async fetchSharePointDocument(url: string, metadata: Record<string, any>): Promise<any> {
-		// TODO: Implement actual SharePoint document fetching using Microsoft Graph API
-		// This would require authentication tokens and proper API calls
-
-		this.ctx.logEvent('fetching_sharepoint_document', { url })
+	// Queue helper methods
+	private async queueDocumentForProcessing(
+		document: Document,
+		connector: SourceConnector,
+		url: string,
+		trigger: QueueMessage['metadata']
+	): Promise<void> {
+		const { chunkingStrategy } = connector
+		await this.sender.send(
+			{
+				type: 'document_ingestion',
+				document,
+				options: chunkingStrategy ? { strategy: chunkingStrategy } : undefined,
+			},
+			trigger
+		)
 
-		// Placeholder implementation
-		return {
-			id: metadata.documentId || crypto.randomUUID(),
-			text: `SharePoint document content from ${url}`,
-			source: 'sharepoint',
+		this.ctx.logEvent('document_queued_for_processing', {
+			documentId: document.id,
+			source: connector.sourceType,
 			url,
-			metadata: {
-				acl: metadata.permissions || ['internal'],
-				lastModified: metadata.lastModified || new Date().toISOString(),
-				author: metadata.author,
-				title: metadata.title,
-			},
-		}
+			correlationId: trigger.correlationId,
+		})
 	}
 
-	private async fetchConfluencePage(url: string, metadata: Record<string, any>): Promise<any> {
-		// TODO: Implement actual Confluence page fetching using Atlassian REST API
+	// The source removed the resource, so its chunks are soft deleted like an API delete
+	private async queueDocumentForDeletion(
+		documentId: string,
+		source: string,
+		trigger: QueueMessage['metadata']
+	): Promise<void> {
+		await this.sender.send(
+			{
+				type: 'document_delete',
+				documentId,
+				hardDelete: false,
+				reason: `${source}_deleted`,
+			},
+			trigger
+		)
 
-		this.ctx.logEvent('fetching_confluence_page', { url })
+		this.ctx.logEvent('document_queued_for_deletion', {
+			documentId,
+			source,
+			correlationId: trigger.correlationId,
+		})
+	}
 
-		// Placeholder implementation
-		return {
-			id: metadata.pageId || crypto.randomUUID(),
-			text: `Confluence page content from ${url}`,
-			source: 'confluence',
-			url,
-			metadata: {
-				acl: metadata.permissions || ['internal'],
-				spaceKey: metadata.spaceKey,
-				title: metadata.title,
-				lastModified: metadata.lastModified || new Date().toISOString(),
-			},
+	private connector(sourceType: string): SourceConnector {
+		let connector = this.connectors.get(sourceType)
+		if (!connector) {
+			connector = sourceRegistry.create(sourceType, this.ctx.env)
+			this.connectors.set(sourceType, connector)
 		}
+		return connector
 	}
 
-	private async fetchJiraIssue(url: string, metadata: Record<string, any>): Promise<any> {
-		// TODO: Implement actual Jira issue fetching using Atlassian REST API
-
-		this.ctx.logEvent('fetching_jira_issue', { url })
-
-		// Placeholder implementation
+	/**
+	 * Manifests and listing checkpoints of earlier runs, read from the docs bucket.
+	 * Soft deleted documents have no manifest as far as sources are concerned.
+	 */
+	private sourceState(sourceType: string): SourceState {
+		const bucket = this.ctx.env.DOCS_BUCKET
 		return {
-			id: metadata.issueKey || crypto.randomUUID(),
-			text: `Jira issue content from ${url}`,
-			source: 'jira',
-			url,
-			metadata: {
-				acl: metadata.permissions || ['internal'],
-				projectKey: metadata.projectKey,
-				issueType: metadata.issueType,
-				status: metadata.status,
-				lastModified: metadata.lastModified || new Date().toISOString(),
+			async manifest(documentId) {
+				const object = await bucket.get(manifestKey(documentId))
+				const manifest: DocumentManifest | null = object ? await object.json() : null
+				return manifest?.deletedAt ? null : manifest
+			},
+			async checkpoint(key) {
+				const object = await bucket.get(checkpointKey(sourceType, key))
+				return object ? object.text() : null
 			},
 		}
 	}
 
-	private async fetchWebContent(url: string): Promise<any> {
-		// TODO: Implement actual web content fetching with proper parsing
-
-		this.ctx.logEvent('fetching_web_content', { url })
-
-		try {
-			const response = await fetch(url)
-			const content = await response.text()
-
-			// Basic HTML parsing (in production, use a proper HTML parser)
-			const textContent = content
-				.replace(/<[^>]*>/g, ' ')
-				.replace(/\s+/g, ' ')
-				.trim()
-
-			return {
-				id: crypto.randomUUID(),
-				text: textContent,
-				source: 'website',
-				url,
-				metadata: {
-					acl: ['public'],
-					lastModified: new Date().toISOString(),
-					contentType: response.headers.get('content-type') || 'text/html',
-				},
-			}
-		} catch (error) {
-			this.ctx.logEvent('web_content_fetch_failed', { url, error: error.message })
-			return null
-		}
-	}
-
-	// Queue helper methods
-	private async queueDocumentForProcessing(
-		document: any,
-		source: string,
-		url: string
+	private async saveCheckpoint(
+		sourceType: string,
+		checkpoint: { key: string; value: string }
 	): Promise<void> {
-		// In a real implementation, this would send a message to the document ingestion queue
-		this.ctx.logEvent('document_queued_for_processing', {
-			documentId: document.id,
-			source,
-			url,
-		})
-
-		// For now, we'll just log the action
-		// TODO: Implement actual queue sending when queue producer is available
+		await this.ctx.env.DOCS_BUCKET.put(checkpointKey(sourceType, checkpoint.key), checkpoint.value)
 	}
 
-	private async queueDocumentForDeletion(documentId: string, source: string): Promise<void> {
-		// In a real implementation, this would send a message to handle document deletion
-		this.ctx.logEvent('document_queued_for_deletion', {
-			documentId,
-			source,
+	/**
+	 * Hold created and updated events in the resource's coordinator until the
+	 * coalescing window ends; deletions cancel what it holds
+	 */
+	private async coalesceEvent(
+		message: QueueMessage & { payload: WebhookSyncPayload }
+	): Promise<WebhookCoalesceResult> {
+		const { payload } = message
+		const windowSeconds = Number(this.ctx.env.WEBHOOK_COALESCE_SECONDS ?? DEFAULT_COALESCE_SECONDS)
+
+		// Merged and listed events need no coalescing, moves are processed as they come
+		if (
+			!(windowSeconds > 0) ||
+			payload.coalescedEvents !== undefined ||
+			payload.eventType === 'moved'
+		) {
+			return { action: 'process' }
+		}
+
+		const coordinator = this.ctx.getCoordinator(
+			webhookCoalescingId(payload.sourceType, payload.resourceId)
+		)
+		const response = await coordinator.fetch('http://coordinator/coalesce-webhook', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ message, windowMs: windowSeconds * 1000 }),
 		})
+		if (!response.ok) {
+			// Processing every event is slower but still correct
+			this.ctx.logEvent('webhook_coalescing_failed', {
+				messageId: message.metadata.correlationId,
+				resourceId: payload.resourceId,
+				status: response.status,
+			})
+			return { action: 'process' }
+		}
 
-		// TODO: Implement actual queue sending for deletion workflow
-	}
+		const result: WebhookCoalesceResult = await response.json()
 
-	private async handleDocumentMove(
-		resourceId: string,
-		newUrl: string,
-		metadata: Record<string, any>
-	): Promise<void> {
-		// Handle document move by deleting old version and creating new one
-		await this.queueDocumentForDeletion(resourceId, metadata.sourceType)
-
-		// Fetch and queue new version
-		let newDocument
-		switch (metadata.sourceType) {
-			case 'sharepoint':
-				newDocument = await this.fetchSharePointDocument(newUrl, metadata)
-				break
-			case 'confluence':
-				newDocument = await this.fetchConfluencePage(newUrl, metadata)
-				break
-			// Add other source types as needed
+		if (result.action === 'coalesced') {
+			this.ctx.logEvent('webhook_event_coalesced', {
+				messageId: message.metadata.correlationId,
+				sourceType: payload.sourceType,
+				resourceId: payload.resourceId,
+				changeToken: payload.changeToken,
+				pendingEvents: result.pendingEvents,
+				deliverAt: result.deliverAt,
+			})
+		} else if (result.cancelledEvents) {
+			this.ctx.logEvent('webhook_updates_cancelled', {
+				messageId: message.metadata.correlationId,
+				sourceType: payload.sourceType,
+				resourceId: payload.resourceId,
+				cancelledEvents: result.cancelledEvents,
+			})
 		}
 
-		if (newDocument) {
-			await this.queueDocumentForProcessing(newDocument, metadata.sourceType, newUrl)
-		}
+		return result
 	}
 
 	private isRetryableError(error: unknown): boolean {
@@ -0,0 +1,53 @@
+import { MAX_RETRIES, queueBindingFor } from './queues'
+
+import type { QueueProcessorContext } from './context'
+import type { QueueMessage, QueueMessagePayload } from './types'
+
+export interface QueueSendOptions {
+	/** Defaults to the triggering message's priority */
+	priority?: QueueMessage['metadata']['priority']
+	maxRetries?: number
+	/** Dead letter the message replays */
+	replayOf?: string
+}
+
+/**
+ * Sends follow-up work from the processors as QueueMessage envelopes. Messages
+ * keep the correlation id and priority of the message that caused them, so a
+ * webhook event can be traced through to the ingestion and deletion it queued,
+ * and critical and high priority work stays on the fast lane.
+ */
+export class QueueSender {
+	constructor(private ctx: QueueProcessorContext) {}
+
+	async send<P extends QueueMessagePayload>(
+		payload: P,
+		trigger?: QueueMessage['metadata'],
+		options: QueueSendOptions = {}
+	): Promise<QueueMessage & { payload: P }> {
+		const message: QueueMessage & { payload: P } = {
+			type: payload.type,
+			payload,
+			metadata: {
+				priority: options.priority ?? trigger?.priority ?? 'medium',
+				retryCount: 0,
+				maxRetries: options.maxRetries ?? MAX_RETRIES[payload.type],
+				correlationId: trigger?.correlationId ?? crypto.randomUUID(),
+				source: 'queue-processor',
+				replayOf: options.replayOf,
+			},
+		}
+
+		const binding = queueBindingFor(payload.type, message.metadata.priority)
+		await this.ctx.env[binding].send(message)
+
+		this.ctx.logEvent('queue_message_sent', {
+			type: message.type,
+			queue: binding,
+			correlationId: message.metadata.correlationId,
+			priority: message.metadata.priority,
+		})
+
+		return message
+	}
+}
@@ -0,0 +1,94 @@
+import type { QueueMessage } from './types'
+
+export type QueuePriority = QueueMessage['metadata']['priority']
+
+export type QueueBinding =
+	| 'DOCUMENT_INGESTION_QUEUE'
+	| 'WEBHOOK_PROCESSING_QUEUE'
+	| 'BATCH_REPROCESSING_QUEUE'
+	| 'PRIORITY_PROCESSING_QUEUE'
+
+// Highest first, the order messages of one batch are processed in
+export const PRIORITY_ORDER: QueuePriority[] = ['critical', 'high', 'medium', 'low']
+
+// Sent to the fast lane whatever their type, so they never wait behind bulk work
+export const FAST_LANE_PRIORITIES: QueuePriority[] = ['critical', 'high']
+
+export const PRIORITY_QUEUE = 'priority-processing'
+
+// Producer binding each message type is sent to; updates and deletions share the ingestion queue
+const QUEUE_BINDINGS: Record<QueueMessage['type'], QueueBinding> = {
+	document_ingestion: 'DOCUMENT_INGESTION_QUEUE',
+	document_update: 'DOCUMENT_INGESTION_QUEUE',
+	document_delete: 'DOCUMENT_INGESTION_QUEUE',
+	webhook_sync: 'WEBHOOK_PROCESSING_QUEUE',
+	batch_reprocess: 'BATCH_REPROCESSING_QUEUE',
+}
+
+// Same retry budgets the ingest service gives each message type
+export const MAX_RETRIES: Record<QueueMessage['type'], number> = {
+	document_ingestion: 3,
+	document_update: 3,
+	document_delete: 3,
+	webhook_sync: 5,
+	batch_reprocess: 2,
+}
+
+// Consumer max_retries from wrangler.jsonc; the queue stops delivering after these
+export const QUEUE_MAX_RETRIES: Record<string, number> = {
+	'document-ingestion': 3,
+	'webhook-processing': 5,
+	'batch-reprocessing': 2,
+	[PRIORITY_QUEUE]: 5,
+}
+
+// Messages of one priority processed at a time, per queue
+export const INGESTION_CONCURRENCY: Record<QueuePriority, number> = {
+	critical: 10,
+	high: 10,
+	medium: 5,
+	low: 2,
+}
+
+export const WEBHOOK_CONCURRENCY: Record<QueuePriority, number> = {
+	critical: 10,
+	high: 10,
+	medium: 10,
+	low: 5,
+}
+
+// Documents of a batch_reprocess message processed at a time
+export const BATCH_DOCUMENT_CONCURRENCY: Record<QueuePriority, number> = {
+	critical: 10,
+	high: 10,
+	medium: 5,
+	low: 2,
+}
+
+export function isFastLane(priority: QueuePriority): boolean {
+	return FAST_LANE_PRIORITIES.includes(priority)
+}
+
+export function queueBindingFor(type: QueueMessage['type'], priority: QueuePriority): QueueBinding {
+	return isFastLane(priority) ? 'PRIORITY_PROCESSING_QUEUE' : QUEUE_BINDINGS[type]
+}
+
+/**
+ * Process messages highest priority first, each priority in groups of its own
+ * concurrency, so a batch's urgent messages are done before its backfill starts
+ */
+export async function processByPriority<T>(
+	items: readonly T[],
+	priorityOf: (item: T) => QueuePriority,
+	concurrency: Record<QueuePriority, number>,
+	handle: (item: T) => Promise<void>
+): Promise<void> {
+	for (const priority of PRIORITY_ORDER) {
+		const group = items.filter((item) => priorityOf(item) === priority)
+		const size = Math.max(1, concurrency[priority])
+
+		for (let i = 0; i < group.length; i += size) {
+			await Promise.all(group.slice(i, i + size).map(handle))
+		}
+	}
+}
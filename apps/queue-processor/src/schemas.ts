@@ -0,0 +1,95 @@
+import { MAX_EMBEDDING_BATCH_SIZE } from '@repo/rag-core'
+import { z } from '@repo/workspace-dependencies/zod'
+
+// Queue message payloads as defined in ./types, for payloads that arrive over HTTP
+
+const DocumentSchema = z.object({
+	id: z.string().min(1),
+	text: z.string(),
+	source: z.string(),
+	url: z.string().optional(),
+	metadata: z.record(z.string(), z.any()).optional(),
+})
+
+const DlpPolicySchema = z.enum(['redact', 'mask', 'reject-document', 'tag-only'])
+
+const DocumentIngestionPayloadSchema = z.object({
+	type: z.literal('document_ingestion'),
+	document: DocumentSchema,
+	options: z
+		.object({
+			strategy: z.enum(['fixed', 'token', 'structure', 'semantic']).optional(),
+			chunkSize: z.number().int().positive().optional(),
+			overlap: z.number().int().nonnegative().optional(),
+			maxTokens: z.number().int().positive().optional(),
+			minTokens: z.number().int().positive().optional(),
+			similarityThreshold: z.number().min(0).max(1).optional(),
+			dlpEnabled: z.boolean().optional(),
+			dlpPolicy: DlpPolicySchema.optional(),
+			forceReprocess: z.boolean().optional(),
+			skipDeduplication: z.boolean().optional(),
+			incrementalUpdate: z.boolean().optional(),
+			embeddingBatchSize: z.number().int().min(1).max(MAX_EMBEDDING_BATCH_SIZE).optional(),
+		})
+		.optional(),
+})
+
+const WebhookSyncPayloadSchema = z.object({
+	type: z.literal('webhook_sync'),
+	sourceType: z.string().min(1),
+	eventType: z.enum(['created', 'updated', 'deleted', 'moved']),
+	resourceId: z.string().min(1),
+	resourceUrl: z.string(),
+	changeToken: z.string().optional(),
+	metadata: z.record(z.string(), z.any()),
+	coalescedEvents: z.number().int().nonnegative().optional(),
+})
+
+const BatchReprocessPayloadSchema = z.object({
+	type: z.literal('batch_reprocess'),
+	documentIds: z.array(z.string().min(1)).min(1),
+	reason: z.enum(['schema_change', 'model_update', 'policy_change', 'manual_reindex']),
+	options: z
+		.object({
+			forceFullReprocess: z.boolean().optional(),
+			preserveVersions: z.boolean().optional(),
+			migrationId: z.string().optional(),
+			schemaVersion: z.number().int().positive().optional(),
+			// An empty ACL would make the chunks public
+			newAcl: z.array(z.string().min(1)).min(1).optional(),
+			dlpPolicy: DlpPolicySchema.optional(),
+			dryRun: z.boolean().optional(),
+		})
+		.optional(),
+})
+
+const DocumentUpdatePayloadSchema = z.object({
+	type: z.literal('document_update'),
+	documentId: z.string().min(1),
+	changes: z.object({
+		text: z.string().optional(),
+		metadata: z.record(z.string(), z.any()).optional(),
+		acl: z.array(z.string().min(1)).optional(),
+	}),
+	incrementalUpdate: z.boolean(),
+})
+
+const DocumentDeletePayloadSchema = z.object({
+	type: z.literal('document_delete'),
+	documentId: z.string().min(1),
+	hardDelete: z.boolean(),
+	reason: z.string().optional(),
+})
+
+export const QueueMessagePayloadSchema = z.discriminatedUnion('type', [
+	DocumentIngestionPayloadSchema,
+	WebhookSyncPayloadSchema,
+	BatchReprocessPayloadSchema,
+	DocumentUpdatePayloadSchema,
+	DocumentDeletePayloadSchema,
+])
+
+// Body of POST /admin/dead-letters/:id/replay
+export const ReplayDeadLetterSchema = z.object({
+	payload: QueueMessagePayloadSchema.optional(),
+})
@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { deadLetterKey, DeadLetterStore } from '../dead-letters'
+import { ReplayDeadLetterSchema } from '../schemas'
+import { createMessage, createTestContext, createTestEnv } from './fakes'
+
+import type { DeadLetterMessage, QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const queueMessage = (replayOf?: string): QueueMessage => ({
+	type: 'document_delete',
+	payload: { type: 'document_delete', documentId: 'doc-1', hardDelete: false },
+	metadata: {
+		priority: 'medium',
+		retryCount: 0,
+		maxRetries: 3,
+		correlationId: 'delete-1',
+		source: 'test',
+		replayOf,
+	},
+})
+
+const failure = { error: 'R2 unavailable', retryable: true }
+
+describe('DeadLetterStore', () => {
+	let env: TestEnv
+	let store: DeadLetterStore
+
+	const deadLetter = (id = 'msg-1') => env.DOCS_BUCKET.json<DeadLetterMessage>(deadLetterKey(id))
+
+	// Dead letter of a message that failed its last attempt
+	const deadLetterFor = async (id = 'msg-1') => {
+		const message = createMessage({}, 4, id)
+		await store.settleFailure(message, 'document-ingestion', queueMessage(), failure)
+		return deadLetter(id)!
+	}
+
+	beforeEach(() => {
+		env = createTestEnv()
+		store = new DeadLetterStore(createTestContext(env))
+	})
+
+	describe('settleFailure()', () => {
+		it('should retry a retryable failure with attempts left and keep its history', async () => {
+			const message = createMessage({}, 1, 'msg-1')
+
+			await store.settleFailure(message, 'document-ingestion', queueMessage(), failure)
+
+			expect(message.settled).toBe('retry')
+			expect(deadLetter()).toBeUndefined()
+			expect(env.DOCS_BUCKET.json<unknown[]>('queue-failures/msg-1.json')).toHaveLength(1)
+		})
+
+		it('should dead letter the last attempt with the earlier failures', async () => {
+			await store.settleFailure(
+				createMessage({}, 1, 'msg-1'),
+				'document-ingestion',
+				queueMessage(),
+				failure
+			)
+			const message = createMessage({}, 4, 'msg-1')
+
+			await store.settleFailure(message, 'document-ingestion', queueMessage(), failure)
+
+			expect(message.settled).toBe('ack')
+			expect(deadLetter()).toMatchObject({
+				id: 'msg-1',
+				queue: 'document-ingestion',
+				status: 'failed',
+				failureCount: 2,
+			})
+			expect(env.DOCS_BUCKET.objects.has('queue-failures/msg-1.json')).toBe(false)
+		})
+
+		it('should dead letter a failure that is not retryable at once', async () => {
+			const message = createMessage({}, 1, 'msg-1')
+
+			await store.settleFailure(message, 'document-ingestion', queueMessage(), {
+				error: 'Invalid payload',
+				retryable: false,
+			})
+
+			expect(message.settled).toBe('ack')
+			expect(deadLetter()?.failureCount).toBe(1)
+		})
+
+		it("should stop at the queue's max_retries when the envelope allows more", async () => {
+			const message = createMessage({}, 3, 'msg-1')
+			const envelope = queueMessage()
+			envelope.metadata.maxRetries = 10
+
+			// batch-reprocessing delivers at most 2 retries
+			await store.settleFailure(message, 'batch-reprocessing', envelope, failure)
+
+			expect(message.settled).toBe('ack')
+		})
+
+		it('should set a replay that failed its last attempt back to failed', async () => {
+			await deadLetterFor()
+			await store.replay('msg-1')
+
+			await store.settleFailure(
+				createMessage({}, 4, 'msg-2'),
+				'document-ingestion',
+				queueMessage('msg-1'),
+				failure
+			)
+
+			expect(deadLetter()).toMatchObject({ status: 'failed', failureCount: 2 })
+			expect(deadLetter('msg-2')).toBeUndefined()
+		})
+	})
+
+	describe('settleSuccess()', () => {
+		it('should drop the failure history of a message that succeeded on a retry', async () => {
+			await store.settleFailure(
+				createMessage({}, 1, 'msg-1'),
+				'document-ingestion',
+				queueMessage(),
+				failure
+			)
+
+			await store.settleSuccess(createMessage({}, 2, 'msg-1'), queueMessage())
+
+			expect(env.DOCS_BUCKET.objects.size).toBe(0)
+		})
+
+		it('should remove the dead letter a successful replay resolved', async () => {
+			await deadLetterFor()
+
+			await store.settleSuccess(createMessage({}, 1, 'msg-2'), queueMessage('msg-1'))
+
+			expect(deadLetter()).toBeUndefined()
+		})
+	})
+
+	describe('replay()', () => {
+		it('should send the original message again, traced to the dead letter', async () => {
+			await deadLetterFor()
+
+			const result = await store.replay('msg-1')
+
+			expect(result).toMatchObject({
+				deadLetter: { status: 'manual_retry_pending', replayCount: 1 },
+			})
+			expect(env.DOCUMENT_INGESTION_QUEUE.sent[0].body).toMatchObject({
+				payload: { documentId: 'doc-1' },
+				metadata: { correlationId: 'delete-1', replayOf: 'msg-1' },
+			})
+		})
+
+		it('should send an edited payload of the same type', async () => {
+			await deadLetterFor()
+
+			await store.replay('msg-1', {
+				type: 'document_delete',
+				documentId: 'doc-1',
+				hardDelete: true,
+			})
+
+			expect(deadLetter()?.editedPayload).toMatchObject({ hardDelete: true })
+			expect(env.DOCUMENT_INGESTION_QUEUE.sent[0].body.payload.hardDelete).toBe(true)
+		})
+
+		it('should refuse a payload of another type', async () => {
+			await deadLetterFor()
+
+			const result = await store.replay('msg-1', {
+				type: 'batch_reprocess',
+				documentIds: ['doc-1'],
+				reason: 'manual_reindex',
+			})
+
+			expect(result).toMatchObject({ status: 400 })
+			expect(env.BATCH_REPROCESSING_QUEUE.sent).toHaveLength(0)
+		})
+
+		it('should refuse a dead letter whose replay is pending', async () => {
+			await deadLetterFor()
+			await store.replay('msg-1')
+
+			expect(await store.replay('msg-1')).toMatchObject({ status: 409 })
+			expect(env.DOCUMENT_INGESTION_QUEUE.sent).toHaveLength(1)
+		})
+
+		it('should report an unknown dead letter', async () => {
+			expect(await store.replay('missing')).toMatchObject({ status: 404 })
+		})
+	})
+
+	describe('list()', () => {
+		it('should fill the limit with matches from later pages', async () => {
+			for (const id of ['msg-1', 'msg-2', 'msg-3', 'msg-4']) {
+				await deadLetterFor(id)
+			}
+			await store.abandon('msg-1')
+			await store.abandon('msg-2')
+
+			const first = await store.list({ status: 'failed', limit: 1 })
+			expect(first.deadLetters.map((summary) => summary.id)).toEqual(['msg-3'])
+
+			const next = await store.list({ status: 'failed', limit: 1, cursor: first.cursor })
+			expect(next.deadLetters.map((summary) => summary.id)).toEqual(['msg-4'])
+			expect(next.cursor).toBeUndefined()
+		})
+	})
+
+	describe('abandon()', () => {
+		it('should mark the dead letter abandoned with the reason', async () => {
+			await deadLetterFor()
+
+			await store.abandon('msg-1', 'document removed upstream')
+
+			expect(deadLetter()).toMatchObject({
+				status: 'abandoned',
+				abandonReason: 'document removed upstream',
+			})
+			expect(await store.replay('msg-1')).toMatchObject({ status: 409 })
+			const { deadLetters } = await store.list({ status: 'abandoned' })
+			expect(deadLetters.map((summary) => summary.id)).toEqual(['msg-1'])
+		})
+
+		it('should refuse a dead letter that is already abandoned', async () => {
+			await deadLetterFor()
+			await store.abandon('msg-1')
+
+			expect(await store.abandon('msg-1')).toMatchObject({ status: 409 })
+		})
+	})
+})
+
+describe('ReplayDeadLetterSchema', () => {
+	it('should accept a replay without a payload or with a valid one', () => {
+		expect(ReplayDeadLetterSchema.safeParse({}).success).toBe(true)
+		expect(
+			ReplayDeadLetterSchema.safeParse({
+				payload: { type: 'document_delete', documentId: 'doc-1', hardDelete: true },
+			}).success
+		).toBe(true)
+	})
+
+	it('should reject payloads the processors cannot handle', () => {
+		for (const payload of [
+			{ type: 'document_delete', documentId: 'doc-1' },
+			{ type: 'document_ingestion', document: { id: 'doc-1' } },
+			{
+				type: 'batch_reprocess',
+				documentIds: ['doc-1'],
+				reason: 'policy_change',
+				options: { newAcl: [] },
+			},
+			{ type: 'unknown' },
+		]) {
+			expect(ReplayDeadLetterSchema.safeParse({ payload }).success).toBe(false)
+		}
+	})
+})
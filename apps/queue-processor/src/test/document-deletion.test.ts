@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { buildManifest, manifestKey } from '@repo/rag-core'
+
+import { DocumentProcessor } from '../processors/document-processor'
+import { createTestContext, createTestEnv } from './fakes'
+
+import type { DocumentDeletePayload, QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const deleteMessage = (
+	payload: Omit<DocumentDeletePayload, 'type'>
+): QueueMessage & { payload: DocumentDeletePayload } => ({
+	type: 'document_delete',
+	payload: { type: 'document_delete', ...payload },
+	metadata: {
+		priority: 'high',
+		retryCount: 0,
+		maxRetries: 3,
+		correlationId: 'delete-1',
+		source: 'test',
+	},
+})
+
+async function storeDocument(env: TestEnv, documentId: string, texts: string[]) {
+	const manifest = await buildManifest({
+		documentId,
+		source: 'test',
+		metadata: { acl: ['team-a'] },
+		embeddingModel: '@cf/baai/bge-small-en-v1.5',
+		chunkingStrategy: 'fixed',
+		chunks: texts.map((text, index) => ({ index, text })),
+	})
+	await env.DOCS_BUCKET.put(manifestKey(documentId), JSON.stringify(manifest))
+	await env.DOCS_BUCKET.put(`originals/${documentId}`, texts.join(' '))
+
+	for (const chunk of manifest.chunks) {
+		await env.DOCS_BUCKET.put(chunk.key, texts[chunk.index], {
+			customMetadata: { doc_id: documentId },
+		})
+		await env.VECTORIZE_INDEX.upsert([{ id: chunk.id, values: [1, 0, 0] }])
+		await env.VECTORIZE_INDEX_GREEN.upsert([{ id: chunk.id, values: [0, 1, 0] }])
+	}
+	return manifest
+}
+
+describe('DocumentProcessor.processDocumentDeletion()', () => {
+	let env: TestEnv
+
+	beforeEach(() => {
+		env = createTestEnv()
+	})
+
+	it('should flag chunks and the manifest on a soft delete', async () => {
+		const manifest = await storeDocument(env, 'doc-1', ['alpha', 'beta'])
+		const processor = new DocumentProcessor(createTestContext(env))
+
+		const result = await processor.processDocumentDeletion(
+			deleteMessage({ documentId: 'doc-1', hardDelete: false, reason: 'retired' })
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.metadata?.action).toBe('soft_deleted')
+		for (const chunk of manifest.chunks) {
+			const object = env.DOCS_BUCKET.objects.get(chunk.key)
+			expect(object?.customMetadata).toMatchObject({ doc_id: 'doc-1', deleted_reason: 'retired' })
+			expect(object?.customMetadata?.deleted_at).toBeDefined()
+		}
+		// Vectors stay, the query service skips flagged chunks
+		expect(env.VECTORIZE_INDEX.vectors.size).toBe(2)
+		expect(env.DOCS_BUCKET.json<any>(manifestKey('doc-1')).deletedAt).toBeDefined()
+	})
+
+	it('should remove chunks, vectors of both indexes, the original and the manifest on a hard delete', async () => {
+		await storeDocument(env, 'doc-1', ['alpha', 'beta'])
+		await storeDocument(env, 'doc-2', ['gamma'])
+		const processor = new DocumentProcessor(createTestContext(env))
+
+		const result = await processor.processDocumentDeletion(
+			deleteMessage({ documentId: 'doc-1', hardDelete: true })
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.chunksProcessed).toBe(2)
+		expect([...env.DOCS_BUCKET.objects.keys()].filter((key) => key.includes('doc-1'))).toEqual([])
+		expect([...env.VECTORIZE_INDEX.vectors.keys()]).toEqual(['doc-2#0'])
+		expect([...env.VECTORIZE_INDEX_GREEN.vectors.keys()]).toEqual(['doc-2#0'])
+	})
+
+	it('should fall back to listing chunks of documents without a manifest', async () => {
+		await env.DOCS_BUCKET.put('chunks/legacy#0.txt', 'old')
+		await env.DOCS_BUCKET.put('chunks/legacy#1.txt', 'text')
+		const processor = new DocumentProcessor(createTestContext(env))
+
+		const result = await processor.processDocumentDeletion(
+			deleteMessage({ documentId: 'legacy', hardDelete: true })
+		)
+
+		expect(result.chunksProcessed).toBe(2)
+		expect(env.DOCS_BUCKET.objects.size).toBe(0)
+	})
+
+	it('should record the deletion in the document state', async () => {
+		await storeDocument(env, 'doc-1', ['alpha'])
+		const processor = new DocumentProcessor(createTestContext(env))
+
+		await processor.processDocumentDeletion(
+			deleteMessage({ documentId: 'doc-1', hardDelete: false, reason: 'retired' })
+		)
+
+		const { state } = await env.DOCUMENT_COORDINATOR.instance('doc-1').call(
+			'get-state?documentId=doc-1'
+		)
+		expect(state).toMatchObject({
+			status: 'deleted',
+			metadata: { operation: 'delete', mode: 'soft', reason: 'retired', chunksDeleted: 1 },
+		})
+		// The deletion lock is released
+		const { locked } = await env.DOCUMENT_COORDINATOR.instance('doc-1').call(
+			'check-lock?documentId=doc-1'
+		)
+		expect(locked).toBe(false)
+	})
+})
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { DocumentProcessor } from '../processors/document-processor'
+import { createTestContext, createTestEnv } from './fakes'
+
+import type { DocumentIngestionPayload, DocumentUpdatePayload, QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const metadata: QueueMessage['metadata'] = {
+	priority: 'medium',
+	retryCount: 0,
+	maxRetries: 3,
+	correlationId: 'update-1',
+	source: 'test',
+}
+
+// Three fixed-strategy chunks of 1000 words with 200 words overlap
+const words = (last: string) =>
+	Array.from({ length: 2500 }, (_, i) => (i === 2499 ? last : `word${i}`)).join(' ')
+
+const ingestMessage = (text: string): QueueMessage & { payload: DocumentIngestionPayload } => ({
+	type: 'document_ingestion',
+	payload: {
+		type: 'document_ingestion',
+		document: { id: 'doc-1', text, source: 'test', metadata: { acl: ['team-a'] } },
+	},
+	metadata,
+})
+
+const updateMessage = (
+	changes: DocumentUpdatePayload['changes'],
+	incrementalUpdate: boolean
+): QueueMessage & { payload: DocumentUpdatePayload } => ({
+	type: 'document_update',
+	payload: { type: 'document_update', documentId: 'doc-1', changes, incrementalUpdate },
+	metadata,
+})
+
+describe('DocumentProcessor.processDocumentUpdate()', () => {
+	let env: TestEnv
+
+	beforeEach(async () => {
+		env = createTestEnv()
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentIngestion(
+			ingestMessage(words('first'))
+		)
+		expect(result.embeddingsGenerated).toBe(3)
+		env.AI.embedded = []
+	})
+
+	it('should re-embed only the changed chunks of an incremental update', async () => {
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentUpdate(
+			updateMessage({ text: words('second') }, true)
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.embeddingsGenerated).toBe(1)
+		expect(result.metadata?.chunksUnchanged).toBe(2)
+		expect(env.AI.embedded).toHaveLength(1)
+		expect(env.AI.embedded[0]).toMatch(/second$/)
+	})
+
+	it('should re-embed every chunk when incrementalUpdate is false', async () => {
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentUpdate(
+			updateMessage({ text: words('second') }, false)
+		)
+
+		expect(result.embeddingsGenerated).toBe(3)
+		expect(result.metadata?.chunksUnchanged).toBe(0)
+	})
+
+	it('should process an update whose text another document already has', async () => {
+		// Same text under another id makes the update text a duplicate
+		await new DocumentProcessor(createTestContext(env)).processDocumentIngestion({
+			...ingestMessage(words('second')),
+			payload: {
+				type: 'document_ingestion',
+				document: { id: 'doc-2', text: words('second'), source: 'test' },
+			},
+		})
+
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentUpdate(
+			updateMessage({ text: words('second') }, true)
+		)
+
+		expect(result.metadata?.action).not.toBe('skipped_duplicate')
+		expect(result.embeddingsGenerated).toBe(1)
+	})
+
+	it('should rewrite every chunk when the ACL changes', async () => {
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentUpdate(
+			updateMessage({ text: words('first'), acl: ['team-b'] }, true)
+		)
+
+		expect(result.embeddingsGenerated).toBe(3)
+		for (const vector of env.VECTORIZE_INDEX.vectors.values()) {
+			expect(vector.metadata?.acl).toBe('team-b')
+		}
+	})
+
+	it('should chunk and scan the update the way the stored version was', async () => {
+		await new DocumentProcessor(createTestContext(env)).processDocumentIngestion({
+			...ingestMessage(words('first')),
+			payload: {
+				...ingestMessage(words('first')).payload,
+				options: { chunkSize: 500, overlap: 100, dlpEnabled: true },
+			},
+		})
+		env.AI.embedded = []
+
+		const result = await new DocumentProcessor(createTestContext(env)).processDocumentUpdate(
+			updateMessage({ text: words('jane@example.com') }, true)
+		)
+
+		// Six chunks of 500 words, of which only the last one changed
+		expect(result.embeddingsGenerated).toBe(1)
+		expect(result.metadata?.chunksUnchanged).toBe(5)
+		expect(env.AI.embedded[0]).toMatch(/\[EMAIL\]$/)
+		const stored = await env.DOCS_BUCKET.get('chunks/doc-1#5.txt')
+		expect(await stored?.text()).not.toContain('jane@example.com')
+	})
+})
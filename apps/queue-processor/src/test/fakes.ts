@@ -0,0 +1,270 @@
+import { getEmbeddingModel } from '@repo/rag-core'
+
+import { DocumentCoordinator } from '../coordination'
+
+import type { Env, QueueProcessorContext } from '../context'
+
+/**
+ * In-memory stand-ins for the bindings the processors and DocumentCoordinator use,
+ * so their logic can be tested without Miniflare bindings
+ */
+
+export class FakeStorage {
+	data = new Map<string, unknown>()
+	alarm: number | null = null
+
+	async get<T>(key: string): Promise<T | undefined> {
+		return structuredClone(this.data.get(key)) as T | undefined
+	}
+
+	async put(keyOrEntries: string | Record<string, unknown>, value?: unknown): Promise<void> {
+		const entries = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries
+		for (const [key, entry] of Object.entries(entries)) {
+			this.data.set(key, structuredClone(entry))
+		}
+	}
+
+	async delete(keys: string | string[]): Promise<void> {
+		for (const key of Array.isArray(keys) ? keys : [keys]) {
+			this.data.delete(key)
+		}
+	}
+
+	async list<T>(
+		options: { prefix?: string; end?: string; limit?: number } = {}
+	): Promise<Map<string, T>> {
+		const keys = [...this.data.keys()]
+			.filter((key) => key.startsWith(options.prefix ?? '') && (!options.end || key < options.end))
+			.sort()
+			.slice(0, options.limit)
+		return new Map(keys.map((key) => [key, structuredClone(this.data.get(key)) as T]))
+	}
+
+	async getAlarm(): Promise<number | null> {
+		return this.alarm
+	}
+
+	async setAlarm(time: number): Promise<void> {
+		this.alarm = time
+	}
+}
+
+export function createCoordinator(env: Partial<Env> = {}) {
+	const storage = new FakeStorage()
+	const state = {
+		storage,
+		blockConcurrencyWhile: <T>(callback: () => Promise<T>) => callback(),
+	} as unknown as DurableObjectState
+	const coordinator = new DocumentCoordinator(state, env as Env)
+
+	// Same shape as the stub calls the processors make
+	const call = async <T = any>(action: string, body?: unknown): Promise<T> => {
+		const response = await coordinator.fetch(
+			new Request(
+				`http://coordinator/${action}`,
+				body === undefined ? undefined : { method: 'POST', body: JSON.stringify(body) }
+			)
+		)
+		return response.json() as Promise<T>
+	}
+
+	return { coordinator, storage, call }
+}
+
+/**
+ * DocumentCoordinator namespace whose instances are real coordinators on FakeStorage
+ */
+export class FakeCoordinatorNamespace {
+	instances = new Map<string, ReturnType<typeof createCoordinator>>()
+
+	constructor(private env: () => Partial<Env>) {}
+
+	idFromName(name: string) {
+		return name as unknown as DurableObjectId
+	}
+
+	get(id: DurableObjectId) {
+		return {
+			fetch: (input: string, init?: RequestInit) =>
+				this.instance(String(id)).coordinator.fetch(new Request(input, init)),
+		}
+	}
+
+	instance(name: string) {
+		let instance = this.instances.get(name)
+		if (!instance) {
+			instance = createCoordinator(this.env())
+			this.instances.set(name, instance)
+		}
+		return instance
+	}
+}
+
+interface StoredObject {
+	body: string
+	httpMetadata?: R2HTTPMetadata
+	customMetadata?: Record<string, string>
+}
+
+export class FakeBucket {
+	objects = new Map<string, StoredObject>()
+
+	async get(key: string) {
+		const object = this.objects.get(key)
+		return object ? this.toObject(key, object) : null
+	}
+
+	async head(key: string) {
+		return this.get(key)
+	}
+
+	async put(key: string, value: string, options: R2PutOptions = {}) {
+		this.objects.set(key, {
+			body: value,
+			httpMetadata: options.httpMetadata as R2HTTPMetadata | undefined,
+			customMetadata: options.customMetadata,
+		})
+	}
+
+	async delete(keys: string | string[]) {
+		for (const key of Array.isArray(keys) ? keys : [keys]) {
+			this.objects.delete(key)
+		}
+	}
+
+	async list(options: R2ListOptions = {}) {
+		const keys = [...this.objects.keys()]
+			.filter((key) => key.startsWith(options.prefix ?? ''))
+			.sort()
+		// The cursor is the offset of the next page
+		const start = Number(options.cursor ?? 0)
+		const end = options.limit ? start + options.limit : keys.length
+		return {
+			objects: keys.slice(start, end).map((key) => this.toObject(key, this.objects.get(key)!)),
+			truncated: end < keys.length,
+			cursor: String(end),
+		}
+	}
+
+	json<T>(key: string): T | undefined {
+		const object = this.objects.get(key)
+		return object && JSON.parse(object.body)
+	}
+
+	private toObject(key: string, object: StoredObject) {
+		return {
+			key,
+			httpMetadata: object.httpMetadata,
+			customMetadata: object.customMetadata,
+			text: async () => object.body,
+			json: async () => JSON.parse(object.body),
+		}
+	}
+}
+
+export class FakeQueue {
+	sent: Array<{ body: any; options?: QueueSendOptions }> = []
+
+	async send(body: unknown, options?: QueueSendOptions) {
+		this.sent.push({ body, options })
+	}
+}
+
+export class FakeVectorIndex {
+	vectors = new Map<string, VectorizeVector>()
+
+	async upsert(vectors: VectorizeVector[]) {
+		for (const vector of vectors) {
+			this.vectors.set(vector.id, vector)
+		}
+	}
+
+	async deleteByIds(ids: string[]) {
+		for (const id of ids) {
+			this.vectors.delete(id)
+		}
+	}
+
+	async getByIds(ids: string[]) {
+		return ids.flatMap((id) => this.vectors.get(id) ?? [])
+	}
+}
+
+/**
+ * Workers AI stand-in returning a vector of the model's size per text, recording the texts
+ */
+export class FakeAi {
+	embedded: string[] = []
+
+	async run(modelId: string, { text }: { text: string[] }) {
+		this.embedded.push(...text)
+		const { dimensions } = getEmbeddingModel(modelId)
+		return {
+			data: text.map((value) =>
+				Array.from({ length: dimensions }, (_, i) => (i === 0 ? value.length : 1))
+			),
+		}
+	}
+}
+
+export function createTestEnv() {
+	const env = {
+		DOCUMENT_INGESTION_QUEUE: new FakeQueue(),
+		WEBHOOK_PROCESSING_QUEUE: new FakeQueue(),
+		BATCH_REPROCESSING_QUEUE: new FakeQueue(),
+		PRIORITY_PROCESSING_QUEUE: new FakeQueue(),
+		DOCS_BUCKET: new FakeBucket(),
+		VECTORIZE_INDEX: new FakeVectorIndex(),
+		VECTORIZE_INDEX_GREEN: new FakeVectorIndex(),
+		AI: new FakeAi(),
+		VECTORIZE_INDEX_ID: 'rag-embeddings',
+		AI_ACCOUNT_ID: 'test',
+		EMBEDDING_MODEL: '@cf/baai/bge-small-en-v1.5',
+		WEBHOOK_COALESCE_SECONDS: '30',
+		DOCUMENT_COORDINATOR: undefined as unknown as FakeCoordinatorNamespace,
+	}
+	env.DOCUMENT_COORDINATOR = new FakeCoordinatorNamespace(() => env as unknown as Partial<Env>)
+	return env
+}
+
+export type TestEnv = ReturnType<typeof createTestEnv>
+
+export function createTestContext(env: TestEnv = createTestEnv()): QueueProcessorContext & {
+	events: Array<{ event: string; data: Record<string, any> }>
+} {
+	const events: Array<{ event: string; data: Record<string, any> }> = []
+	const bindings = env as unknown as Env
+
+	return {
+		env: bindings,
+		workerId: 'test-worker',
+		startTime: Date.now(),
+		getCoordinator: (documentId) =>
+			bindings.DOCUMENT_COORDINATOR.get(bindings.DOCUMENT_COORDINATOR.idFromName(documentId)),
+		logMetric: () => {},
+		logEvent: (event, data = {}) => {
+			events.push({ event, data })
+		},
+		events,
+	}
+}
+
+/**
+ * Queue message as the runtime delivers it, recording how it was settled
+ */
+export function createMessage<T>(body: T, attempts = 1, id = crypto.randomUUID()) {
+	const message = {
+		id,
+		body,
+		attempts,
+		timestamp: new Date(),
+		settled: undefined as 'ack' | 'retry' | undefined,
+		ack: () => {
+			message.settled = 'ack'
+		},
+		retry: () => {
+			message.settled = 'retry'
+		},
+	}
+	return message
+}
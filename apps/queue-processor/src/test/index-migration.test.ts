@@ -0,0 +1,231 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { INDEX_MIGRATION_ID } from '../coordination'
+import { BatchProcessor } from '../processors/batch-processor'
+import { DocumentProcessor } from '../processors/document-processor'
+import { createCoordinator, createTestContext, createTestEnv } from './fakes'
+
+import type { QueueMessage } from '../types'
+
+const fromModel = '@cf/baai/bge-small-en-v1.5'
+const toModel = '@cf/baai/bge-large-en-v1.5'
+
+describe('DocumentCoordinator index migration', () => {
+	let coordinator: ReturnType<typeof createCoordinator>
+
+	const start = (documentIds: string[]) =>
+		coordinator.call('start-migration', { fromModel, toModel, documentIds })
+
+	const migrate = (migrationId: string, documentId: string, manifestIngestedAt = '2026-01-01') =>
+		coordinator.call('record-migration-progress', {
+			migrationId,
+			documentId,
+			status: 'migrated',
+			chunksMigrated: 1,
+			totalChunks: 1,
+			manifestIngestedAt,
+		})
+
+	const invalidate = (documentId: string, body: Record<string, unknown> = {}) =>
+		coordinator.call('invalidate-migration-document', {
+			documentId,
+			manifestIngestedAt: '2026-02-01',
+			...body,
+		})
+
+	// Migration of doc-1 and doc-2 from blue into green, switched to
+	const switchToGreen = async () => {
+		const { migration } = await start(['doc-1', 'doc-2'])
+		await migrate(migration.id, 'doc-1')
+		await migrate(migration.id, 'doc-2')
+		return coordinator.call('switch-index', {})
+	}
+
+	beforeEach(() => {
+		coordinator = createCoordinator()
+	})
+
+	it('should start a migration into the inactive index with every document pending', async () => {
+		const { migration } = await start(['doc-1', 'doc-2', 'doc-1'])
+
+		expect(migration).toMatchObject({
+			fromSlot: 'blue',
+			toSlot: 'green',
+			fromModel,
+			toModel,
+			status: 'running',
+			totalDocuments: 2,
+			migratedDocuments: 0,
+		})
+		const { documents } = await coordinator.call('get-migration?status=pending')
+		expect(documents.map((document: any) => document.documentId).sort()).toEqual(['doc-1', 'doc-2'])
+	})
+
+	it('should refuse a second migration while one is running', async () => {
+		await start(['doc-1'])
+
+		const { success, error } = await start(['doc-2'])
+
+		expect(success).toBe(false)
+		expect(error).toContain('already running')
+	})
+
+	it('should become ready once every document is migrated', async () => {
+		const { migration } = await start(['doc-1', 'doc-2'])
+
+		expect((await migrate(migration.id, 'doc-1')).migration.status).toBe('running')
+		const { migration: ready } = await migrate(migration.id, 'doc-2')
+
+		expect(ready).toMatchObject({ status: 'ready', migratedDocuments: 2 })
+		expect((await coordinator.call('get-migration')).coverage).toBe(1)
+	})
+
+	it('should put a document re-ingested during the migration back to pending', async () => {
+		const { migration } = await start(['doc-1'])
+		await migrate(migration.id, 'doc-1')
+
+		const { migration: updated } = await invalidate('doc-1')
+
+		expect(updated).toMatchObject({ status: 'running', migratedDocuments: 0, totalDocuments: 1 })
+		// Vectors built from the manifest before the re-ingest stay stale
+		const { progress } = await migrate(migration.id, 'doc-1', '2026-01-15')
+		expect(progress.status).toBe('pending')
+	})
+
+	it('should drop a document deleted during the migration', async () => {
+		const { migration } = await start(['doc-1', 'doc-2'])
+		await migrate(migration.id, 'doc-1')
+
+		const { migration: updated } = await invalidate('doc-2', { deleted: true })
+
+		expect(updated).toMatchObject({ status: 'ready', totalDocuments: 1 })
+	})
+
+	it('should refuse the switch before full coverage', async () => {
+		const { migration } = await start(['doc-1', 'doc-2'])
+		await migrate(migration.id, 'doc-1')
+
+		const { success, error } = await coordinator.call('switch-index', {})
+
+		expect(success).toBe(false)
+		expect(error).toContain('50% coverage')
+	})
+
+	it('should switch to the migrated index and model', async () => {
+		const { active, migration } = await switchToGreen()
+
+		expect(active).toMatchObject({
+			slot: 'green',
+			model: toModel,
+			previous: { slot: 'blue', model: fromModel },
+		})
+		expect(migration.status).toBe('switched')
+	})
+
+	it('should cancel a running migration on rollback', async () => {
+		await start(['doc-1'])
+
+		const { migration } = await coordinator.call('rollback-index', {})
+
+		expect(migration.status).toBe('cancelled')
+		expect((await coordinator.call('get-active-index')).active).toMatchObject({
+			slot: 'blue',
+			model: fromModel,
+		})
+	})
+
+	it('should switch back at once when nothing changed since the switch', async () => {
+		await switchToGreen()
+
+		const { active, migration } = await coordinator.call('rollback-index', {})
+
+		expect(active).toEqual({ slot: 'blue', model: fromModel, switchedAt: expect.any(Number) })
+		expect(migration.status).toBe('rolled_back')
+	})
+
+	it('should migrate documents changed since the switch back before switching back', async () => {
+		await switchToGreen()
+		await invalidate('doc-2')
+		await invalidate('doc-3')
+
+		const rollback = await coordinator.call('rollback-index', {})
+
+		// The changed documents are only current in green, so green stays active for now
+		expect(rollback.active.slot).toBe('green')
+		expect(rollback.documentIds.sort()).toEqual(['doc-2', 'doc-3'])
+		expect(rollback.migration).toMatchObject({
+			fromSlot: 'green',
+			toSlot: 'blue',
+			toModel: fromModel,
+			status: 'running',
+			totalDocuments: 2,
+		})
+
+		await migrate(rollback.migration.id, 'doc-2')
+		await migrate(rollback.migration.id, 'doc-3')
+		const { active } = await coordinator.call('switch-index', {})
+
+		expect(active).toMatchObject({ slot: 'blue', model: fromModel })
+	})
+
+	it('should not migrate back documents hard deleted since the switch', async () => {
+		await switchToGreen()
+		await invalidate('doc-2')
+		await invalidate('doc-2', { deleted: true })
+
+		const { active, migration } = await coordinator.call('rollback-index', {})
+
+		expect(active.slot).toBe('blue')
+		expect(migration.status).toBe('rolled_back')
+	})
+})
+
+describe('BatchProcessor model_update', () => {
+	const metadata: QueueMessage['metadata'] = {
+		priority: 'low',
+		retryCount: 0,
+		maxRetries: 3,
+		correlationId: 'migration-1',
+		source: 'test',
+	}
+
+	it('should write the green vectors with the ACL of the stored chunks', async () => {
+		const env = createTestEnv()
+		await new DocumentProcessor(createTestContext(env)).processDocumentIngestion({
+			type: 'document_ingestion',
+			payload: {
+				type: 'document_ingestion',
+				document: {
+					id: 'doc-1',
+					text: 'Quarterly numbers for the finance team.',
+					source: 'test',
+					metadata: { acl: ['finance'] },
+				},
+			},
+			metadata,
+		})
+		// A blue vector that is not readable yet leaves nothing to copy from
+		env.VECTORIZE_INDEX.vectors.clear()
+
+		const { migration } = await env.DOCUMENT_COORDINATOR.instance(INDEX_MIGRATION_ID).call(
+			'start-migration',
+			{ fromModel, toModel, documentIds: ['doc-1'] }
+		)
+		const result = await new BatchProcessor(createTestContext(env)).processBatchReprocess({
+			type: 'batch_reprocess',
+			payload: {
+				type: 'batch_reprocess',
+				documentIds: ['doc-1'],
+				reason: 'model_update',
+				options: { migrationId: migration.id },
+			},
+			metadata,
+		})
+
+		expect(result.success).toBe(true)
+		expect(env.VECTORIZE_INDEX_GREEN.vectors.get('doc-1#0')?.metadata).toMatchObject({
+			acl: 'finance',
+			chunkIndex: '0',
+		})
+	})
+})
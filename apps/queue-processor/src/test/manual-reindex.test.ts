@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { BatchProcessor } from '../processors/batch-processor'
+import { DocumentProcessor } from '../processors/document-processor'
+import { createTestContext, createTestEnv } from './fakes'
+
+import type { BatchReprocessPayload, QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const metadata: QueueMessage['metadata'] = {
+	priority: 'medium',
+	retryCount: 0,
+	maxRetries: 3,
+	correlationId: 'reindex-1',
+	source: 'test',
+}
+
+const reindex: QueueMessage & { payload: BatchReprocessPayload } = {
+	type: 'batch_reprocess',
+	payload: { type: 'batch_reprocess', documentIds: ['doc-1'], reason: 'manual_reindex' },
+	metadata,
+}
+
+// Overlapping chunks of 500 words, with an email in the first
+const text = [
+	'Contact jane@example.com',
+	...Array.from({ length: 1200 }, (_, i) => `word${i}`),
+].join(' ')
+
+describe('BatchProcessor manual_reindex', () => {
+	let env: TestEnv
+
+	beforeEach(async () => {
+		env = createTestEnv()
+		await new DocumentProcessor(createTestContext(env)).processDocumentIngestion({
+			type: 'document_ingestion',
+			payload: {
+				type: 'document_ingestion',
+				document: { id: 'doc-1', text, source: 'test', metadata: { acl: ['team-a'] } },
+				options: { chunkSize: 500, overlap: 100, dlpEnabled: true, dlpPolicy: 'mask' },
+			},
+			metadata,
+		})
+	})
+
+	it('should requeue the stored text with the options of the last ingest', async () => {
+		const result = await new BatchProcessor(createTestContext(env)).processBatchReprocess(reindex)
+
+		expect(result.success).toBe(true)
+		expect(env.DOCUMENT_INGESTION_QUEUE.sent.at(-1)?.body.payload).toMatchObject({
+			document: { id: 'doc-1', text, metadata: { acl: ['team-a'] } },
+			options: { chunkSize: 500, overlap: 100, dlpEnabled: true, dlpPolicy: 'mask' },
+		})
+	})
+
+	it('should not reindex from the stored chunks when the text is missing', async () => {
+		await env.DOCS_BUCKET.delete('texts/doc-1.txt')
+
+		const result = await new BatchProcessor(createTestContext(env)).processBatchReprocess(reindex)
+
+		expect(result.success).toBe(false)
+		expect(env.DOCUMENT_INGESTION_QUEUE.sent).toHaveLength(0)
+	})
+})
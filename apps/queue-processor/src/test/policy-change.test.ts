@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { BatchProcessor } from '../processors/batch-processor'
+import { DocumentProcessor } from '../processors/document-processor'
+import { createTestContext, createTestEnv } from './fakes'
+
+import type { BatchReprocessPayload, QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const policyChange = (newAcl: string[]): QueueMessage & { payload: BatchReprocessPayload } => ({
+	type: 'batch_reprocess',
+	payload: {
+		type: 'batch_reprocess',
+		documentIds: ['doc-1'],
+		reason: 'policy_change',
+		options: { newAcl },
+	},
+	metadata: {
+		priority: 'high',
+		retryCount: 0,
+		maxRetries: 3,
+		correlationId: 'policy-1',
+		source: 'test',
+	},
+})
+
+describe('BatchProcessor policy_change', () => {
+	let env: TestEnv
+
+	beforeEach(async () => {
+		env = createTestEnv()
+		await new DocumentProcessor(createTestContext(env)).processDocumentIngestion({
+			type: 'document_ingestion',
+			payload: {
+				type: 'document_ingestion',
+				document: {
+					id: 'doc-1',
+					text: 'Quarterly numbers for the finance team.',
+					source: 'test',
+					metadata: { acl: ['team-a'] },
+				},
+			},
+			metadata: policyChange([]).metadata,
+		})
+	})
+
+	it('should rewrite the ACL of every chunk', async () => {
+		const result = await new BatchProcessor(createTestContext(env)).processBatchReprocess(
+			policyChange(['team-b'])
+		)
+
+		expect(result.success).toBe(true)
+		for (const vector of env.VECTORIZE_INDEX.vectors.values()) {
+			expect(vector.metadata?.acl).toBe('team-b')
+		}
+	})
+
+	it('should refuse an empty ACL, which would make the chunks public', async () => {
+		const result = await new BatchProcessor(createTestContext(env)).processBatchReprocess(
+			policyChange([])
+		)
+
+		expect(result.success).toBe(false)
+		expect(result.metadata?.batchResults.errors[0].error).toContain('empty ACL')
+		for (const vector of env.VECTORIZE_INDEX.vectors.values()) {
+			expect(vector.metadata?.acl).toBe('team-a')
+		}
+		for (const [key, object] of env.DOCS_BUCKET.objects) {
+			if (key.startsWith('chunks/')) {
+				expect(object.customMetadata?.acl).toBe('team-a')
+			}
+		}
+	})
+})
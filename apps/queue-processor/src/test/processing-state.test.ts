@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { createCoordinator } from './fakes'
+
+describe('DocumentCoordinator update-state', () => {
+	let coordinator: ReturnType<typeof createCoordinator>
+
+	const getState = async () =>
+		(await coordinator.call('get-state?documentId=doc-1')).state as Record<string, any>
+
+	beforeEach(() => {
+		coordinator = createCoordinator()
+	})
+
+	it('should merge updates of the same run', async () => {
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'queued',
+			startedAt: 1,
+			workflowInstanceId: 'run-1',
+			metadata: { source: 'upload' },
+		})
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'completed',
+			startedAt: 2,
+			workflowInstanceId: 'run-1',
+		})
+
+		expect(await getState()).toMatchObject({
+			status: 'completed',
+			workflowInstanceId: 'run-1',
+			metadata: { source: 'upload' },
+		})
+	})
+
+	it('should drop the error and workflow instance of an earlier run', async () => {
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'failed',
+			startedAt: 1,
+			workflowInstanceId: 'run-1',
+			error: 'Embedding failed',
+		})
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'processing',
+			startedAt: 2,
+		})
+
+		const state = await getState()
+		expect(state.status).toBe('processing')
+		expect(state.error).toBeUndefined()
+		expect(state.workflowInstanceId).toBeUndefined()
+	})
+
+	it('should start a new workflow run from a clean state', async () => {
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'failed',
+			startedAt: 1,
+			error: 'Document text is empty or invalid',
+		})
+		await coordinator.call('update-state', {
+			documentId: 'doc-1',
+			status: 'queued',
+			startedAt: 1,
+			workflowInstanceId: 'run-2',
+		})
+
+		const state = await getState()
+		expect(state).toMatchObject({ status: 'queued', workflowInstanceId: 'run-2' })
+		expect(state.error).toBeUndefined()
+	})
+})
@@ -42,6 +42,18 @@ describe('Queue Processor Service', () => {
 		// but we can check that the endpoint exists
 		expect(response.status).toBeOneOf([200, 500])
 	})
+
+	it('should refuse a replay with an invalid payload on POST /admin/dead-letters/:id/replay', async () => {
+		const response = await SELF.fetch('/admin/dead-letters/msg-1/replay', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ payload: { type: 'document_delete' } }),
+		})
+
+		expect(response.status).toBe(400)
+		const data = await response.json<{ error: string }>()
+		expect(data.error).toBe('Invalid replay payload')
+	})
 })
 
 describe('Document Coordinator Durable Object', () => {
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { QueueSender } from '../queue-sender'
+import { createTestContext, createTestEnv } from './fakes'
+
+import type { QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const trigger: QueueMessage['metadata'] = {
+	priority: 'low',
+	retryCount: 2,
+	maxRetries: 5,
+	correlationId: 'webhook-1',
+	source: 'webhook',
+}
+
+describe('QueueSender', () => {
+	let env: TestEnv
+	let sender: QueueSender
+
+	beforeEach(() => {
+		env = createTestEnv()
+		sender = new QueueSender(createTestContext(env))
+	})
+
+	describe('send()', () => {
+		it('should wrap the payload in an envelope traced to the triggering message', async () => {
+			const message = await sender.send(
+				{ type: 'document_delete', documentId: 'doc-1', hardDelete: false },
+				trigger
+			)
+
+			expect(message).toEqual({
+				type: 'document_delete',
+				payload: { type: 'document_delete', documentId: 'doc-1', hardDelete: false },
+				metadata: {
+					priority: 'low',
+					retryCount: 0,
+					maxRetries: 3,
+					correlationId: 'webhook-1',
+					source: 'queue-processor',
+					replayOf: undefined,
+				},
+			})
+			expect(env.DOCUMENT_INGESTION_QUEUE.sent).toEqual([{ body: message, options: undefined }])
+		})
+
+		it('should send fast lane priorities to the priority queue', async () => {
+			await sender.send(
+				{ type: 'document_delete', documentId: 'doc-1', hardDelete: true },
+				{ ...trigger, priority: 'critical' }
+			)
+
+			expect(env.PRIORITY_PROCESSING_QUEUE.sent).toHaveLength(1)
+			expect(env.DOCUMENT_INGESTION_QUEUE.sent).toHaveLength(0)
+		})
+
+		it('should start a new trace at medium priority without a triggering message', async () => {
+			const message = await sender.send({
+				type: 'batch_reprocess',
+				documentIds: ['doc-1'],
+				reason: 'manual_reindex',
+			})
+
+			expect(message.metadata).toMatchObject({ priority: 'medium', maxRetries: 2 })
+			expect(message.metadata.correlationId).not.toBe('webhook-1')
+			expect(env.BATCH_REPROCESSING_QUEUE.sent).toHaveLength(1)
+		})
+
+		it('should let options override the priority and retry budget and mark replays', async () => {
+			const message = await sender.send(
+				{ type: 'document_delete', documentId: 'doc-1', hardDelete: false },
+				trigger,
+				{ priority: 'high', maxRetries: 1, replayOf: 'dead-letter-1' }
+			)
+
+			expect(message.metadata).toMatchObject({
+				priority: 'high',
+				maxRetries: 1,
+				replayOf: 'dead-letter-1',
+			})
+			expect(env.PRIORITY_PROCESSING_QUEUE.sent).toHaveLength(1)
+		})
+	})
+})
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+
+import { processByPriority, queueBindingFor } from '../queues'
+
+import type { QueuePriority } from '../queues'
+
+describe('queueBindingFor()', () => {
+	it('should send each message type to its own queue', () => {
+		expect(queueBindingFor('document_ingestion', 'medium')).toBe('DOCUMENT_INGESTION_QUEUE')
+		expect(queueBindingFor('document_update', 'low')).toBe('DOCUMENT_INGESTION_QUEUE')
+		expect(queueBindingFor('document_delete', 'medium')).toBe('DOCUMENT_INGESTION_QUEUE')
+		expect(queueBindingFor('webhook_sync', 'medium')).toBe('WEBHOOK_PROCESSING_QUEUE')
+		expect(queueBindingFor('batch_reprocess', 'low')).toBe('BATCH_REPROCESSING_QUEUE')
+	})
+
+	it('should send critical and high priority messages of any type to the fast lane', () => {
+		expect(queueBindingFor('batch_reprocess', 'critical')).toBe('PRIORITY_PROCESSING_QUEUE')
+		expect(queueBindingFor('webhook_sync', 'high')).toBe('PRIORITY_PROCESSING_QUEUE')
+	})
+})
+
+describe('processByPriority()', () => {
+	const items = (priorities: QueuePriority[]) =>
+		priorities.map((priority, i) => ({ id: `${priority}-${i}`, priority }))
+
+	it('should handle higher priorities first, keeping the order within one', async () => {
+		const handled: string[] = []
+
+		await processByPriority(
+			items(['low', 'medium', 'critical', 'low', 'high']),
+			(item) => item.priority,
+			{ critical: 10, high: 10, medium: 10, low: 10 },
+			async (item) => {
+				handled.push(item.id)
+			}
+		)
+
+		expect(handled).toEqual(['critical-2', 'high-4', 'medium-1', 'low-0', 'low-3'])
+	})
+
+	it('should run at most the concurrency of a priority at a time', async () => {
+		let running = 0
+		let maxRunning = 0
+
+		await processByPriority(
+			items(['low', 'low', 'low', 'low', 'low']),
+			(item) => item.priority,
+			{ critical: 10, high: 10, medium: 5, low: 2 },
+			async () => {
+				running++
+				maxRunning = Math.max(maxRunning, running)
+				await new Promise((resolve) => setTimeout(resolve, 1))
+				running--
+			}
+		)
+
+		expect(maxRunning).toBe(2)
+	})
+
+	it('should finish a priority before starting the next', async () => {
+		const events: string[] = []
+
+		await processByPriority(
+			items(['medium', 'high', 'high']),
+			(item) => item.priority,
+			{ critical: 10, high: 10, medium: 10, low: 10 },
+			async (item) => {
+				events.push(`start ${item.id}`)
+				await new Promise((resolve) => setTimeout(resolve, 1))
+				events.push(`end ${item.id}`)
+			}
+		)
+
+		expect(events.indexOf('start medium-0')).toBeGreaterThan(events.indexOf('end high-2'))
+		expect(events.indexOf('start medium-0')).toBeGreaterThan(events.indexOf('end high-1'))
+	})
+})
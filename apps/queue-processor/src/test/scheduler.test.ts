@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createCoordinator, createTestEnv } from './fakes'
+
+import type { Env } from '../context'
+import type { QueueMessage } from '../types'
+import type { TestEnv } from './fakes'
+
+const HOUR = 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 1)
+
+const message = (
+	correlationId: string,
+	priority: QueueMessage['metadata']['priority'] = 'low'
+): QueueMessage => ({
+	type: 'batch_reprocess',
+	payload: { type: 'batch_reprocess', documentIds: ['doc-1'], reason: 'manual_reindex' },
+	metadata: { priority, retryCount: 0, maxRetries: 2, correlationId, source: 'test' },
+})
+
+describe('DocumentCoordinator scheduler', () => {
+	let env: TestEnv
+	let scheduler: ReturnType<typeof createCoordinator>
+
+	// The runtime clears the alarm before running the handler
+	const fireAlarm = async (at: number) => {
+		vi.setSystemTime(at)
+		scheduler.storage.alarm = null
+		await scheduler.coordinator.alarm()
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(NOW)
+		env = createTestEnv()
+		scheduler = createCoordinator(env as unknown as Partial<Env>)
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should arm the alarm for the earliest scheduled message', async () => {
+		await scheduler.call('schedule-message', {
+			message: message('later'),
+			deliverAt: NOW + 20 * HOUR,
+		})
+		await scheduler.call('schedule-message', {
+			message: message('sooner'),
+			deliverAt: NOW + 13 * HOUR,
+		})
+
+		expect(scheduler.storage.alarm).toBe(NOW + 13 * HOUR)
+	})
+
+	it('should send due messages to their queue and arm the alarm for the next', async () => {
+		await scheduler.call('schedule-message', {
+			message: message('sooner'),
+			deliverAt: NOW + 13 * HOUR,
+		})
+		await scheduler.call('schedule-message', {
+			message: message('later'),
+			deliverAt: NOW + 20 * HOUR,
+		})
+
+		await fireAlarm(NOW + 13 * HOUR)
+
+		expect(
+			env.BATCH_REPROCESSING_QUEUE.sent.map(({ body }) => body.metadata.correlationId)
+		).toEqual(['sooner'])
+		expect(scheduler.storage.alarm).toBe(NOW + 20 * HOUR)
+
+		await fireAlarm(NOW + 20 * HOUR)
+
+		expect(env.BATCH_REPROCESSING_QUEUE.sent).toHaveLength(2)
+		expect(scheduler.storage.alarm).toBeNull()
+	})
+
+	it('should send fast lane messages to the priority queue', async () => {
+		await scheduler.call('schedule-message', {
+			message: message('urgent', 'critical'),
+			deliverAt: NOW + 13 * HOUR,
+		})
+
+		await fireAlarm(NOW + 13 * HOUR)
+
+		expect(env.PRIORITY_PROCESSING_QUEUE.sent).toHaveLength(1)
+	})
+
+	it('should keep a message that could not be sent and try again a minute later', async () => {
+		await scheduler.call('schedule-message', {
+			message: message('sooner'),
+			deliverAt: NOW + 13 * HOUR,
+		})
+		env.BATCH_REPROCESSING_QUEUE.send = async () => {
+			throw new Error('Queue unavailable')
+		}
+
+		await fireAlarm(NOW + 13 * HOUR)
+
+		expect(scheduler.storage.alarm).toBe(NOW + 13 * HOUR + 60 * 1000)
+		expect(
+			[...scheduler.storage.data.keys()].filter((key) => key.startsWith('scheduled:'))
+		).toHaveLength(1)
+	})
+})
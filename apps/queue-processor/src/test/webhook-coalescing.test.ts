@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { websiteDocumentId } from '@repo/rag-core'
+
+import { webhookCoalescingId } from '../coordination'
+import { WebhookProcessor } from '../processors/webhook-processor'
+import { createCoordinator, createTestContext, createTestEnv } from './fakes'
+
+import type { Env } from '../context'
+import type { QueueMessage, WebhookCoalesceResult, WebhookSyncPayload } from '../types'
+import type { TestEnv } from './fakes'
+
+const NOW = Date.UTC(2026, 0, 1)
+const WINDOW_MS = 30 * 1000
+
+type WebhookMessage = QueueMessage & { payload: WebhookSyncPayload }
+
+const event = (
+	correlationId: string,
+	eventType: WebhookSyncPayload['eventType'],
+	options: {
+		changeToken?: string
+		priority?: QueueMessage['metadata']['priority']
+		metadata?: Record<string, any>
+	} = {}
+): WebhookMessage => ({
+	type: 'webhook_sync',
+	payload: {
+		type: 'webhook_sync',
+		sourceType: 'website',
+		eventType,
+		resourceId: 'https://example.com/page',
+		resourceUrl: 'https://example.com/page',
+		changeToken: options.changeToken,
+		metadata: options.metadata ?? {},
+	},
+	metadata: {
+		priority: options.priority ?? 'medium',
+		retryCount: 0,
+		maxRetries: 5,
+		correlationId,
+		source: 'webhook',
+	},
+})
+
+describe('DocumentCoordinator webhook coalescing', () => {
+	let env: TestEnv
+	let resource: ReturnType<typeof createCoordinator>
+
+	const coalesce = (message: WebhookMessage) =>
+		resource.call<WebhookCoalesceResult>('coalesce-webhook', { message, windowMs: WINDOW_MS })
+
+	// The runtime clears the alarm before running the handler
+	const fireAlarm = async (at: number) => {
+		vi.setSystemTime(at)
+		resource.storage.alarm = null
+		await resource.coordinator.alarm()
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] })
+		vi.setSystemTime(NOW)
+		env = createTestEnv()
+		resource = createCoordinator(env as unknown as Partial<Env>)
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should hold events until the window of the first one ends', async () => {
+		expect(await coalesce(event('event-1', 'updated'))).toEqual({
+			action: 'coalesced',
+			pendingEvents: 1,
+			deliverAt: NOW + WINDOW_MS,
+		})
+
+		vi.setSystemTime(NOW + 10 * 1000)
+		const second = await coalesce(event('event-2', 'updated'))
+
+		expect(second).toMatchObject({ pendingEvents: 2, deliverAt: NOW + WINDOW_MS })
+		expect(resource.storage.alarm).toBe(NOW + WINDOW_MS)
+		expect(env.WEBHOOK_PROCESSING_QUEUE.sent).toEqual([])
+	})
+
+	it('should send one merged event when the window ends', async () => {
+		await coalesce(
+			event('event-1', 'created', { changeToken: 'v1', priority: 'low', metadata: { a: 1 } })
+		)
+		await coalesce(event('event-2', 'updated', { changeToken: 'v2', metadata: { b: 2 } }))
+		await coalesce(event('event-3', 'updated', { metadata: { a: 3 } }))
+
+		await fireAlarm(NOW + WINDOW_MS)
+
+		expect(env.WEBHOOK_PROCESSING_QUEUE.sent).toHaveLength(1)
+		expect(env.WEBHOOK_PROCESSING_QUEUE.sent[0].body).toMatchObject({
+			payload: {
+				// Created in the window, so still created
+				eventType: 'created',
+				// The latest token any event carried
+				changeToken: 'v2',
+				metadata: { a: 3, b: 2 },
+				coalescedEvents: 3,
+			},
+			metadata: {
+				correlationId: 'event-1',
+				priority: 'medium',
+				retryCount: 0,
+			},
+		})
+		expect(resource.storage.data.has('webhook-pending')).toBe(false)
+	})
+
+	it('should send the merged event to the fast lane when one event was urgent', async () => {
+		await coalesce(event('event-1', 'updated'))
+		await coalesce(event('event-2', 'updated', { priority: 'high' }))
+
+		await fireAlarm(NOW + WINDOW_MS)
+
+		expect(env.PRIORITY_PROCESSING_QUEUE.sent).toHaveLength(1)
+		expect(env.PRIORITY_PROCESSING_QUEUE.sent[0].body.metadata.priority).toBe('high')
+	})
+
+	it('should cancel held events on a deletion, which is processed right away', async () => {
+		await coalesce(event('event-1', 'created'))
+		await coalesce(event('event-2', 'updated'))
+
+		expect(await coalesce(event('event-3', 'deleted'))).toEqual({
+			action: 'process',
+			cancelledEvents: 2,
+		})
+
+		await fireAlarm(NOW + WINDOW_MS)
+		expect(env.WEBHOOK_PROCESSING_QUEUE.sent).toEqual([])
+	})
+
+	it('should keep the held event when it could not be sent', async () => {
+		await coalesce(event('event-1', 'updated'))
+		env.WEBHOOK_PROCESSING_QUEUE.send = async () => {
+			throw new Error('Queue unavailable')
+		}
+
+		await fireAlarm(NOW + WINDOW_MS)
+
+		expect(resource.storage.data.has('webhook-pending')).toBe(true)
+		expect(resource.storage.alarm).toBe(NOW + WINDOW_MS + 60 * 1000)
+	})
+})
+
+describe('WebhookProcessor.processWebhookSync()', () => {
+	let env: TestEnv
+
+	beforeEach(() => {
+		env = createTestEnv()
+	})
+
+	it("should hold an update in the resource's coordinator", async () => {
+		const result = await new WebhookProcessor(createTestContext(env)).processWebhookSync(
+			event('event-1', 'updated')
+		)
+
+		expect(result.metadata).toMatchObject({ coalesced: true, pendingEvents: 1 })
+		const pending = env.DOCUMENT_COORDINATOR.instance(
+			webhookCoalescingId('website', 'https://example.com/page')
+		).storage.data.get('webhook-pending')
+		expect(pending).toMatchObject({ eventCount: 1, correlationIds: ['event-1'] })
+	})
+
+	it('should process events right away when coalescing is turned off', async () => {
+		env.WEBHOOK_COALESCE_SECONDS = '0'
+		const processor = new WebhookProcessor(createTestContext(env))
+
+		const result = await processor.processWebhookSync(event('event-1', 'deleted'))
+
+		expect(result.metadata?.coalesced).toBeUndefined()
+		expect(env.DOCUMENT_INGESTION_QUEUE.sent[0].body.type).toBe('document_delete')
+		expect(
+			env.DOCUMENT_COORDINATOR.instances.has(
+				webhookCoalescingId('website', 'https://example.com/page')
+			)
+		).toBe(false)
+	})
+
+	it('should process the events of a site crawl without coalescing them', async () => {
+		// The site lists one page, which is gone by the time it is fetched
+		vi.stubGlobal('fetch', async (input: RequestInfo | URL) =>
+			String(input) === 'https://example.com/sitemap.xml'
+				? new Response('<urlset><url><loc>https://example.com/page</loc></url></urlset>')
+				: new Response('Not found', { status: 404 })
+		)
+		const crawl = event('crawl-1', 'updated', { metadata: { crawl: 'sitemap' } })
+		crawl.payload.resourceId = crawl.payload.resourceUrl = 'https://example.com/'
+
+		try {
+			env.WEBHOOK_COALESCE_SECONDS = '0'
+			await new WebhookProcessor(createTestContext(env)).processWebhookSync(crawl)
+
+			const listed = env.WEBHOOK_PROCESSING_QUEUE.sent[0].body as WebhookMessage
+			expect(listed.payload).toMatchObject({
+				resourceUrl: 'https://example.com/page',
+				coalescedEvents: 0,
+			})
+
+			env.WEBHOOK_COALESCE_SECONDS = '30'
+			const result = await new WebhookProcessor(createTestContext(env)).processWebhookSync(listed)
+
+			expect(result.metadata?.outcome).toBe('gone')
+			expect(
+				env.DOCUMENT_COORDINATOR.instances.has(
+					webhookCoalescingId('website', 'https://example.com/page')
+				)
+			).toBe(false)
+		} finally {
+			vi.unstubAllGlobals()
+		}
+	})
+	it('should delete a page under the canonical id its URL was last queued as', async () => {
+		vi.stubGlobal('fetch', async (input: RequestInfo | URL) =>
+			String(input) === 'https://example.com/page'
+				? new Response(
+						'<html><head><title>Page</title><link rel="canonical" href="/guide"></head><body><article><p>Keys are rotated every 90 days.</p></article></body></html>',
+						{ headers: { 'Content-Type': 'text/html' } }
+					)
+				: new Response('Not found', { status: 404 })
+		)
+
+		try {
+			env.WEBHOOK_COALESCE_SECONDS = '0'
+			const processor = new WebhookProcessor(createTestContext(env))
+
+			await processor.processWebhookSync(event('event-1', 'updated'))
+			await processor.processWebhookSync(event('event-2', 'deleted'))
+
+			const [queued, deleted] = env.DOCUMENT_INGESTION_QUEUE.sent.map(
+				(message) => message.body.payload
+			)
+			const canonicalId = await websiteDocumentId('https://example.com/guide')
+			expect(queued).toMatchObject({ type: 'document_ingestion', document: { id: canonicalId } })
+			expect(deleted).toMatchObject({ type: 'document_delete', documentId: canonicalId })
+		} finally {
+			vi.unstubAllGlobals()
+		}
+	})
+})
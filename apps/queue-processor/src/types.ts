@@ -1,4 +1,5 @@
 import type { Document } from 'rag-types'
+import type { ChunkingStrategy, DlpPolicy, MetadataChange } from '@repo/rag-core'
 
 // Queue Message Types
 export interface QueueMessage {
@@ -16,6 +17,8 @@ export interface QueueMessage {
 		scheduledTime?: number
 		correlationId: string
 		source: string
+		/** Id of the dead letter this message replays */
+		replayOf?: string
 	}
 }
 
@@ -30,21 +33,38 @@ export interface DocumentIngestionPayload {
 	type: 'document_ingestion'
 	document: Document
 	options?: {
+		strategy?: ChunkingStrategy
 		chunkSize?: number
 		overlap?: number
+		maxTokens?: number
+		minTokens?: number
+		similarityThreshold?: number
 		dlpEnabled?: boolean
+		dlpPolicy?: DlpPolicy
 		forceReprocess?: boolean
+		/** Process even when another document has the same text, without forcing a full re-embed */
+		skipDeduplication?: boolean
+		/** Re-embed only chunks whose content changed since the last ingest (default true) */
+		incrementalUpdate?: boolean
+		/** Chunks sent per embedding call */
+		embeddingBatchSize?: number
 	}
 }
 
 export interface WebhookSyncPayload {
 	type: 'webhook_sync'
-	sourceType: 'sharepoint' | 'confluence' | 'jira' | 'website'
+	/** A source registered in the rag-core source registry */
+	sourceType: string
 	eventType: 'created' | 'updated' | 'deleted' | 'moved'
 	resourceId: string
 	resourceUrl: string
 	changeToken?: string
 	metadata: Record<string, any>
+	/**
+	 * Events merged into this one by webhook coalescing, 0 for events a source
+	 * listing queued; either way it is not coalesced (again)
+	 */
+	coalescedEvents?: number
 }
 
 export interface BatchReprocessPayload {
@@ -54,9 +74,40 @@ export interface BatchReprocessPayload {
 	options?: {
 		forceFullReprocess?: boolean
 		preserveVersions?: boolean
+		/** model_update: the index migration the documents belong to */
+		migrationId?: string
+		/** schema_change: chunk metadata version to migrate to, the latest by default */
+		schemaVersion?: number
+		/** policy_change: ACL replacing the documents' current one */
+		newAcl?: string[]
+		/** policy_change: DLP policy to re-scan the stored chunk text with */
+		dlpPolicy?: DlpPolicy
+		/** schema_change and policy_change: report the diffs without writing anything */
+		dryRun?: boolean
 	}
 }
 
+/**
+ * What a schema or policy change did, or with dryRun would do, to one document
+ */
+export interface DocumentReprocessDiff {
+	documentId: string
+	reason: BatchReprocessPayload['reason']
+	dryRun: boolean
+	chunksScanned: number
+	chunksUpdated: number
+	/** Chunks whose text a DLP policy changed; these get new vectors */
+	chunksReembedded: number
+	/** Changed chunk metadata keys, with the number of chunks and one example change */
+	chunkChanges: Array<MetadataChange & { chunks: number }>
+	/** Changes to the manifest's document metadata */
+	documentChanges: MetadataChange[]
+	/** Values a DLP policy redacted or masked */
+	redactionCount?: number
+	/** Soft deleted because the reject-document DLP policy found something */
+	rejected?: boolean
+}
+
 export interface DocumentUpdatePayload {
 	type: 'document_update'
 	documentId: string
@@ -86,6 +137,7 @@ export interface ProcessingResult {
 		code: string
 		message: string
 		retryable: boolean
+		stackTrace?: string
 	}
 	metadata?: Record<string, any>
 }
@@ -116,7 +168,7 @@ export interface DocumentLock {
 
 export interface ProcessingState {
 	documentId: string
-	status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+	status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'deleted'
 	progress: {
 		currentStep: string
 		stepsCompleted: number
@@ -127,6 +179,8 @@ export interface ProcessingState {
 	lastUpdatedAt: number
 	completedAt?: number
 	error?: string
+	/** Set when the ingest service hands the document to DocumentProcessingWorkflow */
+	workflowInstanceId?: string
 	metadata?: Record<string, any>
 }
 
@@ -139,15 +193,105 @@ export interface DeduplicationResult {
 	reason?: string
 }
 
+// Embedding cache hits and misses of one model, across all workers
+export interface EmbeddingCacheModelStats {
+	model: string
+	hits: number
+	misses: number
+	hitRate: number
+	lastUpdatedAt: number
+}
+
+// Blue/green Vectorize indexes: VECTORIZE_INDEX is blue, VECTORIZE_INDEX_GREEN is green
+export type VectorIndexSlot = 'blue' | 'green'
+
+// Index that queries read and ingests write
+export interface ActiveVectorIndex {
+	slot: VectorIndexSlot
+	/** Embedding model of the vectors in the slot */
+	model: string
+	switchedAt?: number
+	/** Index served before the last switch, restored by a rollback */
+	previous?: { slot: VectorIndexSlot; model: string }
+}
+
+// Re-embedding of every document into the inactive index with a new model
+export interface IndexMigration {
+	id: string
+	fromSlot: VectorIndexSlot
+	toSlot: VectorIndexSlot
+	fromModel: string
+	toModel: string
+	status: 'running' | 'ready' | 'switched' | 'rolled_back' | 'cancelled'
+	totalDocuments: number
+	migratedDocuments: number
+	failedDocuments: number
+	startedAt: number
+	lastUpdatedAt: number
+	switchedAt?: number
+}
+
+export interface DocumentMigrationProgress {
+	documentId: string
+	status: 'pending' | 'migrated' | 'failed'
+	chunksMigrated: number
+	totalChunks: number
+	/** ingestedAt of the manifest the vectors were built from */
+	manifestIngestedAt?: string
+	error?: string
+	lastUpdatedAt: number
+}
+
+// Created and updated events of one resource, merged until the coalescing window ends
+export interface PendingWebhookEvent {
+	message: QueueMessage & { payload: WebhookSyncPayload }
+	eventCount: number
+	correlationIds: string[]
+	firstEventAt: number
+	deliverAt: number
+}
+
+export interface WebhookCoalesceResult {
+	// coalesced: held until deliverAt, process: handle the event now
+	action: 'coalesced' | 'process'
+	pendingEvents?: number
+	deliverAt?: number
+	// Pending events a deletion cancelled
+	cancelledEvents?: number
+}
+
+// Message held by the scheduler until it is due, for delays longer than a queue allows
+export interface ScheduledMessage {
+	message: QueueMessage
+	deliverAt: number
+	scheduledAt: number
+}
+
 // Dead Letter Queue Types
 export interface DeadLetterMessage {
+	/** Queue message id of the first delivery, also the R2 key */
+	id: string
+	/** Queue the message was consumed from */
+	queue: string
 	originalMessage: QueueMessage
 	failureCount: number
 	lastFailureAt: number
-	failures: Array<{
-		timestamp: number
-		error: string
-		stackTrace?: string
-	}>
+	failures: DeadLetterFailure[]
 	status: 'failed' | 'manual_retry_pending' | 'abandoned'
+	/** Payload sent by replays instead of the original one */
+	editedPayload?: QueueMessagePayload
+	/** Set by the last replay */
+	replayedAt?: number
+	replayCount?: number
+	abandonedAt?: number
+	abandonReason?: string
+}
+
+export interface DeadLetterFailure {
+	timestamp: number
+	error: string
+	stackTrace?: string
+	/** Delivery attempt that failed, starting at 1 */
+	attempt?: number
+	code?: string
 }
@@ -0,0 +1,178 @@
+/**
+ * Version of the custom metadata stored on R2 chunk objects. Objects without a
+ * `schema_version` entry were written before versioning and count as version 1.
+ */
+export const CHUNK_METADATA_VERSION = 2
+
+export const SCHEMA_VERSION_KEY = 'schema_version'
+
+/**
+ * Chunk metadata as R2 stores it, every value a string
+ */
+export type StoredChunkMetadata = Record<string, string>
+
+/**
+ * Upgrades stored chunk metadata from `version - 1` to `version`
+ */
+export interface ChunkMetadataMigration {
+	version: number
+	description: string
+	migrate(metadata: StoredChunkMetadata): StoredChunkMetadata
+}
+
+export interface MetadataChange {
+	key: string
+	/** Unset when the key was added */
+	before?: string
+	/** Unset when the key was removed */
+	after?: string
+}
+
+export interface ChunkMetadataMigrationResult {
+	metadata: StoredChunkMetadata
+	fromVersion: number
+	toVersion: number
+	/** Versions of the migrations that ran, in order */
+	applied: number[]
+	changes: MetadataChange[]
+}
+
+// Keys holding lists of values
+const LIST_KEYS = ['acl', 'pii_types']
+
+export const CHUNK_METADATA_MIGRATIONS: ChunkMetadataMigration[] = [
+	{
+		version: 2,
+		description: 'Store acl and pii_types as comma-separated values instead of JSON arrays',
+		migrate(metadata) {
+			const migrated = { ...metadata }
+			for (const key of LIST_KEYS) {
+				if (key in migrated) {
+					migrated[key] = parseMetadataList(migrated[key]).join(',')
+				}
+			}
+			return migrated
+		},
+	},
+]
+
+/**
+ * Read a list value written by any metadata version: an array, a JSON array
+ * string or a comma-separated string
+ */
+export function parseMetadataList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map(String).filter(Boolean)
+	}
+	if (typeof value !== 'string' || value.trim() === '') {
+		return []
+	}
+
+	const trimmed = value.trim()
+	if (trimmed.startsWith('[')) {
+		try {
+			const parsed = JSON.parse(trimmed)
+			if (Array.isArray(parsed)) {
+				return parsed.map(String).filter(Boolean)
+			}
+		} catch {
+			// Not JSON after all, split it below
+		}
+	}
+
+	return trimmed
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean)
+}
+
+export function chunkMetadataVersion(metadata: StoredChunkMetadata): number {
+	const version = Number(metadata[SCHEMA_VERSION_KEY])
+	return Number.isInteger(version) && version > 0 ? version : 1
+}
+
+/**
+ * Run the migrations between the metadata's version and `toVersion`. Metadata
+ * at or above the target version is returned unchanged.
+ */
+export function migrateChunkMetadata(
+	metadata: StoredChunkMetadata,
+	toVersion: number = CHUNK_METADATA_VERSION
+): ChunkMetadataMigrationResult {
+	if (toVersion > CHUNK_METADATA_VERSION) {
+		throw new Error(`Unknown chunk metadata version: ${toVersion}`)
+	}
+
+	const fromVersion = chunkMetadataVersion(metadata)
+	let migrated = metadata
+	const applied: number[] = []
+
+	for (const migration of CHUNK_METADATA_MIGRATIONS) {
+		if (migration.version > fromVersion && migration.version <= toVersion) {
+			migrated = { ...migration.migrate(migrated), [SCHEMA_VERSION_KEY]: String(migration.version) }
+			applied.push(migration.version)
+		}
+	}
+
+	return {
+		metadata: migrated,
+		fromVersion,
+		toVersion: Math.max(fromVersion, toVersion),
+		applied,
+		changes: diffMetadata(metadata, migrated),
+	}
+}
+
+/**
+ * Serialize chunk metadata for R2 at the current version: lists comma-separated,
+ * numbers and booleans as strings, unset values dropped
+ */
+export function toStoredChunkMetadata(metadata: object): StoredChunkMetadata {
+	const stored: StoredChunkMetadata = {}
+	for (const [key, value] of Object.entries(metadata)) {
+		if (value === undefined || value === null) {
+			continue
+		}
+		if (Array.isArray(value)) {
+			stored[key] = value.join(',')
+		} else if (typeof value === 'object') {
+			stored[key] = JSON.stringify(value)
+		} else {
+			stored[key] = String(value)
+		}
+	}
+	stored[SCHEMA_VERSION_KEY] = String(CHUNK_METADATA_VERSION)
+
+	return stored
+}
+
+/**
+ * Metadata stored with a chunk's vector. Accepts chunk metadata as built at
+ * ingest or as read back from R2; the ACL is a comma-separated string so
+ * queries can filter on it.
+ */
+export function toVectorMetadata(chunkMetadata: object): Record<string, string> {
+	const metadata = chunkMetadata as Record<string, unknown>
+	return {
+		source: String(metadata.source || 'unknown'),
+		url: String(metadata.url || ''),
+		acl: metadata.acl === undefined ? 'public' : parseMetadataList(metadata.acl).join(','),
+		chunkIndex: String(metadata.chunk_index || 0),
+		section: String(metadata.section || ''),
+		piiTypes: parseMetadataList(metadata.pii_types).join(','),
+	}
+}
+
+/**
+ * Key-level changes between two metadata records, in key order
+ */
+export function diffMetadata(
+	before: Record<string, string>,
+	after: Record<string, string>
+): MetadataChange[] {
+	const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+
+	return keys
+		.filter((key) => before[key] !== after[key])
+		.map((key) => ({ key, before: before[key], after: after[key] }))
+}
@@ -0,0 +1,129 @@
+import { defaultTokenizer, getModelTokenBudget } from './tokenizer'
+
+import type { Tokenizer } from './tokenizer'
+
+export type ChunkingStrategy = 'fixed' | 'token' | 'structure' | 'semantic'
+
+export interface ChunkingOptions {
+	/** `fixed` counts words, the other strategies count model tokens */
+	strategy?: ChunkingStrategy
+	chunkSize?: number
+	/** Words (fixed) or tokens (token) shared between consecutive chunks */
+	overlap?: number
+	/** Token budget per chunk, capped at the embedding model's limit */
+	maxTokens?: number
+	/** Smallest chunk (in tokens) the semantic strategy splits off */
+	minTokens?: number
+	/** Adjacent-sentence similarity below which the semantic strategy starts a new chunk */
+	similarityThreshold?: number
+	/** Embedding model whose token limit applies */
+	model?: string
+	tokenizer?: Tokenizer
+}
+
+export interface DocumentChunk {
+	text: string
+	/** Ancestor headings of the chunk, outermost first */
+	headings: string[]
+}
+
+/**
+ * Split plain text into chunks by words or tokens. Structure-aware and
+ * semantic chunking go through chunkDocument.
+ */
+export function chunkText(text: string, options?: ChunkingOptions | number): string[] {
+	// Handle backward compatibility - if number is passed, treat as maxTokens
+	if (typeof options === 'number') {
+		return chunkByWords(text, options, 0)
+	}
+
+	if (options?.strategy === 'token') {
+		return chunkByTokens(text, options)
+	}
+
+	return chunkByWords(text, options?.chunkSize || 500, options?.overlap || 0)
+}
+
+/**
+ * Fixed window chunking over whitespace-separated words
+ */
+function chunkByWords(text: string, chunkSize: number, overlap: number): string[] {
+	const words = text.split(/\s+/)
+	const chunks: string[] = []
+
+	if (words.length === 0) {
+		return chunks
+	}
+
+	// Ensure overlap is not larger than chunk size
+	const actualOverlap = Math.min(overlap, Math.floor(chunkSize / 2))
+
+	for (let i = 0; i < words.length; i += chunkSize - actualOverlap) {
+		const end = Math.min(i + chunkSize, words.length)
+		const chunk = words.slice(i, end).join(' ')
+
+		if (chunk.trim().length > 0) {
+			chunks.push(chunk.trim())
+		}
+
+		// If we've reached the end, break
+		if (end >= words.length) {
+			break
+		}
+	}
+
+	return chunks
+}
+
+/**
+ * Token budget chunking. Chunks end on word boundaries where possible and
+ * consecutive chunks share at most `overlap` tokens.
+ */
+export function chunkByTokens(text: string, options: ChunkingOptions = {}): string[] {
+	const budget = getModelTokenBudget(options.model)
+	const maxTokens = Math.min(options.maxTokens || budget, budget)
+	const overlap = Math.min(options.overlap || 0, Math.floor(maxTokens / 2))
+	const tokens = (options.tokenizer || defaultTokenizer).tokenize(text)
+	const chunks: string[] = []
+
+	let start = 0
+	while (start < tokens.length) {
+		let end = Math.min(start + maxTokens, tokens.length)
+
+		// Back off to the start of the word that would be cut in half
+		if (end < tokens.length && !tokens[end].wordStart) {
+			let boundary = end
+			while (boundary > start && !tokens[boundary].wordStart) {
+				boundary--
+			}
+			if (boundary > start) {
+				end = boundary
+			}
+		}
+
+		const chunk = text.slice(tokens[start].start, tokens[end - 1].end).trim()
+		if (chunk.length > 0) {
+			chunks.push(chunk)
+		}
+
+		if (end >= tokens.length) {
+			break
+		}
+
+		// Step back for overlap, then forward to a word start so we never exceed it
+		let next = Math.max(end - overlap, start + 1)
+		while (next < end && !tokens[next].wordStart) {
+			next++
+		}
+		start = next
+	}
+
+	return chunks
+}
+
+/**
+ * Clean and preprocess text content
+ */
+export function cleanText(text: string): string {
+	return text.replace(/\s+/g, ' ').trim()
+}
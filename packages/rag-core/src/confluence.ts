@@ -0,0 +1,471 @@
+import { htmlToMarkdown } from './markup'
+import { verifyHubSignature } from './source-connector'
+
+import type { Document } from '@repo/rag-types'
+import type { DocumentManifest } from './manifest'
+import type { SourceConnector, SourceEnv, SourceEvent } from './source-connector'
+
+export interface ConfluenceConnectorConfig {
+	/** Site root the REST API lives under, e.g. https://example.atlassian.net/wiki */
+	baseUrl: string
+	/** Atlassian account of a Cloud API token; without it the token is sent as a personal access token */
+	email?: string
+	apiToken: string
+	fetch?: typeof fetch
+}
+
+export interface ConfluenceConnector {
+	/** The page as a Document, or null when it is gone, archived or has no text */
+	fetchDocument(pageId: string): Promise<Document | null>
+	/** The current version of the page, or null when it is gone or archived */
+	fetchPage(pageId: string): Promise<ConfluencePage | null>
+	/** Entries allowed by the page's restrictions, its restricted ancestors and its space */
+	pageAcl(page: ConfluencePage): Promise<string[]>
+	/** The page as a Document, or null when it has no text */
+	toDocument(page: ConfluencePage, acl: string[]): Document | null
+}
+
+// The Confluence resources and fields the connector reads
+export interface ConfluenceUser {
+	accountId?: string
+	username?: string
+	email?: string
+	displayName?: string
+}
+
+export interface ConfluenceGroup {
+	id?: string
+	name: string
+}
+
+export interface ConfluenceRestrictions {
+	user?: { results: ConfluenceUser[] }
+	group?: { results: ConfluenceGroup[] }
+}
+
+export interface ConfluenceSpacePermission {
+	operation?: { operation?: string; targetType?: string }
+	anonymousAccess?: boolean
+	subjects?: ConfluenceRestrictions
+}
+
+export interface ConfluencePage {
+	id: string
+	type?: string
+	status?: string
+	title: string
+	space?: { key: string; name?: string }
+	version?: { number: number; when?: string; by?: ConfluenceUser }
+	history?: { createdBy?: ConfluenceUser; createdDate?: string }
+	ancestors?: Array<{ id: string; title: string }>
+	body?: { storage?: { value: string } }
+	metadata?: { labels?: { results: Array<{ name: string; prefix?: string }> } }
+	restrictions?: { read?: { restrictions?: ConfluenceRestrictions } }
+	_links?: { base?: string; webui?: string }
+}
+
+const PAGE_EXPAND = [
+	'body.storage',
+	'version',
+	'history',
+	'space',
+	'ancestors',
+	'metadata.labels',
+	'restrictions.read.restrictions.user',
+	'restrictions.read.restrictions.group',
+].join(',')
+
+// Page metadata that changes without a new page version, and still needs a re-ingest
+const CONFLUENCE_UNVERSIONED_FIELDS = ['acl', 'labels', 'ancestors', 'spaceKey']
+
+// Panel macros, rendered as a bold label over their body
+const PANEL_LABELS: Record<string, string> = {
+	info: 'Info',
+	note: 'Note',
+	tip: 'Tip',
+	warning: 'Warning',
+	panel: '',
+	expand: '',
+}
+
+/**
+ * Document id of a page. Page ids are unique within a site.
+ */
+export const confluenceDocumentId = (pageId: string) => `confluence-${pageId}`
+
+/**
+ * Page id of a webhook resource: `pageId` in the event metadata, a bare id, or
+ * a page URL (`/pages/{id}/...` or `?pageId={id}`)
+ */
+export function parseConfluenceResource(
+	resourceId: string,
+	metadata: Record<string, any> = {}
+): string | undefined {
+	if (metadata.pageId) {
+		return String(metadata.pageId)
+	}
+	return (
+		resourceId.match(/^\d+$/)?.[0] ??
+		resourceId.match(/\/pages\/(\d+)/)?.[1] ??
+		resourceId.match(/[?&]pageId=(\d+)/)?.[1]
+	)
+}
+
+/**
+ * ACL entries of read restrictions: `user:{email}` (the account id where the
+ * email is hidden) and `group:{name}`
+ */
+export function confluenceAcl(restrictions: ConfluenceRestrictions | undefined): string[] {
+	const acl = new Set<string>()
+
+	for (const user of restrictions?.user?.results ?? []) {
+		const userName = user.email ?? user.accountId ?? user.username
+		if (userName) {
+			acl.add(`user:${userName.toLowerCase()}`)
+		}
+	}
+	for (const group of restrictions?.group?.results ?? []) {
+		acl.add(`group:${group.name}`)
+	}
+
+	return [...acl].sort()
+}
+
+/**
+ * ACL entries of the space permissions that let someone read the space:
+ * `public` for anonymous access, users and groups otherwise
+ */
+export function confluenceSpaceAcl(permissions: ConfluenceSpacePermission[]): string[] {
+	const acl = new Set<string>()
+
+	for (const permission of permissions) {
+		if (permission.operation?.operation !== 'read' || permission.operation.targetType !== 'space') {
+			continue
+		}
+		if (permission.anonymousAccess) {
+			acl.add('public')
+		}
+		for (const entry of confluenceAcl(permission.subjects)) {
+			acl.add(entry)
+		}
+	}
+
+	return [...acl].sort()
+}
+
+/**
+ * Convert a page body in Confluence storage format into Markdown. Code and
+ * noformat macros become fenced code, panels keep their label and body, links,
+ * mentions and task lists keep their text; macros without a body are dropped.
+ */
+export function confluenceStorageToMarkdown(storage: string): string {
+	// Macros without a body (toc, children, anchors) have nothing to convert
+	let html = storage.replace(/<ac:structured-macro\b[^>]*\/>/g, '')
+
+	// Innermost macros first, so panels and expands see their nested macros already converted
+	const innermostMacro =
+		/<ac:structured-macro\b([^>]*)>((?:(?!<ac:structured-macro\b)[\s\S])*?)<\/ac:structured-macro>/g
+	let previous: string
+	do {
+		previous = html
+		html = html.replace(innermostMacro, (_, attributes: string, inner: string) =>
+			renderMacro(attributeOf(attributes, 'ac:name') ?? '', inner)
+		)
+	} while (html !== previous)
+
+	html = html
+		.replace(/<ac:link\b[^>]*>([\s\S]*?)<\/ac:link>/g, (_, inner: string) => renderLink(inner))
+		.replace(/<ac:link\b[^>]*\/>/g, '')
+		// Images keep their alt text; attribute values are escaped already
+		.replace(
+			/<ac:image\b([^>]*)\/>/g,
+			(_, attributes: string) => attributeOf(attributes, 'ac:alt') ?? ''
+		)
+		.replace(
+			/<ac:image\b([^>]*)>[\s\S]*?<\/ac:image>/g,
+			(_, attributes: string) => attributeOf(attributes, 'ac:alt') ?? ''
+		)
+		.replace(/<ac:emoticon\b[^>]*\/>/g, '')
+		.replace(/<ac:task-list\b[^>]*>/g, '<ul>')
+		.replace(/<\/ac:task-list>/g, '</ul>')
+		.replace(/<ac:task\b[^>]*>([\s\S]*?)<\/ac:task>/g, (_, inner: string) => {
+			const done = /<ac:task-status>\s*complete\s*<\/ac:task-status>/.test(inner)
+			const body = /<ac:task-body>([\s\S]*?)<\/ac:task-body>/.exec(inner)?.[1] ?? ''
+			return `<li>[${done ? 'x' : ' '}] ${body}</li>`
+		})
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeHtml(text))
+
+	return htmlToMarkdown(html)
+}
+
+/**
+ * Confluence pages through the REST API, with basic authentication by an
+ * account's email and API token (Cloud) or a personal access token (Data Center)
+ */
+export function createConfluenceConnector(config: ConfluenceConnectorConfig): ConfluenceConnector {
+	const apiUrl = `${config.baseUrl.replace(/\/$/, '')}/rest/api`
+	const fetcher = config.fetch ?? fetch
+	const authorization = config.email
+		? `Basic ${btoa(`${config.email}:${config.apiToken}`)}`
+		: `Bearer ${config.apiToken}`
+
+	// Read ACL of each space, shared by all of its unrestricted pages
+	const spaceAcls = new Map<string, Promise<string[]>>()
+
+	async function api<T>(path: string): Promise<T | null> {
+		const response = await fetcher(`${apiUrl}${path}`, {
+			headers: { Authorization: authorization, Accept: 'application/json' },
+		})
+		if (response.status === 404) {
+			return null
+		}
+		if (!response.ok) {
+			// The status stays in the message so 429 and 503 are retried
+			throw new Error(`Confluence request failed: ${response.status}`)
+		}
+		return response.json<T>()
+	}
+
+	function spaceAcl(spaceKey: string): Promise<string[]> {
+		let acl = spaceAcls.get(spaceKey)
+		if (!acl) {
+			acl = api<{ permissions?: ConfluenceSpacePermission[] }>(
+				`/space/${encodeURIComponent(spaceKey)}?expand=permissions`
+			).then((space) => {
+				const entries = confluenceSpaceAcl(space?.permissions ?? [])
+				// Permissions the token cannot read leave the page to members of its space
+				return entries.length > 0 ? entries : [`space:${spaceKey}`]
+			})
+			spaceAcls.set(spaceKey, acl)
+		}
+		return acl
+	}
+
+	/**
+	 * Entries allowed by every layer that limits who can read the page: its own
+	 * read restrictions, those of each restricted ancestor (they are inherited)
+	 * and the space's read permissions. Group membership is not resolved, so only
+	 * entries all layers name survive. When none do, or the page has no space,
+	 * it is only granted to `page:{id}`: denied until someone is given that entry.
+	 */
+	async function pageAcl(page: ConfluencePage): Promise<string[]> {
+		const layers = [confluenceAcl(page.restrictions?.read?.restrictions)]
+
+		for (const ancestor of page.ancestors ?? []) {
+			const inherited = await api<{ restrictions?: ConfluenceRestrictions }>(
+				`/content/${ancestor.id}/restriction/byOperation/read`
+			)
+			layers.push(confluenceAcl(inherited?.restrictions))
+		}
+		if (page.space) {
+			layers.push(await spaceAcl(page.space.key))
+		}
+
+		// Layers without restrictions, or open to anonymous users, limit nothing
+		const limiting = layers.filter((acl) => acl.length > 0 && !acl.includes('public'))
+		if (limiting.length === 0) {
+			return page.space ? ['public'] : [`page:${page.id}`]
+		}
+
+		const acl = limiting.reduce((allowed, next) => allowed.filter((entry) => next.includes(entry)))
+		return acl.length > 0 ? acl : [`page:${page.id}`]
+	}
+
+	async function fetchPage(pageId: string): Promise<ConfluencePage | null> {
+		const page = await api<ConfluencePage>(
+			`/content/${encodeURIComponent(pageId)}?expand=${PAGE_EXPAND}`
+		)
+		return page && (!page.status || page.status === 'current') ? page : null
+	}
+
+	function toDocument(page: ConfluencePage, acl: string[]): Document | null {
+		const text = confluenceStorageToMarkdown(page.body?.storage?.value ?? '')
+		if (!text.trim()) {
+			return null
+		}
+
+		const links = page._links
+		return {
+			id: confluenceDocumentId(page.id),
+			text,
+			source: 'confluence',
+			url: links?.webui ? `${links.base ?? config.baseUrl}${links.webui}` : undefined,
+			metadata: {
+				title: page.title,
+				acl,
+				pageId: page.id,
+				spaceKey: page.space?.key,
+				spaceName: page.space?.name,
+				// Breadcrumb from the space home page down to the parent
+				ancestors: page.ancestors?.map((ancestor) => ancestor.title) ?? [],
+				parentId: page.ancestors?.at(-1)?.id,
+				version: page.version?.number,
+				labels: page.metadata?.labels?.results.map((label) => label.name) ?? [],
+				author: page.history?.createdBy?.displayName,
+				lastModifiedBy: page.version?.by?.displayName,
+				lastModified: page.version?.when,
+			},
+		}
+	}
+
+	return {
+		async fetchDocument(pageId) {
+			const page = await fetchPage(pageId)
+			return page ? toDocument(page, await pageAcl(page)) : null
+		},
+
+		fetchPage,
+		pageAcl,
+		toDocument,
+	}
+}
+
+/**
+ * Confluence as a webhook source. Events carrying a page version older than
+ * the ingested one are dropped before fetching, and pages whose version,
+ * permissions, labels and place in the page tree are unchanged are not queued
+ * again. Requests must be signed with CONFLUENCE_WEBHOOK_SECRET when it is set.
+ */
+export function confluenceSource(env: SourceEnv): SourceConnector<ConfluencePage> {
+	let connector: ConfluenceConnector | undefined
+
+	function confluence(): ConfluenceConnector {
+		const { CONFLUENCE_BASE_URL, CONFLUENCE_EMAIL, CONFLUENCE_API_TOKEN } = env
+		if (!CONFLUENCE_BASE_URL || !CONFLUENCE_API_TOKEN) {
+			throw new Error(
+				'Confluence is not configured: set CONFLUENCE_BASE_URL and CONFLUENCE_API_TOKEN'
+			)
+		}
+
+		// One per source, so a batch of events shares the space permissions it read
+		connector ??= createConfluenceConnector({
+			baseUrl: CONFLUENCE_BASE_URL,
+			email: CONFLUENCE_EMAIL,
+			apiToken: CONFLUENCE_API_TOKEN,
+		})
+		return connector
+	}
+
+	function pageIdOf(event: SourceEvent): string {
+		const pageId = parseConfluenceResource(event.resourceId, event.metadata)
+		if (!pageId) {
+			throw new Error(`No Confluence page in resource ${event.resourceId}`)
+		}
+		return pageId
+	}
+
+	return {
+		sourceType: 'confluence',
+
+		verifyWebhook(request, body) {
+			return verifyHubSignature(request, body, env.CONFLUENCE_WEBHOOK_SECRET)
+		},
+
+		async listChanges() {
+			return null
+		},
+
+		async documentId(event) {
+			return confluenceDocumentId(pageIdOf(event))
+		},
+
+		async fetchResource(event, state) {
+			const pageId = pageIdOf(event)
+			const manifest = await state.manifest(confluenceDocumentId(pageId))
+
+			// Confluence webhooks carry the page version, so late events are dropped before fetching
+			const eventVersion = Number(event.metadata.version?.number ?? event.metadata.version)
+			if (eventVersion < manifest?.metadata.version) {
+				return {
+					status: 'skipped',
+					reason: `version ${eventVersion} is older than the ingested one`,
+				}
+			}
+
+			const page = await confluence().fetchPage(pageId)
+			return page
+				? { status: 'fetched', resource: page }
+				: { status: 'skipped', reason: 'not found' }
+		},
+
+		resolveAcl(page) {
+			return confluence().pageAcl(page)
+		},
+
+		toDocument(page, acl) {
+			return confluence().toDocument(page, acl)
+		},
+
+		isIngested: isIngestedConfluencePage,
+	}
+}
+
+/**
+ * Whether the manifest was ingested from this version of the page, with the
+ * permissions, labels and place in the page tree it has now
+ */
+function isIngestedConfluencePage(document: Document, manifest: DocumentManifest): boolean {
+	if (manifest.metadata.version !== document.metadata?.version) {
+		return false
+	}
+	return CONFLUENCE_UNVERSIONED_FIELDS.every(
+		(field) =>
+			JSON.stringify(manifest.metadata[field]) === JSON.stringify(document.metadata?.[field])
+	)
+}
+
+function renderMacro(name: string, inner: string): string {
+	const parameter = (key: string) =>
+		new RegExp(`<ac:parameter ac:name="${key}"[^>]*>([\\s\\S]*?)</ac:parameter>`).exec(inner)?.[1]
+	const richBody = /<ac:rich-text-body>([\s\S]*?)<\/ac:rich-text-body>/.exec(inner)?.[1]
+	const plainBody =
+		/<ac:plain-text-body>\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*<\/ac:plain-text-body>/.exec(inner)?.[1]
+
+	if (name === 'code' || name === 'noformat') {
+		const language = name === 'code' ? (parameter('language') ?? '') : ''
+		const code = escapeHtml(plainBody ?? '')
+		return `<pre><code class="language-${language}">${code}</code></pre>`
+	}
+	if (name === 'status') {
+		return `[${parameter('title') ?? ''}]`
+	}
+	if (name === 'jira') {
+		return parameter('key') ?? ''
+	}
+	if (Object.hasOwn(PANEL_LABELS, name)) {
+		const label = parameter('title') ?? PANEL_LABELS[name]
+		return `<div>${label ? `<p>**${label}**</p>` : ''}${richBody ?? ''}</div>`
+	}
+
+	// Layout and container macros keep their body; toc, children and the like have none
+	return richBody ?? ''
+}
+
+function renderLink(inner: string): string {
+	const plainBody = /<ac:plain-text-link-body>\s*<!\[CDATA\[([\s\S]*?)\]\]>/.exec(inner)?.[1]
+	if (plainBody) {
+		return escapeHtml(plainBody)
+	}
+	const richBody = /<ac:link-body>([\s\S]*?)<\/ac:link-body>/.exec(inner)?.[1]
+	if (richBody) {
+		return richBody
+	}
+
+	// Without a body the link shows what it points at; attribute values are escaped already
+	const resource = /<ri:(\w[\w-]*)\b([^>]*?)\/?>/.exec(inner)
+	const attributes = resource?.[2] ?? ''
+	return (
+		attributeOf(attributes, 'ri:content-title') ??
+		attributeOf(attributes, 'ri:filename') ??
+		attributeOf(attributes, 'ri:space-key') ??
+		(resource?.[1] === 'user' ? '@user' : '')
+	)
+}
+
+function attributeOf(attributes: string, name: string): string | undefined {
+	return new RegExp(`${name}="([^"]*)"`).exec(attributes)?.[1]
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
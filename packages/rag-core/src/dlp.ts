@@ -0,0 +1,376 @@
+import { hmacSha256Hex } from './hash'
+
+/**
+ * What to do with chunks that contain PII or secrets:
+ * - redact: replace each value with a typed placeholder such as [EMAIL]
+ * - mask: hide all but the last 4 characters (emails keep their domain)
+ * - reject-document: refuse the whole document if anything is found
+ * - tag-only: leave text unchanged and only report what was found
+ */
+export type DlpPolicy = 'redact' | 'mask' | 'reject-document' | 'tag-only'
+
+export const DEFAULT_DLP_POLICY: DlpPolicy = 'redact'
+
+export interface PiiFinding {
+	/** Entity type, e.g. email or credit_card */
+	type: string
+	start: number
+	end: number
+	value: string
+}
+
+/**
+ * Finds one entity type in text. Detectors earlier in the list win when
+ * matches overlap at the same position.
+ */
+export interface PiiDetector {
+	type: string
+	detect(text: string): Array<{ start: number; end: number }>
+}
+
+export interface DlpChunkResult {
+	text: string
+	redactionCount: number
+	/** Entity types found, whether or not the policy redacted them */
+	entityTypes: string[]
+	findings: PiiFinding[]
+}
+
+export interface DlpScanResult {
+	chunks: DlpChunkResult[]
+	redactionCount: number
+	entityTypes: string[]
+	/** Set under the reject-document policy when anything was found */
+	rejected: boolean
+}
+
+/**
+ * What one finding left in the scanned text: its placeholder or mask, or
+ * under tag-only the value itself
+ */
+export interface DlpMarker {
+	type: string
+	text: string
+	redacted: boolean
+}
+
+/**
+ * Scan of a whole document, taken before it is chunked
+ */
+export interface DlpDocumentScan extends DlpScanResult {
+	/** Document text after the policy was applied */
+	text: string
+	markers: DlpMarker[]
+}
+
+/**
+ * Audit record of one DLP hit. The original value is only kept as a salted hash.
+ */
+export interface RedactionRecord {
+	entityType: string
+	/** Index of the scanned text, 0 when the whole document was scanned */
+	chunkIndex: number
+	/** Offsets in the scanned text before redaction */
+	start: number
+	end: number
+	valueHash: string
+}
+
+export interface RedactionReport {
+	documentId: string
+	policy: DlpPolicy
+	rejected: boolean
+	redactionCount: number
+	createdAt: string
+	records: RedactionRecord[]
+}
+
+/**
+ * Build a detector from a global regex, with an optional check on each match
+ * (e.g. a checksum). When the regex has a capture group only the group is reported.
+ */
+export function patternDetector(
+	type: string,
+	pattern: RegExp,
+	validate?: (value: string) => boolean
+): PiiDetector {
+	return {
+		type,
+		detect(text) {
+			const matches: Array<{ start: number; end: number }> = []
+			for (const match of text.matchAll(pattern)) {
+				const value = match[1] ?? match[0]
+				const start = match.index + match[0].lastIndexOf(value)
+				if (!validate || validate(value)) {
+					matches.push({ start, end: start + value.length })
+				}
+			}
+			return matches
+		},
+	}
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function isValidLuhn(value: string): boolean {
+	const digits = value.replace(/\D/g, '')
+	if (digits.length < 13 || digits.length > 19) {
+		return false
+	}
+
+	let sum = 0
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i])
+		if (i % 2 === 1) {
+			digit *= 2
+			if (digit > 9) {
+				digit -= 9
+			}
+		}
+		sum += digit
+	}
+	return sum % 10 === 0
+}
+
+/**
+ * ISO 13616 mod-97 check
+ */
+export function isValidIban(value: string): boolean {
+	const iban = value.replace(/\s/g, '')
+	if (iban.length < 15 || iban.length > 34) {
+		return false
+	}
+
+	let remainder = 0
+	for (const char of iban.slice(4) + iban.slice(0, 4)) {
+		const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55)
+		for (const digit of code) {
+			remainder = (remainder * 10 + Number(digit)) % 97
+		}
+	}
+	return remainder === 1
+}
+
+const countDigits = (value: string) => value.replace(/\D/g, '').length
+
+/**
+ * Tell dialable numbers apart from dates, IP addresses and version strings
+ * that share their digit groups
+ */
+function isPhoneNumber(value: string): boolean {
+	const digits = countDigits(value)
+	if (digits < 9 || digits > 15 || /\d{4}-\d{2}-\d{2}/.test(value)) {
+		return false
+	}
+	if (value.startsWith('+') || value.includes('(')) {
+		return true
+	}
+
+	// Local numbers use one separator throughout, and dots only in up to three groups
+	const separators = new Set(value.match(/[ .-]/g))
+	return separators.size <= 1 && (!separators.has('.') || value.split('.').length <= 3)
+}
+
+export const DEFAULT_PII_DETECTORS: PiiDetector[] = [
+	patternDetector(
+		'api_key',
+		/\b(?:sk-(?:proj-)?[A-Za-z0-9_-]{20,}|sk_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g
+	),
+	// Secrets assigned to a key-like name, e.g. `api_key = "..."`
+	patternDetector(
+		'api_key',
+		/\b(?:api[_-]?key|secret|access[_-]?token|auth[_-]?token|password)["']?\s*[:=]\s*["']?([A-Za-z0-9_\-./+=]{12,})/gi
+	),
+	patternDetector('credit_card', /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g, isValidLuhn),
+	patternDetector('iban', /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, isValidIban),
+	// US social security and UK national insurance numbers
+	patternDetector('national_id', /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g),
+	patternDetector(
+		'national_id',
+		/\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g
+	),
+	patternDetector('email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g),
+	// Not the tail of a longer dotted, dashed or colon-separated number
+	patternDetector(
+		'phone',
+		/(?<![\w+]|\d[.:/-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}(?!\w|[.:/-]\d)|\+\d{8,15}\b/g,
+		isPhoneNumber
+	),
+]
+
+/**
+ * Find PII and secrets in text, returning non-overlapping findings in order
+ */
+export function detectPii(
+	text: string,
+	detectors: PiiDetector[] = DEFAULT_PII_DETECTORS
+): PiiFinding[] {
+	const candidates = detectors.flatMap((detector, priority) =>
+		detector.detect(text).map((match) => ({ ...match, type: detector.type, priority }))
+	)
+
+	// Earliest first, then longest, then by detector order
+	candidates.sort((a, b) => a.start - b.start || b.end - a.end || a.priority - b.priority)
+
+	const findings: PiiFinding[] = []
+	let lastEnd = -1
+	for (const { type, start, end } of candidates) {
+		if (start >= lastEnd) {
+			findings.push({ type, start, end, value: text.slice(start, end) })
+			lastEnd = end
+		}
+	}
+	return findings
+}
+
+/**
+ * Apply a DLP policy to one chunk
+ */
+export function applyDlpPolicy(
+	text: string,
+	policy: DlpPolicy = DEFAULT_DLP_POLICY,
+	detectors?: PiiDetector[]
+): DlpChunkResult {
+	const findings = detectPii(text, detectors)
+	const entityTypes = [...new Set(findings.map((finding) => finding.type))]
+
+	if (policy !== 'redact' && policy !== 'mask') {
+		return { text, redactionCount: 0, entityTypes, findings }
+	}
+
+	let redacted = ''
+	let cursor = 0
+	for (const finding of findings) {
+		redacted += text.slice(cursor, finding.start)
+		redacted += replacementFor(finding, policy)
+		cursor = finding.end
+	}
+	redacted += text.slice(cursor)
+
+	return { text: redacted, redactionCount: findings.length, entityTypes, findings }
+}
+
+/**
+ * Apply a DLP policy to every chunk of a document
+ */
+export function scanChunks(
+	chunks: string[],
+	policy: DlpPolicy = DEFAULT_DLP_POLICY,
+	detectors?: PiiDetector[]
+): DlpScanResult {
+	const results = chunks.map((chunk) => applyDlpPolicy(chunk, policy, detectors))
+	const entityTypes = [...new Set(results.flatMap((result) => result.entityTypes))]
+
+	return {
+		chunks: results,
+		redactionCount: results.reduce((total, result) => total + result.redactionCount, 0),
+		entityTypes,
+		rejected: policy === 'reject-document' && entityTypes.length > 0,
+	}
+}
+
+/**
+ * Apply a DLP policy to a whole document before it is chunked, so values that
+ * would straddle a chunk boundary are still found
+ */
+export function scanDocument(
+	text: string,
+	policy: DlpPolicy = DEFAULT_DLP_POLICY,
+	detectors?: PiiDetector[]
+): DlpDocumentScan {
+	const scan = scanChunks([text], policy, detectors)
+	const redacted = policy === 'redact' || policy === 'mask'
+
+	const markers = new Map<string, DlpMarker>()
+	for (const finding of scan.chunks[0].findings) {
+		const marker = redacted ? replacementFor(finding, policy) : finding.value
+		if (!markers.has(marker)) {
+			markers.set(marker, { type: finding.type, text: marker, redacted })
+		}
+	}
+
+	return { ...scan, text: scan.chunks[0].text, markers: [...markers.values()] }
+}
+
+/**
+ * Redaction count and entity types of one chunk of a document scanned as a
+ * whole, by the markers the scan left in its text
+ */
+export function tagChunk(
+	chunk: string,
+	markers: DlpMarker[]
+): { redactionCount: number; entityTypes: string[] } {
+	let redactionCount = 0
+	const entityTypes = new Set<string>()
+	for (const marker of markers) {
+		const occurrences = chunk.split(marker.text).length - 1
+		if (occurrences > 0) {
+			entityTypes.add(marker.type)
+			redactionCount += marker.redacted ? occurrences : 0
+		}
+	}
+	return { redactionCount, entityTypes: [...entityTypes] }
+}
+
+function replacementFor(finding: PiiFinding, policy: DlpPolicy): string {
+	return policy === 'redact'
+		? `[${finding.type.toUpperCase()}]`
+		: maskValue(finding.type, finding.value)
+}
+
+function maskValue(type: string, value: string): string {
+	if (type === 'email') {
+		const at = value.indexOf('@')
+		return `${value[0]}${'*'.repeat(Math.max(at - 1, 0))}${value.slice(at)}`
+	}
+
+	let visible = 4
+	const chars = [...value]
+	for (let i = chars.length - 1; i >= 0; i--) {
+		if (/[A-Za-z0-9]/.test(chars[i])) {
+			chars[i] = visible > 0 ? chars[i] : '*'
+			visible--
+		}
+	}
+	return chars.join('')
+}
+
+/**
+ * HMAC-SHA-256 of a detected value, keyed with the audit salt
+ */
+export function hashPiiValue(value: string, salt: string): Promise<string> {
+	return hmacSha256Hex(salt, value)
+}
+
+/**
+ * Build the audit report of a document scan. Without a salt a random one is
+ * used, so hashes can only be compared within the report.
+ */
+export async function buildRedactionReport(
+	documentId: string,
+	policy: DlpPolicy,
+	scan: DlpScanResult,
+	salt: string = crypto.randomUUID()
+): Promise<RedactionReport> {
+	const records = await Promise.all(
+		scan.chunks.flatMap((chunk, chunkIndex) =>
+			chunk.findings.map(async (finding) => ({
+				entityType: finding.type,
+				chunkIndex,
+				start: finding.start,
+				end: finding.end,
+				valueHash: await hashPiiValue(finding.value, salt),
+			}))
+		)
+	)
+
+	return {
+		documentId,
+		policy,
+		rejected: scan.rejected,
+		redactionCount: scan.redactionCount,
+		createdAt: new Date().toISOString(),
+		records,
+	}
+}
@@ -0,0 +1,54 @@
+import { chunkText, cleanText } from './chunking'
+import { chunkBySemantics } from './semantic'
+import { chunkByStructure } from './structure'
+
+import type { ChunkingOptions, ChunkingStrategy, DocumentChunk } from './chunking'
+import type { EmbeddingProvider } from './embedding'
+
+/**
+ * Clean document text ahead of chunking. Structure-aware chunking needs line
+ * breaks intact, so only line endings and blank-line runs are normalized.
+ */
+export function prepareText(text: string, strategy?: ChunkingStrategy): string {
+	if (strategy === 'structure') {
+		return text
+			.replace(/\r\n?/g, '\n')
+			.replace(/[ \t]+$/gm, '')
+			.replace(/\n{3,}/g, '\n\n')
+			.trim()
+	}
+
+	return cleanText(text)
+}
+
+/**
+ * Chunk prepared document text with the configured strategy. The semantic
+ * strategy needs an embedding provider to compare sentences.
+ */
+export async function chunkDocument(
+	text: string,
+	options: ChunkingOptions = {},
+	embedding?: EmbeddingProvider,
+	embeddingBatchSize?: number
+): Promise<DocumentChunk[]> {
+	if (options.strategy === 'structure') {
+		return chunkByStructure(text, options)
+	}
+
+	if (options.strategy === 'semantic') {
+		if (!embedding) {
+			throw new Error('Semantic chunking requires an embedding provider')
+		}
+		const chunks = await chunkBySemantics(text, options, embedding, embeddingBatchSize)
+		return chunks.map((chunk) => ({ text: chunk, headings: [] }))
+	}
+
+	return chunkText(text, options).map((chunk) => ({ text: chunk, headings: [] }))
+}
+
+/**
+ * Render a heading breadcrumb for citations, e.g. "Section > Subsection"
+ */
+export function formatBreadcrumb(headings: string[]): string {
+	return headings.join(' > ')
+}
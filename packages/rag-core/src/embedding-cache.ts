@@ -0,0 +1,99 @@
+import { sha256Hex } from './hash'
+
+import type { EmbeddingProvider } from './embedding'
+
+/**
+ * The part of an R2 bucket the embedding cache needs
+ */
+export interface EmbeddingCacheBucket {
+	get(key: string): Promise<{ json<T>(): Promise<T> } | null>
+	put(
+		key: string,
+		value: string,
+		options?: { customMetadata?: Record<string, string> }
+	): Promise<unknown>
+}
+
+// DocumentCoordinator instance the services add their per-model cache hit counts to
+export const EMBEDDING_CACHE_STATS_ID = 'embedding-cache'
+
+export interface EmbeddingCacheStats {
+	hits: number
+	misses: number
+}
+
+/**
+ * Provider that serves vectors from the cache and only embeds the misses.
+ * `stats` counts lookups; callers reporting it periodically may reset it.
+ */
+export interface CachedEmbeddingProvider extends EmbeddingProvider {
+	readonly stats: EmbeddingCacheStats
+}
+
+/**
+ * Cache key of a text's vector. Vectors are content-addressed: identical text
+ * embedded with the same model always maps to the same key.
+ */
+export async function embeddingCacheKey(modelId: string, text: string): Promise<string> {
+	return `embeddings/${modelId}/${await sha256Hex(text)}.json`
+}
+
+/**
+ * Wrap a provider with an R2-backed embedding cache. Cache reads and writes are
+ * best effort: a failing read counts as a miss and a failing write is ignored.
+ */
+export function withEmbeddingCache(
+	provider: EmbeddingProvider,
+	bucket: EmbeddingCacheBucket
+): CachedEmbeddingProvider {
+	const stats: EmbeddingCacheStats = { hits: 0, misses: 0 }
+
+	return {
+		model: provider.model,
+		stats,
+		async embed(texts) {
+			const keys = await Promise.all(
+				texts.map((text) => embeddingCacheKey(provider.model.id, text))
+			)
+			const cached = await Promise.all(
+				keys.map(async (key) => {
+					try {
+						const object = await bucket.get(key)
+						return object ? await object.json<number[]>() : null
+					} catch {
+						return null
+					}
+				})
+			)
+
+			const missing = texts
+				.map((text, i) => ({ text, i }))
+				.filter(({ i }) => !isVector(cached[i], provider.model.dimensions))
+			stats.hits += texts.length - missing.length
+			stats.misses += missing.length
+
+			const vectors = cached as number[][]
+			if (missing.length > 0) {
+				const embedded = await provider.embed(missing.map(({ text }) => text))
+				await Promise.all(
+					missing.map(async ({ i }, j) => {
+						vectors[i] = embedded[j]
+						try {
+							await bucket.put(keys[i], JSON.stringify(embedded[j]), {
+								customMetadata: { model: provider.model.id },
+							})
+						} catch {
+							// The vector is still returned, it is just embedded again next time
+						}
+					})
+				)
+			}
+
+			return vectors
+		},
+	}
+}
+
+function isVector(value: unknown, dimensions: number): value is number[] {
+	return Array.isArray(value) && value.length === dimensions
+}
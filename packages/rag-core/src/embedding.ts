@@ -0,0 +1,138 @@
+export interface EmbeddingModel {
+	id: string
+	/** Vector length; the Vectorize index must be created with the same */
+	dimensions: number
+	/** Input limit in tokens, including special tokens */
+	maxTokens: number
+}
+
+/**
+ * Embedding models we can run. Ingest and query resolve models from this
+ * registry so document and query vectors always come from the same model.
+ */
+export const EMBEDDING_MODELS: Record<string, EmbeddingModel> = {
+	'@cf/baai/bge-small-en-v1.5': {
+		id: '@cf/baai/bge-small-en-v1.5',
+		dimensions: 384,
+		maxTokens: 512,
+	},
+	'@cf/baai/bge-base-en-v1.5': {
+		id: '@cf/baai/bge-base-en-v1.5',
+		dimensions: 768,
+		maxTokens: 512,
+	},
+	'@cf/baai/bge-large-en-v1.5': {
+		id: '@cf/baai/bge-large-en-v1.5',
+		dimensions: 1024,
+		maxTokens: 512,
+	},
+}
+
+export const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5'
+
+/**
+ * Look up a model in the registry, falling back to the default when no id is configured
+ */
+export function getEmbeddingModel(id?: string): EmbeddingModel {
+	const model = EMBEDDING_MODELS[id || DEFAULT_EMBEDDING_MODEL]
+	if (!model) {
+		throw new Error(`Unknown embedding model: ${id}`)
+	}
+	return model
+}
+
+export interface EmbeddingProvider {
+	readonly model: EmbeddingModel
+	/** One vector per text, in input order */
+	embed(texts: string[]): Promise<number[][]>
+}
+
+/**
+ * The part of the Workers AI binding the provider needs
+ */
+export interface AiBinding {
+	run(...args: any[]): Promise<unknown>
+}
+
+/**
+ * Embedding provider backed by a Workers AI text embedding model
+ */
+export function createWorkersAiProvider(ai: AiBinding, modelId?: string): EmbeddingProvider {
+	const model = getEmbeddingModel(modelId)
+
+	return {
+		model,
+		async embed(texts) {
+			const response = await ai.run(model.id, { text: texts })
+
+			const data =
+				response && typeof response === 'object' && 'data' in response
+					? (response as { data: unknown }).data
+					: undefined
+			if (!Array.isArray(data) || data.length !== texts.length) {
+				throw new Error(`Expected ${texts.length} embedding(s) from ${model.id}`)
+			}
+
+			for (const vector of data) {
+				if (!Array.isArray(vector) || vector.length !== model.dimensions) {
+					throw new Error(
+						`Expected ${model.dimensions}-dimensional vectors from ${model.id}, got ${Array.isArray(vector) ? vector.length : typeof vector}`
+					)
+				}
+			}
+
+			return data as number[][]
+		},
+	}
+}
+
+// Texts Workers AI accepts per embedding call
+export const MAX_EMBEDDING_BATCH_SIZE = 100
+
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 20
+
+export interface EmbeddingBatchResult {
+	/** Vector per item id */
+	vectors: Map<string, number[]>
+	/** Items whose single-text retry failed too */
+	failures: Array<{ id: string; error: string }>
+}
+
+/**
+ * Embed items with up to `batchSize` texts per call. When a batch call fails its
+ * items are retried one at a time, so one bad text only fails itself.
+ */
+export async function embedInBatches(
+	provider: EmbeddingProvider,
+	items: Array<{ id: string; text: string }>,
+	batchSize: number = DEFAULT_EMBEDDING_BATCH_SIZE
+): Promise<EmbeddingBatchResult> {
+	const size = Math.min(Math.max(1, Math.floor(batchSize)), MAX_EMBEDDING_BATCH_SIZE)
+	const result: EmbeddingBatchResult = { vectors: new Map(), failures: [] }
+
+	for (let i = 0; i < items.length; i += size) {
+		const batch = items.slice(i, i + size)
+
+		try {
+			const vectors = await provider.embed(batch.map((item) => item.text))
+			batch.forEach((item, j) => result.vectors.set(item.id, vectors[j]))
+			continue
+		} catch {
+			// Fall through to single-text calls
+		}
+
+		for (const item of batch) {
+			try {
+				const [vector] = await provider.embed([item.text])
+				result.vectors.set(item.id, vector)
+			} catch (error) {
+				result.failures.push({
+					id: item.id,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+	}
+
+	return result
+}
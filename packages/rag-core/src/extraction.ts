@@ -0,0 +1,453 @@
+import { strFromU8, unzipSync } from 'fflate'
+import { extractText } from 'unpdf'
+
+import { decodeEntities, formatMarkdownTable } from './markup'
+
+import type { Unzipped } from 'fflate'
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'text'
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+	pdf: 'application/pdf',
+	docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	text: 'text/plain',
+}
+
+/**
+ * A page, slide or sheet of an extracted document
+ */
+export interface ExtractedPart {
+	kind: 'page' | 'slide' | 'sheet'
+	/** 1-based position in the document */
+	number: number
+	title?: string
+	text: string
+}
+
+export interface ExtractedDocument {
+	format: DocumentFormat
+	mimeType: string
+	/** Markdown, with a heading per page, slide or sheet so structure chunking cites them */
+	text: string
+	parts: ExtractedPart[]
+}
+
+const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46] // %PDF
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04] // PK\3\4
+
+// The part that identifies each OOXML package
+const OOXML_MAIN_PARTS: Array<[string, DocumentFormat]> = [
+	['word/document.xml', 'docx'],
+	['ppt/presentation.xml', 'pptx'],
+	['xl/workbook.xml', 'xlsx'],
+]
+
+// Upper bound on the XML an OOXML package may inflate to, well inside the Workers memory limit
+export const MAX_INFLATED_OOXML_BYTES = 48 * 1024 * 1024
+
+/**
+ * Detect the document format from its leading bytes, ignoring the declared
+ * MIME type. Returns undefined for unsupported binaries.
+ */
+export function detectDocumentFormat(bytes: Uint8Array): DocumentFormat | undefined {
+	if (hasMagic(bytes, PDF_MAGIC)) {
+		return 'pdf'
+	}
+
+	if (hasMagic(bytes, ZIP_MAGIC)) {
+		const names = new Set<string>()
+		try {
+			// The filter only collects names, nothing is inflated
+			unzipSync(bytes, {
+				filter: (file) => {
+					names.add(file.name)
+					return false
+				},
+			})
+		} catch {
+			return undefined
+		}
+		return ooxmlFormat(names)
+	}
+
+	return decodeUtf8(bytes) === undefined ? undefined : 'text'
+}
+
+/**
+ * Extract text from a PDF, DOCX, PPTX, XLSX or plain text file
+ */
+export async function extractDocument(bytes: Uint8Array): Promise<ExtractedDocument> {
+	if (hasMagic(bytes, PDF_MAGIC)) {
+		const parts = await extractPdfPages(bytes)
+		return { format: 'pdf', mimeType: DOCUMENT_MIME_TYPES.pdf, text: partsToMarkdown(parts), parts }
+	}
+
+	if (hasMagic(bytes, ZIP_MAGIC)) {
+		// One pass both identifies the package and inflates the parts it needs
+		const files = unzipOoxml(bytes)
+		const format = ooxmlFormat(new Set(Object.keys(files)))
+		if (!format) {
+			throw new Error('Unsupported document type')
+		}
+
+		const mimeType = DOCUMENT_MIME_TYPES[format]
+		switch (format) {
+			case 'docx': {
+				// Word headings already structure the text, pages are only recorded in parts
+				const { text, parts } = extractDocx(files)
+				return { format, mimeType, text, parts }
+			}
+			case 'pptx': {
+				const parts = extractSlides(files)
+				return { format, mimeType, text: partsToMarkdown(parts), parts }
+			}
+			default: {
+				const parts = extractSheets(files)
+				return { format, mimeType, text: partsToMarkdown(parts), parts }
+			}
+		}
+	}
+
+	const text = decodeUtf8(bytes)
+	if (text === undefined) {
+		throw new Error('Unsupported document type')
+	}
+	return { format: 'text', mimeType: DOCUMENT_MIME_TYPES.text, text, parts: [] }
+}
+
+function ooxmlFormat(names: Set<string>): DocumentFormat | undefined {
+	return OOXML_MAIN_PARTS.find(([part]) => names.has(part))?.[1]
+}
+
+/**
+ * Inflate only the XML and relationship parts of an OOXML package, leaving
+ * media and embedded objects compressed. Throws once the declared sizes of
+ * those parts exceed MAX_INFLATED_OOXML_BYTES, which fflate also holds each
+ * part's output buffer to.
+ */
+function unzipOoxml(bytes: Uint8Array): Unzipped {
+	let inflatedBytes = 0
+	try {
+		return unzipSync(bytes, {
+			filter: (file) => {
+				if (!file.name.endsWith('.xml') && !file.name.endsWith('.rels')) {
+					return false
+				}
+				inflatedBytes += file.originalSize
+				if (inflatedBytes > MAX_INFLATED_OOXML_BYTES) {
+					throw new Error('Document expands beyond the extraction size limit')
+				}
+				return true
+			},
+		})
+	} catch (error) {
+		if (error instanceof Error && error.message.includes('size limit')) {
+			throw error
+		}
+		throw new Error('Unsupported document type')
+	}
+}
+
+function hasMagic(bytes: Uint8Array, magic: number[]): boolean {
+	return magic.every((byte, i) => bytes[i] === byte)
+}
+
+function decodeUtf8(bytes: Uint8Array): string | undefined {
+	if (bytes.subarray(0, 1024).includes(0)) {
+		return undefined
+	}
+	try {
+		return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes)
+	} catch {
+		return undefined
+	}
+}
+
+function partsToMarkdown(parts: ExtractedPart[]): string {
+	return parts
+		.map((part) => {
+			const label = `${part.kind[0].toUpperCase()}${part.kind.slice(1)} ${part.number}`
+			const heading = part.title ? `${label}: ${part.title}` : label
+			return `# ${heading}\n\n${part.text}`.trim()
+		})
+		.join('\n\n')
+}
+
+async function extractPdfPages(bytes: Uint8Array): Promise<ExtractedPart[]> {
+	// pdf.js may detach the buffer it is given, so it works on a copy
+	const { text } = await extractText(new Uint8Array(bytes), { mergePages: false })
+	return text.map((page, i) => ({ kind: 'page' as const, number: i + 1, text: page.trim() }))
+}
+
+// OOXML helpers
+
+function readPart(files: Unzipped, path: string): string {
+	const data = files[path]
+	return data ? strFromU8(data) : ''
+}
+
+function getAttribute(xml: string, name: string): string | undefined {
+	return new RegExp(`\\s${name}="([^"]*)"`).exec(xml)?.[1]
+}
+
+/**
+ * Concatenate the text runs (<w:t>, <a:t>, <t>) of an XML fragment
+ */
+function runText(xml: string, tag: string): string {
+	const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, 'g')
+	return decodeEntities(Array.from(xml.matchAll(pattern), (match) => match[1]).join(''))
+}
+
+interface Relationship {
+	type: string
+	/** Target resolved to a path inside the package */
+	path: string
+}
+
+/**
+ * Read the relationships of a part, e.g. the slides of ppt/presentation.xml
+ */
+function readRelationships(files: Unzipped, partPath: string): Map<string, Relationship> {
+	const dir = partPath.slice(0, partPath.lastIndexOf('/') + 1)
+	const fileName = partPath.slice(dir.length)
+	const xml = readPart(files, `${dir}_rels/${fileName}.rels`)
+	const relationships = new Map<string, Relationship>()
+
+	for (const [element] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+		const id = getAttribute(element, 'Id')
+		const target = getAttribute(element, 'Target')
+		if (id && target) {
+			relationships.set(id, {
+				type: getAttribute(element, 'Type') ?? '',
+				path: resolvePartPath(dir, target),
+			})
+		}
+	}
+
+	return relationships
+}
+
+function resolvePartPath(dir: string, target: string): string {
+	const segments = target.startsWith('/') ? [] : dir.split('/').filter(Boolean)
+	for (const segment of target.split('/')) {
+		if (segment === '..') {
+			segments.pop()
+		} else if (segment && segment !== '.') {
+			segments.push(segment)
+		}
+	}
+	return segments.join('/')
+}
+
+// DOCX
+
+function extractDocx(files: Unzipped): { text: string; parts: ExtractedPart[] } {
+	const xml = readPart(files, 'word/document.xml')
+	const body = /<w:body>([\s\S]*)<\/w:body>/.exec(xml)?.[1] ?? ''
+	// Word records where pages broke when it last rendered the document;
+	// explicit page breaks are the fallback for generated documents
+	const breakTag = body.includes('<w:lastRenderedPageBreak/>')
+		? '<w:lastRenderedPageBreak/>'
+		: '<w:br w:type="page"/>'
+
+	const pages: string[][] = [[]]
+	const blocks = body.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g)
+
+	for (const [block] of blocks) {
+		const markdown = block.startsWith('<w:tbl>') ? docxTable(block) : docxParagraph(block)
+		const breakAt = block.indexOf(breakTag)
+		// A break ahead of any text moves the whole block to the next page
+		const breaksBefore = breakAt !== -1 && !runText(block.slice(0, breakAt), 'w:t').trim()
+
+		if (breaksBefore) {
+			pages.push([])
+		}
+		if (markdown) {
+			pages[pages.length - 1].push(markdown)
+		}
+		if (breakAt !== -1 && !breaksBefore) {
+			pages.push([])
+		}
+	}
+
+	const parts = pages
+		.map((blocks, i) => ({ kind: 'page' as const, number: i + 1, text: blocks.join('\n\n') }))
+		.filter((part, i, all) => part.text || i < all.length - 1)
+
+	return { text: parts.map((part) => part.text).join('\n\n'), parts }
+}
+
+function docxParagraph(xml: string): string {
+	let text = ''
+	for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>/g)) {
+		text +=
+			match[1] !== undefined ? decodeEntities(match[1]) : match[0] === '<w:tab/>' ? '\t' : '\n'
+	}
+	text = text.trim()
+
+	if (!text) {
+		return ''
+	}
+
+	const style = /<w:pStyle w:val="([^"]+)"/.exec(xml)?.[1] ?? ''
+	const headingLevel = style === 'Title' ? 1 : Number(/^Heading([1-6])$/i.exec(style)?.[1] ?? 0)
+
+	if (headingLevel > 0) {
+		return `${'#'.repeat(headingLevel)} ${text.replace(/\s+/g, ' ')}`
+	}
+	return xml.includes('<w:numPr>') ? `- ${text}` : text
+}
+
+function docxTable(xml: string): string {
+	const rows = Array.from(xml.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g), ([row]) =>
+		Array.from(row.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g), ([cell]) =>
+			Array.from(cell.matchAll(/<w:p\b[\s\S]*?<\/w:p>/g), ([p]) => runText(p, 'w:t'))
+				.filter(Boolean)
+				.join(' ')
+		)
+	)
+	return formatMarkdownTable(rows.filter((row) => row.length > 0))
+}
+
+// PPTX
+
+function extractSlides(files: Unzipped): ExtractedPart[] {
+	const presentation = readPart(files, 'ppt/presentation.xml')
+	const relationships = readRelationships(files, 'ppt/presentation.xml')
+	const parts: ExtractedPart[] = []
+
+	for (const [element] of presentation.matchAll(/<p:sldId\b[^>]*>/g)) {
+		const slidePath = relationships.get(getAttribute(element, 'r:id') ?? '')?.path
+		if (!slidePath) {
+			continue
+		}
+
+		let title: string | undefined
+		const body: string[] = []
+
+		for (const shape of slideShapes(readPart(files, slidePath))) {
+			if (shape.placeholder === 'title' || shape.placeholder === 'ctrTitle') {
+				title ??= shape.text.replace(/\s+/g, ' ')
+			} else if (shape.text) {
+				body.push(shape.text)
+			}
+		}
+
+		const notesPath = Array.from(readRelationships(files, slidePath).values()).find((rel) =>
+			rel.type.endsWith('/notesSlide')
+		)?.path
+		if (notesPath) {
+			const notes = slideShapes(readPart(files, notesPath))
+				.filter((shape) => shape.placeholder === 'body' && shape.text)
+				.map((shape) => shape.text)
+			if (notes.length > 0) {
+				body.push(`Notes: ${notes.join('\n')}`)
+			}
+		}
+
+		parts.push({ kind: 'slide', number: parts.length + 1, title, text: body.join('\n\n') })
+	}
+
+	return parts
+}
+
+function slideShapes(xml: string): Array<{ placeholder?: string; text: string }> {
+	const shapes = xml.matchAll(
+		/<p:sp\b[\s\S]*?<\/p:sp>|<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>/g
+	)
+
+	return Array.from(shapes, ([shape]) => {
+		if (shape.startsWith('<p:graphicFrame')) {
+			const rows = Array.from(shape.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g), ([row]) =>
+				Array.from(row.matchAll(/<a:tc\b[\s\S]*?<\/a:tc>/g), ([cell]) => runText(cell, 'a:t'))
+			)
+			return { text: formatMarkdownTable(rows) }
+		}
+
+		const placeholder = /<p:ph\b[^>]*>/.exec(shape)?.[0]
+		const paragraphs = Array.from(shape.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g), (p) =>
+			runText(p[1], 'a:t').trim()
+		)
+		return {
+			// Placeholders without a type are body placeholders
+			placeholder: placeholder ? (getAttribute(placeholder, 'type') ?? 'body') : undefined,
+			text: paragraphs.filter(Boolean).join('\n'),
+		}
+	})
+}
+
+// XLSX
+
+function extractSheets(files: Unzipped): ExtractedPart[] {
+	const sharedStrings = Array.from(
+		readPart(files, 'xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g),
+		(match) => runText(match[1], 't')
+	)
+	const workbook = readPart(files, 'xl/workbook.xml')
+	const relationships = readRelationships(files, 'xl/workbook.xml')
+	const parts: ExtractedPart[] = []
+
+	for (const [element] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+		const sheetPath = relationships.get(getAttribute(element, 'r:id') ?? '')?.path
+		if (!sheetPath) {
+			continue
+		}
+
+		const rows = sheetRows(readPart(files, sheetPath), sharedStrings)
+		parts.push({
+			kind: 'sheet',
+			number: parts.length + 1,
+			title: decodeEntities(getAttribute(element, 'name') ?? ''),
+			text: formatMarkdownTable(rows),
+		})
+	}
+
+	return parts
+}
+
+function sheetRows(xml: string, sharedStrings: string[]): string[][] {
+	const rows: string[][] = []
+
+	for (const row of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+		const cells: string[] = []
+		for (const cell of (row[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+			const attributes = cell[1]
+			const content = cell[2] ?? ''
+			const column = columnIndex(getAttribute(attributes, 'r') ?? '') ?? cells.length
+			const value = /<v>([^<]*)<\/v>/.exec(content)?.[1] ?? ''
+
+			switch (getAttribute(attributes, 't')) {
+				case 's':
+					cells[column] = sharedStrings[Number(value)] ?? ''
+					break
+				case 'inlineStr':
+					cells[column] = runText(content, 't')
+					break
+				case 'b':
+					cells[column] = value === '1' ? 'TRUE' : 'FALSE'
+					break
+				default:
+					cells[column] = decodeEntities(value)
+			}
+		}
+
+		if (cells.some(Boolean)) {
+			rows.push(Array.from(cells, (cell) => cell ?? ''))
+		}
+	}
+
+	return rows
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number | undefined {
+	const letters = /^[A-Z]+/.exec(reference)?.[0]
+	if (!letters) {
+		return undefined
+	}
+	return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
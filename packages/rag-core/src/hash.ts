@@ -0,0 +1,23 @@
+/**
+ * Hex-encoded SHA-256 digest of text or bytes
+ */
+export async function sha256Hex(data: string | BufferSource): Promise<string> {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+	const hashBuffer = await crypto.subtle.digest('SHA-256', bytes)
+	return Array.from(new Uint8Array(hashBuffer), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Hex-encoded HMAC-SHA-256 of text, as webhook signatures are computed
+ */
+export async function hmacSha256Hex(secret: string, data: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	)
+	const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data))
+	return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('')
+}
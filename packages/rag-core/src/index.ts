@@ -0,0 +1,20 @@
+export * from './embedding'
+export * from './embedding-cache'
+export * from './chunk-metadata'
+export * from './tokenizer'
+export * from './chunking'
+export * from './markup'
+export * from './structure'
+export * from './semantic'
+export * from './document'
+export * from './extraction'
+export * from './hash'
+export * from './dlp'
+export * from './manifest'
+export * from './source-connector'
+export * from './sharepoint'
+export * from './confluence'
+export * from './jira'
+export * from './readability'
+export * from './website'
+export * from './sources'
@@ -0,0 +1,542 @@
+import { htmlToMarkdown } from './markup'
+import { verifyHubSignature } from './source-connector'
+
+import type { Document } from '@repo/rag-types'
+import type { SourceConnector, SourceEnv, SourceEvent } from './source-connector'
+
+export interface JiraConnectorConfig {
+	/** Site root, e.g. https://example.atlassian.net */
+	baseUrl: string
+	/** Atlassian account of a Cloud API token; without it the token is sent as a personal access token */
+	email?: string
+	apiToken: string
+	/** Custom field ids rendered into the document, e.g. customfield_10016 */
+	customFields?: string[]
+	fetch?: typeof fetch
+}
+
+export interface JiraConnector {
+	/** The issue, by id or key, as a Document, or null when it is gone */
+	fetchDocument(issueIdOrKey: string): Promise<Document | null>
+	/**
+	 * The issue, by id or key, with the comments everyone who can see it can
+	 * read, or null when it is gone
+	 */
+	fetchIssue(issueIdOrKey: string): Promise<JiraIssueThread | null>
+	/** Those allowed to browse the issue's project and hold its security level, if any */
+	issueAcl(issue: JiraIssue): Promise<string[]>
+	toDocument(thread: JiraIssueThread, acl: string[]): Document
+}
+
+export interface JiraIssueThread {
+	issue: JiraIssue
+	comments: JiraComment[]
+}
+
+// The Jira resources and fields the connector reads
+export interface JiraUser {
+	accountId?: string
+	name?: string
+	emailAddress?: string
+	displayName?: string
+}
+
+export interface JiraPermissionHolder {
+	type: string
+	parameter?: string
+	value?: string
+	user?: JiraUser
+	group?: { name: string; groupId?: string }
+	projectRole?: { id: number | string; name?: string }
+}
+
+export interface JiraRoleActor {
+	type: string
+	actorUser?: JiraUser
+	actorGroup?: { name: string; groupId?: string }
+}
+
+export interface JiraComment {
+	id: string
+	author?: JiraUser
+	body?: string
+	renderedBody?: string
+	created?: string
+	updated?: string
+	/** Limits the comment to a project role or group */
+	visibility?: { type: 'role' | 'group'; value: string; identifier?: string }
+	/** False for internal comments of Jira Service Management, hidden from customers */
+	jsdPublic?: boolean
+}
+
+export interface JiraIssue {
+	id: string
+	key: string
+	fields: {
+		summary: string
+		description?: string | null
+		issuetype?: { name: string }
+		status?: { name: string }
+		priority?: { name: string } | null
+		project?: { id: string; key: string; name?: string }
+		assignee?: JiraUser | null
+		reporter?: JiraUser | null
+		labels?: string[]
+		security?: { id: string; name?: string } | null
+		created?: string
+		updated?: string
+		[field: string]: unknown
+	}
+	renderedFields?: Record<string, unknown>
+	/** Display names of the returned fields, by field id */
+	names?: Record<string, string>
+}
+
+// Paging fields of the comment and security level member listings
+interface JiraPage {
+	startAt: number
+	maxResults: number
+	total?: number
+	isLast?: boolean
+}
+
+const ISSUE_FIELDS = [
+	'summary',
+	'description',
+	'issuetype',
+	'status',
+	'priority',
+	'project',
+	'assignee',
+	'reporter',
+	'labels',
+	'security',
+	'created',
+	'updated',
+]
+
+const PAGE_SIZE = 100
+
+/**
+ * Document id of an issue. Issue ids survive moves between projects, which
+ * change the key.
+ */
+export const jiraDocumentId = (issueId: string) => `jira-${issueId}`
+
+/**
+ * Issue of a webhook resource: `issueId` or `issueKey` in the event metadata, a
+ * bare id or key, or an issue URL (`/browse/{key}`)
+ */
+export function parseJiraResource(
+	resourceId: string,
+	metadata: Record<string, any> = {}
+): { issueId?: string; issueKey?: string } {
+	const issueKey =
+		metadata.issueKey ??
+		resourceId.match(/\/browse\/([A-Z][A-Z0-9_]*-\d+)/)?.[1] ??
+		resourceId.match(/^[A-Z][A-Z0-9_]*-\d+$/)?.[0]
+	const issueId = metadata.issueId ?? resourceId.match(/^\d+$/)?.[0]
+
+	return {
+		issueId: issueId === undefined ? undefined : String(issueId),
+		issueKey,
+	}
+}
+
+/**
+ * ACL entries of permission holders: `public` for anyone, `internal` for
+ * everyone with access to the product, `user:{email}` (the account id where the
+ * email is hidden) and `group:{name}`. Reporter and assignee holders grant the
+ * issue's reporter and assignee; project roles must be resolved into their user
+ * and group actors first, and other holders grant nothing.
+ */
+export function jiraAcl(holders: JiraPermissionHolder[], issue: JiraIssue): string[] {
+	const acl = new Set<string>()
+	const addUser = (user: JiraUser | null | undefined, fallback?: string) => {
+		const userName = user?.emailAddress ?? user?.accountId ?? user?.name ?? fallback
+		if (userName) {
+			acl.add(`user:${userName.toLowerCase()}`)
+		}
+	}
+
+	for (const holder of holders) {
+		switch (holder.type) {
+			case 'anyone':
+				acl.add('public')
+				break
+			case 'applicationRole':
+				acl.add('internal')
+				break
+			case 'group': {
+				const groupName = holder.group?.name ?? holder.parameter
+				if (groupName) {
+					acl.add(`group:${groupName}`)
+				}
+				break
+			}
+			case 'user':
+				addUser(holder.user, holder.parameter ?? holder.value)
+				break
+			case 'reporter':
+				addUser(issue.fields.reporter)
+				break
+			case 'assignee':
+				addUser(issue.fields.assignee)
+				break
+		}
+	}
+
+	return [...acl].sort()
+}
+
+/**
+ * Render an issue into Markdown: the summary as title, then the description,
+ * the custom fields and one section per comment, so each comment is chunked
+ * and cited on its own
+ */
+export function renderJiraIssue(
+	issue: JiraIssue,
+	comments: JiraComment[],
+	customFields: string[] = []
+): string {
+	const sections = [`# ${issue.key}: ${issue.fields.summary}`]
+	const rendered = issue.renderedFields ?? {}
+
+	const description = richText(rendered.description, issue.fields.description)
+	if (description) {
+		sections.push(`## Description\n\n${nestHeadings(description, 2)}`)
+	}
+
+	for (const field of customFields) {
+		const value = richText(rendered[field], undefined) || fieldText(issue.fields[field])
+		if (value) {
+			sections.push(`## ${issue.names?.[field] ?? field}\n\n${nestHeadings(value, 2)}`)
+		}
+	}
+
+	if (comments.length > 0) {
+		sections.push('## Comments')
+		comments.forEach((comment, i) => {
+			const author = comment.author?.displayName ?? 'Unknown'
+			const date = comment.created ? ` (${comment.created.slice(0, 10)})` : ''
+			const body = richText(comment.renderedBody, comment.body)
+			sections.push(`### Comment ${i + 1} by ${author}${date}\n\n${nestHeadings(body, 3)}`)
+		})
+	}
+
+	return sections.join('\n\n')
+}
+
+/**
+ * Jira issues through the REST API, with basic authentication by an account's
+ * email and API token (Cloud) or a personal access token (Data Center)
+ */
+export function createJiraConnector(config: JiraConnectorConfig): JiraConnector {
+	const baseUrl = config.baseUrl.replace(/\/$/, '')
+	const customFields = config.customFields ?? []
+	const fetcher = config.fetch ?? fetch
+	const authorization = config.email
+		? `Basic ${btoa(`${config.email}:${config.apiToken}`)}`
+		: `Bearer ${config.apiToken}`
+
+	// Browse holders of each project and actors of each project role, shared by the project's issues
+	const browseHolders = new Map<string, Promise<JiraPermissionHolder[]>>()
+	const roleActors = new Map<string, Promise<JiraPermissionHolder[]>>()
+
+	async function api<T>(path: string): Promise<T | null> {
+		const response = await fetcher(`${baseUrl}/rest/api/2${path}`, {
+			headers: { Authorization: authorization, Accept: 'application/json' },
+		})
+		if (response.status === 404) {
+			return null
+		}
+		if (!response.ok) {
+			// The status stays in the message so 429 and 503 are retried
+			throw new Error(`Jira request failed: ${response.status}`)
+		}
+		return response.json<T>()
+	}
+
+	async function listComments(issueId: string): Promise<JiraComment[]> {
+		const comments: JiraComment[] = []
+		for (let startAt = 0; ; ) {
+			const page = await api<JiraPage & { comments: JiraComment[] }>(
+				`/issue/${issueId}/comment?expand=renderedBody&startAt=${startAt}&maxResults=${PAGE_SIZE}`
+			)
+			if (!page || page.comments.length === 0) {
+				return comments
+			}
+
+			// Comments narrower than the issue are left out rather than indexed under its ACL
+			comments.push(...page.comments.filter((comment) => !isRestrictedComment(comment)))
+			startAt += page.comments.length
+			if (startAt >= (page.total ?? 0)) {
+				return comments
+			}
+		}
+	}
+
+	function projectBrowseHolders(projectId: string): Promise<JiraPermissionHolder[]> {
+		let holders = browseHolders.get(projectId)
+		if (!holders) {
+			holders = api<{ permissions?: Array<{ permission: string; holder: JiraPermissionHolder }> }>(
+				`/project/${projectId}/permissionscheme?expand=permissions,user,group,projectRole`
+			).then((scheme) =>
+				(scheme?.permissions ?? [])
+					.filter((grant) => grant.permission === 'BROWSE_PROJECTS')
+					.map((grant) => grant.holder)
+			)
+			browseHolders.set(projectId, holders)
+		}
+		return holders
+	}
+
+	async function securityLevelHolders(
+		projectId: string,
+		levelId: string
+	): Promise<JiraPermissionHolder[]> {
+		const scheme = await api<{ id: string }>(`/project/${projectId}/issuesecuritylevelscheme`)
+		if (!scheme) {
+			return []
+		}
+
+		const holders: JiraPermissionHolder[] = []
+		for (let startAt = 0; ; startAt += PAGE_SIZE) {
+			const page = await api<JiraPage & { values: Array<{ holder: JiraPermissionHolder }> }>(
+				`/issuesecurityschemes/${scheme.id}/members?issueSecurityLevelId=${levelId}&expand=all&startAt=${startAt}&maxResults=${PAGE_SIZE}`
+			)
+			holders.push(...(page?.values ?? []).map((member) => member.holder))
+			if (!page || page.isLast !== false || page.values.length === 0) {
+				return holders
+			}
+		}
+	}
+
+	// Project role holders replaced by the users and groups playing the role in the project
+	function resolveRoles(
+		projectId: string,
+		holders: JiraPermissionHolder[]
+	): Promise<JiraPermissionHolder[][]> {
+		return Promise.all(
+			holders.map((holder) => {
+				if (holder.type !== 'projectRole') {
+					return [holder]
+				}
+
+				const roleId = String(holder.projectRole?.id ?? holder.parameter ?? holder.value)
+				const key = `${projectId}/${roleId}`
+				let actors = roleActors.get(key)
+				if (!actors) {
+					actors = api<{ actors?: JiraRoleActor[] }>(`/project/${projectId}/role/${roleId}`).then(
+						(role) =>
+							(role?.actors ?? []).map((actor) =>
+								actor.actorGroup
+									? { type: 'group', group: actor.actorGroup }
+									: { type: 'user', user: actor.actorUser }
+							)
+					)
+					roleActors.set(key, actors)
+				}
+				return actors
+			})
+		)
+	}
+
+	/**
+	 * Those allowed to browse the issue's project and, when it has a security
+	 * level, hold that level as well. Group membership is not resolved, so only
+	 * entries both name survive; when none do, or the issue has no project, it is
+	 * only granted to `issue:{key}`: denied until someone is given that entry.
+	 */
+	async function issueAcl(issue: JiraIssue): Promise<string[]> {
+		const project = issue.fields.project
+		if (!project) {
+			return [`issue:${issue.key}`]
+		}
+
+		const browse = jiraAcl(
+			(await resolveRoles(project.id, await projectBrowseHolders(project.id))).flat(),
+			issue
+		)
+		// A permission scheme the token cannot read leaves the issue to members of its project
+		const layers = [browse.length > 0 ? browse : [`project:${project.key}`]]
+		if (issue.fields.security) {
+			const holders = await securityLevelHolders(project.id, issue.fields.security.id)
+			layers.push(jiraAcl((await resolveRoles(project.id, holders)).flat(), issue))
+		}
+
+		// Layers open to anyone limit nothing, and those open to everyone with product
+		// access let through the users and groups another layer names
+		const limiting = layers.filter((acl) => !acl.includes('public'))
+		const named = limiting.filter((acl) => !acl.includes('internal'))
+		const compared = named.length > 0 ? named : limiting
+		if (compared.length === 0) {
+			return ['public']
+		}
+
+		const acl = compared.reduce((allowed, next) => allowed.filter((entry) => next.includes(entry)))
+		return acl.length > 0 ? acl : [`issue:${issue.key}`]
+	}
+
+	async function fetchIssue(issueIdOrKey: string): Promise<JiraIssueThread | null> {
+		const fields = [...ISSUE_FIELDS, ...customFields].join(',')
+		const issue = await api<JiraIssue>(
+			`/issue/${encodeURIComponent(issueIdOrKey)}?fields=${fields}&expand=renderedFields,names`
+		)
+		return issue ? { issue, comments: await listComments(issue.id) } : null
+	}
+
+	function toDocument({ issue, comments }: JiraIssueThread, acl: string[]): Document {
+		const { fields: issueFields } = issue
+
+		return {
+			id: jiraDocumentId(issue.id),
+			text: renderJiraIssue(issue, comments, customFields),
+			source: 'jira',
+			url: `${baseUrl}/browse/${issue.key}`,
+			metadata: {
+				title: `${issue.key}: ${issueFields.summary}`,
+				acl,
+				issueId: issue.id,
+				issueKey: issue.key,
+				projectKey: issueFields.project?.key,
+				issueType: issueFields.issuetype?.name,
+				status: issueFields.status?.name,
+				priority: issueFields.priority?.name,
+				assignee: issueFields.assignee?.displayName,
+				reporter: issueFields.reporter?.displayName,
+				labels: issueFields.labels ?? [],
+				securityLevel: issueFields.security?.name,
+				comments: comments.length,
+				author: issueFields.reporter?.displayName,
+				lastModified: issueFields.updated,
+			},
+		}
+	}
+
+	return {
+		async fetchDocument(issueIdOrKey) {
+			const thread = await fetchIssue(issueIdOrKey)
+			return thread ? toDocument(thread, await issueAcl(thread.issue)) : null
+		},
+
+		fetchIssue,
+		issueAcl,
+		toDocument,
+	}
+}
+
+/**
+ * Jira as a webhook source. Issues are chunked by structure so every comment
+ * is a section of its own. Requests must be signed with JIRA_WEBHOOK_SECRET
+ * when it is set.
+ */
+export function jiraSource(env: SourceEnv): SourceConnector<JiraIssueThread> {
+	let connector: JiraConnector | undefined
+
+	function jira(): JiraConnector {
+		const { JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN, JIRA_CUSTOM_FIELDS } = env
+		if (!JIRA_BASE_URL || !JIRA_API_TOKEN) {
+			throw new Error('Jira is not configured: set JIRA_BASE_URL and JIRA_API_TOKEN')
+		}
+
+		// One per source, so a batch of events shares the permission schemes it read
+		connector ??= createJiraConnector({
+			baseUrl: JIRA_BASE_URL,
+			email: JIRA_EMAIL,
+			apiToken: JIRA_API_TOKEN,
+			customFields: JIRA_CUSTOM_FIELDS?.split(',')
+				.map((field: string) => field.trim())
+				.filter(Boolean),
+		})
+		return connector
+	}
+
+	return {
+		sourceType: 'jira',
+		chunkingStrategy: 'structure',
+
+		verifyWebhook(request, body) {
+			return verifyHubSignature(request, body, env.JIRA_WEBHOOK_SECRET)
+		},
+
+		async listChanges() {
+			return null
+		},
+
+		async documentId(event: SourceEvent) {
+			// A deleted issue cannot be looked up, so its key does not lead to the document
+			const { issueId } = parseJiraResource(event.resourceId, event.metadata)
+			if (!issueId) {
+				throw new Error(`Jira deletions need the issue id, got ${event.resourceId}`)
+			}
+			return jiraDocumentId(issueId)
+		},
+
+		async fetchResource(event) {
+			const { issueId, issueKey } = parseJiraResource(event.resourceId, event.metadata)
+			const issue = issueId ?? issueKey
+			if (!issue) {
+				throw new Error(`No Jira issue in resource ${event.resourceId}`)
+			}
+
+			const thread = await jira().fetchIssue(issue)
+			return thread
+				? { status: 'fetched', resource: thread }
+				: { status: 'skipped', reason: 'not found' }
+		},
+
+		resolveAcl(thread) {
+			return jira().issueAcl(thread.issue)
+		},
+
+		toDocument(thread, acl) {
+			return jira().toDocument(thread, acl)
+		},
+	}
+}
+
+// Comments limited to a role or group, and internal service desk comments
+function isRestrictedComment(comment: JiraComment): boolean {
+	return comment.visibility !== undefined || comment.jsdPublic === false
+}
+
+// Rendered HTML of a field when Jira returned it, else its raw text
+function richText(html: unknown, raw: string | null | undefined): string {
+	if (typeof html === 'string' && html.trim()) {
+		return htmlToMarkdown(html)
+	}
+	return raw?.trim() ?? ''
+}
+
+// Text of a custom field value: options, users and versions by name, lists comma separated
+function fieldText(value: unknown): string {
+	if (value === null || value === undefined) {
+		return ''
+	}
+	if (Array.isArray(value)) {
+		return value.map(fieldText).filter(Boolean).join(', ')
+	}
+	if (typeof value === 'object') {
+		const named = value as Record<string, unknown>
+		return fieldText(named.value ?? named.name ?? named.displayName ?? named.key)
+	}
+	return String(value)
+}
+
+// Push the Markdown headings of a field below the section heading it is rendered under
+function nestHeadings(markdown: string, level: number): string {
+	let fenced = false
+	return markdown
+		.split('\n')
+		.map((line) => {
+			if (/^\s*(`{3,}|~{3,})/.test(line)) {
+				fenced = !fenced
+			}
+			const heading = !fenced && /^(#{1,6})\s/.exec(line)
+			return heading
+				? `${'#'.repeat(Math.min(6, heading[1].length + level))}${line.slice(heading[1].length)}`
+				: line
+		})
+		.join('\n')
+}
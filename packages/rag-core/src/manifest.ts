@@ -0,0 +1,150 @@
+import { sha256Hex } from './hash'
+
+import type { ChunkingOptions, ChunkingStrategy } from './chunking'
+import type { DlpPolicy } from './dlp'
+
+export interface ManifestChunk {
+	/** Vector id, `{docId}#{index}` */
+	id: string
+	index: number
+	/** R2 key of the chunk text */
+	key: string
+	/** SHA-256 of the stored chunk text */
+	contentHash: string
+	section?: string
+}
+
+/**
+ * Chunking options an ingest was given besides its strategy
+ */
+export type ManifestChunkingOptions = Pick<
+	ChunkingOptions,
+	'chunkSize' | 'overlap' | 'maxTokens' | 'minTokens' | 'similarityThreshold'
+>
+
+/**
+ * Record of what one ingest wrote for a document, stored at manifests/{docId}.json
+ */
+export interface DocumentManifest {
+	documentId: string
+	source: string
+	url?: string
+	/** Source metadata of the document, e.g. acl or file_name */
+	metadata: Record<string, any>
+	embeddingModel: string
+	chunkingStrategy: ChunkingStrategy
+	/** Reapplied when the document is updated or reindexed */
+	chunkingOptions?: ManifestChunkingOptions
+	/** Policy the stored chunks went through, unset when DLP was off */
+	dlpPolicy?: DlpPolicy
+	chunks: ManifestChunk[]
+	ingestedAt: string
+	/** Set by a soft delete */
+	deletedAt?: string
+}
+
+export interface ManifestInput {
+	documentId: string
+	source: string
+	url?: string
+	metadata?: Record<string, any>
+	embeddingModel: string
+	chunkingStrategy: ChunkingStrategy
+	chunkingOptions?: ManifestChunkingOptions
+	dlpPolicy?: DlpPolicy
+	/** Stored chunk text, in chunk order */
+	chunks: Array<{ index: number; text: string; section?: string }>
+}
+
+/**
+ * Chunks of a new manifest grouped by what re-ingesting needs to do with them
+ */
+export interface ManifestDiff {
+	/** Embed and upsert: chunk ids the previous manifest did not have */
+	added: ManifestChunk[]
+	/** Embed and upsert: same id, different content */
+	changed: ManifestChunk[]
+	/** Skip: same id and content as the stored vector */
+	unchanged: ManifestChunk[]
+	/** Delete: chunks of the previous manifest that no longer exist */
+	removed: ManifestChunk[]
+}
+
+export const manifestKey = (documentId: string) => `manifests/${documentId}.json`
+
+export const chunkId = (documentId: string, index: number) => `${documentId}#${index}`
+
+export const chunkKey = (id: string) => `chunks/${id}.txt`
+
+/** Cleaned document text before DLP, which a reindex starts from */
+export const documentTextKey = (documentId: string) => `texts/${documentId}.txt`
+
+/**
+ * Build the manifest of an ingest, hashing each chunk's text
+ */
+export async function buildManifest(input: ManifestInput): Promise<DocumentManifest> {
+	const chunks = await Promise.all(
+		input.chunks.map(async (chunk) => {
+			const id = chunkId(input.documentId, chunk.index)
+			return {
+				id,
+				index: chunk.index,
+				key: chunkKey(id),
+				contentHash: await sha256Hex(chunk.text),
+				section: chunk.section || undefined,
+			}
+		})
+	)
+
+	return {
+		documentId: input.documentId,
+		source: input.source,
+		url: input.url,
+		metadata: input.metadata ?? {},
+		embeddingModel: input.embeddingModel,
+		chunkingStrategy: input.chunkingStrategy,
+		chunkingOptions: input.chunkingOptions,
+		dlpPolicy: input.dlpPolicy,
+		chunks,
+		ingestedAt: new Date().toISOString(),
+	}
+}
+
+/**
+ * Compare a new manifest with the previous one of the same document. Stored
+ * vectors are only reused when they were embedded with the same model and carry
+ * the same source, URL and ACL metadata; otherwise every chunk counts as changed.
+ */
+export function diffManifests(
+	previous: DocumentManifest | null | undefined,
+	next: DocumentManifest
+): ManifestDiff {
+	const previousChunks = new Map((previous?.chunks ?? []).map((chunk) => [chunk.id, chunk]))
+	const reusable =
+		!!previous &&
+		!previous.deletedAt &&
+		previous.embeddingModel === next.embeddingModel &&
+		previous.source === next.source &&
+		(previous.url ?? '') === (next.url ?? '') &&
+		JSON.stringify(previous.metadata.acl ?? []) === JSON.stringify(next.metadata.acl ?? [])
+
+	const diff: ManifestDiff = { added: [], changed: [], unchanged: [], removed: [] }
+	for (const chunk of next.chunks) {
+		const old = previousChunks.get(chunk.id)
+		if (!old) {
+			diff.added.push(chunk)
+		} else if (
+			reusable &&
+			old.contentHash === chunk.contentHash &&
+			(old.section ?? '') === (chunk.section ?? '')
+		) {
+			diff.unchanged.push(chunk)
+		} else {
+			diff.changed.push(chunk)
+		}
+		previousChunks.delete(chunk.id)
+	}
+	diff.removed = [...previousChunks.values()]
+
+	return diff
+}
@@ -0,0 +1,127 @@
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	rsquo: '’',
+	lsquo: '‘',
+	rdquo: '”',
+	ldquo: '“',
+}
+
+/**
+ * Decode named and numeric HTML entities
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1] === 'x' || entity[1] === 'X'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10)
+			return Number.isNaN(code) ? match : String.fromCodePoint(code)
+		}
+		return ENTITIES[entity.toLowerCase()] ?? match
+	})
+}
+
+/**
+ * Remove all tags and decode entities, collapsing whitespace
+ */
+export function stripTags(html: string): string {
+	return decodeEntities(html.replace(/<[^>]*>/g, ' '))
+		.replace(/\s+/g, ' ')
+		.trim()
+}
+
+/**
+ * Heuristic check for HTML input
+ */
+export function looksLikeHtml(text: string): boolean {
+	return /<(html|body|article|main|section|div|p|h[1-6]|ul|ol|table|pre)\b[^>]*>/i.test(text)
+}
+
+/**
+ * Convert HTML into Markdown, keeping the structure that chunking relies on:
+ * headings, paragraphs, lists, tables and preformatted code.
+ */
+export function htmlToMarkdown(html: string): string {
+	// Preformatted blocks are swapped for placeholders so later passes leave them alone
+	const preserved: string[] = []
+	const preserve = (markdown: string) => {
+		preserved.push(markdown)
+		return `\n\n@@PRESERVED_${preserved.length - 1}@@\n\n`
+	}
+
+	let text = html
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+
+	text = text.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+		const language = /class="[^"]*language-([\w-]+)/i.exec(inner)?.[1] ?? ''
+		const code = decodeEntities(inner.replace(/<[^>]*>/g, '')).replace(/^\n+|\s+$/g, '')
+		return preserve(`\`\`\`${language}\n${code}\n\`\`\``)
+	})
+
+	text = text.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_, inner: string) =>
+		preserve(tableToMarkdown(inner))
+	)
+
+	text = text
+		.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => {
+			return `\n\n${'#'.repeat(Number(level))} ${stripTags(inner)}\n\n`
+		})
+		.replace(/<li\b[^>]*>([\s\S]*?)<\/li>/gi, (_, inner: string) => `\n- ${stripTags(inner)}`)
+		.replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner: string) => `\`${stripTags(inner)}\``)
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(
+			/<\/?(p|div|section|article|main|header|footer|aside|nav|blockquote|ul|ol|dl)\b[^>]*>/gi,
+			'\n\n'
+		)
+		.replace(/<[^>]*>/g, '')
+
+	text = decodeEntities(text)
+		.split('\n')
+		.map((line) => line.replace(/[ \t]+/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+
+	return text.replace(/@@PRESERVED_(\d+)@@/g, (_, index: string) => preserved[Number(index)]).trim()
+}
+
+/**
+ * Render rows of cell text as a Markdown table, the first row being the header
+ */
+export function formatMarkdownTable(rows: string[][]): string {
+	if (rows.length === 0) {
+		return ''
+	}
+
+	const width = Math.max(...rows.map((row) => row.length))
+	const lines = rows.map(
+		(row) =>
+			`| ${Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`
+	)
+	lines.splice(1, 0, `| ${Array.from({ length: width }, () => '---').join(' | ')} |`)
+
+	return lines.join('\n')
+}
+
+function tableToMarkdown(tableHtml: string): string {
+	const rows: string[][] = []
+	for (const row of tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)) {
+		const cells = Array.from(row[1].matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi), (cell) =>
+			stripTags(cell[1])
+		)
+		if (cells.length > 0) {
+			rows.push(cells)
+		}
+	}
+
+	return formatMarkdownTable(rows)
+}
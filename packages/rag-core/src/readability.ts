@@ -0,0 +1,446 @@
+import { decodeEntities, htmlToMarkdown } from './markup'
+
+export interface ReadableContent {
+	title?: string
+	/** Main content of the page as Markdown, headed by the title when it has no heading of its own */
+	markdown: string
+	/** `<link rel="canonical">`, resolved against the page URL */
+	canonicalUrl?: string
+	description?: string
+	siteName?: string
+	language?: string
+	/** The page asks not to be indexed (`<meta name="robots" content="noindex">`) */
+	noIndex: boolean
+}
+
+interface HtmlElement {
+	tag: string
+	attributes: Record<string, string>
+	children: HtmlNode[]
+	parent?: HtmlElement
+}
+
+type HtmlNode = HtmlElement | string
+
+const VOID_TAGS = new Set([
+	'area',
+	'base',
+	'br',
+	'col',
+	'embed',
+	'hr',
+	'img',
+	'input',
+	'link',
+	'meta',
+	'param',
+	'source',
+	'track',
+	'wbr',
+])
+
+// Blocks that end an open paragraph, as browsers do
+const BLOCK_TAGS = new Set([
+	'address',
+	'article',
+	'aside',
+	'blockquote',
+	'div',
+	'dl',
+	'figure',
+	'footer',
+	'form',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'header',
+	'hr',
+	'main',
+	'nav',
+	'ol',
+	'p',
+	'pre',
+	'section',
+	'table',
+	'ul',
+])
+
+// Elements an opening tag closes when it is the open one, e.g. <li> closes the previous <li>
+const IMPLIED_END: Record<string, string[]> = {
+	li: ['li'],
+	dt: ['dt', 'dd'],
+	dd: ['dt', 'dd'],
+	tr: ['tr', 'td', 'th'],
+	td: ['td', 'th'],
+	th: ['td', 'th'],
+	option: ['option'],
+}
+
+// Never main content
+const BOILERPLATE_TAGS = new Set([
+	'nav',
+	'aside',
+	'footer',
+	'form',
+	'button',
+	'select',
+	'textarea',
+	'dialog',
+	'menu',
+])
+
+const BOILERPLATE_ROLES = new Set([
+	'navigation',
+	'banner',
+	'contentinfo',
+	'complementary',
+	'dialog',
+	'alertdialog',
+	'search',
+])
+
+// Class and id patterns of boilerplate, unless they also look like content
+const UNLIKELY =
+	/banner|breadcrumb|combx|comment|community|cookie|consent|disqus|extra|foot|header|legends|menu|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|ad-break|agegate|pagination|pager|popup|modal|newsletter|subscribe|promo/i
+const MAYBE_CONTENT = /and|article|body|column|content|main|shadow/i
+
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i
+const NEGATIVE =
+	/-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i
+
+// Shorter paragraphs do not count towards their container's score
+const MIN_PARAGRAPH_LENGTH = 25
+
+/**
+ * Extract the main content of an HTML page, readability style: boilerplate
+ * (navigation, sidebars, footers, cookie banners) is dropped, the remaining
+ * paragraphs score their containers by length and commas, and the best scoring
+ * container, with the siblings that score close to it, becomes the content
+ */
+export function extractReadableContent(html: string, pageUrl?: string): ReadableContent {
+	const root = parseHtml(html)
+	const head = findFirst(root, 'head') ?? root
+	const meta = (key: string) => {
+		const content = findAll(head, 'meta').find(
+			(element) => (element.attributes.name ?? element.attributes.property)?.toLowerCase() === key
+		)?.attributes.content
+		return content === undefined ? undefined : decodeEntities(content)
+	}
+
+	const canonical = findAll(head, 'link').find((element) =>
+		element.attributes.rel?.toLowerCase().split(/\s+/).includes('canonical')
+	)?.attributes.href
+	const titleElement = findFirst(head, 'title')
+	const title = meta('og:title') ?? (titleElement ? textOf(titleElement) : undefined)
+
+	const body = findFirst(root, 'body') ?? root
+	removeBoilerplate(body)
+
+	const content = mainContent(body)
+	let markdown = htmlToMarkdown(content.map(serialize).join(''))
+	if (title && !/^# /m.test(markdown)) {
+		markdown = `# ${title}\n\n${markdown}`.trim()
+	}
+
+	return {
+		title: title || undefined,
+		markdown,
+		canonicalUrl: canonical ? resolveUrl(decodeEntities(canonical), pageUrl) : undefined,
+		description: meta('description') ?? meta('og:description'),
+		siteName: meta('og:site_name'),
+		language: findFirst(root, 'html')?.attributes.lang,
+		noIndex: /\bnoindex\b/i.test(meta('robots') ?? ''),
+	}
+}
+
+function mainContent(body: HtmlElement): HtmlNode[] {
+	const scores = new Map<HtmlElement, number>()
+	const initialScore = (element: HtmlElement) => {
+		if (!scores.has(element)) {
+			scores.set(element, tagScore(element.tag) + classWeight(element))
+		}
+		return scores.get(element)!
+	}
+
+	for (const paragraph of findAll(body, (element) => isParagraph(element))) {
+		const text = textOf(paragraph)
+		if (text.length < MIN_PARAGRAPH_LENGTH) {
+			continue
+		}
+
+		const commas = text.split(',').length - 1
+		const score = 1 + commas + Math.min(3, Math.floor(text.length / 100))
+		let ancestor = paragraph.parent
+		for (let level = 0; ancestor && ancestor !== body.parent && level < 3; level++) {
+			const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+			scores.set(ancestor, initialScore(ancestor) + score / divider)
+			ancestor = ancestor.parent
+		}
+	}
+
+	let top: HtmlElement | undefined
+	let topScore = 0
+	for (const [element, score] of scores) {
+		const final = score * (1 - linkDensity(element))
+		scores.set(element, final)
+		if (final > topScore) {
+			top = element
+			topScore = final
+		}
+	}
+	if (!top) {
+		return body.children
+	}
+
+	// Siblings that score close to the top candidate, or read like paragraphs, belong to the content
+	const siblings = top.parent?.children ?? [top]
+	const threshold = Math.max(10, topScore * 0.2)
+	return siblings.filter((sibling) => {
+		if (sibling === top) {
+			return true
+		}
+		if (typeof sibling === 'string') {
+			return false
+		}
+		if ((scores.get(sibling) ?? 0) >= threshold) {
+			return true
+		}
+		const text = textOf(sibling)
+		return sibling.tag === 'p' && text.length > 80 && linkDensity(sibling) < 0.25
+	})
+}
+
+function removeBoilerplate(element: HtmlElement): void {
+	element.children = element.children.filter((child) => {
+		if (typeof child === 'string') {
+			return true
+		}
+
+		const { attributes } = child
+		const names = `${attributes.class ?? ''} ${attributes.id ?? ''}`
+		const insideArticle = !!closest(child, (ancestor) => ['article', 'main'].includes(ancestor.tag))
+		const boilerplate =
+			BOILERPLATE_TAGS.has(child.tag) ||
+			(child.tag === 'header' && !insideArticle) ||
+			BOILERPLATE_ROLES.has(attributes.role ?? '') ||
+			'hidden' in attributes ||
+			attributes['aria-hidden'] === 'true' ||
+			/display:\s*none/i.test(attributes.style ?? '') ||
+			(!['body', 'article', 'main'].includes(child.tag) &&
+				UNLIKELY.test(names) &&
+				!MAYBE_CONTENT.test(names))
+		if (boilerplate) {
+			return false
+		}
+
+		removeBoilerplate(child)
+
+		// Link lists left inside the content, e.g. "related posts" or tag clouds
+		if (['ul', 'ol', 'div', 'section'].includes(child.tag) && !findFirst(child, 'pre')) {
+			const text = textOf(child)
+			return !(text.length < 200 && text.length > 0 && linkDensity(child) > 0.5)
+		}
+		return true
+	})
+}
+
+function isParagraph(element: HtmlElement): boolean {
+	if (['p', 'pre', 'td', 'blockquote'].includes(element.tag)) {
+		return true
+	}
+	// Divs used as paragraphs, text without block children
+	return (
+		element.tag === 'div' &&
+		!element.children.some((child) => typeof child !== 'string' && BLOCK_TAGS.has(child.tag))
+	)
+}
+
+function tagScore(tag: string): number {
+	switch (tag) {
+		case 'article':
+		case 'main':
+			return 10
+		case 'div':
+			return 5
+		case 'pre':
+		case 'td':
+		case 'blockquote':
+			return 3
+		case 'address':
+		case 'ol':
+		case 'ul':
+		case 'dl':
+		case 'dd':
+		case 'dt':
+		case 'li':
+			return -3
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6':
+		case 'th':
+			return -5
+		default:
+			return 0
+	}
+}
+
+function classWeight(element: HtmlElement): number {
+	let weight = 0
+	for (const name of [element.attributes.class, element.attributes.id]) {
+		if (name && NEGATIVE.test(name)) {
+			weight -= 25
+		}
+		if (name && POSITIVE.test(name)) {
+			weight += 25
+		}
+	}
+	return weight
+}
+
+function linkDensity(element: HtmlElement): number {
+	const length = textOf(element).length
+	if (length === 0) {
+		return 0
+	}
+	const linkLength = findAll(element, 'a').reduce((sum, link) => sum + textOf(link).length, 0)
+	return linkLength / length
+}
+
+/**
+ * Parse HTML into an element tree, tolerating unclosed and stray tags the way
+ * pages in the wild have them
+ */
+function parseHtml(html: string): HtmlElement {
+	const root: HtmlElement = { tag: '#root', attributes: {}, children: [] }
+	const stack: HtmlElement[] = [root]
+	const current = () => stack[stack.length - 1]
+
+	const source = html
+		.replace(/<!--[\s\S]*?-->/g, '')
+		.replace(/<!doctype[^>]*>/gi, '')
+		.replace(/<(script|style|noscript|template|svg|iframe|object)\b[\s\S]*?<\/\1\s*>/gi, '')
+
+	for (const token of source.matchAll(
+		/<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g
+	)) {
+		const [text, closing, rawTag, rawAttributes] = token
+		if (!rawTag) {
+			current().children.push(text)
+			continue
+		}
+
+		const tag = rawTag.toLowerCase()
+		if (closing) {
+			const index = stack.map((element) => element.tag).lastIndexOf(tag)
+			if (index > 0) {
+				stack.length = index
+			}
+			continue
+		}
+
+		if (current().tag === 'p' && BLOCK_TAGS.has(tag)) {
+			stack.pop()
+		}
+		if (IMPLIED_END[tag]?.includes(current().tag)) {
+			stack.pop()
+		}
+
+		const element: HtmlElement = {
+			tag,
+			attributes: parseAttributes(rawAttributes),
+			children: [],
+			parent: current(),
+		}
+		current().children.push(element)
+		if (!VOID_TAGS.has(tag) && !rawAttributes.trimEnd().endsWith('/')) {
+			stack.push(element)
+		}
+	}
+
+	return root
+}
+
+function parseAttributes(source: string): Record<string, string> {
+	const attributes: Record<string, string> = {}
+	for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(
+		/([^\s"'=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+	)) {
+		attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare ?? ''
+	}
+	return attributes
+}
+
+// Only the class survives, it carries the language of code blocks
+function serialize(node: HtmlNode): string {
+	if (typeof node === 'string') {
+		return node
+	}
+	const className = node.attributes.class ? ` class="${node.attributes.class}"` : ''
+	const children = node.children.map(serialize).join('')
+	return VOID_TAGS.has(node.tag)
+		? `<${node.tag}>`
+		: `<${node.tag}${className}>${children}</${node.tag}>`
+}
+
+function textOf(node: HtmlNode): string {
+	if (typeof node === 'string') {
+		return decodeEntities(node).replace(/\s+/g, ' ').trim()
+	}
+	return node.children.map(textOf).filter(Boolean).join(' ')
+}
+
+function findAll(
+	element: HtmlElement,
+	match: string | ((element: HtmlElement) => boolean)
+): HtmlElement[] {
+	const matches =
+		typeof match === 'string' ? (candidate: HtmlElement) => candidate.tag === match : match
+	const found: HtmlElement[] = []
+	for (const child of element.children) {
+		if (typeof child !== 'string') {
+			if (matches(child)) {
+				found.push(child)
+			}
+			found.push(...findAll(child, matches))
+		}
+	}
+	return found
+}
+
+function findFirst(element: HtmlElement, tag: string): HtmlElement | undefined {
+	for (const child of element.children) {
+		if (typeof child !== 'string') {
+			const found = child.tag === tag ? child : findFirst(child, tag)
+			if (found) {
+				return found
+			}
+		}
+	}
+	return undefined
+}
+
+function closest(
+	element: HtmlElement,
+	match: (ancestor: HtmlElement) => boolean
+): HtmlElement | undefined {
+	for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+		if (match(ancestor)) {
+			return ancestor
+		}
+	}
+	return undefined
+}
+
+function resolveUrl(href: string, base: string | undefined): string | undefined {
+	try {
+		return new URL(href, base).toString()
+	} catch {
+		return undefined
+	}
+}
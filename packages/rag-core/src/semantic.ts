@@ -0,0 +1,97 @@
+import { chunkByTokens } from './chunking'
+import { embedInBatches } from './embedding'
+import { countTokens, defaultTokenizer, getModelTokenBudget } from './tokenizer'
+
+import type { ChunkingOptions } from './chunking'
+import type { EmbeddingProvider } from './embedding'
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.75
+const DEFAULT_MIN_TOKENS = 64
+
+/**
+ * Split text into sentences
+ */
+export function splitSentences(text: string): string[] {
+	const segmenter = new Intl.Segmenter('en', { granularity: 'sentence' })
+	return Array.from(segmenter.segment(text), (s) => s.segment.trim()).filter(Boolean)
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0
+	let normA = 0
+	let normB = 0
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i]
+		normA += a[i] * a[i]
+		normB += b[i] * b[i]
+	}
+	return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Semantic chunking. Sentences are embedded, `batchSize` per call, and a new
+ * chunk starts wherever the similarity between adjacent sentences drops below
+ * the threshold, once the current chunk holds at least `minTokens`. Chunks
+ * never exceed `maxTokens`.
+ */
+export async function chunkBySemantics(
+	text: string,
+	options: ChunkingOptions,
+	embedding: EmbeddingProvider,
+	batchSize?: number
+): Promise<string[]> {
+	const tokenizer = options.tokenizer || defaultTokenizer
+	const budget = getModelTokenBudget(options.model)
+	const maxTokens = Math.min(options.maxTokens || budget, budget)
+	const minTokens = Math.min(options.minTokens ?? DEFAULT_MIN_TOKENS, maxTokens)
+	const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD
+
+	// Sentences that alone exceed the budget are split first
+	const sentences = splitSentences(text).flatMap((sentence) =>
+		countTokens(sentence, tokenizer) > maxTokens
+			? chunkByTokens(sentence, { maxTokens, model: options.model, tokenizer })
+			: [sentence]
+	)
+
+	if (sentences.length <= 1) {
+		return sentences
+	}
+
+	const { vectors, failures } = await embedInBatches(
+		embedding,
+		sentences.map((sentence, i) => ({ id: String(i), text: sentence })),
+		batchSize
+	)
+	if (failures.length > 0) {
+		throw new Error(`Embedding failed for sentence ${failures[0].id}: ${failures[0].error}`)
+	}
+	const embeddings = sentences.map((_, i) => vectors.get(String(i))!)
+
+	const chunks: string[] = []
+	let current: string[] = []
+	let currentTokens = 0
+
+	for (let i = 0; i < sentences.length; i++) {
+		const tokens = countTokens(sentences[i], tokenizer)
+
+		if (current.length > 0) {
+			const similarity = cosineSimilarity(embeddings[i - 1], embeddings[i])
+			const topicShift = similarity < threshold && currentTokens >= minTokens
+
+			if (topicShift || currentTokens + tokens > maxTokens) {
+				chunks.push(current.join(' '))
+				current = []
+				currentTokens = 0
+			}
+		}
+
+		current.push(sentences[i])
+		currentTokens += tokens
+	}
+
+	if (current.length > 0) {
+		chunks.push(current.join(' '))
+	}
+
+	return chunks
+}
@@ -0,0 +1,511 @@
+import { extractDocument } from './extraction'
+import { htmlToMarkdown } from './markup'
+import { timingSafeEqual } from './source-connector'
+
+import type { Document } from '@repo/rag-types'
+import type { SourceConnector, SourceEnv, SourceEvent } from './source-connector'
+
+export const DEFAULT_GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0'
+export const DEFAULT_AUTHORITY_URL = 'https://login.microsoftonline.com'
+
+// Files above this size are skipped rather than downloaded into the worker
+const DEFAULT_MAX_FILE_BYTES = 25 * 1024 * 1024
+
+// Tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+
+export interface SharePointConnectorConfig {
+	tenantId: string
+	clientId: string
+	clientSecret: string
+	/** Graph API root; point it at a local stand-in to test against */
+	graphBaseUrl?: string
+	/** Identity platform root the client credentials token is requested from */
+	authorityUrl?: string
+	maxFileBytes?: number
+	fetch?: typeof fetch
+}
+
+/**
+ * A drive item: a file in a document library
+ */
+export interface SharePointItemRef {
+	driveId: string
+	itemId: string
+}
+
+export interface SharePointChanges {
+	/** Files created or changed; fetched one by one so a large sync is spread over messages */
+	changedItems: SharePointItemRef[]
+	/** Documents whose items were deleted */
+	deletedDocumentIds: string[]
+	/** Pass as the next changeToken to get only what changed after this call */
+	deltaLink: string
+}
+
+/**
+ * A file downloaded from a drive, with its text and where it lives
+ */
+export interface SharePointFile {
+	driveId: string
+	item: GraphDriveItem
+	text: string
+	sitePath?: string
+	libraryPath?: string
+}
+
+export interface SharePointConnector {
+	/** The item as a Document, or null when it is gone, a folder or cannot be extracted */
+	fetchDocument(ref: SharePointItemRef): Promise<Document | null>
+	/** The item's file and text, or null when it is gone, a folder or cannot be extracted */
+	fetchFile(ref: SharePointItemRef): Promise<SharePointFile | null>
+	/** ACL entries of the item's permissions, see sharePointAcl */
+	itemAcl(ref: SharePointItemRef & { siteId?: string }): Promise<string[]>
+	toDocument(file: SharePointFile, acl: string[]): Document
+	/**
+	 * Files of a drive changed since `changeToken`, a delta link (or the token of
+	 * one) returned by an earlier call. Without it every file of the drive is listed.
+	 */
+	fetchChanges(driveId: string, changeToken?: string): Promise<SharePointChanges>
+}
+
+// The Graph resources and fields the connector reads
+export interface GraphIdentity {
+	id?: string
+	displayName?: string
+	email?: string
+	loginName?: string
+}
+
+export interface GraphPermission {
+	id: string
+	roles?: string[]
+	link?: { scope?: 'anonymous' | 'organization' | 'users' | 'existingAccess' }
+	grantedToV2?: Partial<Record<'user' | 'group' | 'siteUser' | 'siteGroup', GraphIdentity>>
+	grantedToIdentitiesV2?: Array<
+		Partial<Record<'user' | 'group' | 'siteUser' | 'siteGroup', GraphIdentity>>
+	>
+}
+
+export interface GraphDriveItem {
+	id: string
+	name?: string
+	webUrl?: string
+	size?: number
+	eTag?: string
+	lastModifiedDateTime?: string
+	createdBy?: { user?: GraphIdentity }
+	lastModifiedBy?: { user?: GraphIdentity }
+	parentReference?: { driveId?: string; siteId?: string; path?: string }
+	file?: { mimeType?: string }
+	folder?: object
+	root?: object
+	deleted?: { state?: string }
+}
+
+interface GraphCollection<T> {
+	value: T[]
+	'@odata.nextLink'?: string
+	'@odata.deltaLink'?: string
+}
+
+/**
+ * Document id of a drive item. Item ids are unique within a tenant and short
+ * enough to keep chunk ids inside Vectorize's 64 byte limit.
+ */
+export const sharePointDocumentId = (itemId: string) => `sharepoint-${itemId}`
+
+/**
+ * Drive and item of a webhook resource: a Graph path (`drives/{id}/items/{id}`,
+ * `drives/{id}/root`) or `{driveId}/{itemId}`. `driveId` and `itemId` in the
+ * event metadata take precedence.
+ */
+export function parseSharePointResource(
+	resourceId: string,
+	metadata: Record<string, any> = {}
+): Partial<SharePointItemRef> {
+	const graphPath = resourceId.match(/drives\/([^/]+)(?:\/items\/([^/?]+))?/)
+	const [driveId, itemId] = graphPath
+		? [graphPath[1], graphPath[2]]
+		: resourceId.split('/').filter(Boolean)
+
+	return {
+		driveId: metadata.driveId ?? driveId,
+		itemId: metadata.itemId ?? itemId,
+	}
+}
+
+/**
+ * ACL entries of an item's permissions: `user:{email}` and `group:{id}` for
+ * direct grants, `public` for anonymous links and `internal` for links anyone in
+ * the organization can open. Links for specific people grant nothing by themselves.
+ * When no permission maps onto an entry the item falls back to `site:{id}` (or
+ * `drive:{id}` without a site), so it is never indexed with an empty, public ACL.
+ */
+export function sharePointAcl(
+	permissions: GraphPermission[],
+	container: { driveId: string; siteId?: string }
+): string[] {
+	const acl = new Set<string>()
+
+	for (const permission of permissions) {
+		if (permission.link?.scope === 'anonymous') {
+			acl.add('public')
+		} else if (permission.link?.scope === 'organization') {
+			acl.add('internal')
+		}
+
+		const grants = [permission.grantedToV2, ...(permission.grantedToIdentitiesV2 ?? [])]
+		for (const grant of grants) {
+			const user = grant?.user ?? grant?.siteUser
+			const group = grant?.group ?? grant?.siteGroup
+			const userName = user?.email ?? user?.id
+			const groupName = group?.id ?? group?.displayName
+			if (userName) {
+				acl.add(`user:${userName.toLowerCase()}`)
+			}
+			if (groupName) {
+				acl.add(`group:${groupName}`)
+			}
+		}
+	}
+
+	if (acl.size === 0) {
+		return [container.siteId ? `site:${container.siteId}` : `drive:${container.driveId}`]
+	}
+	return [...acl].sort()
+}
+
+/**
+ * SharePoint document libraries through Microsoft Graph, authenticated with the
+ * client credentials of an app registration granted Sites.Read.All
+ */
+export function createSharePointConnector(config: SharePointConnectorConfig): SharePointConnector {
+	const graphBaseUrl = (config.graphBaseUrl ?? DEFAULT_GRAPH_BASE_URL).replace(/\/$/, '')
+	const authorityUrl = (config.authorityUrl ?? DEFAULT_AUTHORITY_URL).replace(/\/$/, '')
+	const maxFileBytes = config.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES
+	const fetcher = config.fetch ?? fetch
+
+	let token: { value: string; expiresAt: number } | undefined
+	// Drive and site web URLs, the library and site paths of every item in them
+	const webUrls = new Map<string, Promise<string | undefined>>()
+
+	async function accessToken(): Promise<string> {
+		if (token && token.expiresAt > Date.now()) {
+			return token.value
+		}
+
+		const response = await fetcher(`${authorityUrl}/${config.tenantId}/oauth2/v2.0/token`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+			body: new URLSearchParams({
+				client_id: config.clientId,
+				client_secret: config.clientSecret,
+				scope: `${new URL(graphBaseUrl).origin}/.default`,
+				grant_type: 'client_credentials',
+			}),
+		})
+		if (!response.ok) {
+			throw new Error(`SharePoint token request failed: ${response.status}`)
+		}
+
+		const body = await response.json<{ access_token: string; expires_in: number }>()
+		token = {
+			value: body.access_token,
+			expiresAt: Date.now() + body.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+		}
+		return token.value
+	}
+
+	// Paths are relative to the Graph root, absolute URLs must be on it (delta and next links)
+	async function graph(pathOrUrl: string): Promise<Response> {
+		const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${graphBaseUrl}${pathOrUrl}`
+		if (!url.startsWith(`${graphBaseUrl}/`)) {
+			throw new Error(`Refusing to send Graph credentials to ${new URL(url).origin}`)
+		}
+
+		return fetcher(url, { headers: { Authorization: `Bearer ${await accessToken()}` } })
+	}
+
+	async function graphJson<T>(pathOrUrl: string): Promise<T | null> {
+		const response = await graph(pathOrUrl)
+		if (response.status === 404) {
+			return null
+		}
+		if (!response.ok) {
+			// The status stays in the message so 429 and 503 are retried
+			throw new Error(`Graph request failed: ${response.status}`)
+		}
+		return response.json<T>()
+	}
+
+	async function listAll<T>(path: string): Promise<T[]> {
+		const values: T[] = []
+		let next: string | undefined = path
+		while (next) {
+			const page: GraphCollection<T> | null = await graphJson<GraphCollection<T>>(next)
+			values.push(...(page?.value ?? []))
+			next = page?.['@odata.nextLink']
+		}
+		return values
+	}
+
+	function webUrlOf(path: string): Promise<string | undefined> {
+		let webUrl = webUrls.get(path)
+		if (!webUrl) {
+			webUrl = graphJson<{ webUrl?: string }>(`${path}?$select=webUrl`).then(
+				(resource) => resource?.webUrl
+			)
+			webUrls.set(path, webUrl)
+		}
+		return webUrl
+	}
+
+	async function itemText(ref: SharePointItemRef, item: GraphDriveItem): Promise<string | null> {
+		const response = await graph(`/drives/${ref.driveId}/items/${ref.itemId}/content`)
+		if (response.status === 404) {
+			return null
+		}
+		if (!response.ok) {
+			throw new Error(`Graph request failed: ${response.status}`)
+		}
+
+		const bytes = new Uint8Array(await response.arrayBuffer())
+		if (item.file?.mimeType === 'text/html') {
+			return htmlToMarkdown(new TextDecoder().decode(bytes))
+		}
+
+		try {
+			return (await extractDocument(bytes)).text
+		} catch {
+			// Images, archives and other formats without text
+			return null
+		}
+	}
+
+	async function fetchFile(ref: SharePointItemRef): Promise<SharePointFile | null> {
+		const item = await graphJson<GraphDriveItem>(`/drives/${ref.driveId}/items/${ref.itemId}`)
+		if (!item?.file || item.deleted || (item.size ?? 0) > maxFileBytes) {
+			return null
+		}
+
+		const text = await itemText(ref, item)
+		if (!text?.trim()) {
+			return null
+		}
+
+		const siteId = item.parentReference?.siteId
+		const [libraryUrl, siteUrl] = await Promise.all([
+			webUrlOf(`/drives/${ref.driveId}`),
+			siteId ? webUrlOf(`/sites/${siteId}`) : undefined,
+		])
+
+		return {
+			driveId: ref.driveId,
+			item,
+			text,
+			sitePath: urlPath(siteUrl),
+			libraryPath: urlPath(libraryUrl),
+		}
+	}
+
+	async function itemAcl(ref: SharePointItemRef & { siteId?: string }): Promise<string[]> {
+		const permissions = await listAll<GraphPermission>(
+			`/drives/${ref.driveId}/items/${ref.itemId}/permissions`
+		)
+		return sharePointAcl(permissions, ref)
+	}
+
+	function toDocument(
+		{ driveId, item, text, sitePath, libraryPath }: SharePointFile,
+		acl: string[]
+	): Document {
+		return {
+			id: sharePointDocumentId(item.id),
+			text,
+			source: 'sharepoint',
+			url: item.webUrl,
+			metadata: {
+				title: item.name,
+				acl,
+				siteId: item.parentReference?.siteId,
+				driveId,
+				itemId: item.id,
+				sitePath,
+				libraryPath,
+				// Folder inside the library, from Graph's "/drives/{id}/root:/Folder" form
+				folderPath: decodeURIComponent(item.parentReference?.path?.split('root:')[1] || '/'),
+				mimeType: item.file?.mimeType,
+				eTag: item.eTag,
+				author: item.createdBy?.user?.displayName,
+				lastModifiedBy: item.lastModifiedBy?.user?.displayName,
+				lastModified: item.lastModifiedDateTime,
+			},
+		}
+	}
+
+	return {
+		async fetchDocument(ref) {
+			const file = await fetchFile(ref)
+			return file
+				? toDocument(file, await itemAcl({ ...ref, siteId: file.item.parentReference?.siteId }))
+				: null
+		},
+
+		fetchFile,
+		itemAcl,
+		toDocument,
+
+		async fetchChanges(driveId, changeToken) {
+			let next: string | undefined = !changeToken
+				? `/drives/${driveId}/root/delta`
+				: changeToken.startsWith('http')
+					? changeToken
+					: `/drives/${driveId}/root/delta?token=${encodeURIComponent(changeToken)}`
+
+			const changes: SharePointChanges = { changedItems: [], deletedDocumentIds: [], deltaLink: '' }
+
+			while (next) {
+				const page: GraphCollection<GraphDriveItem> | null =
+					await graphJson<GraphCollection<GraphDriveItem>>(next)
+				if (!page) {
+					throw new Error(`Drive not found: ${driveId}`)
+				}
+
+				// Folders are never ingested, so their changes and deletions are skipped
+				for (const item of page.value) {
+					if (item.folder || item.root) {
+						continue
+					}
+					if (item.deleted) {
+						changes.deletedDocumentIds.push(sharePointDocumentId(item.id))
+					} else if (item.file) {
+						changes.changedItems.push({ driveId, itemId: item.id })
+					}
+				}
+
+				next = page['@odata.nextLink']
+				changes.deltaLink = page['@odata.deltaLink'] ?? changes.deltaLink
+			}
+
+			return changes
+		},
+	}
+}
+
+/**
+ * SharePoint as a webhook source. Drive events, and item events with a change
+ * token, are synced from the drive's delta; other item events fetch the item.
+ * Notifications must carry the clientState of the subscription when
+ * SHAREPOINT_CLIENT_STATE is set.
+ */
+export function sharePointSource(env: SourceEnv): SourceConnector<SharePointFile> {
+	let connector: SharePointConnector | undefined
+
+	function sharePoint(): SharePointConnector {
+		const { SHAREPOINT_TENANT_ID, SHAREPOINT_CLIENT_ID, SHAREPOINT_CLIENT_SECRET } = env
+		if (!SHAREPOINT_TENANT_ID || !SHAREPOINT_CLIENT_ID || !SHAREPOINT_CLIENT_SECRET) {
+			throw new Error(
+				'SharePoint is not configured: set SHAREPOINT_TENANT_ID, SHAREPOINT_CLIENT_ID and SHAREPOINT_CLIENT_SECRET'
+			)
+		}
+
+		// One per source, so a batch of events shares the access token
+		connector ??= createSharePointConnector({
+			tenantId: SHAREPOINT_TENANT_ID,
+			clientId: SHAREPOINT_CLIENT_ID,
+			clientSecret: SHAREPOINT_CLIENT_SECRET,
+			graphBaseUrl: env.SHAREPOINT_GRAPH_URL,
+			authorityUrl: env.SHAREPOINT_AUTHORITY_URL,
+		})
+		return connector
+	}
+
+	function resourceOf(event: SourceEvent): Partial<SharePointItemRef> & { driveId: string } {
+		const { driveId, itemId } = parseSharePointResource(event.resourceId, event.metadata)
+		if (!driveId) {
+			throw new Error(`No SharePoint drive in resource ${event.resourceId}`)
+		}
+		return { driveId, itemId }
+	}
+
+	return {
+		sourceType: 'sharepoint',
+
+		async verifyWebhook(_request, body) {
+			const clientState = env.SHAREPOINT_CLIENT_STATE
+			if (!clientState) {
+				return true
+			}
+			try {
+				// Graph sends every notification with the clientState its subscription was created with
+				const received = JSON.parse(body).metadata?.clientState
+				return typeof received === 'string' && timingSafeEqual(received, clientState)
+			} catch {
+				return false
+			}
+		},
+
+		async listChanges(event, state) {
+			const { driveId, itemId } = resourceOf(event)
+			// Drive notifications do not say what changed, the delta since the last sync does
+			if (itemId && !event.changeToken) {
+				return null
+			}
+
+			const key = `${encodeURIComponent(driveId)}/delta-link.txt`
+			const changes = await sharePoint().fetchChanges(
+				driveId,
+				event.changeToken ?? (await state.checkpoint(key)) ?? undefined
+			)
+
+			return {
+				events: changes.changedItems.map((changed) => ({
+					eventType: 'updated' as const,
+					resourceId: `drives/${driveId}/items/${changed.itemId}`,
+					resourceUrl: event.resourceUrl,
+					metadata: { ...changed },
+				})),
+				deletedDocumentIds: changes.deletedDocumentIds,
+				checkpoint: { key, value: changes.deltaLink },
+			}
+		},
+
+		async documentId(event) {
+			const { itemId } = resourceOf(event)
+			if (!itemId) {
+				throw new Error(`No SharePoint item in resource ${event.resourceId}`)
+			}
+			return sharePointDocumentId(itemId)
+		},
+
+		async fetchResource(event) {
+			const { driveId, itemId } = resourceOf(event)
+			if (!itemId) {
+				throw new Error(`No SharePoint item in resource ${event.resourceId}`)
+			}
+
+			// A moved item keeps its id, so it is ingested again with its new URL and paths
+			const file = await sharePoint().fetchFile({ driveId, itemId })
+			return file
+				? { status: 'fetched', resource: file }
+				: { status: 'skipped', reason: 'not a file with text' }
+		},
+
+		resolveAcl(file) {
+			return sharePoint().itemAcl({
+				driveId: file.driveId,
+				itemId: file.item.id,
+				siteId: file.item.parentReference?.siteId,
+			})
+		},
+
+		toDocument(file, acl) {
+			return sharePoint().toDocument(file, acl)
+		},
+	}
+}
+
+function urlPath(url: string | undefined): string | undefined {
+	return url ? decodeURIComponent(new URL(url).pathname) : undefined
+}
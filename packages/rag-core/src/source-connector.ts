@@ -0,0 +1,159 @@
+import { hmacSha256Hex } from './hash'
+
+import type { Document } from '@repo/rag-types'
+import type { ChunkingStrategy } from './chunking'
+import type { DocumentManifest } from './manifest'
+
+/**
+ * A change a source reported for one of its resources, as posted to the
+ * webhook route and queued for processing
+ */
+export interface SourceEvent {
+	sourceType: string
+	eventType: 'created' | 'updated' | 'deleted' | 'moved'
+	resourceId: string
+	resourceUrl: string
+	changeToken?: string
+	metadata: Record<string, any>
+}
+
+/**
+ * What earlier processing left behind, read by connectors to skip work
+ */
+export interface SourceState {
+	/** Manifest of the document's last ingest, null when it was never ingested or is deleted */
+	manifest(documentId: string): Promise<DocumentManifest | null>
+	/** Value saved under a checkpoint key by an earlier listing of the source */
+	checkpoint(key: string): Promise<string | null>
+}
+
+export interface SourceChanges {
+	/** Changed resources, queued as events of their own so each is fetched and retried separately */
+	events: Array<Omit<SourceEvent, 'sourceType'>>
+	/** Documents whose resources the source removed */
+	deletedDocumentIds: string[]
+	/** Saved once the changes are queued, so a failed listing is retried from the last checkpoint */
+	checkpoint?: { key: string; value: string }
+	/** Queue priority of the events, low for crawls that should not hold up other work */
+	priority?: 'low' | 'medium' | 'high'
+}
+
+export type SourceFetchResult<TResource> =
+	/** `checkpoint` is saved once the resource is queued, like a listing's */
+	| { status: 'fetched'; resource: TResource; checkpoint?: { key: string; value: string } }
+	/** Nothing to ingest: missing, unchanged since the last ingest, excluded or without text */
+	| { status: 'skipped'; reason: string }
+	/** The source removed the resource, or no longer lets it be indexed */
+	| { status: 'gone'; documentId: string }
+
+/**
+ * Everything the ingest pipeline needs to know about one kind of source. A
+ * resource is fetched, its ACL resolved and both turned into a Document as
+ * separate steps, so each is tested and reused on its own.
+ */
+export interface SourceConnector<TResource = any> {
+	readonly sourceType: string
+	/** Strategy the source's documents are chunked with, the pipeline's default otherwise */
+	chunkingStrategy?: ChunkingStrategy
+	/** Whether a webhook request came from the source; `body` is the raw request body */
+	verifyWebhook(request: Request, body: string): Promise<boolean>
+	/**
+	 * Resources changed according to an event about a collection (a drive, a
+	 * site), or null when the event is about a single resource
+	 */
+	listChanges(event: SourceEvent, state: SourceState): Promise<SourceChanges | null>
+	/** Document a resource is ingested as, for deleting it once the source has */
+	documentId(event: SourceEvent, state: SourceState): Promise<string>
+	fetchResource(event: SourceEvent, state: SourceState): Promise<SourceFetchResult<TResource>>
+	/** ACL entries of a fetched resource: public, internal, `user:{id}` and `group:{id}` */
+	resolveAcl(resource: TResource): Promise<string[]>
+	/** The resource as a Document, or null when it has no text to index */
+	toDocument(resource: TResource, acl: string[]): Document | null
+	/** Whether the manifest was ingested from this document, so it is not queued again */
+	isIngested?(document: Document, manifest: DocumentManifest): boolean
+}
+
+/**
+ * Bindings and secrets of the worker, which connectors read their settings from
+ */
+export type SourceEnv = Record<string, any>
+
+/**
+ * Creates a connector for a worker's environment. Settings are checked when
+ * first needed, so a worker without a source's credentials can still verify
+ * its webhooks.
+ */
+export type SourceConnectorFactory = (env: SourceEnv) => SourceConnector
+
+export interface SourceRegistry {
+	register(sourceType: string, factory: SourceConnectorFactory): SourceRegistry
+	has(sourceType: string): boolean
+	/** Registered source types, in registration order */
+	sourceTypes(): string[]
+	/** Connector of a registered source; throws for anything else */
+	create(sourceType: string, env: SourceEnv): SourceConnector
+}
+
+export function createSourceRegistry(): SourceRegistry {
+	const factories = new Map<string, SourceConnectorFactory>()
+
+	const registry: SourceRegistry = {
+		register(sourceType, factory) {
+			if (factories.has(sourceType)) {
+				throw new Error(`Source type already registered: ${sourceType}`)
+			}
+			factories.set(sourceType, factory)
+			return registry
+		},
+
+		has(sourceType) {
+			return factories.has(sourceType)
+		},
+
+		sourceTypes() {
+			return [...factories.keys()]
+		},
+
+		create(sourceType, env) {
+			const factory = factories.get(sourceType)
+			if (!factory) {
+				throw new Error(`Unsupported source type: ${sourceType}`)
+			}
+			return factory(env)
+		},
+	}
+
+	return registry
+}
+
+/**
+ * Check an `X-Hub-Signature-256` (or `X-Hub-Signature`) header of
+ * `sha256={hex HMAC of the body}`, as Jira, Confluence and GitHub sign webhooks.
+ * Without a secret nothing is checked.
+ */
+export async function verifyHubSignature(
+	request: Request,
+	body: string,
+	secret: string | undefined
+): Promise<boolean> {
+	if (!secret) {
+		return true
+	}
+
+	const header =
+		request.headers.get('X-Hub-Signature-256') ?? request.headers.get('X-Hub-Signature')
+	const signature = header?.match(/^sha256=([0-9a-f]+)$/i)?.[1]
+	if (!signature) {
+		return false
+	}
+	return timingSafeEqual(signature.toLowerCase(), await hmacSha256Hex(secret, body))
+}
+
+// Compares every character, so the time taken does not reveal where a guess went wrong
+export function timingSafeEqual(a: string, b: string): boolean {
+	let difference = a.length ^ b.length
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0)
+	}
+	return difference === 0
+}
@@ -0,0 +1,15 @@
+import { confluenceSource } from './confluence'
+import { jiraSource } from './jira'
+import { sharePointSource } from './sharepoint'
+import { createSourceRegistry } from './source-connector'
+import { websiteSource } from './website'
+
+/**
+ * Sources webhooks are accepted for. A new source is a module with a
+ * SourceConnector factory, registered here under the sourceType its events use.
+ */
+export const sourceRegistry = createSourceRegistry()
+	.register('sharepoint', sharePointSource)
+	.register('confluence', confluenceSource)
+	.register('jira', jiraSource)
+	.register('website', websiteSource)
@@ -0,0 +1,200 @@
+import { chunkByTokens } from './chunking'
+import { htmlToMarkdown, looksLikeHtml } from './markup'
+import { countTokens, defaultTokenizer, getModelTokenBudget } from './tokenizer'
+
+import type { ChunkingOptions, DocumentChunk } from './chunking'
+import type { Tokenizer } from './tokenizer'
+
+type BlockType = 'heading' | 'paragraph' | 'list' | 'table' | 'code'
+
+interface Block {
+	type: BlockType
+	text: string
+	level?: number
+}
+
+/**
+ * Split Markdown into top-level blocks
+ */
+export function parseMarkdownBlocks(markdown: string): Block[] {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+	const blocks: Block[] = []
+	let i = 0
+
+	const collect = (type: BlockType, matches: (line: string) => boolean) => {
+		const start = i
+		while (i < lines.length && matches(lines[i])) {
+			i++
+		}
+		blocks.push({ type, text: lines.slice(start, i).join('\n').trimEnd() })
+	}
+
+	while (i < lines.length) {
+		const line = lines[i]
+
+		if (line.trim() === '') {
+			i++
+			continue
+		}
+
+		const fence = /^\s*(`{3,}|~{3,})/.exec(line)
+		if (fence) {
+			const start = i++
+			while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+				i++
+			}
+			i = Math.min(i + 1, lines.length)
+			blocks.push({ type: 'code', text: lines.slice(start, i).join('\n') })
+			continue
+		}
+
+		const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line)
+		if (heading) {
+			blocks.push({ type: 'heading', text: heading[2], level: heading[1].length })
+			i++
+			continue
+		}
+
+		if (/^\s*\|/.test(line)) {
+			collect('table', (l) => /^\s*\|/.test(l))
+			continue
+		}
+
+		if (isListItem(line)) {
+			collect('list', (l) => isListItem(l) || /^\s{2,}\S/.test(l))
+			continue
+		}
+
+		collect(
+			'paragraph',
+			(l) => l.trim() !== '' && !/^(#{1,6}\s|\s*(`{3,}|~{3,})|\s*\|)/.test(l) && !isListItem(l)
+		)
+	}
+
+	return blocks
+}
+
+function isListItem(line: string): boolean {
+	return /^\s*([-*+]|\d+[.)])\s+/.test(line)
+}
+
+/**
+ * Structure-aware chunking for Markdown and HTML. Each chunk holds content
+ * from a single section and carries the breadcrumb of its ancestor headings.
+ * Tables and fenced code blocks are kept whole unless they alone exceed the
+ * token budget.
+ */
+export function chunkByStructure(text: string, options: ChunkingOptions = {}): DocumentChunk[] {
+	const tokenizer = options.tokenizer || defaultTokenizer
+	const budget = getModelTokenBudget(options.model)
+	const maxTokens = Math.min(options.maxTokens || budget, budget)
+	const markdown = looksLikeHtml(text) ? htmlToMarkdown(text) : text
+
+	const chunks: DocumentChunk[] = []
+	const headingStack: string[] = []
+	let current: string[] = []
+	let currentTokens = 0
+
+	const flush = () => {
+		if (current.length > 0) {
+			chunks.push({ text: current.join('\n\n'), headings: headingStack.filter(Boolean) })
+		}
+		current = []
+		currentTokens = 0
+	}
+
+	for (const block of parseMarkdownBlocks(markdown)) {
+		if (block.type === 'heading') {
+			flush()
+			headingStack.length = block.level! - 1
+			headingStack[block.level! - 1] = block.text
+			continue
+		}
+
+		const tokens = countTokens(block.text, tokenizer)
+
+		if (tokens > maxTokens) {
+			flush()
+			for (const part of splitOversizedBlock(block, maxTokens, tokenizer, options.model)) {
+				chunks.push({ text: part, headings: headingStack.filter(Boolean) })
+			}
+			continue
+		}
+
+		if (currentTokens + tokens > maxTokens) {
+			flush()
+		}
+
+		current.push(block.text)
+		currentTokens += tokens
+	}
+
+	flush()
+
+	return chunks
+}
+
+/**
+ * Break a block that does not fit the budget. Tables repeat their header row
+ * and code keeps its fences in every part; a row or line that alone exceeds
+ * the budget is split by tokens.
+ */
+function splitOversizedBlock(
+	block: Block,
+	maxTokens: number,
+	tokenizer: Tokenizer,
+	model?: string
+): string[] {
+	if (block.type === 'paragraph' || block.type === 'list') {
+		return chunkByTokens(block.text, { maxTokens, tokenizer, model })
+	}
+
+	const lines = block.text.split('\n')
+	let prefix: string[] = []
+	let suffix: string[] = []
+	let body = lines
+
+	if (block.type === 'table') {
+		const hasSeparator = lines.length > 1 && /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[1])
+		prefix = lines.slice(0, hasSeparator ? 2 : 1)
+		body = lines.slice(prefix.length)
+	} else if (block.type === 'code') {
+		const closed = lines.length > 1 && /^\s*(`{3,}|~{3,})\s*$/.test(lines[lines.length - 1])
+		prefix = [lines[0]]
+		suffix = closed ? [lines[lines.length - 1]] : []
+		body = lines.slice(1, closed ? -1 : undefined)
+	}
+
+	const frameTokens = countTokens([...prefix, ...suffix].join('\n'), tokenizer)
+	const lineBudget = Math.max(1, maxTokens - frameTokens)
+	const parts: string[] = []
+	let part: string[] = []
+	let partTokens = frameTokens
+
+	const flush = () => {
+		if (part.length > 0) {
+			parts.push([...prefix, ...part, ...suffix].join('\n'))
+		}
+		part = []
+		partTokens = frameTokens
+	}
+
+	for (const line of body) {
+		const tokens = countTokens(line, tokenizer)
+		if (tokens > lineBudget) {
+			flush()
+			for (const piece of chunkByTokens(line, { maxTokens: lineBudget, tokenizer, model })) {
+				parts.push([...prefix, piece, ...suffix].join('\n'))
+			}
+			continue
+		}
+		if (partTokens + tokens > maxTokens) {
+			flush()
+		}
+		part.push(line)
+		partTokens += tokens
+	}
+	flush()
+
+	return parts
+}
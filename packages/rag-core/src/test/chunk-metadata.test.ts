@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	CHUNK_METADATA_VERSION,
+	diffMetadata,
+	migrateChunkMetadata,
+	parseMetadataList,
+	toStoredChunkMetadata,
+	toVectorMetadata,
+} from '../chunk-metadata'
+
+describe('migrateChunkMetadata()', () => {
+	it('should rewrite JSON array lists from unversioned metadata', () => {
+		const result = migrateChunkMetadata({
+			source: 'upload',
+			acl: '["hr","managers"]',
+			pii_types: '["email"]',
+			chunk_index: '3',
+		})
+
+		expect(result.fromVersion).toBe(1)
+		expect(result.applied).toEqual([2])
+		expect(result.metadata).toEqual({
+			source: 'upload',
+			acl: 'hr,managers',
+			pii_types: 'email',
+			chunk_index: '3',
+			schema_version: '2',
+		})
+		expect(result.changes).toEqual([
+			{ key: 'acl', before: '["hr","managers"]', after: 'hr,managers' },
+			{ key: 'pii_types', before: '["email"]', after: 'email' },
+			{ key: 'schema_version', before: undefined, after: '2' },
+		])
+	})
+
+	it('should leave metadata at the target version unchanged', () => {
+		const metadata = toStoredChunkMetadata({ source: 'upload', acl: ['hr'] })
+		const result = migrateChunkMetadata(metadata)
+
+		expect(result.applied).toEqual([])
+		expect(result.changes).toEqual([])
+		expect(result.metadata).toBe(metadata)
+	})
+
+	it('should reject versions no migration produces', () => {
+		expect(() => migrateChunkMetadata({}, CHUNK_METADATA_VERSION + 1)).toThrow(
+			'Unknown chunk metadata version'
+		)
+	})
+})
+
+describe('parseMetadataList()', () => {
+	it('should read arrays, JSON arrays and comma-separated strings', () => {
+		expect(parseMetadataList(['hr', 'it'])).toEqual(['hr', 'it'])
+		expect(parseMetadataList('["hr","it"]')).toEqual(['hr', 'it'])
+		expect(parseMetadataList('hr, it')).toEqual(['hr', 'it'])
+		expect(parseMetadataList('')).toEqual([])
+		expect(parseMetadataList(undefined)).toEqual([])
+	})
+})
+
+describe('toVectorMetadata()', () => {
+	it('should give the same vector metadata before and after storing in R2', () => {
+		const metadata = {
+			source: 'sharepoint',
+			url: 'https://example.com/doc',
+			chunk_index: 2,
+			doc_id: 'doc-1',
+			acl: ['hr', 'managers'],
+			section: 'Leave',
+			pii_types: ['email'],
+		}
+
+		expect(toVectorMetadata(toStoredChunkMetadata(metadata))).toEqual(toVectorMetadata(metadata))
+		expect(toVectorMetadata(metadata)).toEqual({
+			source: 'sharepoint',
+			url: 'https://example.com/doc',
+			acl: 'hr,managers',
+			chunkIndex: '2',
+			section: 'Leave',
+			piiTypes: 'email',
+		})
+	})
+
+	it('should default a missing ACL to public', () => {
+		expect(toVectorMetadata({ source: 'upload' }).acl).toBe('public')
+	})
+})
+
+describe('diffMetadata()', () => {
+	it('should report added, changed and removed keys', () => {
+		expect(diffMetadata({ a: '1', b: '2' }, { b: '3', c: '4' })).toEqual([
+			{ key: 'a', before: '1', after: undefined },
+			{ key: 'b', before: '2', after: '3' },
+			{ key: 'c', before: undefined, after: '4' },
+		])
+	})
+})
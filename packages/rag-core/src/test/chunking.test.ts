@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+
+import { chunkByTokens, chunkText } from '../chunking'
+import { getEmbeddingModel } from '../embedding'
+import { countTokens, getModelTokenBudget } from '../tokenizer'
+
+describe('chunkText()', () => {
+	it('should chunk by words by default', () => {
+		const text = Array.from({ length: 12 }, (_, i) => `w${i}`).join(' ')
+		expect(chunkText(text, { chunkSize: 5, overlap: 1 })).toEqual([
+			'w0 w1 w2 w3 w4',
+			'w4 w5 w6 w7 w8',
+			'w8 w9 w10 w11',
+		])
+	})
+
+	it('should dispatch to token chunking', () => {
+		const text = 'alpha beta gamma delta epsilon'
+		expect(chunkText(text, { strategy: 'token', maxTokens: 2 })).toEqual([
+			'alpha beta',
+			'gamma delta',
+			'epsilon',
+		])
+	})
+})
+
+describe('chunkByTokens()', () => {
+	it('should keep every chunk within the model budget', () => {
+		const text = Array.from({ length: 3000 }, (_, i) => `token${i}, value`).join(' ')
+		const chunks = chunkByTokens(text, { maxTokens: 10_000 })
+
+		expect(chunks.length).toBeGreaterThan(1)
+		for (const chunk of chunks) {
+			expect(countTokens(chunk)).toBeLessThanOrEqual(getModelTokenBudget())
+		}
+	})
+
+	it('should leave headroom below the model window for estimated counts', () => {
+		const { maxTokens } = getEmbeddingModel()
+		expect(getModelTokenBudget()).toBeLessThan(maxTokens - 2)
+		expect(getModelTokenBudget()).toBeGreaterThan(maxTokens / 2)
+	})
+
+	it('should overlap consecutive chunks by the requested tokens', () => {
+		const text = 'one two three four five six seven eight'
+		expect(chunkByTokens(text, { maxTokens: 4, overlap: 2 })).toEqual([
+			'one two three four',
+			'three four five six',
+			'five six seven eight',
+		])
+	})
+
+	it('should not split words across chunks', () => {
+		// "internationalization" is 4 pieces of 5 characters
+		const chunks = chunkByTokens('a internationalization b', { maxTokens: 4 })
+		expect(chunks).toEqual(['a', 'internationalization', 'b'])
+	})
+})
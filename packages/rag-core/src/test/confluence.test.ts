@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	confluenceDocumentId,
+	confluenceSpaceAcl,
+	confluenceStorageToMarkdown,
+	createConfluenceConnector,
+	parseConfluenceResource,
+} from '../confluence'
+import { connectStandIn } from './fetch-stand-in'
+
+import type { ConfluencePage } from '../confluence'
+
+const BASE = 'http://confluence.test/wiki'
+
+const runbook: ConfluencePage = {
+	id: '1001',
+	status: 'current',
+	title: 'Deploy runbook',
+	space: { key: 'OPS', name: 'Operations' },
+	version: { number: 7, when: '2025-06-01T10:00:00Z', by: { displayName: 'Grace Hopper' } },
+	history: { createdBy: { displayName: 'Ada Lovelace' } },
+	ancestors: [
+		{ id: '1', title: 'Operations home' },
+		{ id: '10', title: 'Runbooks' },
+	],
+	body: { storage: { value: '<p>Run the deploy script from the release branch.</p>' } },
+	metadata: { labels: { results: [{ name: 'deploy' }, { name: 'runbook' }] } },
+	restrictions: {
+		read: {
+			restrictions: {
+				user: { results: [{ accountId: 'ACC-1', email: 'Grace@Example.com' }] },
+				group: { results: [{ name: 'sre' }] },
+			},
+		},
+	},
+	_links: { base: BASE, webui: '/spaces/OPS/pages/1001/Deploy+runbook' },
+}
+
+// Everyone the page restrictions below name can read the space
+const opsSpace = {
+	permissions: [
+		{
+			operation: { operation: 'read', targetType: 'space' },
+			subjects: {
+				user: { results: [{ accountId: 'ACC-1', email: 'grace@example.com' }] },
+				group: { results: [{ name: 'sre' }, { name: 'ops-leads' }, { name: 'staff' }] },
+			},
+		},
+	],
+}
+
+const connect = (routes: Record<string, unknown>) =>
+	connectStandIn(
+		(fetch) =>
+			createConfluenceConnector({
+				baseUrl: BASE,
+				email: 'bot@example.com',
+				apiToken: 'token-1',
+				fetch,
+			}),
+		routes,
+		{ authorization: `Basic ${btoa('bot@example.com:token-1')}` }
+	)
+
+describe('confluenceStorageToMarkdown()', () => {
+	it('should convert code macros, panels, tables, links and task lists', () => {
+		const storage = [
+			'<h2>Steps</h2>',
+			'<ac:structured-macro ac:name="toc" />',
+			'<ac:structured-macro ac:name="info"><ac:rich-text-body>',
+			'<p>Check the <ac:link><ri:page ri:content-title="Release calendar" /></ac:link> first.</p>',
+			'<ac:structured-macro ac:name="code"><ac:parameter ac:name="language">bash</ac:parameter>',
+			'<ac:plain-text-body><![CDATA[deploy --env prod && echo "<done>"]]></ac:plain-text-body>',
+			'</ac:structured-macro>',
+			'</ac:rich-text-body></ac:structured-macro>',
+			'<table><tbody><tr><th><p>Env</p></th><th><p>Owner</p></th></tr>',
+			'<tr><td><p>prod</p></td><td><p><ac:link><ri:user ri:account-id="ACC-1" /></ac:link></p></td></tr>',
+			'</tbody></table>',
+			'<ac:task-list>',
+			'<ac:task><ac:task-status>complete</ac:task-status><ac:task-body>Tag the release</ac:task-body></ac:task>',
+			'<ac:task><ac:task-status>incomplete</ac:task-status><ac:task-body>Announce it</ac:task-body></ac:task>',
+			'</ac:task-list>',
+		].join('')
+
+		expect(confluenceStorageToMarkdown(storage)).toBe(
+			[
+				'## Steps',
+				'**Info**',
+				'Check the Release calendar first.',
+				'```bash\ndeploy --env prod && echo "<done>"\n```',
+				'| Env | Owner |\n| --- | --- |\n| prod | @user |',
+				'- [x] Tag the release\n- [ ] Announce it',
+			].join('\n\n')
+		)
+	})
+})
+
+describe('createConfluenceConnector()', () => {
+	it('should map a page onto a document with its space, ancestors, version, labels and ACL', async () => {
+		const { connector } = connect({
+			'/wiki/rest/api/content/1001': runbook,
+			'/wiki/rest/api/space/OPS': opsSpace,
+		})
+
+		expect(await connector.fetchDocument('1001')).toEqual({
+			id: 'confluence-1001',
+			text: 'Run the deploy script from the release branch.',
+			source: 'confluence',
+			url: `${BASE}/spaces/OPS/pages/1001/Deploy+runbook`,
+			metadata: expect.objectContaining({
+				title: 'Deploy runbook',
+				acl: ['group:sre', 'user:grace@example.com'],
+				pageId: '1001',
+				spaceKey: 'OPS',
+				ancestors: ['Operations home', 'Runbooks'],
+				parentId: '10',
+				version: 7,
+				labels: ['deploy', 'runbook'],
+				author: 'Ada Lovelace',
+				lastModifiedBy: 'Grace Hopper',
+				lastModified: '2025-06-01T10:00:00Z',
+			}),
+		})
+	})
+
+	it('should intersect the page restrictions with every restricted ancestor and the space', async () => {
+		const { connector, requests } = connect({
+			'/wiki/rest/api/content/1001': runbook,
+			'/wiki/rest/api/content/1/restriction/byOperation/read': {
+				restrictions: { group: { results: [{ name: 'sre' }, { name: 'staff' }] } },
+			},
+			'/wiki/rest/api/content/10/restriction/byOperation/read': { restrictions: {} },
+			'/wiki/rest/api/space/OPS': {
+				permissions: [
+					{
+						operation: { operation: 'read', targetType: 'space' },
+						subjects: { group: { results: [{ name: 'sre' }] } },
+					},
+				],
+			},
+		})
+
+		// Grace is let in by the page but neither by the home page nor the space
+		expect((await connector.fetchDocument('1001'))?.metadata?.acl).toEqual(['group:sre'])
+		expect(requests.map((request) => new URL(request.url).pathname).slice(1)).toEqual([
+			'/wiki/rest/api/content/1/restriction/byOperation/read',
+			'/wiki/rest/api/content/10/restriction/byOperation/read',
+			'/wiki/rest/api/space/OPS',
+		])
+	})
+
+	it('should inherit restricted ancestors, else the space permissions', async () => {
+		const unrestricted = { ...runbook, restrictions: undefined }
+		const { connector } = connect({
+			'/wiki/rest/api/content/1001': unrestricted,
+			'/wiki/rest/api/content/1/restriction/byOperation/read': {
+				restrictions: { group: { results: [{ name: 'ops-leads' }] } },
+			},
+			'/wiki/rest/api/space/OPS': opsSpace,
+		})
+
+		expect((await connector.fetchDocument('1001'))?.metadata?.acl).toEqual(['group:ops-leads'])
+
+		const { connector: open } = connect({
+			'/wiki/rest/api/content/1001': { ...unrestricted, ancestors: [] },
+			'/wiki/rest/api/space/OPS': {
+				permissions: [
+					{ operation: { operation: 'read', targetType: 'space' }, anonymousAccess: true },
+				],
+			},
+		})
+		expect((await open.fetchDocument('1001'))?.metadata?.acl).toEqual(['public'])
+	})
+
+	it('should deny the page when no entry is allowed by every layer', async () => {
+		// The space permissions cannot be read, so nothing is known to be common
+		const { connector } = connect({ '/wiki/rest/api/content/1001': runbook })
+
+		expect((await connector.fetchDocument('1001'))?.metadata?.acl).toEqual(['page:1001'])
+	})
+
+	it('should return null for missing and archived pages', async () => {
+		const { connector } = connect({
+			'/wiki/rest/api/content/2002': { ...runbook, id: '2002', status: 'archived' },
+		})
+
+		expect(await connector.fetchDocument('404')).toBeNull()
+		expect(await connector.fetchDocument('2002')).toBeNull()
+	})
+
+	it('should keep the status of failed requests in the error', async () => {
+		const connector = createConfluenceConnector({
+			baseUrl: BASE,
+			apiToken: 'pat-1',
+			fetch: (async () => new Response('Too many requests', { status: 429 })) as typeof fetch,
+		})
+
+		await expect(connector.fetchDocument('1001')).rejects.toThrow('429')
+	})
+})
+
+describe('confluenceSpaceAcl()', () => {
+	it('should keep only the subjects that can read the space', () => {
+		expect(
+			confluenceSpaceAcl([
+				{
+					operation: { operation: 'read', targetType: 'space' },
+					subjects: {
+						user: { results: [{ accountId: 'ACC-2' }] },
+						group: { results: [{ name: 'staff' }] },
+					},
+				},
+				{
+					operation: { operation: 'administer', targetType: 'space' },
+					subjects: { group: { results: [{ name: 'admins' }] } },
+				},
+			])
+		).toEqual(['group:staff', 'user:acc-2'])
+	})
+})
+
+describe('parseConfluenceResource()', () => {
+	it('should read the page id from metadata, ids and page URLs', () => {
+		expect(parseConfluenceResource('1001')).toBe('1001')
+		expect(
+			parseConfluenceResource('https://x.atlassian.net/wiki/spaces/OPS/pages/1001/Deploy')
+		).toBe('1001')
+		expect(parseConfluenceResource('/pages/viewpage.action?pageId=1001')).toBe('1001')
+		expect(parseConfluenceResource('OPS', { pageId: 1001 })).toBe('1001')
+		expect(confluenceDocumentId('1001')).toBe('confluence-1001')
+	})
+})
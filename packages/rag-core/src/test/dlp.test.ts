@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	applyDlpPolicy,
+	buildRedactionReport,
+	DEFAULT_PII_DETECTORS,
+	detectPii,
+	isValidIban,
+	isValidLuhn,
+	patternDetector,
+	scanChunks,
+	scanDocument,
+	tagChunk,
+} from '../dlp'
+
+const sample =
+	'Contact jane.doe@example.com or +44 20 7946 0958. Card 4111 1111 1111 1111, ' +
+	'SSN 123-45-6789, IBAN GB82 WEST 1234 5698 7654 32, key sk_live_abcdefghijklmnop1234.'
+
+describe('detectPii()', () => {
+	it('should find each entity type with offsets', () => {
+		const findings = detectPii(sample)
+
+		expect(findings.map((f) => [f.type, f.value])).toEqual([
+			['email', 'jane.doe@example.com'],
+			['phone', '+44 20 7946 0958'],
+			['credit_card', '4111 1111 1111 1111'],
+			['national_id', '123-45-6789'],
+			['iban', 'GB82 WEST 1234 5698 7654 32'],
+			['api_key', 'sk_live_abcdefghijklmnop1234'],
+		])
+		for (const finding of findings) {
+			expect(sample.slice(finding.start, finding.end)).toBe(finding.value)
+		}
+	})
+
+	it('should ignore numbers that fail checksums', () => {
+		expect(detectPii('Order 4111 1111 1111 1112 shipped')).toEqual([])
+		expect(detectPii('Ref GB82WEST12345698765433')).toEqual([])
+		expect(detectPii('Released on 2024-01-15, version 1.2.3')).toEqual([])
+	})
+
+	it('should find local numbers with consistent grouping', () => {
+		expect(
+			detectPii('Call 020 7946 0958 or 555-123-4567 or (555) 123 4567').map((f) => f.value)
+		).toEqual(['020 7946 0958', '555-123-4567', '(555) 123 4567'])
+	})
+
+	it('should not treat dates, times, IP addresses or versions as phone numbers', () => {
+		expect(detectPii('Deployed 2024-01-15 10:30:00 UTC')).toEqual([])
+		expect(detectPii('Logged at 2024-01-15 10 by cron')).toEqual([])
+		expect(detectPii('Started 12:30:45, finished 13:05:10')).toEqual([])
+		expect(detectPii('Connect to 192.168.100.200 or 10.250.100.12:8080')).toEqual([])
+		expect(detectPii('Upgrade to 10.0.19041.1234 or v2024.01.15.1')).toEqual([])
+	})
+
+	it('should report only the value of assigned secrets', () => {
+		expect(detectPii('config: api_key = "abc123def456ghi789"')).toEqual([
+			{ type: 'api_key', start: 19, end: 37, value: 'abc123def456ghi789' },
+		])
+	})
+
+	it('should accept custom detectors', () => {
+		const employeeId = patternDetector('employee_id', /\bEMP-\d{6}\b/g)
+		const result = applyDlpPolicy('Badge EMP-123456', 'redact', [
+			...DEFAULT_PII_DETECTORS,
+			employeeId,
+		])
+		expect(result.text).toBe('Badge [EMPLOYEE_ID]')
+	})
+})
+
+describe('applyDlpPolicy()', () => {
+	const text = 'Mail jane@example.com, card 4111-1111-1111-1111'
+
+	it('should redact with typed placeholders', () => {
+		expect(applyDlpPolicy(text, 'redact')).toMatchObject({
+			text: 'Mail [EMAIL], card [CREDIT_CARD]',
+			redactionCount: 2,
+			entityTypes: ['email', 'credit_card'],
+		})
+	})
+
+	it('should mask all but the last characters', () => {
+		expect(applyDlpPolicy(text, 'mask').text).toBe(
+			'Mail j***@example.com, card ****-****-****-1111'
+		)
+	})
+
+	it('should leave text unchanged when tagging only', () => {
+		expect(applyDlpPolicy(text, 'tag-only')).toMatchObject({
+			text,
+			redactionCount: 0,
+			entityTypes: ['email', 'credit_card'],
+		})
+	})
+})
+
+describe('scanChunks()', () => {
+	it('should reject documents containing PII under reject-document', () => {
+		expect(scanChunks(['clean text', 'jane@example.com'], 'reject-document').rejected).toBe(true)
+		expect(scanChunks(['clean text'], 'reject-document').rejected).toBe(false)
+	})
+
+	it('should total redactions across chunks', () => {
+		const result = scanChunks(['jane@example.com', 'no pii', 'bob@example.com 123-45-6789'])
+		expect(result.chunks.map((chunk) => chunk.redactionCount)).toEqual([1, 0, 2])
+		expect(result.redactionCount).toBe(3)
+	})
+})
+
+describe('scanDocument()', () => {
+	it('should find values a chunk boundary would cut', () => {
+		const text = 'Card 4111 1111 1111 1111, mail jane@example.com'
+		const scan = scanDocument(text)
+
+		expect(scan.text).toBe('Card [CREDIT_CARD], mail [EMAIL]')
+		expect(scanChunks([text.slice(0, 14), text.slice(14)]).redactionCount).toBe(1)
+		expect(scan.redactionCount).toBe(2)
+	})
+
+	it('should keep the text under tag-only and mark the values themselves', () => {
+		const scan = scanDocument('Mail jane@example.com', 'tag-only')
+		expect(scan.text).toBe('Mail jane@example.com')
+		expect(scan.markers).toEqual([{ type: 'email', text: 'jane@example.com', redacted: false }])
+	})
+})
+
+describe('tagChunk()', () => {
+	it('should tag each chunk by the markers in its text', () => {
+		const scan = scanDocument('jane@example.com and bob@example.com. SSN 123-45-6789')
+		expect(tagChunk('[EMAIL] and [EMAIL].', scan.markers)).toEqual({
+			redactionCount: 2,
+			entityTypes: ['email'],
+		})
+		expect(tagChunk('SSN [NATIONAL_ID]', scan.markers)).toEqual({
+			redactionCount: 1,
+			entityTypes: ['national_id'],
+		})
+		expect(tagChunk('no pii', scan.markers).entityTypes).toEqual([])
+	})
+
+	it('should not count tagged values as redactions', () => {
+		const scan = scanDocument('Mail jane@example.com', 'tag-only')
+		expect(tagChunk('Mail jane@example.com', scan.markers)).toEqual({
+			redactionCount: 0,
+			entityTypes: ['email'],
+		})
+	})
+})
+
+describe('buildRedactionReport()', () => {
+	it('should record offsets and salted hashes instead of values', async () => {
+		const scan = scanChunks(['no pii', 'Mail jane@example.com'])
+		const report = await buildRedactionReport('doc-1', 'redact', scan, 'salt')
+		const resalted = await buildRedactionReport('doc-1', 'redact', scan, 'other')
+
+		expect(report.records).toEqual([
+			{ entityType: 'email', chunkIndex: 1, start: 5, end: 21, valueHash: expect.any(String) },
+		])
+		expect(report.records[0].valueHash).toMatch(/^[0-9a-f]{64}$/)
+		expect(report.records[0].valueHash).not.toBe(resalted.records[0].valueHash)
+		expect(JSON.stringify(report)).not.toContain('jane@example.com')
+	})
+})
+
+describe('checksums', () => {
+	it('should validate Luhn and IBAN numbers', () => {
+		expect(isValidLuhn('4111 1111 1111 1111')).toBe(true)
+		expect(isValidLuhn('4111 1111 1111 1112')).toBe(false)
+		expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true)
+		expect(isValidIban('DE89 3704 0044 0532 0130 01')).toBe(false)
+	})
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+
+import { embeddingCacheKey, withEmbeddingCache } from '../embedding-cache'
+import { sha256Hex } from '../hash'
+
+import type { EmbeddingProvider } from '../embedding'
+import type { EmbeddingCacheBucket } from '../embedding-cache'
+
+const model = { id: '@cf/baai/bge-small-en-v1.5', dimensions: 3, maxTokens: 512 }
+
+// Provider recording the texts it was asked to embed
+const recordingProvider = () => {
+	const calls: string[][] = []
+	const provider: EmbeddingProvider = {
+		model,
+		async embed(texts) {
+			calls.push(texts)
+			return texts.map((text) => [text.length, 0, 1])
+		},
+	}
+	return { provider, calls }
+}
+
+// In-memory stand-in for an R2 bucket
+const memoryBucket = () => {
+	const objects = new Map<string, string>()
+	const bucket: EmbeddingCacheBucket = {
+		async get(key) {
+			const value = objects.get(key)
+			return value === undefined ? null : { json: async () => JSON.parse(value) }
+		},
+		async put(key, value) {
+			objects.set(key, value)
+		},
+	}
+	return { bucket, objects }
+}
+
+describe('embeddingCacheKey()', () => {
+	it('should key vectors by model and text hash', async () => {
+		expect(await embeddingCacheKey(model.id, 'Leave policy')).toBe(
+			`embeddings/${model.id}/${await sha256Hex('Leave policy')}.json`
+		)
+		expect(await embeddingCacheKey('@cf/baai/bge-base-en-v1.5', 'Leave policy')).not.toBe(
+			await embeddingCacheKey(model.id, 'Leave policy')
+		)
+	})
+})
+
+describe('withEmbeddingCache()', () => {
+	it('should only embed texts missing from the cache', async () => {
+		const { provider, calls } = recordingProvider()
+		const { bucket, objects } = memoryBucket()
+		const cached = withEmbeddingCache(provider, bucket)
+
+		expect(await cached.embed(['one', 'three'])).toEqual([
+			[3, 0, 1],
+			[5, 0, 1],
+		])
+		expect(await cached.embed(['three', 'four', 'one'])).toEqual([
+			[5, 0, 1],
+			[4, 0, 1],
+			[3, 0, 1],
+		])
+
+		expect(calls).toEqual([['one', 'three'], ['four']])
+		expect(objects.size).toBe(3)
+		expect(cached.stats).toEqual({ hits: 2, misses: 3 })
+	})
+
+	it('should fall back to the provider when the bucket fails', async () => {
+		const { provider, calls } = recordingProvider()
+		const cached = withEmbeddingCache(provider, {
+			get: async () => {
+				throw new Error('R2 unavailable')
+			},
+			put: async () => {
+				throw new Error('R2 unavailable')
+			},
+		})
+
+		expect(await cached.embed(['one'])).toEqual([[3, 0, 1]])
+		expect(calls).toEqual([['one']])
+		expect(cached.stats).toEqual({ hits: 0, misses: 1 })
+	})
+
+	it('should ignore cached vectors of the wrong size', async () => {
+		const { provider, calls } = recordingProvider()
+		const { bucket, objects } = memoryBucket()
+		objects.set(await embeddingCacheKey(model.id, 'one'), JSON.stringify([1, 2]))
+
+		expect(await withEmbeddingCache(provider, bucket).embed(['one'])).toEqual([[3, 0, 1]])
+		expect(calls).toEqual([['one']])
+	})
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	createWorkersAiProvider,
+	DEFAULT_EMBEDDING_MODEL,
+	embedInBatches,
+	getEmbeddingModel,
+} from '../embedding'
+
+import type { EmbeddingProvider } from '../embedding'
+
+// Stand-in for the Workers AI binding returning vectors of the given length
+const fakeAi = (dimensions: number) => ({
+	calls: [] as Array<[string, { text: string[] }]>,
+	async run(model: string, inputs: { text: string[] }) {
+		this.calls.push([model, inputs])
+		return {
+			shape: [inputs.text.length, dimensions],
+			data: inputs.text.map(() => Array(dimensions).fill(0.1)),
+		}
+	},
+})
+
+describe('getEmbeddingModel()', () => {
+	it('should resolve configured models and fall back to the default', () => {
+		expect(getEmbeddingModel('@cf/baai/bge-large-en-v1.5').dimensions).toBe(1024)
+		expect(getEmbeddingModel().id).toBe(DEFAULT_EMBEDDING_MODEL)
+		expect(() => getEmbeddingModel('@cf/unknown/model')).toThrow(
+			'Unknown embedding model: @cf/unknown/model'
+		)
+	})
+})
+
+describe('createWorkersAiProvider()', () => {
+	it('should embed texts with the registered model', async () => {
+		const ai = fakeAi(384)
+		const provider = createWorkersAiProvider(ai, '@cf/baai/bge-small-en-v1.5')
+
+		const vectors = await provider.embed(['first', 'second'])
+
+		expect(vectors).toHaveLength(2)
+		expect(ai.calls).toEqual([['@cf/baai/bge-small-en-v1.5', { text: ['first', 'second'] }]])
+	})
+
+	it('should reject vectors that do not match the model dimensions', async () => {
+		const provider = createWorkersAiProvider(fakeAi(384), '@cf/baai/bge-base-en-v1.5')
+
+		await expect(provider.embed(['text'])).rejects.toThrow(
+			'Expected 768-dimensional vectors from @cf/baai/bge-base-en-v1.5, got 384'
+		)
+	})
+})
+
+describe('embedInBatches()', () => {
+	// Provider that fails any call containing a text with "bad" in it
+	const provider = (calls: string[][]): EmbeddingProvider => ({
+		model: getEmbeddingModel(),
+		async embed(texts) {
+			calls.push(texts)
+			if (texts.some((text) => text.includes('bad'))) {
+				throw new Error('Model rejected input')
+			}
+			return texts.map((text) => [text.length])
+		},
+	})
+	const items = ['a', 'bb', 'ccc', 'bad', 'eeeee'].map((text, i) => ({ id: `doc#${i}`, text }))
+
+	it('should send up to batchSize texts per call and map vectors to ids', async () => {
+		const calls: string[][] = []
+		const result = await embedInBatches(provider(calls), items.slice(0, 3), 2)
+
+		expect(calls).toEqual([['a', 'bb'], ['ccc']])
+		expect([...result.vectors]).toEqual([
+			['doc#0', [1]],
+			['doc#1', [2]],
+			['doc#2', [3]],
+		])
+	})
+
+	it('should retry a failed batch one text at a time', async () => {
+		const calls: string[][] = []
+		const result = await embedInBatches(provider(calls), items, 3)
+
+		expect(calls).toEqual([['a', 'bb', 'ccc'], ['bad', 'eeeee'], ['bad'], ['eeeee']])
+		expect(result.vectors.get('doc#4')).toEqual([5])
+		expect(result.failures).toEqual([{ id: 'doc#3', error: 'Model rejected input' }])
+	})
+})
@@ -0,0 +1,191 @@
+import { strFromU8, strToU8, zipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+
+import { detectDocumentFormat, extractDocument, MAX_INFLATED_OOXML_BYTES } from '../extraction'
+
+const rels = (targets: Array<[string, string, string]>) =>
+	`<Relationships>${targets
+		.map(([id, type, target]) => `<Relationship Id="${id}" Type="${type}" Target="${target}"/>`)
+		.join('')}</Relationships>`
+
+const zip = (files: Record<string, string>) =>
+	zipSync(Object.fromEntries(Object.entries(files).map(([path, xml]) => [path, strToU8(xml)])))
+
+const docx = zip({
+	'word/document.xml': `<w:document><w:body>
+		<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Leave policy</w:t></w:r></w:p>
+		<w:p><w:r><w:t xml:space="preserve">Staff get </w:t></w:r><w:r><w:t>25 days &amp; more.</w:t></w:r></w:p>
+		<w:p><w:r><w:br w:type="page"/><w:t>Carry over</w:t></w:r></w:p>
+		<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Years</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Days</w:t></w:r></w:p></w:tc></w:tr>
+		<w:tr><w:tc><w:p><w:r><w:t>3+</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>25</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+	</w:body></w:document>`,
+})
+
+const pptx = zip({
+	'ppt/presentation.xml':
+		'<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>',
+	'ppt/_rels/presentation.xml.rels': rels([['rId2', 'http://x/slide', 'slides/slide1.xml']]),
+	'ppt/slides/slide1.xml': `<p:sld><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Roadmap</a:t></a:r></a:p></p:txBody></p:sp>
+		<p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Ship search</a:t></a:r></a:p><a:p><a:r><a:t>Ship ingest</a:t></a:r></a:p></p:txBody></p:sp>
+	</p:spTree></p:cSld></p:sld>`,
+	'ppt/slides/_rels/slide1.xml.rels': rels([
+		['rId1', 'http://x/notesSlide', '../notesSlides/notesSlide1.xml'],
+	]),
+	'ppt/notesSlides/notesSlide1.xml': `<p:notes><p:cSld><p:spTree>
+		<p:sp><p:nvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Mention Q3</a:t></a:r></a:p></p:txBody></p:sp>
+	</p:spTree></p:cSld></p:notes>`,
+})
+
+const xlsx = zip({
+	'xl/workbook.xml':
+		'<workbook><sheets><sheet name="Q&amp;A" sheetId="1" r:id="rId1"/></sheets></workbook>',
+	'xl/_rels/workbook.xml.rels': rels([['rId1', 'http://x/worksheet', 'worksheets/sheet1.xml']]),
+	'xl/sharedStrings.xml':
+		'<sst><si><t>Region</t></si><si><t>Total</t></si><si><t>EMEA</t></si></sst>',
+	'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+		<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+		<row r="2"/>
+		<row r="3"><c r="A3" t="s"><v>2</v></c><c r="C3"><v>42</v></c></row>
+	</sheetData></worksheet>`,
+})
+
+/**
+ * Overwrite the uncompressed size a zip's central directory declares for one entry
+ */
+const declareSize = (bytes: Uint8Array, name: string, size: number) => {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	for (let offset = 0; offset + 46 <= bytes.length; offset++) {
+		if (view.getUint32(offset, true) !== 0x02014b50) {
+			continue
+		}
+		const nameLength = view.getUint16(offset + 28, true)
+		if (strFromU8(bytes.subarray(offset + 46, offset + 46 + nameLength)) === name) {
+			view.setUint32(offset + 24, size, true)
+		}
+	}
+	return bytes
+}
+
+// Smallest valid PDF with one line of Helvetica text per page
+const pdf = (pages: string[]) => {
+	const font = 3 + pages.length * 2
+	const objects = [
+		'<< /Type /Catalog /Pages 2 0 R >>',
+		`<< /Type /Pages /Kids [${pages.map((_, i) => `${3 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+		...pages.flatMap((text, i) => {
+			const content = `BT /F1 12 Tf 20 200 Td (${text}) Tj ET`
+			return [
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 300] /Contents ${4 + i * 2} 0 R /Resources << /Font << /F1 ${font} 0 R >> >> >>`,
+				`<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+			]
+		}),
+		'<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+	]
+
+	let body = '%PDF-1.4\n'
+	const offsets = objects.map((object, i) => {
+		const offset = body.length
+		body += `${i + 1} 0 obj\n${object}\nendobj\n`
+		return offset
+	})
+	const xref = [
+		`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+		...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`),
+		`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${body.length}\n%%EOF`,
+	]
+	return strToU8(body + xref.join(''))
+}
+
+describe('detectDocumentFormat()', () => {
+	it('should detect formats from leading bytes', () => {
+		expect(detectDocumentFormat(strToU8('%PDF-1.7\n'))).toBe('pdf')
+		expect(detectDocumentFormat(docx)).toBe('docx')
+		expect(detectDocumentFormat(pptx)).toBe('pptx')
+		expect(detectDocumentFormat(xlsx)).toBe('xlsx')
+		expect(detectDocumentFormat(strToU8('# Notes'))).toBe('text')
+		expect(detectDocumentFormat(zip({ 'other.txt': 'x' }))).toBeUndefined()
+		expect(detectDocumentFormat(new Uint8Array([0xff, 0xd8, 0xff, 0x00]))).toBeUndefined()
+	})
+})
+
+describe('extractDocument()', () => {
+	it('should extract PDF text per page', async () => {
+		const extracted = await extractDocument(pdf(['Leave policy', 'Carry over']))
+
+		expect(extracted.format).toBe('pdf')
+		expect(extracted.parts.map((part) => [part.kind, part.number, part.text])).toEqual([
+			['page', 1, 'Leave policy'],
+			['page', 2, 'Carry over'],
+		])
+		expect(extracted.text).toBe('# Page 1\n\nLeave policy\n\n# Page 2\n\nCarry over')
+	})
+
+	it('should extract DOCX headings, tables and page breaks', async () => {
+		const extracted = await extractDocument(docx)
+
+		expect(extracted.text).toBe(
+			'# Leave policy\n\nStaff get 25 days & more.\n\nCarry over\n\n| Years | Days |\n| --- | --- |\n| 3+ | 25 |'
+		)
+		expect(extracted.parts.map((part) => [part.kind, part.number, part.text])).toEqual([
+			['page', 1, '# Leave policy\n\nStaff get 25 days & more.'],
+			['page', 2, 'Carry over\n\n| Years | Days |\n| --- | --- |\n| 3+ | 25 |'],
+		])
+	})
+
+	it('should extract PPTX slides with titles and speaker notes', async () => {
+		const extracted = await extractDocument(pptx)
+
+		expect(extracted.parts).toEqual([
+			{
+				kind: 'slide',
+				number: 1,
+				title: 'Roadmap',
+				text: 'Ship search\nShip ingest\n\nNotes: Mention Q3',
+			},
+		])
+		expect(extracted.text).toBe(
+			'# Slide 1: Roadmap\n\nShip search\nShip ingest\n\nNotes: Mention Q3'
+		)
+	})
+
+	it('should extract XLSX sheets as tables', async () => {
+		const extracted = await extractDocument(xlsx)
+
+		expect(extracted.mimeType).toBe(
+			'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+		)
+		expect(extracted.text).toBe(
+			'# Sheet 1: Q&A\n\n| Region | Total |  |\n| --- | --- | --- |\n| EMEA |  | 42 |'
+		)
+	})
+
+	it('should leave media parts compressed', async () => {
+		const withMedia = zipSync({
+			'word/document.xml': strToU8(
+				'<w:document><w:body><w:p><w:r><w:t>Hi</w:t></w:r></w:p></w:body></w:document>'
+			),
+			'word/media/image1.png': new Uint8Array(4096).fill(7),
+		})
+		// A media part declaring far more than the limit is never inflated
+		declareSize(withMedia, 'word/media/image1.png', MAX_INFLATED_OOXML_BYTES * 2)
+
+		expect((await extractDocument(withMedia)).text).toBe('Hi')
+	})
+
+	it('should reject packages whose XML expands beyond the limit', async () => {
+		const bomb = declareSize(
+			zip({ 'word/document.xml': '<w:document/>' }),
+			'word/document.xml',
+			MAX_INFLATED_OOXML_BYTES + 1
+		)
+
+		await expect(extractDocument(bomb)).rejects.toThrow('size limit')
+	})
+
+	it('should reject unsupported files', async () => {
+		await expect(extractDocument(new Uint8Array([0xff, 0xd8, 0xff, 0x00]))).rejects.toThrow(
+			'Unsupported document type'
+		)
+	})
+})
@@ -0,0 +1,53 @@
+/**
+ * Local stand-in for the HTTP APIs the source connectors read, so their specs
+ * run without a network
+ */
+
+export interface FetchStandInOptions {
+	/** Authorization header every request must carry, others are answered with a 401 */
+	authorization?: string
+	/** Answers a request before the routes and the authorization check, e.g. a token endpoint */
+	intercept?: (request: Request) => Response | undefined
+}
+
+/**
+ * A fetch serving `routes`, recording every request. Routes match on the path and
+ * query, or on the path alone; strings are served as text, anything else as JSON.
+ */
+export function fetchStandIn(routes: Record<string, unknown>, options: FetchStandInOptions = {}) {
+	const requests: Request[] = []
+
+	const fetcher = async (input: RequestInfo | URL, init?: RequestInit) => {
+		const request = new Request(input, init)
+		requests.push(request)
+		const url = new URL(request.url)
+
+		const intercepted = options.intercept?.(request)
+		if (intercepted) {
+			return intercepted
+		}
+		if (options.authorization && request.headers.get('Authorization') !== options.authorization) {
+			return new Response('Unauthorized', { status: 401 })
+		}
+
+		const route = routes[`${url.pathname}${url.search}`] ?? routes[url.pathname]
+		if (route === undefined) {
+			return new Response('Not found', { status: 404 })
+		}
+		return typeof route === 'string' ? new Response(route) : Response.json(route)
+	}
+
+	return { fetch: fetcher as typeof fetch, requests }
+}
+
+/**
+ * A connector created with a fetch stand-in, and the requests it made
+ */
+export function connectStandIn<T>(
+	create: (fetcher: typeof fetch) => T,
+	routes: Record<string, unknown>,
+	options?: FetchStandInOptions
+): { connector: T; requests: Request[] } {
+	const standIn = fetchStandIn(routes, options)
+	return { connector: create(standIn.fetch), requests: standIn.requests }
+}
@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	createJiraConnector,
+	jiraAcl,
+	jiraDocumentId,
+	parseJiraResource,
+	renderJiraIssue,
+} from '../jira'
+import { chunkByStructure } from '../structure'
+import { connectStandIn } from './fetch-stand-in'
+
+import type { JiraComment, JiraIssue } from '../jira'
+
+const BASE = 'http://jira.test'
+
+const issue: JiraIssue = {
+	id: '10042',
+	key: 'OPS-7',
+	fields: {
+		summary: 'Deploys fail on Mondays',
+		description: 'raw description',
+		issuetype: { name: 'Bug' },
+		status: { name: 'In Progress' },
+		priority: { name: 'High' },
+		project: { id: '100', key: 'OPS', name: 'Operations' },
+		assignee: { accountId: 'ACC-1', displayName: 'Grace Hopper' },
+		reporter: { accountId: 'ACC-2', emailAddress: 'Ada@Example.com', displayName: 'Ada Lovelace' },
+		labels: ['deploy', 'flaky'],
+		security: null,
+		updated: '2025-06-02T09:00:00.000+0000',
+		customfield_10016: 5,
+		customfield_10020: [{ value: 'Backend' }, { value: 'Infra' }],
+	},
+	renderedFields: {
+		description: '<p>The Monday deploy times out.</p><h1>Logs</h1><p>See the runner output.</p>',
+	},
+	names: { customfield_10016: 'Story points', customfield_10020: 'Components' },
+}
+
+const comments: JiraComment[] = [
+	{
+		id: '1',
+		author: { displayName: 'Grace Hopper' },
+		renderedBody: '<p>The cache warmup runs at the same time.</p>',
+		created: '2025-06-01T10:00:00.000+0000',
+	},
+	{
+		id: '2',
+		author: { displayName: 'Ada Lovelace' },
+		body: 'Moved the warmup to Sunday.',
+		created: '2025-06-02T08:00:00.000+0000',
+	},
+]
+
+const projectRoutes = {
+	'/rest/api/2/issue/10042/comment': { startAt: 0, maxResults: 100, total: 2, comments },
+	'/rest/api/2/project/100/permissionscheme': {
+		id: 1,
+		permissions: [
+			{ permission: 'BROWSE_PROJECTS', holder: { type: 'group', group: { name: 'ops' } } },
+			{ permission: 'BROWSE_PROJECTS', holder: { type: 'projectRole', projectRole: { id: 3 } } },
+			{ permission: 'BROWSE_PROJECTS', holder: { type: 'reporter' } },
+			{ permission: 'ADMINISTER_PROJECTS', holder: { type: 'group', group: { name: 'admins' } } },
+		],
+	},
+	'/rest/api/2/project/100/role/3': {
+		actors: [
+			{ type: 'atlassian-user-role-actor', actorUser: { accountId: 'ACC-9' } },
+			{ type: 'atlassian-group-role-actor', actorGroup: { name: 'contractors' } },
+		],
+	},
+}
+
+const connect = (routes: Record<string, unknown>) =>
+	connectStandIn(
+		(fetch) =>
+			createJiraConnector({
+				baseUrl: BASE,
+				email: 'bot@example.com',
+				apiToken: 'token-1',
+				customFields: ['customfield_10016', 'customfield_10020'],
+				fetch,
+			}),
+		routes,
+		{ authorization: `Basic ${btoa('bot@example.com:token-1')}` }
+	)
+
+describe('renderJiraIssue()', () => {
+	it('should render the description, custom fields and each comment as sections', () => {
+		const text = renderJiraIssue(issue, comments, ['customfield_10016', 'customfield_10020'])
+
+		expect(text).toBe(
+			[
+				'# OPS-7: Deploys fail on Mondays',
+				'## Description\n\nThe Monday deploy times out.\n\n### Logs\n\nSee the runner output.',
+				'## Story points\n\n5',
+				'## Components\n\nBackend, Infra',
+				'## Comments',
+				'### Comment 1 by Grace Hopper (2025-06-01)\n\nThe cache warmup runs at the same time.',
+				'### Comment 2 by Ada Lovelace (2025-06-02)\n\nMoved the warmup to Sunday.',
+			].join('\n\n')
+		)
+
+		// Every comment is a chunk of its own, cited by its heading
+		const chunks = chunkByStructure(text)
+		expect(chunks.map((chunk) => chunk.headings)).toContainEqual([
+			'OPS-7: Deploys fail on Mondays',
+			'Comments',
+			'Comment 2 by Ada Lovelace (2025-06-02)',
+		])
+		expect(chunks.find((chunk) => chunk.text.includes('Sunday'))?.text).toBe(
+			'Moved the warmup to Sunday.'
+		)
+	})
+})
+
+describe('createJiraConnector()', () => {
+	it('should map an issue onto a document with its fields and the browse ACL of its project', async () => {
+		const { connector } = connect({ ...projectRoutes, '/rest/api/2/issue/OPS-7': issue })
+
+		const document = await connector.fetchDocument('OPS-7')
+
+		expect(document).toEqual({
+			id: 'jira-10042',
+			text: expect.stringContaining('### Comment 2 by Ada Lovelace'),
+			source: 'jira',
+			url: `${BASE}/browse/OPS-7`,
+			metadata: expect.objectContaining({
+				title: 'OPS-7: Deploys fail on Mondays',
+				acl: ['group:contractors', 'group:ops', 'user:acc-9', 'user:ada@example.com'],
+				issueId: '10042',
+				issueKey: 'OPS-7',
+				projectKey: 'OPS',
+				issueType: 'Bug',
+				status: 'In Progress',
+				assignee: 'Grace Hopper',
+				labels: ['deploy', 'flaky'],
+				lastModified: '2025-06-02T09:00:00.000+0000',
+			}),
+		})
+	})
+
+	const secured = {
+		...issue,
+		fields: { ...issue.fields, security: { id: '500', name: 'Staff' } },
+	}
+	const levelRoutes = (holders: unknown[]) => ({
+		...projectRoutes,
+		'/rest/api/2/issue/OPS-7': secured,
+		'/rest/api/2/project/100/issuesecuritylevelscheme': { id: '20' },
+		'/rest/api/2/issuesecurityschemes/20/members': {
+			startAt: 0,
+			maxResults: 100,
+			isLast: true,
+			values: holders.map((holder) => ({ holder })),
+		},
+	})
+
+	it('should restrict issues with a security level to level members who can browse the project', async () => {
+		const { connector } = connect(
+			levelRoutes([
+				{ type: 'group', group: { name: 'staff' } },
+				{ type: 'group', group: { name: 'ops' } },
+				{ type: 'reporter' },
+				{ type: 'assignee' },
+			])
+		)
+
+		const document = await connector.fetchDocument('OPS-7')
+
+		expect(document?.metadata?.acl).toEqual(['group:ops', 'user:ada@example.com'])
+		expect(document?.metadata?.securityLevel).toBe('Staff')
+	})
+
+	it('should deny issues no entry is allowed by both the level and the project', async () => {
+		const { connector } = connect(levelRoutes([{ type: 'group', group: { name: 'staff' } }]))
+
+		expect((await connector.fetchDocument('OPS-7'))?.metadata?.acl).toEqual(['issue:OPS-7'])
+	})
+
+	it('should deny issues without a project', async () => {
+		const { connector } = connect(projectRoutes)
+		const orphan = { ...issue, fields: { ...issue.fields, project: undefined } }
+
+		expect(await connector.issueAcl(orphan)).toEqual(['issue:OPS-7'])
+	})
+
+	it('should page through long comment threads', async () => {
+		const thread = Array.from({ length: 101 }, (_, i) => ({ id: String(i), body: `Comment ${i}` }))
+		const { connector } = connect({
+			...projectRoutes,
+			'/rest/api/2/issue/OPS-7': issue,
+			'/rest/api/2/issue/10042/comment?expand=renderedBody&startAt=0&maxResults=100': {
+				startAt: 0,
+				maxResults: 100,
+				total: 101,
+				comments: thread.slice(0, 100),
+			},
+			'/rest/api/2/issue/10042/comment?expand=renderedBody&startAt=100&maxResults=100': {
+				startAt: 100,
+				maxResults: 100,
+				total: 101,
+				comments: thread.slice(100),
+			},
+		})
+
+		expect((await connector.fetchDocument('OPS-7'))?.metadata?.comments).toBe(101)
+	})
+
+	it('should leave out comments limited to a role or group and internal service desk comments', async () => {
+		const { connector } = connect({
+			...projectRoutes,
+			'/rest/api/2/issue/OPS-7': issue,
+			'/rest/api/2/issue/10042/comment': {
+				startAt: 0,
+				maxResults: 100,
+				total: 4,
+				comments: [
+					...comments,
+					{
+						id: '3',
+						body: 'The admin password is in the vault.',
+						visibility: { type: 'role', value: 'Administrators' },
+					},
+					{ id: '4', body: 'Customer is on the legacy plan.', jsdPublic: false },
+				],
+			},
+		})
+
+		const document = await connector.fetchDocument('OPS-7')
+
+		expect(document?.text).not.toContain('vault')
+		expect(document?.text).not.toContain('legacy plan')
+		expect(document?.metadata?.comments).toBe(2)
+	})
+
+	it('should return null for missing issues and keep the status of failed requests', async () => {
+		const { connector } = connect({})
+		expect(await connector.fetchDocument('OPS-404')).toBeNull()
+
+		const failing = createJiraConnector({
+			baseUrl: BASE,
+			apiToken: 'pat-1',
+			fetch: (async () => new Response('Too many requests', { status: 429 })) as typeof fetch,
+		})
+		await expect(failing.fetchDocument('OPS-7')).rejects.toThrow('429')
+	})
+})
+
+describe('jiraAcl()', () => {
+	it('should map anyone and application access onto public and internal', () => {
+		expect(
+			jiraAcl([{ type: 'anyone' }, { type: 'applicationRole' }, { type: 'projectLead' }], issue)
+		).toEqual(['internal', 'public'])
+	})
+})
+
+describe('parseJiraResource()', () => {
+	it('should read the issue id and key from metadata, ids, keys and issue URLs', () => {
+		expect(parseJiraResource('10042')).toEqual({ issueId: '10042', issueKey: undefined })
+		expect(parseJiraResource('OPS-7')).toEqual({ issueId: undefined, issueKey: 'OPS-7' })
+		expect(parseJiraResource('https://x.atlassian.net/browse/OPS-7', { issueId: 10042 })).toEqual({
+			issueId: '10042',
+			issueKey: 'OPS-7',
+		})
+		expect(jiraDocumentId('10042')).toBe('jira-10042')
+	})
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+
+import { sha256Hex } from '../hash'
+import { buildManifest, diffManifests, manifestKey } from '../manifest'
+
+import type { ManifestInput } from '../manifest'
+
+const input: ManifestInput = {
+	documentId: 'doc-1',
+	source: 'sharepoint',
+	metadata: { acl: ['hr'] },
+	embeddingModel: '@cf/baai/bge-base-en-v1.5',
+	chunkingStrategy: 'fixed',
+	chunks: [
+		{ index: 0, text: 'Leave policy' },
+		{ index: 1, text: 'Carry over' },
+		{ index: 2, text: 'Sick leave' },
+	],
+}
+
+describe('buildManifest()', () => {
+	it('should record chunk ids, keys and content hashes', async () => {
+		const manifest = await buildManifest({
+			documentId: 'doc-1',
+			source: 'upload',
+			metadata: { acl: ['hr'] },
+			embeddingModel: '@cf/baai/bge-base-en-v1.5',
+			chunkingStrategy: 'structure',
+			chunks: [
+				{ index: 0, text: 'Leave policy', section: 'Policies' },
+				{ index: 2, text: 'Carry over', section: '' },
+			],
+		})
+
+		expect(manifest.chunks).toEqual([
+			{
+				id: 'doc-1#0',
+				index: 0,
+				key: 'chunks/doc-1#0.txt',
+				contentHash: await sha256Hex('Leave policy'),
+				section: 'Policies',
+			},
+			{
+				id: 'doc-1#2',
+				index: 2,
+				key: 'chunks/doc-1#2.txt',
+				contentHash: await sha256Hex('Carry over'),
+				section: undefined,
+			},
+		])
+		expect(manifest.metadata).toEqual({ acl: ['hr'] })
+		expect(new Date(manifest.ingestedAt).getTime()).not.toBeNaN()
+		expect(manifestKey('doc-1')).toBe('manifests/doc-1.json')
+	})
+})
+
+describe('diffManifests()', () => {
+	const ids = (chunks: Array<{ id: string }>) => chunks.map((chunk) => chunk.id)
+
+	it('should only re-embed new and changed chunks', async () => {
+		const previous = await buildManifest(input)
+		const next = await buildManifest({
+			...input,
+			chunks: [
+				{ index: 0, text: 'Leave policy' },
+				{ index: 1, text: 'Carry over, up to 5 days' },
+			],
+		})
+
+		const diff = diffManifests(previous, next)
+		expect(ids(diff.unchanged)).toEqual(['doc-1#0'])
+		expect(ids(diff.changed)).toEqual(['doc-1#1'])
+		expect(ids(diff.added)).toEqual([])
+		expect(ids(diff.removed)).toEqual(['doc-1#2'])
+	})
+
+	it('should treat every chunk as new without a previous manifest', async () => {
+		const diff = diffManifests(null, await buildManifest(input))
+		expect(ids(diff.added)).toEqual(['doc-1#0', 'doc-1#1', 'doc-1#2'])
+	})
+
+	it('should not reuse vectors with a different model or ACL', async () => {
+		const previous = await buildManifest(input)
+
+		const remodelled = diffManifests(
+			previous,
+			await buildManifest({ ...input, embeddingModel: '@cf/baai/bge-large-en-v1.5' })
+		)
+		const reshared = diffManifests(
+			previous,
+			await buildManifest({ ...input, metadata: { acl: ['hr', 'managers'] } })
+		)
+
+		expect(remodelled.unchanged).toEqual([])
+		expect(ids(remodelled.changed)).toHaveLength(3)
+		expect(reshared.unchanged).toEqual([])
+	})
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractReadableContent } from '../readability'
+
+const page = `<!doctype html>
+<html lang="en">
+<head>
+	<title>Rotating keys &amp; secrets | Example Docs</title>
+	<meta name="description" content="How to rotate API keys">
+	<meta property="og:site_name" content="Example Docs">
+	<link rel="canonical" href="/docs/rotating-keys">
+	<script>window.analytics = { track() {} }</script>
+	<style>.cookie { position: fixed }</style>
+</head>
+<body>
+	<div class="cookie-banner">We use cookies to improve your experience, accept them all please.</div>
+	<header class="site-header"><a href="/">Example</a><nav><a href="/docs">Docs</a><a href="/blog">Blog</a></nav></header>
+	<div class="layout">
+		<aside class="sidebar"><ul><li><a href="/docs/a">Getting started with the platform</a></li><li><a href="/docs/b">Authentication and sessions</a></li></ul></aside>
+		<article class="post">
+			<h1>Rotating keys</h1>
+			<p>Keys should be rotated every 90 days, after an employee leaves, and whenever a key may have leaked.</p>
+			<p>Create the new key first, deploy it to every service, then revoke the old key once traffic has moved over.
+			<pre><code class="language-bash">keys create --name prod-2025
+keys revoke --name prod-2024</code></pre>
+			<div class="related"><a href="/docs/c">Related: secrets</a></div>
+		</article>
+	</div>
+	<footer><p>Copyright Example Inc, all rights reserved, since 2010.</p></footer>
+</body>
+</html>`
+
+describe('extractReadableContent()', () => {
+	it('should keep the article and drop navigation, sidebars, banners and footers', () => {
+		const content = extractReadableContent(
+			page,
+			'https://docs.example.com/docs/rotating-keys?ref=nav'
+		)
+
+		expect(content.markdown).toBe(
+			[
+				'# Rotating keys',
+				'Keys should be rotated every 90 days, after an employee leaves, and whenever a key may have leaked.',
+				'Create the new key first, deploy it to every service, then revoke the old key once traffic has moved over.',
+				'```bash\nkeys create --name prod-2025\nkeys revoke --name prod-2024\n```',
+			].join('\n\n')
+		)
+		expect(content).toMatchObject({
+			title: 'Rotating keys & secrets | Example Docs',
+			canonicalUrl: 'https://docs.example.com/docs/rotating-keys',
+			description: 'How to rotate API keys',
+			siteName: 'Example Docs',
+			language: 'en',
+			noIndex: false,
+		})
+	})
+
+	it('should find the content of pages without semantic markup and head it with the title', () => {
+		const html = `<html><head><title>Release notes</title></head><body>
+			<div id="menu"><a href="/">Home</a> <a href="/about">About</a></div>
+			<div id="wrapper"><div class="entry">
+				<div>Version 2.0 drops support for the legacy API, which was deprecated a year ago.</div>
+				<div>Upgrading takes a config change, a restart, and a check of the dashboards afterwards.</div>
+			</div></div>
+		</body></html>`
+
+		expect(extractReadableContent(html).markdown).toBe(
+			[
+				'# Release notes',
+				'Version 2.0 drops support for the legacy API, which was deprecated a year ago.',
+				'Upgrading takes a config change, a restart, and a check of the dashboards afterwards.',
+			].join('\n\n')
+		)
+	})
+
+	it('should report pages that ask not to be indexed', () => {
+		const html =
+			'<html><head><meta name="robots" content="noindex, follow"></head><body></body></html>'
+
+		expect(extractReadableContent(html).noIndex).toBe(true)
+	})
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import { chunkDocument } from '../document'
+import { chunkBySemantics, splitSentences } from '../semantic'
+
+import type { EmbeddingProvider } from '../embedding'
+
+// One axis per topic so sentences about the same topic are identical vectors
+const topicVector = (text: string) =>
+	/leave|holiday/i.test(text) ? [1, 0] : /password|login/i.test(text) ? [0, 1] : [0.7, 0.7]
+
+// Records the texts of every embedding call
+const embedByTopic = (calls: string[][] = []): EmbeddingProvider => ({
+	model: { id: 'topics', dimensions: 2, maxTokens: 512 },
+	async embed(texts) {
+		calls.push(texts)
+		return texts.map(topicVector)
+	},
+})
+
+const policy =
+	'Staff get annual leave. Holiday requests go to managers. ' +
+	'Passwords rotate every 90 days. Login requires MFA.'
+
+describe('chunkBySemantics()', () => {
+	it('should split where adjacent sentences change topic', async () => {
+		const chunks = await chunkBySemantics(policy, { minTokens: 1 }, embedByTopic())
+		expect(chunks).toEqual([
+			'Staff get annual leave. Holiday requests go to managers.',
+			'Passwords rotate every 90 days. Login requires MFA.',
+		])
+	})
+
+	it('should not split chunks smaller than minTokens', async () => {
+		const chunks = await chunkBySemantics(policy, { minTokens: 100 }, embedByTopic())
+		expect(chunks).toHaveLength(1)
+	})
+
+	it('should embed the sentences in batches', async () => {
+		const calls: string[][] = []
+		const text = Array.from({ length: 25 }, (_, i) => `Leave rule ${i}.`).join(' ')
+
+		await chunkBySemantics(text, {}, embedByTopic(calls), 10)
+
+		expect(calls.map((texts) => texts.length)).toEqual([10, 10, 5])
+	})
+
+	it('should split similar sentences once maxTokens is reached', async () => {
+		const text = 'Leave one. Leave two. Leave three. Leave four.'
+		const chunks = await chunkBySemantics(text, { maxTokens: 6 }, embedByTopic())
+		expect(chunks).toEqual(['Leave one. Leave two.', 'Leave three. Leave four.'])
+	})
+})
+
+describe('splitSentences()', () => {
+	it('should split on sentence boundaries', () => {
+		expect(splitSentences('First one. Second one? Third!')).toEqual([
+			'First one.',
+			'Second one?',
+			'Third!',
+		])
+	})
+})
+
+describe('chunkDocument()', () => {
+	it('should require an embedding provider for semantic chunking', async () => {
+		await expect(chunkDocument(policy, { strategy: 'semantic' })).rejects.toThrow(
+			'Semantic chunking requires an embedding provider'
+		)
+	})
+})
@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+	createSharePointConnector,
+	parseSharePointResource,
+	sharePointAcl,
+	sharePointDocumentId,
+} from '../sharepoint'
+import { connectStandIn } from './fetch-stand-in'
+
+import type { GraphDriveItem, GraphPermission } from '../sharepoint'
+
+const GRAPH = 'http://graph.test/v1.0'
+const AUTHORITY = 'http://login.test'
+
+const report: GraphDriveItem = {
+	id: '01REPORT',
+	name: 'Q3 report.txt',
+	webUrl: 'https://contoso.sharepoint.com/sites/Finance/Shared%20Documents/Reports/Q3%20report.txt',
+	size: 42,
+	eTag: '"{1},3"',
+	lastModifiedDateTime: '2025-06-01T10:00:00Z',
+	createdBy: { user: { displayName: 'Ada Lovelace' } },
+	parentReference: {
+		driveId: 'drive-1',
+		siteId: 'site-1',
+		path: '/drives/drive-1/root:/Reports',
+	},
+	file: { mimeType: 'text/plain' },
+}
+
+const itemRoutes = {
+	'/v1.0/drives/drive-1/items/01REPORT': report,
+	'/v1.0/drives/drive-1/items/01REPORT/content': 'Revenue grew 12% in the third quarter.',
+	'/v1.0/drives/drive-1/items/01REPORT/permissions': {
+		value: [
+			{ id: 'p1', roles: ['read'], grantedToV2: { user: { email: 'Ada@Contoso.com' } } },
+			{
+				id: 'p2',
+				roles: ['read'],
+				grantedToV2: { siteGroup: { id: '7', displayName: 'Members' } },
+			},
+		],
+	},
+	'/v1.0/drives/drive-1?$select=webUrl': {
+		webUrl: 'https://contoso.sharepoint.com/sites/Finance/Shared%20Documents',
+	},
+	'/v1.0/sites/site-1?$select=webUrl': { webUrl: 'https://contoso.sharepoint.com/sites/Finance' },
+}
+
+const connect = (routes: Record<string, unknown>) =>
+	connectStandIn(
+		(fetch) =>
+			createSharePointConnector({
+				tenantId: 'tenant-1',
+				clientId: 'client-1',
+				clientSecret: 'secret-1',
+				graphBaseUrl: GRAPH,
+				authorityUrl: AUTHORITY,
+				fetch,
+			}),
+		routes,
+		{
+			authorization: 'Bearer token-1',
+			// The token endpoint of the client credentials flow
+			intercept: (request) =>
+				request.url.startsWith(AUTHORITY)
+					? Response.json({ access_token: 'token-1', expires_in: 3600 })
+					: undefined,
+		}
+	)
+
+describe('createSharePointConnector()', () => {
+	it('should map a drive item onto a document with its paths and ACL', async () => {
+		const { connector } = connect(itemRoutes)
+
+		const document = await connector.fetchDocument({ driveId: 'drive-1', itemId: '01REPORT' })
+
+		expect(document).toEqual({
+			id: 'sharepoint-01REPORT',
+			text: 'Revenue grew 12% in the third quarter.',
+			source: 'sharepoint',
+			url: report.webUrl,
+			metadata: expect.objectContaining({
+				title: 'Q3 report.txt',
+				acl: ['group:7', 'user:ada@contoso.com'],
+				siteId: 'site-1',
+				driveId: 'drive-1',
+				itemId: '01REPORT',
+				sitePath: '/sites/Finance',
+				libraryPath: '/sites/Finance/Shared Documents',
+				folderPath: '/Reports',
+				author: 'Ada Lovelace',
+				lastModified: '2025-06-01T10:00:00Z',
+			}),
+		})
+	})
+
+	it('should authenticate with client credentials once per token lifetime', async () => {
+		const { connector, requests } = connect(itemRoutes)
+
+		await connector.fetchDocument({ driveId: 'drive-1', itemId: '01REPORT' })
+		await connector.fetchDocument({ driveId: 'drive-1', itemId: '01REPORT' })
+
+		const tokenRequests = requests.filter((request) => request.url.startsWith(AUTHORITY))
+		expect(tokenRequests).toHaveLength(1)
+		expect(tokenRequests[0].url).toBe(`${AUTHORITY}/tenant-1/oauth2/v2.0/token`)
+
+		const form = new URLSearchParams(await tokenRequests[0].text())
+		expect(form.get('grant_type')).toBe('client_credentials')
+		expect(form.get('client_id')).toBe('client-1')
+		expect(form.get('client_secret')).toBe('secret-1')
+	})
+
+	it('should index an item without mapped permissions under its site', async () => {
+		const { connector } = connect({
+			...itemRoutes,
+			'/v1.0/drives/drive-1/items/01REPORT/permissions': { value: [] },
+		})
+
+		const document = await connector.fetchDocument({ driveId: 'drive-1', itemId: '01REPORT' })
+
+		expect(document?.metadata?.acl).toEqual(['site:site-1'])
+	})
+
+	it('should return null for missing items and folders', async () => {
+		const { connector } = connect({
+			'/v1.0/drives/drive-1/items/01FOLDER': { id: '01FOLDER', name: 'Reports', folder: {} },
+		})
+
+		expect(await connector.fetchDocument({ driveId: 'drive-1', itemId: '01GONE' })).toBeNull()
+		expect(await connector.fetchDocument({ driveId: 'drive-1', itemId: '01FOLDER' })).toBeNull()
+	})
+
+	it('should follow a delta link through its pages to the next delta link', async () => {
+		const deltaLink = `${GRAPH}/drives/drive-1/root/delta?token=abc`
+		const { connector } = connect({
+			'/v1.0/drives/drive-1/root/delta?token=abc': {
+				value: [
+					{ id: '01ROOT', root: {}, folder: {} },
+					{ id: '01REPORT', file: {} },
+				],
+				'@odata.nextLink': `${GRAPH}/drives/drive-1/root/delta?token=abc&page=2`,
+			},
+			'/v1.0/drives/drive-1/root/delta?token=abc&page=2': {
+				value: [
+					{ id: '01OLD', file: {}, deleted: { state: 'deleted' } },
+					{ id: '01ARCHIVE', folder: {}, deleted: { state: 'deleted' } },
+				],
+				'@odata.deltaLink': `${GRAPH}/drives/drive-1/root/delta?token=def`,
+			},
+		})
+
+		const changes = await connector.fetchChanges('drive-1', deltaLink)
+
+		expect(changes).toEqual({
+			changedItems: [{ driveId: 'drive-1', itemId: '01REPORT' }],
+			deletedDocumentIds: ['sharepoint-01OLD'],
+			deltaLink: `${GRAPH}/drives/drive-1/root/delta?token=def`,
+		})
+	})
+
+	it('should accept a bare delta token and list the whole drive without one', async () => {
+		const { connector, requests } = connect({
+			'/v1.0/drives/drive-1/root/delta?token=abc': {
+				value: [],
+				'@odata.deltaLink': `${GRAPH}/drives/drive-1/root/delta?token=def`,
+			},
+			'/v1.0/drives/drive-1/root/delta': {
+				value: [{ id: '01REPORT', file: {} }],
+				'@odata.deltaLink': `${GRAPH}/drives/drive-1/root/delta?token=xyz`,
+			},
+		})
+
+		expect((await connector.fetchChanges('drive-1', 'abc')).deltaLink).toContain('token=def')
+		expect((await connector.fetchChanges('drive-1')).changedItems).toHaveLength(1)
+		expect(requests.map((request) => new URL(request.url).pathname)).toContain(
+			'/v1.0/drives/drive-1/root/delta'
+		)
+	})
+
+	it('should not send credentials to delta links outside the Graph root', async () => {
+		const { connector, requests } = connect({})
+
+		await expect(
+			connector.fetchChanges('drive-1', 'https://attacker.test/v1.0/drives/drive-1/root/delta')
+		).rejects.toThrow('Refusing to send Graph credentials')
+		expect(requests.some((request) => request.url.startsWith('https://attacker.test'))).toBe(false)
+	})
+
+	it('should keep the status of failed Graph requests in the error', async () => {
+		const connector = createSharePointConnector({
+			tenantId: 'tenant-1',
+			clientId: 'client-1',
+			clientSecret: 'secret-1',
+			graphBaseUrl: GRAPH,
+			authorityUrl: AUTHORITY,
+			fetch: (async (input: RequestInfo | URL) =>
+				String(input).startsWith(AUTHORITY)
+					? Response.json({ access_token: 'token-1', expires_in: 3600 })
+					: new Response('Too many requests', { status: 429 })) as typeof fetch,
+		})
+
+		await expect(
+			connector.fetchDocument({ driveId: 'drive-1', itemId: '01REPORT' })
+		).rejects.toThrow('429')
+	})
+})
+
+describe('sharePointAcl()', () => {
+	it('should map sharing links and grants onto ACL entries', () => {
+		expect(
+			sharePointAcl(
+				[
+					{ id: 'a', link: { scope: 'anonymous' } },
+					{ id: 'b', link: { scope: 'organization' } },
+					{ id: 'c', link: { scope: 'users' }, grantedToIdentitiesV2: [{ user: { id: 'U-1' } }] },
+					{ id: 'd', grantedToV2: { group: { id: 'g-1', displayName: 'Finance' } } },
+				],
+				{ driveId: 'drive-1' }
+			)
+		).toEqual(['group:g-1', 'internal', 'public', 'user:u-1'])
+	})
+
+	it('should fall back to the site or drive when no permission maps onto an entry', () => {
+		const unmapped: GraphPermission[] = [{ id: 'a', link: { scope: 'users' } }]
+
+		expect(sharePointAcl(unmapped, { driveId: 'drive-1', siteId: 'site-1' })).toEqual([
+			'site:site-1',
+		])
+		expect(sharePointAcl([], { driveId: 'drive-1' })).toEqual(['drive:drive-1'])
+	})
+})
+
+describe('parseSharePointResource()', () => {
+	it('should read drive and item from Graph paths, plain ids and metadata', () => {
+		expect(parseSharePointResource('drives/drive-1/items/01REPORT')).toEqual({
+			driveId: 'drive-1',
+			itemId: '01REPORT',
+		})
+		expect(parseSharePointResource('/drives/drive-1/root')).toEqual({
+			driveId: 'drive-1',
+			itemId: undefined,
+		})
+		expect(parseSharePointResource('drive-1/01REPORT')).toEqual({
+			driveId: 'drive-1',
+			itemId: '01REPORT',
+		})
+		expect(parseSharePointResource('site-1', { driveId: 'drive-2', itemId: '01X' })).toEqual({
+			driveId: 'drive-2',
+			itemId: '01X',
+		})
+		expect(sharePointDocumentId('01REPORT')).toBe('sharepoint-01REPORT')
+	})
+})
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+
+import { hmacSha256Hex } from '../hash'
+import { createSourceRegistry, verifyHubSignature } from '../source-connector'
+import { sourceRegistry } from '../sources'
+
+import type { DocumentManifest } from '../manifest'
+import type { SourceConnector, SourceEvent, SourceState } from '../source-connector'
+
+const event = (fields: Partial<SourceEvent>): SourceEvent => ({
+	sourceType: 'confluence',
+	eventType: 'updated',
+	resourceId: '123',
+	resourceUrl: '',
+	metadata: {},
+	...fields,
+})
+
+const manifest = (metadata: Record<string, any>): DocumentManifest => ({
+	documentId: 'confluence-123',
+	source: 'confluence',
+	metadata,
+	embeddingModel: '@cf/baai/bge-base-en-v1.5',
+	chunkingStrategy: 'fixed',
+	chunks: [],
+	ingestedAt: '2025-06-01T00:00:00.000Z',
+})
+
+const stateWith = (stored: DocumentManifest | null): SourceState => ({
+	manifest: async () => stored,
+	checkpoint: async () => null,
+})
+
+describe('createSourceRegistry()', () => {
+	it('should create the connector of registered sources and refuse the rest', () => {
+		const connector = { sourceType: 'notion' } as SourceConnector
+		const registry = createSourceRegistry().register('notion', () => connector)
+
+		expect(registry.has('notion')).toBe(true)
+		expect(registry.sourceTypes()).toEqual(['notion'])
+		expect(registry.create('notion', {})).toBe(connector)
+		expect(() => registry.create('gdrive', {})).toThrow('Unsupported source type: gdrive')
+		expect(() => registry.register('notion', () => connector)).toThrow('already registered')
+	})
+
+	it('should register the built-in sources', () => {
+		expect(sourceRegistry.sourceTypes()).toEqual(['sharepoint', 'confluence', 'jira', 'website'])
+		expect(sourceRegistry.create('jira', {}).chunkingStrategy).toBe('structure')
+	})
+})
+
+describe('verifyHubSignature()', () => {
+	const body = JSON.stringify({ sourceType: 'jira', resourceId: '10042' })
+
+	it('should accept the HMAC of the body under the secret, and anything without a secret', async () => {
+		const signed = (signature: string) =>
+			new Request('http://ingest.test/webhook', { headers: { 'X-Hub-Signature': signature } })
+		const signature = `sha256=${await hmacSha256Hex('secret-1', body)}`
+
+		expect(await verifyHubSignature(signed(signature), body, 'secret-1')).toBe(true)
+		expect(await verifyHubSignature(signed(signature), `${body} `, 'secret-1')).toBe(false)
+		expect(await verifyHubSignature(signed(signature), body, 'secret-2')).toBe(false)
+		expect(await verifyHubSignature(new Request('http://ingest.test'), body, 'secret-1')).toBe(
+			false
+		)
+		expect(await verifyHubSignature(new Request('http://ingest.test'), body, undefined)).toBe(true)
+	})
+
+	it('should check the clientState of SharePoint notifications instead', async () => {
+		const sharePoint = sourceRegistry.create('sharepoint', { SHAREPOINT_CLIENT_STATE: 'state-1' })
+		const request = new Request('http://ingest.test/webhook')
+
+		expect(await sharePoint.verifyWebhook(request, '{"metadata":{"clientState":"state-1"}}')).toBe(
+			true
+		)
+		expect(await sharePoint.verifyWebhook(request, '{"metadata":{"clientState":"other"}}')).toBe(
+			false
+		)
+		expect(await sharePoint.verifyWebhook(request, 'not json')).toBe(false)
+	})
+})
+
+describe('sourceRegistry', () => {
+	it('should drop Confluence events older than the ingested page before fetching it', async () => {
+		// Not configured, so a fetch would throw
+		const confluence = sourceRegistry.create('confluence', {})
+
+		expect(
+			await confluence.fetchResource(
+				event({ metadata: { version: { number: 3 } } }),
+				stateWith(manifest({ version: 5 }))
+			)
+		).toEqual({ status: 'skipped', reason: 'version 3 is older than the ingested one' })
+		await expect(confluence.fetchResource(event({}), stateWith(null))).rejects.toThrow(
+			'Confluence is not configured'
+		)
+	})
+
+	it('should queue Confluence pages again when only their permissions changed', () => {
+		const confluence = sourceRegistry.create('confluence', {})
+		const ingested = manifest({ version: 5, acl: ['group:ops'], labels: [], ancestors: ['Home'] })
+		const document = {
+			id: 'confluence-123',
+			text: 'Runbook',
+			source: 'confluence',
+			metadata: { version: 5, acl: ['group:ops'], labels: [], ancestors: ['Home'] },
+		}
+
+		expect(confluence.isIngested?.(document, ingested)).toBe(true)
+		expect(
+			confluence.isIngested?.(
+				{ ...document, metadata: { ...document.metadata, acl: ['group:ops', 'group:sre'] } },
+				ingested
+			)
+		).toBe(false)
+	})
+
+	it('should need the issue id to delete a Jira issue', async () => {
+		const jira = sourceRegistry.create('jira', {})
+
+		expect(await jira.documentId(event({ resourceId: '10042' }), stateWith(null))).toBe(
+			'jira-10042'
+		)
+		await expect(jira.documentId(event({ resourceId: 'OPS-7' }), stateWith(null))).rejects.toThrow(
+			'Jira deletions need the issue id'
+		)
+	})
+
+	it('should only list the changes of drives and site crawls', async () => {
+		const state = stateWith(null)
+
+		expect(
+			await sourceRegistry
+				.create('website', {})
+				.listChanges(event({ resourceId: 'https://docs.example.com/keys' }), state)
+		).toBeNull()
+		expect(
+			await sourceRegistry
+				.create('sharepoint', {})
+				.listChanges(event({ resourceId: 'drives/b!abc/items/01XYZ' }), state)
+		).toBeNull()
+	})
+})
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+
+import { chunkDocument, prepareText } from '../document'
+import { htmlToMarkdown } from '../markup'
+import { chunkByStructure } from '../structure'
+import { countTokens } from '../tokenizer'
+
+const markdown = `# Handbook
+
+Intro paragraph.
+
+## Leave
+
+### Annual leave
+
+Employees accrue leave monthly.
+
+| Years | Days |
+| ----- | ---- |
+| 0-2   | 20   |
+| 3+    | 25   |
+
+## Tooling
+
+\`\`\`bash
+npm install
+
+npm test
+\`\`\`
+`
+
+describe('chunkByStructure()', () => {
+	it('should chunk by section with heading breadcrumbs', () => {
+		const chunks = chunkByStructure(markdown)
+
+		expect(chunks.map((c) => c.headings)).toEqual([
+			['Handbook'],
+			['Handbook', 'Leave', 'Annual leave'],
+			['Handbook', 'Tooling'],
+		])
+		expect(chunks[1].text).toContain('| 3+    | 25   |')
+		expect(chunks[2].text).toBe('```bash\nnpm install\n\nnpm test\n```')
+	})
+
+	it('should split oversized tables and repeat the header', () => {
+		const rows = Array.from({ length: 40 }, (_, i) => `| row${i} | value${i} |`)
+		const table = ['| Name | Value |', '| --- | --- |', ...rows].join('\n')
+		const chunks = chunkByStructure(`# Data\n\n${table}`, { maxTokens: 60 })
+
+		expect(chunks.length).toBeGreaterThan(1)
+		for (const chunk of chunks) {
+			expect(chunk.text.startsWith('| Name | Value |\n| --- | --- |')).toBe(true)
+			expect(chunk.headings).toEqual(['Data'])
+		}
+	})
+
+	it('should split a code line or table row that alone exceeds the budget', () => {
+		const line = Array.from({ length: 200 }, (_, i) => `arg${i}`).join(' ')
+		const code = chunkByStructure(`# Script\n\n\`\`\`bash\nrun ${line}\n\`\`\``, { maxTokens: 60 })
+		const table = chunkByStructure(`| Name | Value |\n| --- | --- |\n| args | ${line} |`, {
+			maxTokens: 60,
+		})
+
+		expect(code.length).toBeGreaterThan(1)
+		expect(table.length).toBeGreaterThan(1)
+		for (const chunk of [...code, ...table]) {
+			expect(countTokens(chunk.text)).toBeLessThanOrEqual(60)
+		}
+		expect(code.every((chunk) => /^```bash\n[\s\S]*\n```$/.test(chunk.text))).toBe(true)
+		expect(table.every((chunk) => chunk.text.startsWith('| Name | Value |\n| --- | --- |\n'))).toBe(
+			true
+		)
+	})
+
+	it('should chunk HTML by its headings', () => {
+		const html =
+			'<h1>Guide</h1><p>Welcome &amp; hello</p><h2>Setup</h2><script>track()</script><ul><li>One</li><li>Two</li></ul>'
+		const chunks = chunkByStructure(html)
+
+		expect(chunks).toEqual([
+			{ text: 'Welcome & hello', headings: ['Guide'] },
+			{ text: '- One\n- Two', headings: ['Guide', 'Setup'] },
+		])
+	})
+})
+
+describe('htmlToMarkdown()', () => {
+	it('should convert tables and preformatted code', () => {
+		const html =
+			'<table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table><pre><code class="language-js">if (a &lt; b) {\n  go()\n}</code></pre>'
+
+		expect(htmlToMarkdown(html)).toBe(
+			'| A | B |\n| --- | --- |\n| 1 | 2 |\n\n```js\nif (a < b) {\n  go()\n}\n```'
+		)
+	})
+})
+
+describe('chunkDocument()', () => {
+	it('should keep line breaks when preparing text for structure chunking', async () => {
+		const text = prepareText('# Title\r\n\r\n\r\n\r\nBody  \n', 'structure')
+		expect(await chunkDocument(text, { strategy: 'structure' })).toEqual([
+			{ text: 'Body', headings: ['Title'] },
+		])
+	})
+})
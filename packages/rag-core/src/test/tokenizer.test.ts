@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+
+import { chunkByTokens } from '../chunking'
+import { countTokens, getModelTokenBudget } from '../tokenizer'
+
+const sha256 = '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+
+describe('countTokens()', () => {
+	it('should count prose in word pieces, punctuation and CJK characters on their own', () => {
+		// Rotat·e keys , often .
+		expect(countTokens('Rotate keys, often.')).toBe(6)
+		expect(countTokens('documentation')).toBe(3)
+		expect(countTokens('鍵を回す')).toBe(4)
+	})
+
+	it('should count hashes, long numbers and ids one token per character', () => {
+		// WordPiece never splits a word into more pieces than it has characters
+		expect(countTokens(sha256)).toBe(sha256.length)
+		expect(countTokens('4111111111111111')).toBe(16)
+		expect(countTokens('build-2025a')).toBe(7)
+	})
+
+	it('should count every part of a URL', () => {
+		// https : / / examp·le . com / docs / a 1 b 2 c 3 ? id = 4 2
+		expect(countTokens('https://example.com/docs/a1b2c3?id=42')).toBe(22)
+	})
+})
+
+describe('getModelTokenBudget()', () => {
+	it('should keep chunks of hashes and URLs inside the model window', () => {
+		const text = Array.from(
+			{ length: 200 },
+			(_, i) => `commit ${sha256} at https://git.example.com/repo/commit/${i}${sha256.slice(0, 12)}`
+		).join('\n')
+
+		for (const chunk of chunkByTokens(text)) {
+			expect(countTokens(chunk)).toBeLessThanOrEqual(getModelTokenBudget())
+		}
+	})
+})
@@ -0,0 +1,324 @@
+import { gzipSync, strToU8 } from 'fflate'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	createWebsiteConnector,
+	isAllowedByRobots,
+	normalizeUrl,
+	parseRobotsTxt,
+	parseSitemap,
+	websiteDocumentId,
+	websiteSource,
+} from '../website'
+
+import type { DocumentManifest } from '../manifest'
+import type { SourceEvent, SourceState } from '../source-connector'
+
+const SITE = 'https://docs.example.com'
+
+const robotsTxt = `# Example robots
+User-agent: *
+Disallow: /drafts/
+Allow: /drafts/published$
+
+User-agent: RagCrawler
+User-agent: OtherBot
+Disallow: /internal/
+Disallow: /*.pdf$
+
+Sitemap: ${SITE}/sitemap-index.xml`
+
+const article = (body: string, head = '') =>
+	`<html><head><title>Rotating keys</title>${head}</head><body><nav><a href="/">Home</a></nav><article><h1>Rotating keys</h1><p>${body}</p></article></body></html>`
+
+/**
+ * Local stand-in for a website, recording every request it serves. Routes are
+ * responses or [body, headers, status] tuples.
+ */
+function siteStandIn(routes: Record<string, BodyInit | [BodyInit | null, HeadersInit?, number?]>) {
+	const requests: Request[] = []
+
+	const fetcher = async (input: RequestInfo | URL, init?: RequestInit) => {
+		const request = new Request(input, init)
+		requests.push(request)
+
+		const route = routes[request.url]
+		if (route === undefined) {
+			return new Response('Not found', { status: 404 })
+		}
+		const [body, headers, status] = Array.isArray(route) ? route : [route]
+		return new Response(body, {
+			status: status ?? 200,
+			headers: headers ?? { 'Content-Type': 'text/html' },
+		})
+	}
+
+	return { fetch: fetcher as typeof fetch, requests }
+}
+
+describe('normalizeUrl() and websiteDocumentId()', () => {
+	it('should give every link to a page the same URL and id', async () => {
+		expect(normalizeUrl(`${SITE}/docs?b=2&utm_source=mail&a=1#setup`)).toBe(`${SITE}/docs?a=1&b=2`)
+
+		const id = await websiteDocumentId(`${SITE}/docs?a=1&b=2`)
+		expect(id).toMatch(/^website-[0-9a-f]{32}$/)
+		expect(await websiteDocumentId(`https://DOCS.example.com/docs?b=2&a=1&gclid=x#top`)).toBe(id)
+	})
+})
+
+describe('parseRobotsTxt() and isAllowedByRobots()', () => {
+	it('should apply the group naming the crawler, with the longest matching rule', () => {
+		const robots = parseRobotsTxt(robotsTxt, 'RagCrawler/1.0')
+
+		expect(robots.sitemaps).toEqual([`${SITE}/sitemap-index.xml`])
+		expect(isAllowedByRobots(robots, `${SITE}/internal/roadmap`)).toBe(false)
+		expect(isAllowedByRobots(robots, `${SITE}/guide.pdf`)).toBe(false)
+		expect(isAllowedByRobots(robots, `${SITE}/guide.pdf?download=1`)).toBe(true)
+		// The * group does not apply once a group names the crawler
+		expect(isAllowedByRobots(robots, `${SITE}/drafts/next`)).toBe(true)
+
+		const others = parseRobotsTxt(robotsTxt, 'SomeBot/2.0')
+		expect(isAllowedByRobots(others, `${SITE}/drafts/next`)).toBe(false)
+		expect(isAllowedByRobots(others, `${SITE}/drafts/published`)).toBe(true)
+		expect(isAllowedByRobots(others, `${SITE}/internal/roadmap`)).toBe(true)
+	})
+})
+
+describe('parseSitemap()', () => {
+	it('should read pages of a urlset and sitemaps of an index', () => {
+		expect(
+			parseSitemap(
+				`<urlset><url><loc>${SITE}/search?q=a&amp;page=2</loc><lastmod>2025-06-01</lastmod></url></urlset>`
+			)
+		).toEqual({
+			pages: [{ url: `${SITE}/search?q=a&page=2`, lastModified: '2025-06-01' }],
+			sitemaps: [],
+		})
+		expect(
+			parseSitemap(
+				`<sitemapindex><sitemap><loc>${SITE}/sitemap-docs.xml</loc></sitemap></sitemapindex>`
+			)
+		).toEqual({ pages: [], sitemaps: [`${SITE}/sitemap-docs.xml`] })
+	})
+})
+
+describe('createWebsiteConnector()', () => {
+	const text = 'Keys should be rotated every 90 days, and whenever a key may have leaked.'
+
+	it('should keep the main content under the id of its canonical URL, with its validators', async () => {
+		const { fetch } = siteStandIn({
+			[`${SITE}/robots.txt`]: [robotsTxt, { 'Content-Type': 'text/plain' }],
+			[`${SITE}/docs/keys?utm_source=mail`]: [
+				article(text, '<link rel="canonical" href="/docs/rotating-keys">'),
+				{
+					'Content-Type': 'text/html',
+					ETag: '"v1"',
+					'Last-Modified': 'Sun, 01 Jun 2025 10:00:00 GMT',
+				},
+			],
+		})
+		const connector = createWebsiteConnector({ fetch })
+
+		const result = await connector.fetchPage(`${SITE}/docs/keys?utm_source=mail`)
+
+		expect(result).toEqual({
+			status: 'fetched',
+			document: {
+				id: await websiteDocumentId(`${SITE}/docs/rotating-keys`),
+				text: `# Rotating keys\n\n${text}`,
+				source: 'website',
+				url: `${SITE}/docs/rotating-keys`,
+				metadata: expect.objectContaining({
+					title: 'Rotating keys',
+					acl: ['public'],
+					canonicalUrl: `${SITE}/docs/rotating-keys`,
+					etag: '"v1"',
+					lastModified: '2025-06-01T10:00:00.000Z',
+				}),
+			},
+		})
+	})
+
+	it('should send the validators of the last fetch and report unchanged pages', async () => {
+		const { fetch, requests } = siteStandIn({
+			[`${SITE}/docs/keys`]: [null, {}, 304],
+		})
+		const connector = createWebsiteConnector({ fetch })
+
+		const result = await connector.fetchPage(`${SITE}/docs/keys`, {
+			etag: '"v1"',
+			lastModified: '2025-06-01T10:00:00.000Z',
+		})
+
+		expect(result).toEqual({ status: 'unchanged' })
+		const page = requests.find((request) => request.url === `${SITE}/docs/keys`)!
+		expect(page.headers.get('If-None-Match')).toBe('"v1"')
+		expect(page.headers.get('If-Modified-Since')).toBe('Sun, 01 Jun 2025 10:00:00 GMT')
+		expect(page.headers.get('User-Agent')).toBe('RagCrawler/1.0')
+	})
+
+	it('should not fetch what robots.txt disallows and honour noindex, 404 and foreign canonicals', async () => {
+		const { fetch, requests } = siteStandIn({
+			[`${SITE}/robots.txt`]: [robotsTxt, { 'Content-Type': 'text/plain' }],
+			[`${SITE}/private`]: article(text, '<meta name="robots" content="noindex">'),
+			[`${SITE}/copied`]: article(
+				text,
+				'<link rel="canonical" href="https://other.example.net/original">'
+			),
+		})
+		const connector = createWebsiteConnector({ fetch })
+
+		expect(await connector.fetchPage(`${SITE}/internal/roadmap`)).toEqual({
+			status: 'disallowed',
+			reason: 'robots',
+		})
+		expect(requests.some((request) => request.url.includes('/internal/'))).toBe(false)
+		expect(await connector.fetchPage(`${SITE}/private`)).toEqual({
+			status: 'disallowed',
+			reason: 'noindex',
+		})
+		expect(await connector.fetchPage(`${SITE}/removed`)).toEqual({ status: 'gone' })
+
+		const copied = await connector.fetchPage(`${SITE}/copied`)
+		expect(copied.status === 'fetched' && copied.document.url).toBe(`${SITE}/copied`)
+		// robots.txt is read once per origin
+		expect(requests.filter((request) => request.url.endsWith('/robots.txt'))).toHaveLength(1)
+	})
+
+	it('should skip pages that grow beyond the size limit without a Content-Length', async () => {
+		const chunk = new TextEncoder().encode(article(text))
+		const { fetch } = siteStandIn({
+			[`${SITE}/docs/keys`]: new ReadableStream({
+				start(controller) {
+					for (let i = 0; i < 10; i++) {
+						controller.enqueue(chunk)
+					}
+					controller.close()
+				},
+			}),
+		})
+		const connector = createWebsiteConnector({ fetch, maxPageBytes: 5 * chunk.byteLength })
+
+		expect(await connector.fetchPage(`${SITE}/docs/keys`)).toEqual({
+			status: 'skipped',
+			reason: 'too large',
+		})
+	})
+
+	it('should refuse sitemaps that grow beyond the size limit once gunzipped', async () => {
+		// About 2.5 KB to download, 50 KB once gunzipped
+		const urls = Array.from({ length: 1000 }, (_, i) => `<url><loc>${SITE}/docs/${i}</loc></url>`)
+		const { fetch } = siteStandIn({
+			[`${SITE}/sitemap.xml.gz`]: [
+				gzipSync(strToU8(`<urlset>${urls.join('')}</urlset>`)),
+				{ 'Content-Type': 'application/gzip' },
+			],
+		})
+		const connector = createWebsiteConnector({ fetch, maxSitemapBytes: 4 * 1024 })
+
+		await expect(
+			connector.listSitePages({ rootUrl: SITE, sitemapUrl: `${SITE}/sitemap.xml.gz` })
+		).rejects.toThrow('larger than 4096 bytes')
+	})
+
+	it('should list the pages of a site from its sitemaps within the depth and domain limits', async () => {
+		const pages = [
+			`${SITE}/docs/`,
+			`${SITE}/docs/keys`,
+			`${SITE}/docs/guides/rotation`,
+			`${SITE}/docs/guides/rotation/aws`,
+			`${SITE}/internal/roadmap`,
+			`${SITE}/blog/launch`,
+			'https://api.docs.example.com/docs/reference',
+			'https://elsewhere.example.org/docs/keys',
+		]
+		const { fetch } = siteStandIn({
+			[`${SITE}/robots.txt`]: [robotsTxt, { 'Content-Type': 'text/plain' }],
+			[`${SITE}/sitemap-index.xml`]: [
+				`<sitemapindex><sitemap><loc>${SITE}/sitemap-pages.xml.gz</loc></sitemap></sitemapindex>`,
+				{ 'Content-Type': 'application/xml' },
+			],
+			[`${SITE}/sitemap-pages.xml.gz`]: [
+				gzipSync(
+					strToU8(`<urlset>${pages.map((url) => `<url><loc>${url}</loc></url>`).join('')}</urlset>`)
+				),
+				{ 'Content-Type': 'application/gzip' },
+			],
+			'https://api.docs.example.com/robots.txt': [null, {}, 404],
+		})
+		const connector = createWebsiteConnector({ fetch })
+
+		expect(
+			await connector.listSitePages({
+				rootUrl: `${SITE}/docs/`,
+				maxDepth: 2,
+				allowedDomains: ['docs.example.com'],
+			})
+		).toEqual([
+			`${SITE}/docs/`,
+			`${SITE}/docs/keys`,
+			`${SITE}/docs/guides/rotation`,
+			'https://api.docs.example.com/docs/reference',
+		])
+		expect(await connector.listSitePages({ rootUrl: SITE, maxPages: 2 })).toHaveLength(2)
+	})
+})
+
+describe('websiteSource()', () => {
+	const text = 'Keys should be rotated every 90 days, and whenever a key may have leaked.'
+	const pageEvent = (eventType: SourceEvent['eventType']): SourceEvent => ({
+		sourceType: 'website',
+		eventType,
+		resourceId: `${SITE}/docs/keys`,
+		resourceUrl: `${SITE}/docs/keys`,
+		metadata: {},
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	it('should find a page under its canonical id for conditional requests and deletions', async () => {
+		const { fetch, requests } = siteStandIn({
+			[`${SITE}/docs/keys`]: [
+				article(text, '<link rel="canonical" href="/docs/rotating-keys">'),
+				{ 'Content-Type': 'text/html', ETag: '"v1"' },
+			],
+		})
+		vi.stubGlobal('fetch', fetch)
+		const source = websiteSource({})
+		const canonicalId = await websiteDocumentId(`${SITE}/docs/rotating-keys`)
+		const ingested: DocumentManifest = {
+			documentId: canonicalId,
+			source: 'website',
+			metadata: { etag: '"v1"' },
+			embeddingModel: '@cf/baai/bge-base-en-v1.5',
+			chunkingStrategy: 'structure',
+			chunks: [],
+			ingestedAt: '2025-06-01T00:00:00.000Z',
+		}
+
+		// First fetch: the requested URL is saved as a checkpoint of the canonical id
+		const fetched = await source.fetchResource(pageEvent('updated'), {
+			manifest: async () => null,
+			checkpoint: async () => null,
+		})
+		expect(fetched).toMatchObject({
+			status: 'fetched',
+			resource: { id: canonicalId },
+			checkpoint: { value: canonicalId },
+		})
+
+		const checkpoints = new Map([
+			[fetched.status === 'fetched' ? fetched.checkpoint!.key : '', canonicalId],
+		])
+		const state: SourceState = {
+			manifest: async (documentId) => (documentId === canonicalId ? ingested : null),
+			checkpoint: async (key) => checkpoints.get(key) ?? null,
+		}
+
+		await source.fetchResource(pageEvent('updated'), state)
+		expect(requests.at(-1)!.headers.get('If-None-Match')).toBe('"v1"')
+		expect(await source.documentId(pageEvent('deleted'), state)).toBe(canonicalId)
+	})
+})
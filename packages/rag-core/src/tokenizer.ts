@@ -0,0 +1,86 @@
+import { getEmbeddingModel } from './embedding'
+
+/**
+ * A single token with its character offsets in the source text
+ */
+export interface TokenSpan {
+	start: number
+	end: number
+	/** True when this token begins a new word (not a `##` continuation piece) */
+	wordStart: boolean
+}
+
+export interface Tokenizer {
+	tokenize(text: string): TokenSpan[]
+}
+
+// [CLS] and [SEP] are added by the model to every input
+const SPECIAL_TOKEN_COUNT = 2
+
+// Share of the model's window held back for pieces the estimate misses
+const SAFETY_MARGIN = 0.15
+
+/**
+ * Number of content tokens a chunk may hold for the given model, kept below
+ * the model's window because token counts here are estimates
+ */
+export function getModelTokenBudget(model?: string): number {
+	const maxTokens = getEmbeddingModel(model).maxTokens - SPECIAL_TOKEN_COUNT
+	return Math.floor(maxTokens * (1 - SAFETY_MARGIN))
+}
+
+// Longest word piece assumed to be in the vocabulary
+const MAX_PIECE_LENGTH = 5
+
+/**
+ * BERT-style tokenizer matching the pre-tokenization of the BGE models:
+ * whitespace split, punctuation and CJK characters as single tokens.
+ *
+ * Counts are estimates, not WordPiece: the vocabulary is not shipped. Words
+ * with a digit (numbers, hashes, ids) count one token per character, which no
+ * WordPiece split exceeds; other words are split into MAX_PIECE_LENGTH pieces,
+ * which over-counts ordinary prose but may under-count rare words. That gap is
+ * what getModelTokenBudget's safety margin covers, so a budgeted chunk can
+ * still, rarely, run past the model's window and be truncated by it.
+ */
+export class BertTokenizer implements Tokenizer {
+	tokenize(text: string): TokenSpan[] {
+		const tokens: TokenSpan[] = []
+		const pattern = /[\p{L}\p{N}\p{M}]+|[^\s\p{L}\p{N}\p{M}]/gu
+
+		for (const match of text.matchAll(pattern)) {
+			const word = match[0]
+			const start = match.index
+
+			if (/\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}/u.test(word)) {
+				// CJK characters are tokenized one by one
+				let offset = start
+				for (const char of word) {
+					tokens.push({ start: offset, end: offset + char.length, wordStart: true })
+					offset += char.length
+				}
+				continue
+			}
+
+			const pieceLength = /\p{N}/u.test(word) ? 1 : MAX_PIECE_LENGTH
+			for (let i = 0; i < word.length; i += pieceLength) {
+				tokens.push({
+					start: start + i,
+					end: start + Math.min(i + pieceLength, word.length),
+					wordStart: i === 0,
+				})
+			}
+		}
+
+		return tokens
+	}
+}
+
+export const defaultTokenizer: Tokenizer = new BertTokenizer()
+
+/**
+ * Count tokens in text using the default tokenizer
+ */
+export function countTokens(text: string, tokenizer: Tokenizer = defaultTokenizer): number {
+	return tokenizer.tokenize(text).length
+}
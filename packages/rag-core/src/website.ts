@@ -0,0 +1,587 @@
+import { Gunzip, strFromU8 } from 'fflate'
+
+import { extractDocument } from './extraction'
+import { sha256Hex } from './hash'
+import { decodeEntities } from './markup'
+import { extractReadableContent } from './readability'
+import { verifyHubSignature } from './source-connector'
+
+import type { Document } from '@repo/rag-types'
+import type { SourceConnector, SourceEnv, SourceEvent, SourceState } from './source-connector'
+
+export const DEFAULT_USER_AGENT = 'RagCrawler/1.0'
+
+// Pages above this size are skipped rather than downloaded into the worker
+const DEFAULT_MAX_PAGE_BYTES = 10 * 1024 * 1024
+
+const DEFAULT_MAX_PAGES = 1000
+
+// Sitemap indexes nested deeper than this are not followed
+const MAX_SITEMAP_NESTING = 3
+
+// The sitemap protocol's limit, for the downloaded and the gunzipped file alike
+const DEFAULT_MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMETERS = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|_ga)$/i
+
+export interface WebsiteConnectorConfig {
+	/** Sent with every request and matched against robots.txt groups */
+	userAgent?: string
+	maxPageBytes?: number
+	maxSitemapBytes?: number
+	fetch?: typeof fetch
+}
+
+/**
+ * Validators of the last fetch of a page, sent back so unchanged pages are
+ * answered with 304 Not Modified
+ */
+export interface PageValidators {
+	etag?: string
+	/** ISO date of the Last-Modified header */
+	lastModified?: string
+}
+
+export type WebPageResult =
+	| { status: 'fetched'; document: Document }
+	| { status: 'unchanged' }
+	/** robots.txt or the page's robots meta tag keep it out of the index */
+	| { status: 'disallowed'; reason: 'robots' | 'noindex' }
+	/** 404 or 410 */
+	| { status: 'gone' }
+	| { status: 'skipped'; reason: string }
+
+export interface SiteCrawlOptions {
+	/** Pages outside this URL's path are left out, and depth is counted from it */
+	rootUrl: string
+	/** Sitemap or sitemap index; the Sitemap lines of robots.txt, else /sitemap.xml, by default */
+	sitemapUrl?: string
+	/** Path segments a page may be below the root, unlimited by default */
+	maxDepth?: number
+	/** Hosts pages may be on, subdomains included; the root's host by default */
+	allowedDomains?: string[]
+	maxPages?: number
+}
+
+export interface WebsiteConnector {
+	/** Fetch a page, conditionally when validators of an earlier fetch are given */
+	fetchPage(url: string, validators?: PageValidators): Promise<WebPageResult>
+	/** Pages of a site from its sitemaps, within the crawl's limits and robots.txt */
+	listSitePages(options: SiteCrawlOptions): Promise<string[]>
+}
+
+interface PageContent {
+	text: string
+	metadata: Record<string, any>
+	canonicalUrl?: string
+}
+
+export interface RobotsRules {
+	rules: Array<{ allow: boolean; pattern: string }>
+	sitemaps: string[]
+}
+
+export interface SitemapEntries {
+	pages: Array<{ url: string; lastModified?: string }>
+	/** Sitemaps listed by a sitemap index */
+	sitemaps: string[]
+}
+
+/**
+ * URL with the fragment, tracking parameters and parameter order normalized
+ * away, so one page has one URL however it was linked
+ */
+export function normalizeUrl(url: string): string {
+	const parsed = new URL(url)
+	parsed.hash = ''
+
+	const parameters = [...parsed.searchParams].filter(([name]) => !TRACKING_PARAMETERS.test(name))
+	parameters.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+	parsed.search = new URLSearchParams(parameters).toString()
+
+	return parsed.toString()
+}
+
+/**
+ * Document id of a page, from its canonical URL: the same page gets the same
+ * id on every fetch, short enough for Vectorize's 64 byte limit
+ */
+export async function websiteDocumentId(url: string): Promise<string> {
+	return `website-${(await sha256Hex(normalizeUrl(url))).slice(0, 32)}`
+}
+
+/**
+ * Rules of the robots.txt group for `userAgent`: the groups naming its product
+ * token, else the `*` groups
+ */
+export function parseRobotsTxt(text: string, userAgent = DEFAULT_USER_AGENT): RobotsRules {
+	const token = userAgent.split('/')[0].toLowerCase()
+	const groups: Array<{ agents: string[]; rules: RobotsRules['rules'] }> = []
+	const sitemaps: string[] = []
+	let group: (typeof groups)[number] | undefined
+	let inRules = false
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*/, '').trim()
+		const separator = line.indexOf(':')
+		if (separator < 0) {
+			continue
+		}
+		const field = line.slice(0, separator).trim().toLowerCase()
+		const value = line.slice(separator + 1).trim()
+
+		if (field === 'sitemap') {
+			sitemaps.push(value)
+		} else if (field === 'user-agent') {
+			// Consecutive user-agent lines share the rules that follow them
+			if (!group || inRules) {
+				group = { agents: [], rules: [] }
+				groups.push(group)
+				inRules = false
+			}
+			group.agents.push(value.toLowerCase())
+		} else if ((field === 'allow' || field === 'disallow') && group) {
+			inRules = true
+			if (value) {
+				group.rules.push({ allow: field === 'allow', pattern: value })
+			}
+		}
+	}
+
+	const named = groups.filter((candidate) =>
+		candidate.agents.some((agent) => agent !== '*' && token.includes(agent))
+	)
+	const matching = named.length > 0 ? named : groups.filter((g) => g.agents.includes('*'))
+
+	return { rules: matching.flatMap((g) => g.rules), sitemaps }
+}
+
+/**
+ * Whether robots.txt lets a URL be crawled: the longest matching rule decides,
+ * Allow winning ties, and URLs no rule matches are allowed
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+	const { pathname, search } = new URL(url)
+	const path = `${pathname}${search}`
+
+	let decision = { allow: true, length: -1 }
+	for (const rule of robots.rules) {
+		if (robotsPattern(rule.pattern).test(path)) {
+			const length = rule.pattern.length
+			if (length > decision.length || (length === decision.length && rule.allow)) {
+				decision = { allow: rule.allow, length }
+			}
+		}
+	}
+	return decision.allow
+}
+
+/**
+ * Page URLs of a sitemap, or the sitemaps of a sitemap index
+ */
+export function parseSitemap(xml: string): SitemapEntries {
+	const loc = (entry: string) => /<loc>\s*([\s\S]*?)\s*<\/loc>/i.exec(entry)?.[1]
+	const text = (value: string) => decodeEntities(value.replace(/^<!\[CDATA\[|\]\]>$/g, ''))
+
+	const sitemaps = Array.from(xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi), (entry) =>
+		loc(entry[1])
+	)
+		.filter((url) => url !== undefined)
+		.map(text)
+
+	const pages = Array.from(xml.matchAll(/<url>([\s\S]*?)<\/url>/gi), (entry) => {
+		const url = loc(entry[1])
+		const lastModified = /<lastmod>\s*([\s\S]*?)\s*<\/lastmod>/i.exec(entry[1])?.[1]
+		return url ? { url: text(url), lastModified } : undefined
+	}).filter((page) => page !== undefined)
+
+	return { pages, sitemaps }
+}
+
+/**
+ * Web pages over HTTP, crawled politely: robots.txt is honoured, pages are
+ * fetched conditionally on their validators, and only the main content of
+ * HTML pages is kept
+ */
+export function createWebsiteConnector(config: WebsiteConnectorConfig = {}): WebsiteConnector {
+	const userAgent = config.userAgent ?? DEFAULT_USER_AGENT
+	const maxPageBytes = config.maxPageBytes ?? DEFAULT_MAX_PAGE_BYTES
+	const maxSitemapBytes = config.maxSitemapBytes ?? DEFAULT_MAX_SITEMAP_BYTES
+	const fetcher = config.fetch ?? fetch
+
+	// robots.txt of each origin, read once per connector
+	const robotsFiles = new Map<string, Promise<RobotsRules>>()
+
+	function robotsOf(origin: string): Promise<RobotsRules> {
+		let robots = robotsFiles.get(origin)
+		if (!robots) {
+			robots = fetcher(`${origin}/robots.txt`, { headers: { 'User-Agent': userAgent } }).then(
+				async (response) => {
+					if (response.status >= 500) {
+						// The site may be down; crawling it blind could fetch what it disallows
+						throw new Error(`robots.txt request failed: ${response.status}`)
+					}
+					// No robots.txt, or one we may not read, allows everything
+					return response.ok ? parseRobotsTxt(await response.text(), userAgent) : parseRobotsTxt('')
+				}
+			)
+			robotsFiles.set(origin, robots)
+		}
+		return robots
+	}
+
+	async function isAllowed(url: string): Promise<boolean> {
+		return isAllowedByRobots(await robotsOf(new URL(url).origin), url)
+	}
+
+	async function fetchSitemap(url: string): Promise<SitemapEntries> {
+		const response = await fetcher(url, { headers: { 'User-Agent': userAgent } })
+		if (response.status === 404) {
+			return { pages: [], sitemaps: [] }
+		}
+		if (!response.ok) {
+			throw new Error(`Sitemap request failed: ${response.status}`)
+		}
+
+		const bytes = await readBody(response, maxSitemapBytes)
+		// Gzipped sitemaps (sitemap.xml.gz), unless the server already decoded them
+		const xml =
+			bytes && bytes[0] === 0x1f && bytes[1] === 0x8b ? gunzip(bytes, maxSitemapBytes) : bytes
+		if (!xml) {
+			throw new Error(`Sitemap ${url} is larger than ${maxSitemapBytes} bytes`)
+		}
+		return parseSitemap(strFromU8(xml))
+	}
+
+	async function pageText(
+		bytes: Uint8Array,
+		contentType: string,
+		url: string
+	): Promise<PageContent | 'noindex' | null> {
+		if (/html/i.test(contentType)) {
+			const content = extractReadableContent(new TextDecoder().decode(bytes), url)
+			if (content.noIndex) {
+				return 'noindex'
+			}
+			return {
+				text: content.markdown,
+				canonicalUrl: content.canonicalUrl,
+				metadata: {
+					title: content.title,
+					description: content.description,
+					siteName: content.siteName,
+					language: content.language,
+				},
+			}
+		}
+
+		if (/^text\/(plain|markdown)/i.test(contentType)) {
+			return { text: new TextDecoder().decode(bytes), metadata: {} }
+		}
+
+		try {
+			return { text: (await extractDocument(bytes)).text, metadata: {} }
+		} catch {
+			// Images, archives and other formats without text
+			return null
+		}
+	}
+
+	return {
+		async fetchPage(url, validators = {}) {
+			if (!(await isAllowed(url))) {
+				return { status: 'disallowed', reason: 'robots' }
+			}
+
+			const headers: Record<string, string> = {
+				'User-Agent': userAgent,
+				Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+			}
+			if (validators.etag) {
+				headers['If-None-Match'] = validators.etag
+			}
+			if (validators.lastModified) {
+				headers['If-Modified-Since'] = new Date(validators.lastModified).toUTCString()
+			}
+
+			const response = await fetcher(url, { headers })
+			if (response.status === 304) {
+				return { status: 'unchanged' }
+			}
+			if (response.status === 404 || response.status === 410) {
+				return { status: 'gone' }
+			}
+			if (!response.ok) {
+				// The status stays in the message so 429 and 503 are retried
+				throw new Error(`Website request failed: ${response.status}`)
+			}
+			// Content-Length is checked first so large pages are not downloaded at all
+			const bytes =
+				Number(response.headers.get('Content-Length') ?? 0) > maxPageBytes
+					? null
+					: await readBody(response, maxPageBytes)
+			if (!bytes) {
+				return { status: 'skipped', reason: 'too large' }
+			}
+
+			// Redirects are followed, the page is where they ended
+			const pageUrl = response.url || url
+			const contentType = response.headers.get('Content-Type') ?? 'text/html'
+			const page = await pageText(bytes, contentType, pageUrl)
+			if (page === 'noindex') {
+				return { status: 'disallowed', reason: 'noindex' }
+			}
+			if (!page?.text.trim()) {
+				return { status: 'skipped', reason: 'no text' }
+			}
+
+			// A canonical URL on another host could pass someone else's page off as this one
+			const canonicalUrl = normalizeUrl(
+				page.canonicalUrl && new URL(page.canonicalUrl).host === new URL(pageUrl).host
+					? page.canonicalUrl
+					: pageUrl
+			)
+			const lastModified = response.headers.get('Last-Modified')
+
+			return {
+				status: 'fetched',
+				document: {
+					id: await websiteDocumentId(canonicalUrl),
+					text: page.text,
+					source: 'website',
+					url: canonicalUrl,
+					metadata: {
+						...page.metadata,
+						title: page.metadata.title ?? new URL(canonicalUrl).pathname,
+						acl: ['public'],
+						canonicalUrl,
+						contentType,
+						etag: response.headers.get('ETag') ?? undefined,
+						lastModified: lastModified ? new Date(lastModified).toISOString() : undefined,
+					},
+				},
+			}
+		},
+
+		async listSitePages(options) {
+			const root = new URL(options.rootUrl)
+			const rootPath = root.pathname.replace(/\/?$/, '/')
+			const domains = (options.allowedDomains ?? [root.hostname]).map((domain) =>
+				domain.toLowerCase()
+			)
+			const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+
+			const inScope = (url: URL) => {
+				if (!['http:', 'https:'].includes(url.protocol)) {
+					return false
+				}
+				if (
+					!domains.some((domain) => url.hostname === domain || url.hostname.endsWith(`.${domain}`))
+				) {
+					return false
+				}
+				if (!url.pathname.startsWith(rootPath) && url.pathname !== root.pathname) {
+					return false
+				}
+				const depth = url.pathname.slice(rootPath.length).split('/').filter(Boolean).length
+				return options.maxDepth === undefined || depth <= options.maxDepth
+			}
+
+			const robotsSitemaps = options.sitemapUrl ? [] : (await robotsOf(root.origin)).sitemaps
+			let level = options.sitemapUrl
+				? [options.sitemapUrl]
+				: robotsSitemaps.length > 0
+					? robotsSitemaps
+					: [`${root.origin}/sitemap.xml`]
+
+			const seenSitemaps = new Set<string>()
+			const pages = new Set<string>()
+
+			for (let nesting = 0; nesting < MAX_SITEMAP_NESTING && level.length > 0; nesting++) {
+				const next: string[] = []
+				for (const sitemapUrl of level) {
+					if (seenSitemaps.has(sitemapUrl) || pages.size >= maxPages) {
+						continue
+					}
+					seenSitemaps.add(sitemapUrl)
+
+					const entries = await fetchSitemap(sitemapUrl)
+					next.push(...entries.sitemaps)
+					for (const page of entries.pages) {
+						let url: URL
+						try {
+							url = new URL(page.url)
+						} catch {
+							continue
+						}
+						if (pages.size < maxPages && inScope(url) && (await isAllowed(url.toString()))) {
+							pages.add(normalizeUrl(url.toString()))
+						}
+					}
+				}
+				level = next
+			}
+
+			return [...pages]
+		},
+	}
+}
+
+/**
+ * Websites as a webhook source. An event with `crawl: 'sitemap'` metadata
+ * queues every page of the site's sitemaps, within the `sitemapUrl`,
+ * `maxDepth`, `allowedDomains` and `maxPages` it sets; other events fetch one
+ * page, conditionally on the validators of its last ingest. Requests must be
+ * signed with WEBSITE_WEBHOOK_SECRET when it is set.
+ */
+export function websiteSource(env: SourceEnv): SourceConnector<Document> {
+	// One per source, so a batch of pages from one site reads its robots.txt once
+	const connector = createWebsiteConnector({ userAgent: env.WEBSITE_USER_AGENT })
+
+	const urlOf = (event: SourceEvent) => event.resourceUrl || event.resourceId
+
+	return {
+		sourceType: 'website',
+
+		verifyWebhook(request, body) {
+			return verifyHubSignature(request, body, env.WEBSITE_WEBHOOK_SECRET)
+		},
+
+		async listChanges(event) {
+			const { metadata } = event
+			if (metadata.crawl !== 'sitemap') {
+				return null
+			}
+
+			const pages = await connector.listSitePages({
+				rootUrl: urlOf(event),
+				sitemapUrl: metadata.sitemapUrl,
+				maxDepth: metadata.maxDepth,
+				allowedDomains: metadata.allowedDomains,
+				maxPages: metadata.maxPages,
+			})
+
+			return {
+				events: pages.map((url) => ({
+					eventType: 'updated' as const,
+					resourceId: url,
+					resourceUrl: url,
+					metadata: {},
+				})),
+				deletedDocumentIds: [],
+				priority: 'low',
+			}
+		},
+
+		async documentId(event, state) {
+			return (await pageDocumentId(urlOf(event), state)).documentId
+		},
+
+		async fetchResource(event, state) {
+			// Validators of the last ingest make an unchanged page a cheap 304
+			const { documentId, requestKey } = await pageDocumentId(urlOf(event), state)
+			const manifest = await state.manifest(documentId)
+
+			const result = await connector.fetchPage(urlOf(event), {
+				etag: manifest?.metadata.etag,
+				lastModified: manifest?.metadata.lastModified,
+			})
+
+			if (result.status === 'fetched') {
+				// Later requests of the URL find the page under its canonical id
+				return {
+					status: 'fetched',
+					resource: result.document,
+					checkpoint: { key: requestKey, value: result.document.id },
+				}
+			}
+			if (result.status === 'gone' || (result.status === 'disallowed' && manifest)) {
+				// The site removed the page or no longer lets it be indexed
+				return { status: 'gone', documentId }
+			}
+			return { status: 'skipped', reason: 'reason' in result ? result.reason : result.status }
+		},
+
+		// Crawled pages are the ones anyone can read
+		async resolveAcl() {
+			return ['public']
+		},
+
+		toDocument(page, acl) {
+			return { ...page, metadata: { ...page.metadata, acl } }
+		},
+	}
+}
+
+// Document id a URL was last ingested under, kept as a checkpoint of the URL since
+// its canonical URL is only known once fetched; the URL's own id for new pages
+async function pageDocumentId(
+	url: string,
+	state: SourceState
+): Promise<{ documentId: string; requestKey: string }> {
+	const urlId = await websiteDocumentId(url)
+	const requestKey = `pages/${urlId}`
+	return { documentId: (await state.checkpoint(requestKey)) ?? urlId, requestKey }
+}
+
+// The body of a response, or null once it grows beyond maxBytes, which cancels the download
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+	if (!response.body) {
+		return new Uint8Array()
+	}
+
+	const chunks: Uint8Array[] = []
+	let size = 0
+	const reader = response.body.getReader()
+	for (;;) {
+		const { done, value } = await reader.read()
+		if (done) {
+			break
+		}
+		size += value.byteLength
+		if (size > maxBytes) {
+			await reader.cancel()
+			return null
+		}
+		chunks.push(value)
+	}
+	return concatBytes(chunks, size)
+}
+
+// Gunzipped bytes, or null once they grow beyond maxBytes; inflating in small
+// steps stops a gzip bomb before it fills the worker's memory
+function gunzip(bytes: Uint8Array, maxBytes: number): Uint8Array | null {
+	const chunks: Uint8Array[] = []
+	let size = 0
+	const stream = new Gunzip((chunk) => {
+		size += chunk.byteLength
+		chunks.push(chunk)
+	})
+
+	const step = 4 * 1024
+	for (let offset = 0; offset < bytes.byteLength && size <= maxBytes; offset += step) {
+		stream.push(bytes.subarray(offset, offset + step), offset + step >= bytes.byteLength)
+	}
+	return size > maxBytes ? null : concatBytes(chunks, size)
+}
+
+function concatBytes(chunks: Uint8Array[], size: number): Uint8Array {
+	const bytes = new Uint8Array(size)
+	let offset = 0
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset)
+		offset += chunk.byteLength
+	}
+	return bytes
+}
+
+// A robots.txt path pattern: `*` matches anything, a trailing `$` anchors the end
+function robotsPattern(pattern: string): RegExp {
+	const anchored = pattern.endsWith('$')
+	const body = (anchored ? pattern.slice(0, -1) : pattern)
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*')
+	return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
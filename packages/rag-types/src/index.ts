@@ -14,6 +14,13 @@ export interface ChunkMetadata {
 	doc_id: string
 	timestamp: number
 	acl?: string[]
+	/** Heading breadcrumb of the chunk, e.g. "Section > Subsection" */
+	section?: string
+	chunking_strategy?: string
+	/** Values redacted or masked by the DLP policy */
+	redaction_count?: number
+	/** Entity types found by DLP scanning, e.g. email or credit_card */
+	pii_types?: string[]
 }
 
 // Query Types